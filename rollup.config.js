@@ -5,43 +5,64 @@ import { readFileSync } from 'fs'
 const pkg = JSON.parse(readFileSync('./package.json', 'utf-8'))
 const isProduction = process.env.NODE_ENV === 'production'
 
-export default {
-  input: 'src/index.ts',
-  output: [
-    {
-      file: pkg.module,
-      format: 'es',
-      sourcemap: !isProduction
-    },
-    {
-      file: pkg.main,
-      format: 'cjs',
-      sourcemap: !isProduction
-    },
-    {
-      file: './dist/index.umd.js',
-      format: 'umd',
-      name: 'VideoAmbientGlow',
-      sourcemap: !isProduction
-    }
-  ],
-  plugins: [
-    typescript({
-      tsconfig: './tsconfig.json',
-      declaration: true,
-      declarationDir: './dist'
-    }),
-    ...(isProduction
-      ? [
-          terser({
-            compress: {
-              passes: 2
-            },
-            format: {
-              comments: false
-            }
-          })
-        ]
-      : [])
-  ]
-}
+const plugins = [
+  typescript({
+    tsconfig: './tsconfig.json',
+    declaration: true,
+    declarationDir: './dist'
+  }),
+  ...(isProduction
+    ? [
+        terser({
+          compress: {
+            passes: 2
+          },
+          format: {
+            comments: false
+          }
+        })
+      ]
+    : [])
+]
+
+export default [
+  {
+    input: 'src/index.ts',
+    output: [
+      {
+        file: pkg.module,
+        format: 'es',
+        sourcemap: !isProduction
+      },
+      {
+        file: pkg.main,
+        format: 'cjs',
+        sourcemap: !isProduction
+      },
+      {
+        file: './dist/index.umd.js',
+        format: 'umd',
+        name: 'VideoAmbientGlow',
+        sourcemap: !isProduction
+      }
+    ],
+    plugins
+  },
+  // Debug overlay - its own entry so the main bundle stays without it
+  {
+    input: 'src/debug.ts',
+    output: [
+      {
+        file: './dist/debug.js',
+        format: 'es',
+        sourcemap: !isProduction
+      },
+      {
+        file: './dist/debug.cjs',
+        format: 'cjs',
+        sourcemap: !isProduction
+      }
+    ],
+    plugins
+  }
+]
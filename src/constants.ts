@@ -19,7 +19,33 @@ export const DEFAULT_OPTIONS = {
   downscale: 0.08,
   updateInterval: 98,
   blendOld: 0.85,
-  blendNew: 0.15
+  blendNew: 0.15,
+  smoothingMs: 603, // Same as blendNew 0.15 at a 98ms updateInterval
+  syncToVideoFrames: true,
+  sceneCutThreshold: 0,
+  worker: false,
+  renderer: 'canvas2d',
+  blurMode: 'css',
+  blendPrecision: 'uint8',
+  adaptive: false,
+  frameBudgetMs: 2,
+  fillFullscreen: true,
+  letterbox: false,
+  letterboxThreshold: 0.1,
+  sampleRegion: null,
+  excludeRegions: [],
+  sampling: 'frame',
+  edgeDepth: 0.15,
+  edgeFalloff: 1,
+  zones: null,
+  paletteSize: 5,
+  colorChangeThreshold: 10,
+  cssVariables: null,
+  themeColor: false,
+  taintedFallback: { type: 'hide' },
+  logger: null,
+  logLevel: null,
+  stats: false
 } as const
 
 /**
@@ -36,6 +62,13 @@ export const VIDEO_READY_STATE_CURRENT_DATA = 2
  */
 export const RESIZE_DEBOUNCE_MS = 100
 
+/**
+ * Default time in ms all glows on a page may spend drawing per frame.
+ *
+ * @internal
+ */
+export const SHARED_FRAME_BUDGET_MS = 8
+
 /**
  * Canvas CSS styles.
  *
@@ -56,15 +89,212 @@ export const CANVAS_STYLE = {
 export const CANVAS_TRANSFORM = 'translate(-50%, -50%)'
 
 /**
- * Canvas context options.
+ * Canvas context options. Keeps alpha so the padding around a baked blur
+ * (`blurMode: 'canvas'`) can fade out.
  *
  * @internal
  */
 export const CANVAS_CONTEXT_OPTIONS = {
-  willReadFrequently: true,
-  alpha: false
+  willReadFrequently: true
+} as const
+
+/**
+ * WebGL context options for the WebGL renderer.
+ *
+ * @internal
+ */
+export const WEBGL_CONTEXT_OPTIONS: WebGLContextAttributes = {
+  alpha: true,
+  antialias: false,
+  depth: false,
+  stencil: false,
+  premultipliedAlpha: false
+}
+
+/**
+ * Tuning for letterbox/pillarbox detection (`letterbox: true`). Frames are
+ * probed at PROBE_WIDTH px wide every PROBE_INTERVAL_MS, and bars only
+ * grow once every probe in the last WINDOW agrees. They shrink right away
+ * when picture shows up in them.
+ *
+ * @internal
+ */
+export const LETTERBOX = {
+  PROBE_WIDTH: 64,
+  PROBE_INTERVAL_MS: 500,
+  WINDOW: 6,
+  /** Largest bar per side, as a fraction of the frame. Bigger is a dark scene. */
+  MAX_BORDER: 0.35,
+  /** Largest spread (0-255) between a bar row's darkest and brightest pixel. */
+  MAX_SPREAD: 12,
+  /** Crop changes smaller than this (fraction of the frame) are ignored. */
+  MIN_CHANGE: 0.01
+} as const
+
+/**
+ * Tuning for the adaptive quality governor (`adaptive: true`).
+ * Each level scales downscale by DOWNSCALE_STEP and updateInterval by
+ * INTERVAL_STEP. Stepping down takes a few bad samples, stepping back up
+ * takes many good ones, so it doesn't oscillate.
+ *
+ * @internal
+ */
+export const ADAPTIVE_QUALITY = {
+  MAX_LEVEL: 4,
+  DOWNSCALE_STEP: 0.75,
+  INTERVAL_STEP: 1.35,
+  MIN_DOWNSCALE: 0.02,
+  MAX_UPDATE_INTERVAL: 500,
+  /** Smoothing for the draw cost average (weight of the newest sample). */
+  COST_SMOOTHING: 0.25,
+  /** Consecutive over-budget draws before stepping down. */
+  DOWNGRADE_AFTER: 5,
+  /** Consecutive draws with headroom before stepping back up. */
+  UPGRADE_AFTER: 40,
+  /** Cost below budget * HEADROOM counts as headroom. */
+  HEADROOM: 0.5,
+  /** A frame gap this many times the shortest seen counts as dropped. */
+  DROPPED_FRAME_FACTOR: 1.5,
+  /** Dropped frames between two draws that count as over budget. */
+  DROPPED_FRAME_LIMIT: 2
+} as const
+
+/**
+ * Zone grid and gradient shape for the CSS gradient renderer.
+ * SPREAD is how far each zone's gradient reaches, in cells.
+ *
+ * @internal
+ */
+export const CSS_GRADIENT_GRID = {
+  COLUMNS: 4,
+  ROWS: 3,
+  SPREAD: 1.5
+} as const
+
+/**
+ * Tainted video fallback. Posters are sampled at SAMPLE_SCALE px per
+ * gradient zone.
+ *
+ * @internal
+ */
+export const TAINTED_FALLBACK = {
+  SAMPLE_SCALE: 8
+} as const
+
+/**
+ * Runtime stats (`stats`). Draw times are averaged over the last
+ * SAMPLE_COUNT draws, updates per second counted over RATE_WINDOW_MS.
+ *
+ * @internal
+ */
+export const STATS = {
+  SAMPLE_COUNT: 120,
+  RATE_WINDOW_MS: 1000
+} as const
+
+/**
+ * Debug overlay (`video-ambient-glow/debug`). Sits MARGIN px in from the
+ * video's corner. Frame rate and draw cost are averaged over
+ * RATE_WINDOW_MS.
+ *
+ * @internal
+ */
+export const DEBUG_OVERLAY = {
+  PREVIEW_WIDTH: 160,
+  MARGIN: 8,
+  RATE_WINDOW_MS: 1000,
+  Z_INDEX: '2147483647',
+  SAMPLE_COLOR: '#4ade80',
+  EXCLUDED_COLOR: 'rgba(248, 113, 113, 0.6)',
+  EDGE_COLOR: 'rgba(96, 165, 250, 0.35)'
+} as const
+
+/**
+ * Log level severities - a message is logged if its level is at least the
+ * configured one.
+ *
+ * @internal
+ */
+export const LOG_LEVELS = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4
 } as const
 
+/**
+ * Ambient zone defaults (`zones`). Zones are averaged from a copy of the
+ * frame SAMPLE_WIDTH px wide, DEPTH deep into the frame from each edge.
+ *
+ * @internal
+ */
+export const ZONES = {
+  SAMPLE_WIDTH: 64,
+  TOP: 12,
+  RIGHT: 8,
+  BOTTOM: 12,
+  LEFT: 8,
+  DEPTH: 0.15
+} as const
+
+/**
+ * Palette extraction. The quantizer looks at up to MAX_SAMPLES pixels of
+ * the glow buffer, and the palette behind `colorchange` and the CSS
+ * variables is refreshed at most every UPDATE_INTERVAL_MS.
+ *
+ * @internal
+ */
+export const PALETTE = {
+  MAX_SAMPLES: 2048,
+  UPDATE_INTERVAL_MS: 500
+} as const
+
+/**
+ * Time constant in ms the `themeColor` tag eases toward the glow's
+ * average color with, so browser chrome doesn't flash on cuts.
+ *
+ * @internal
+ */
+export const THEME_COLOR_SMOOTHING_MS = 1500
+
+/**
+ * Default name prefix for the `cssVariables` custom properties.
+ *
+ * @internal
+ */
+export const CSS_VARIABLE_PREFIX = '--ambient-glow'
+
+/**
+ * WebSocket zone sink settings. Updates are skipped while more than
+ * MAX_BUFFERED_BYTES are still queued, so slow links get the latest colors
+ * instead of a growing backlog.
+ *
+ * @internal
+ */
+export const WEBSOCKET_SINK = {
+  OPEN: 1,
+  MAX_BUFFERED_BYTES: 65536
+} as const
+
+/**
+ * Mask that fades the glow out at its edges when there's no blur to
+ * soften them (CSS gradient renderer).
+ *
+ * @internal
+ */
+export const GLOW_EDGE_MASK =
+  'radial-gradient(closest-side, #000 60%, transparent 100%)'
+
+/**
+ * Transparent margin around the glow buffer with `blurMode: 'canvas'`, in
+ * blur radii per side. A baked blur can only spread as far as the buffer
+ * goes, and 2.5 radii hold all but a sliver of it.
+ *
+ * @internal
+ */
+export const BLUR_PADDING = 2.5
+
 /**
  * Min canvas size.
  *
@@ -0,0 +1,12 @@
+/**
+ * @module debug
+ * @packageDocumentation
+ *
+ * Debug entry point (`video-ambient-glow/debug`) - an overlay HUD for
+ * tuning glows on real devices. Kept out of the main entry so production
+ * bundles don't carry it.
+ */
+
+export { createDebugOverlay, type GlowDebugOverlay } from './lib/debugOverlay'
+
+export type { GlowDebugOverlayOptions, GlowDebugInfo } from './types'
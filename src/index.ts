@@ -6,27 +6,100 @@
  * Unlike YouTube's immersive player, this doesn't need a thumbnail spritesheet service.
  *
  * Modular structure:
- * - `lib/` - Internal modules (canvas, frame processing, event handling)
+ * - `lib/` - Internal modules (canvas, renderers, frame processing, event handling)
  * - `constants.ts` - Config constants
  * - `types.ts` - Type definitions
  */
 
-import type { GlowOptions, NormalizedGlowOptions } from './types'
+import type {
+  GlowOptions,
+  NormalizedGlowOptions,
+  GlowEventMap,
+  GlowQuality,
+  GlowSchedulerOptions,
+  GlowPauseReason,
+  GlowRenderState,
+  GlowLetterbox,
+  GlowZoneSink,
+  ZoneColorsEvent,
+  GlowColor,
+  GlowRGB,
+  GlowStopReason,
+  GlowResizeEvent,
+  GlowColorCue,
+  GlowLoggingOptions,
+  GlowLogState,
+  GlowStats,
+  GlowDebugInfo
+} from './types'
 import {
   DEFAULT_OPTIONS,
   RESIZE_DEBOUNCE_MS,
+  PALETTE,
+  CSS_VARIABLE_PREFIX,
+  THEME_COLOR_SMOOTHING_MS,
   MIN_CANVAS_DIMENSION,
-  MIN_VIDEO_DIMENSION
+  MIN_VIDEO_DIMENSION,
+  LETTERBOX
 } from './constants'
 import {
-  createGlowCanvas,
+  ensureParentPositioning,
   createTempCanvas,
   getCanvasContext,
-  updateCanvasFilterStyles,
-  ensureParentPositioning,
-  drawAndBlendFrame
+  blendToSmoothingMs,
+  getBlendWeights,
+  sampleFrame,
+  measureFrameBorders,
+  getSampleRect,
+  resolveExcludeRegions,
+  createBorderDetector,
+  createRenderer,
+  type GlowRenderer,
+  supportsVideoFrameCallback,
+  isNewVideoFrame,
+  createEmitter,
+  createGlowLog,
+  configureDefaultLogging,
+  createStatsCollector,
+  getBlurPadding,
+  getBufferBlurRadius,
+  createQualityGovernor,
+  getEffectiveQuality,
+  getSharedScheduler,
+  createRenderState,
+  isInPictureInPicture,
+  isHiddenByFullscreen,
+  getFullscreenContainer,
+  getFillLayout,
+  applyGlowLayout,
+  createZoneSampler,
+  normalizeZoneOptions,
+  toZoneColors,
+  extractPalette,
+  getPaletteDistance,
+  createCssVariableWriter,
+  getGlowCssVariables,
+  getAverageColor,
+  toHexColor,
+  getSharedThemeColor,
+  getVisibleArea,
+  createFallbackPainter,
+  isTaintedError,
+  fillZones,
+  getCueAt,
+  loadPosterZones,
+  type FallbackPainter,
+  getContentGeometry,
+  isFullFrame,
+  type ContentRect,
+  type ScheduledGlow,
+  type ThemeColorSource,
+  type Listener
 } from './lib'
 
+/** Glows created on the page so far, for instance ids. */
+let instanceCount = 0
+
 /**
  * Creates a YouTube web player style glow behind HTML5 videos.
  * Extracts colors from frames, blends them, and renders as a blurred backdrop.
@@ -47,25 +120,108 @@ import {
  */
 export class AmbientGlow {
   private readonly video: HTMLVideoElement
-  private readonly canvas: HTMLCanvasElement
-  private readonly ctx: CanvasRenderingContext2D
-  private readonly tempCanvas: HTMLCanvasElement
-  private readonly tempCtx: CanvasRenderingContext2D
+  private readonly glowElement: HTMLElement
+  private readonly renderer: GlowRenderer
 
+  private userOptions: GlowOptions
   private options: NormalizedGlowOptions
-  private lastImage: ImageData | null = null
+  private lastBlendTime = 0
   private isLooping = false
-  private animationFrameId: number | null = null
+  private usesSharedLoop = false
+  private needsRedraw = false
+  private videoFrameCallbackId: number | null = null
+  private lastFrameMetadata: VideoFrameCallbackMetadata | null = null
   private lastUpdateTime = 0
   private resizeTimeout: number | null = null
-  private resizeRafId: number | null = null
   private readonly boundHandlers: Map<string, EventListener> = new Map()
+  private readonly documentHandlers: Map<string, EventListener> = new Map()
+  private readonly instanceId = ++instanceCount
+  private readonly log = createGlowLog({
+    getLogger: () => this.options.logger,
+    getLevel: () => this.options.logLevel,
+    getContext: () => ({
+      instanceId: this.instanceId,
+      src: this.video.currentSrc,
+      state: this.getLogState()
+    })
+  })
+  private readonly emitter = createEmitter<GlowEventMap>((type, error) =>
+    this.log.warn(`AmbientGlow: Listener for "${String(type)}" threw`, error)
+  )
   private isDestroyed = false
-  private resizeObserver: ResizeObserver | null = null
-  private intersectionObserver: IntersectionObserver | null = null
-  private isVisible = true
+  private readonly scheduler = getSharedScheduler()
+  private readonly scheduled: ScheduledGlow
+  private readonly renderState = createRenderState()
   private lastRect: { width: number; height: number; time: number } | null =
     null
+  private displayWidth = 0
+  private lastSize: GlowResizeEvent | null = null
+  private fullscreenContainer: Element | null = null
+  private contentSource: ContentRect | null = null
+  private sampleSource: ContentRect | null = null
+  private readonly borderDetector = createBorderDetector()
+  private probeCtx: CanvasRenderingContext2D | null = null
+  private lastProbeTime = 0
+  private canReadFrames = true
+  private readonly zoneSampler = createZoneSampler()
+  private lastPalette: GlowColor[] | null = null
+  private lastColorCheck = 0
+  private readonly cssVariableWriter = createCssVariableWriter()
+  private readonly themeColorSource: ThemeColorSource = {
+    getProminence: () =>
+      this.renderState.shouldRender ? getVisibleArea(this.video) : 0
+  }
+  private themeColor: GlowRGB | null = null
+  private lastThemeColorTime = 0
+  private readonly fallbackPainter: FallbackPainter
+  private isTainted = false
+  private fallbackCue: GlowColorCue | null = null
+  private posterRequest = 0
+  private readonly zoneSinks = new Map<
+    GlowZoneSink,
+    Listener<ZoneColorsEvent>
+  >()
+  private readonly governor = createQualityGovernor()
+  private quality: { downscale: number; updateInterval: number }
+  private lastLoopTime = 0
+  private lastPresentedFrames = -1
+  // Blur margin per side of the glow buffer
+  private bufferPadding = 0
+  private readonly stats = createStatsCollector()
+  private lastError: Error | null = null
+
+  /**
+   * Configures the scheduler shared by every glow on the page (one rAF
+   * loop, one ResizeObserver, one IntersectionObserver).
+   *
+   * @param options - Scheduler settings. See {@link GlowSchedulerOptions}.
+   *
+   * @example
+   * ```typescript
+   * // Catalog page with lots of previews - keep glows to 4ms a frame
+   * AmbientGlow.configureScheduler({ frameBudgetMs: 4 });
+   * ```
+   */
+  public static configureScheduler(options: GlowSchedulerOptions): void {
+    if (options.frameBudgetMs !== undefined) {
+      getSharedScheduler().setFrameBudget(options.frameBudgetMs)
+    }
+  }
+
+  /**
+   * Sets where glows without a `logger` option send diagnostics, and the
+   * level for glows without a `logLevel` option.
+   *
+   * @param options - Page-wide settings. See {@link GlowLoggingOptions}.
+   *
+   * @example
+   * ```typescript
+   * AmbientGlow.configureLogging({ logger: myLogger, level: 'info' });
+   * ```
+   */
+  public static configureLogging(options: GlowLoggingOptions): void {
+    configureDefaultLogging(options)
+  }
 
   /**
    * Creates a glow instance attached to a video element.
@@ -86,15 +242,7 @@ export class AmbientGlow {
    * ```
    */
   constructor(video: HTMLVideoElement, options: GlowOptions = {}) {
-    this.video = video
-    this.options = this.normalizeOptions(options)
-
-    this.canvas = createGlowCanvas(this.options)
-    this.ctx = getCanvasContext(this.canvas, 'canvas')
-
-    this.tempCanvas = createTempCanvas()
-    this.tempCtx = getCanvasContext(this.tempCanvas, 'temporary canvas')
-
+    // Checked first, so nothing is created that a throw would leak
     const parent = video.parentElement
     if (!parent) {
       throw new Error(
@@ -102,16 +250,96 @@ export class AmbientGlow {
       )
     }
 
+    this.video = video
+    this.userOptions = { ...options }
+    this.options = this.normalizeOptions(this.userOptions)
+    this.quality = getEffectiveQuality(this.options, 0)
+
+    this.renderer = createRenderer(this.options, {
+      onSceneChange: difference => this.emitSceneChange(difference),
+      onError: error => this.reportError(error),
+      // The restored context starts out blank, even with the video paused
+      onRestore: () => {
+        this.needsRedraw = true
+        this.scheduler.wake()
+      }
+    })
+    this.glowElement = this.renderer.element
+    this.fallbackPainter = createFallbackPainter(this.glowElement)
+
     ensureParentPositioning(parent)
-    parent.insertBefore(this.canvas, video)
+    parent.insertBefore(this.glowElement, video)
+
+    // Loop and observers are shared with every other glow on the page
+    this.scheduled = {
+      target: video,
+      wantsFrames: () => this.usesSharedLoop || this.needsRedraw,
+      update: time => this.handleSharedFrame(time),
+      resize: () => this.debouncedResize(),
+      setVisible: isVisible => this.setPauseReason('offscreen', !isVisible)
+    }
+    this.scheduler.add(this.scheduled)
 
     this.setupEventListeners()
     this.resizeCanvas()
     this.applyFilterStyles() // Apply initial styles
+
+    if (this.options.renderer === 'webgl' && this.renderer.type !== 'webgl') {
+      this.log.info('AmbientGlow: WebGL is unavailable, using canvas2d')
+    }
+    this.warnIgnoredOptions()
+    this.log.debug(
+      `AmbientGlow: Created with the ${this.renderer.type} renderer`
+    )
+  }
+
+  /**
+   * Checks if the renderer fills in `excludeRegions`. WebGL frames never
+   * reach the CPU, so it can't.
+   *
+   * @returns True if excluded regions are left out of the glow.
+   * @private
+   */
+  private appliesExcludeRegions(): boolean {
+    return this.renderer.type !== 'webgl'
+  }
+
+  /**
+   * Warns once about options the renderer can't apply.
+   * @private
+   */
+  private warnIgnoredOptions(): void {
+    const { excludeRegions, sceneCutThreshold } = this.options
+    const hasRegions =
+      typeof excludeRegions === 'function' || excludeRegions.length > 0
+    if (hasRegions && !this.appliesExcludeRegions()) {
+      this.log.warn(
+        `AmbientGlow: The ${this.renderer.type} renderer ignores excludeRegions`
+      )
+    }
+    if (sceneCutThreshold > 0 && this.renderer.type === 'webgl') {
+      this.log.warn('AmbientGlow: The webgl renderer ignores sceneCutThreshold')
+    }
+    if (this.options.cssVariables || this.options.themeColor) {
+      this.warnWorkerPixels()
+    }
+  }
+
+  /**
+   * Warns once that palette-driven features do nothing with `worker` on -
+   * the blended pixels they read never leave the worker.
+   * @private
+   */
+  private warnWorkerPixels(): void {
+    if (!this.renderer.usesWorker) return
+    this.log.warn(
+      'AmbientGlow: getPalette, colorchange, cssVariables and themeColor need the glow pixels, which stay in the worker'
+    )
   }
 
   /**
-   * Normalizes options, converting responsiveness to blendOld/blendNew if set.
+   * Normalizes options, converting responsiveness to blendOld/blendNew if set
+   * and deriving `smoothingMs` from the per-update blend when not given.
    *
    * @param options - Options to normalize.
    * @returns Normalized options with all required fields.
@@ -126,19 +354,48 @@ export class AmbientGlow {
       normalized.blendOld = 1 - options.responsiveness
     }
 
-    return normalized
+    // Same settle speed as the old fixed blend at the configured interval
+    normalized.smoothingMs =
+      options.smoothingMs ??
+      blendToSmoothingMs(normalized.blendNew, normalized.updateInterval)
+
+    const cssVariables =
+      options.cssVariables === true ? {} : options.cssVariables || null
+
+    return {
+      ...normalized,
+      zones: options.zones ? normalizeZoneOptions(options.zones) : null,
+      cssVariables: cssVariables && {
+        target: cssVariables.target ?? null,
+        prefix: cssVariables.prefix ?? CSS_VARIABLE_PREFIX
+      }
+    }
+  }
+
+  /**
+   * Sums up what the glow is doing for log context.
+   *
+   * @returns Current state. See {@link GlowLogState}.
+   * @private
+   */
+  private getLogState(): GlowLogState {
+    if (this.isDestroyed) return 'destroyed'
+    if (this.isTainted) return 'tainted'
+    if (!this.renderState.shouldRender) return 'paused'
+    return this.isLooping ? 'running' : 'idle'
   }
 
   /**
-   * Applies CSS filters (blur, brightness, etc.) to the canvas.
+   * Applies CSS filters (blur, brightness, etc.) to the glow element.
    * @private
    */
   private applyFilterStyles(): void {
-    updateCanvasFilterStyles(this.canvas, this.options)
+    this.renderer.updateStyles(this.options)
   }
 
   /**
-   * Sets up video/resize event listeners (stored for cleanup).
+   * Sets up video and document event listeners (stored for cleanup), and
+   * picks up pause reasons already active at creation.
    * @private
    */
   private setupEventListeners(): void {
@@ -153,63 +410,158 @@ export class AmbientGlow {
     this.boundHandlers.set('pause', this.handlePause.bind(this))
     this.boundHandlers.set('ended', this.handleEnded.bind(this))
     this.boundHandlers.set('seeked', this.handleSeeked.bind(this))
+    this.boundHandlers.set(
+      'enterpictureinpicture',
+      this.handlePictureInPictureChange.bind(this)
+    )
+    this.boundHandlers.set(
+      'leavepictureinpicture',
+      this.handlePictureInPictureChange.bind(this)
+    )
 
     this.boundHandlers.forEach((handler, event) => {
       this.video.addEventListener(event, handler)
     })
 
-    // Use ResizeObserver for better performance if available
-    if (typeof ResizeObserver !== 'undefined') {
-      this.resizeObserver = new ResizeObserver(this.debouncedResize.bind(this))
-      this.resizeObserver.observe(this.video)
-    } else {
-      // Fallback to window resize
-      const resizeHandler = this.debouncedResize.bind(this)
-      this.boundHandlers.set('resize', resizeHandler)
-      window.addEventListener('resize', resizeHandler)
-    }
-
-    // Use IntersectionObserver to pause animation when video is out of view
-    if (typeof IntersectionObserver !== 'undefined') {
-      this.intersectionObserver = new IntersectionObserver(
-        entries => {
-          if (this.isDestroyed) return
-          const entry = entries[0]
-          this.isVisible = entry.isIntersecting
-          this.handleVisibilityChange()
-        },
-        { threshold: 0 }
-      )
-      this.intersectionObserver.observe(this.video)
-    }
+    const doc = this.video.ownerDocument
+    this.documentHandlers.set(
+      'visibilitychange',
+      this.handleDocumentVisibilityChange.bind(this)
+    )
+    this.documentHandlers.set(
+      'fullscreenchange',
+      this.handleFullscreenChange.bind(this)
+    )
+    this.documentHandlers.forEach((handler, event) => {
+      doc.addEventListener(event, handler)
+    })
+
+    this.renderState.set('hidden', doc.hidden)
+    this.renderState.set('pictureInPicture', isInPictureInPicture(this.video))
+    this.renderState.set('fullscreen', isHiddenByFullscreen(this.glowElement))
+    this.fullscreenContainer = getFullscreenContainer(this.glowElement)
   }
 
   /**
-   * Handles visibility changes from IntersectionObserver.
-   * Pauses animation when out of view, resumes when back in view (if playing).
+   * Starts or ends a pause reason. Pauses the loop when the glow can't be
+   * seen, and draws a fresh frame (resuming the loop if playing) once it
+   * can again.
+   *
+   * @param reason - What hides the glow.
+   * @param isActive - Whether it's hiding it now.
    * @private
    */
-  private handleVisibilityChange(): void {
+  private setPauseReason(reason: GlowPauseReason, isActive: boolean): void {
+    if (this.isDestroyed) return
+    if (!this.renderState.set(reason, isActive)) return
+
+    if (!this.renderState.shouldRender) {
+      this.stopLoop(reason)
+      return
+    }
+    // The last frame we drew may be long gone
+    this.drawFrameImmediately()
+    if (!this.video.paused && !this.video.ended) {
+      this.startLoop()
+    }
+  }
+
+  private handleDocumentVisibilityChange(): void {
+    this.setPauseReason('hidden', this.video.ownerDocument.hidden)
+  }
+
+  private handlePictureInPictureChange(): void {
+    this.setPauseReason('pictureInPicture', isInPictureInPicture(this.video))
+  }
+
+  private handleFullscreenChange(): void {
     if (this.isDestroyed) return
+    // Lay out for the new mode before any resume redraw
+    this.fullscreenContainer = getFullscreenContainer(this.glowElement)
+    this.lastRect = null
+    this.resizeCanvas()
+    this.setPauseReason('fullscreen', isHiddenByFullscreen(this.glowElement))
+  }
 
-    if (!this.isVisible) {
-      // Out of view - pause animation loop
-      this.isLooping = false
-    } else if (!this.video.paused && !this.video.ended) {
-      // Back in view and playing - resume animation loop
+  /**
+   * Starts the update loop. Uses `requestVideoFrameCallback` when enabled and
+   * supported so we only sample real decoded frames, else joins the shared
+   * rAF loop.
+   * @private
+   */
+  private startLoop(): void {
+    if (!this.isLooping) {
       this.isLooping = true
-      if (!this.animationFrameId) {
-        this.lastUpdateTime = 0
-        this.animationFrameId = requestAnimationFrame(t =>
-          this.animationLoop(t)
-        )
-      }
+      this.log.debug('AmbientGlow: Started')
+      this.emitter.emit('start', { currentTime: this.video.currentTime })
+    }
+    if (this.usesSharedLoop || this.videoFrameCallbackId !== null) {
+      return
+    }
+
+    this.lastUpdateTime = 0
+    this.lastLoopTime = 0
+    this.lastPresentedFrames = -1
+    if (
+      this.options.syncToVideoFrames &&
+      supportsVideoFrameCallback(this.video)
+    ) {
+      this.videoFrameCallbackId = this.video.requestVideoFrameCallback(
+        (now, metadata) => this.videoFrameLoop(now, metadata)
+      )
+    } else {
+      this.usesSharedLoop = true
+      this.scheduler.wake()
+    }
+  }
+
+  /**
+   * Marks the loop stopped (it winds down on its next tick) and emits
+   * `stop` if it was running.
+   *
+   * @param reason - What stopped it.
+   * @private
+   */
+  private stopLoop(reason: GlowStopReason): void {
+    if (!this.isLooping) return
+    this.isLooping = false
+    this.log.debug('AmbientGlow: Stopped', { reason })
+    this.emitter.emit('stop', { reason, currentTime: this.video.currentTime })
+  }
+
+  /**
+   * Leaves the shared loop and cancels any pending video frame callback.
+   * @private
+   */
+  private cancelLoop(): void {
+    this.usesSharedLoop = false
+
+    if (this.videoFrameCallbackId !== null) {
+      this.video.cancelVideoFrameCallback(this.videoFrameCallbackId)
+      this.videoFrameCallbackId = null
     }
   }
 
   private handleLoadStart(): void {
     if (this.isDestroyed) return
-    this.lastImage = null
+    // Warnings about the old source don't hold for this one
+    this.log.reset()
+    this.log.debug('AmbientGlow: Loading a new source')
+    this.lastFrameMetadata = null
+    // Bars belong to the old source
+    this.resetLetterbox()
+    // The new source may be readable (e.g. crossOrigin was set), but a
+    // canvas a cross-origin frame was drawn into stays tainted - sample
+    // through new ones
+    if (this.isTainted || !this.canReadFrames) {
+      this.renderer.replaceSampleCanvas()
+      this.zoneSampler.dispose()
+      this.probeCtx = null
+    }
+    this.resetTaintedFallback()
+    this.canReadFrames = true
+    this.zoneSampler.reset()
+    this.lastPalette = null
     this.drawFrameImmediately()
   }
 
@@ -225,28 +577,22 @@ export class AmbientGlow {
   }
 
   private handlePlay(): void {
-    if (this.isDestroyed) return
-    this.lastImage = null
+    if (this.isDestroyed || !this.renderState.shouldRender) return
     this.drawFrameImmediately()
-    this.isLooping = true
-    if (!this.animationFrameId) {
-      this.lastUpdateTime = 0
-      this.animationFrameId = requestAnimationFrame(t => this.animationLoop(t))
-    }
+    this.startLoop()
   }
 
   private handleSeeked(): void {
     if (this.isDestroyed) return
-    this.lastImage = null
     this.drawFrameImmediately()
   }
 
   private handlePause(): void {
-    this.isLooping = false
+    this.stopLoop('pause')
   }
 
   private handleEnded(): void {
-    this.isLooping = false
+    this.stopLoop('ended')
   }
 
   /**
@@ -262,16 +608,13 @@ export class AmbientGlow {
 
     // Cancel any pending draw operations
     if (this.resizeTimeout !== null) clearTimeout(this.resizeTimeout)
-    if (this.resizeRafId !== null) cancelAnimationFrame(this.resizeRafId)
 
-    // Debounce the expensive drawing operation
+    // Debounce the expensive drawing operation, then draw on a shared frame
     this.resizeTimeout = window.setTimeout(() => {
+      this.resizeTimeout = null
       if (this.isDestroyed) return
-      this.resizeRafId = requestAnimationFrame(() => {
-        if (this.isDestroyed) return
-        this.drawFrame()
-        this.resizeRafId = null
-      })
+      this.needsRedraw = true
+      this.scheduler.wake()
     }, RESIZE_DEBOUNCE_MS)
   }
 
@@ -303,14 +646,17 @@ export class AmbientGlow {
   }
 
   /**
-   * Resizes canvas to match video. Internal canvas is downscaled for perf,
-   * CSS size is scaled up for the glow.
+   * Resizes canvas to match the video's rendered picture (after
+   * `object-fit`/`object-position`). Internal canvas is downscaled for perf,
+   * CSS size is scaled up for the glow - or, while a container holding the
+   * glow is fullscreen, stretched over the whole container.
    * @private
    */
   private resizeCanvas(): void {
     if (this.isDestroyed) return
 
-    const { downscale, scale } = this.options
+    const { scale } = this.options
+    const { downscale } = this.quality
     const rect = this.getCachedRect()
     const videoW = this.video.videoWidth || rect.width
     const videoH = this.video.videoHeight || rect.height
@@ -324,21 +670,77 @@ export class AmbientGlow {
       return
     }
 
-    const w = Math.max(MIN_CANVAS_DIMENSION, Math.round(videoW * downscale))
-    const h = Math.max(MIN_CANVAS_DIMENSION, Math.round(videoH * downscale))
+    // Only the picture object-fit leaves on screen counts, not the bars
+    // around it or the parts cropped away
+    const { objectFit, objectPosition } = window.getComputedStyle(this.video)
+    const { source, display } = getContentGeometry(
+      videoW,
+      videoH,
+      rect.width,
+      rect.height,
+      objectFit,
+      objectPosition
+    )
+    this.contentSource =
+      this.video.videoWidth && !isFullFrame(source, videoW, videoH)
+        ? source
+        : null
+    this.updateSampleSource()
 
-    if (this.canvas.width !== w || this.canvas.height !== h) {
-      this.canvas.width = w
-      this.canvas.height = h
-      this.tempCanvas.width = w
-      this.tempCanvas.height = h
-      this.lastImage = null // Invalidate last image on resize
-    }
+    const w = Math.max(
+      MIN_CANVAS_DIMENSION,
+      Math.round(source.width * downscale)
+    )
+    const h = Math.max(
+      MIN_CANVAS_DIMENSION,
+      Math.round(source.height * downscale)
+    )
+
+    const { parentElement } = this.glowElement
+    const layout =
+      this.options.fillFullscreen && this.fullscreenContainer && parentElement
+        ? getFillLayout(this.fullscreenContainer, parentElement)
+        : null
+    applyGlowLayout(this.glowElement, layout, {
+      x: display.x + display.width / 2 - rect.width / 2,
+      y: display.y + display.height / 2 - rect.height / 2
+    })
+
+    const contentWidth = layout ? layout.width : display.width * scale
+    const contentHeight = layout ? layout.height : display.height * scale
+    // A baked blur needs room to spread past the picture, unless the glow
+    // already covers the whole fullscreen container
+    const padding =
+      layout || this.renderer.type === 'css'
+        ? 0
+        : getBlurPadding(this.options, w, contentWidth)
+    this.renderer.resize(w + padding * 2, h + padding * 2, padding)
+    this.bufferPadding = padding
 
-    const cssWidth = rect.width * scale
-    const cssHeight = rect.height * scale
-    this.canvas.style.width = `${cssWidth}px`
-    this.canvas.style.height = `${cssHeight}px`
+    const cssPadding = (padding * contentWidth) / w
+    const cssWidth = contentWidth + cssPadding * 2
+    const cssHeight = contentHeight + cssPadding * 2
+    this.displayWidth = cssWidth
+    this.glowElement.style.width = `${cssWidth}px`
+    this.glowElement.style.height = `${cssHeight}px`
+
+    const size: GlowResizeEvent = {
+      width: this.renderer.width,
+      height: this.renderer.height,
+      displayWidth: cssWidth,
+      displayHeight: cssHeight
+    }
+    const last = this.lastSize
+    if (
+      !last ||
+      last.width !== size.width ||
+      last.height !== size.height ||
+      last.displayWidth !== size.displayWidth ||
+      last.displayHeight !== size.displayHeight
+    ) {
+      this.lastSize = size
+      this.emitter.emit('resize', size)
+    }
   }
 
   /**
@@ -347,71 +749,581 @@ export class AmbientGlow {
    * @private
    */
   private drawFrame(): void {
+    this.renderFrame(false)
+  }
+
+  /**
+   * Draws a video frame immediately without blending (ignores previous frame).
+   * Used when video changes, is seeked, or playback resumes.
+   * @private
+   */
+  private drawFrameImmediately(): void {
+    this.renderFrame(true)
+  }
+
+  /**
+   * Hands the current frame to the renderer with the time since the last
+   * accepted draw, so smoothing follows real elapsed time.
+   *
+   * @param reset - Draw without blending.
+   * @private
+   */
+  private renderFrame(reset: boolean): void {
+    // Nobody would see it - setPauseReason redraws on the way back
+    if (this.isDestroyed || !this.renderState.shouldRender) return
+    // Frames can't be read - only a color track still follows the video
+    if (this.isTainted) {
+      this.updateTrackFallback()
+      return
+    }
+
+    const now = performance.now()
+    const elapsedMs = this.lastBlendTime
+      ? now - this.lastBlendTime
+      : this.quality.updateInterval
+
+    // Frames the renderer drops (not ready, busy) don't count as blended
     if (
-      this.isDestroyed ||
-      this.canvas.width <= MIN_CANVAS_DIMENSION - 1 ||
-      this.canvas.height <= MIN_CANVAS_DIMENSION - 1
+      this.renderer.draw(this.video, {
+        options: this.options,
+        elapsedMs,
+        reset,
+        blurRadius: getBufferBlurRadius(
+          this.options.blur,
+          this.renderer.width,
+          this.displayWidth
+        ),
+        source: this.sampleSource
+      })
     ) {
+      this.lastBlendTime = now
+      const drawCostMs = performance.now() - now
+      if (this.options.stats) {
+        this.stats.recordDraw(drawCostMs, now)
+      }
+      if (this.options.adaptive) {
+        this.recordDrawCost(drawCostMs)
+      }
+      if (this.options.letterbox) {
+        this.probeLetterbox(now)
+      }
+      if (this.options.zones) {
+        this.updateZones(elapsedMs, reset)
+      }
+      if (
+        this.options.cssVariables ||
+        this.options.themeColor ||
+        this.emitter.hasListeners('colorchange')
+      ) {
+        this.updateColors(now)
+      }
+      this.emitter.emit('frame', {
+        currentTime: this.video.currentTime,
+        elapsedMs,
+        reset,
+        drawCostMs
+      })
+    } else if (this.options.stats) {
+      this.stats.recordSkip()
+    }
+  }
+
+  /**
+   * Emits a draw error, or warns if nobody listens for `error`. The first
+   * tainted frame switches to the fallback and is reported once.
+   *
+   * @param error - What the renderer caught.
+   * @private
+   */
+  private reportError(error: unknown): void {
+    if (isTaintedError(error)) {
+      if (this.isTainted) return
+      this.isTainted = true
+      this.renderer.clear()
+      this.applyTaintedFallback()
+
+      const tainted = new Error(
+        "AmbientGlow: Video frames are cross-origin without CORS headers and can't be read. Serve the video with CORS and set crossOrigin on it to get the glow back.",
+        { cause: error }
+      )
+      this.lastError = tainted
+      if (!this.emitter.hasListeners('error')) {
+        this.log.warn(tainted.message, error)
+        return
+      }
+      this.emitter.emit('error', {
+        code: 'tainted',
+        error: tainted,
+        currentTime: this.video.currentTime
+      })
+      return
+    }
+
+    this.lastError = error instanceof Error ? error : new Error(String(error))
+    if (!this.emitter.hasListeners('error')) {
+      this.log.warn('AmbientGlow: Failed to draw frame', error)
+      return
+    }
+    this.emitter.emit('error', {
+      code: 'draw',
+      error: this.lastError,
+      currentTime: this.video.currentTime
+    })
+  }
+
+  /**
+   * Shows the `taintedFallback` in place of the glow.
+   * @private
+   */
+  private applyTaintedFallback(): void {
+    const fallback = this.options.taintedFallback
+    const request = ++this.posterRequest
+    this.fallbackCue = null
+    // Also what shows while a poster loads, or before the first cue
+    this.fallbackPainter.hide()
+
+    if (fallback.type === 'color') {
+      this.paintFallback(fillZones(fallback.color))
+    } else if (fallback.type === 'track') {
+      this.updateTrackFallback()
+    } else if (fallback.type === 'poster' && this.video.poster) {
+      void loadPosterZones(this.video.poster).then(zones => {
+        // A newer fallback or source took over meanwhile
+        if (request !== this.posterRequest || this.isDestroyed) return
+        if (zones) {
+          this.paintFallback(zones)
+        } else {
+          this.log.warn(
+            "AmbientGlow: Poster couldn't be read for the tainted fallback, hiding the glow",
+            this.video.poster
+          )
+        }
+      })
+    }
+  }
+
+  /**
+   * Paints the color track cue at the current time, if it changed.
+   * @private
+   */
+  private updateTrackFallback(): void {
+    const fallback = this.options.taintedFallback
+    if (fallback.type !== 'track') return
+    const cue = getCueAt(fallback.cues, this.video.currentTime)
+    if (!cue || cue === this.fallbackCue) return
+    this.fallbackCue = cue
+    this.paintFallback(fillZones(cue.color))
+  }
+
+  /**
+   * Paints fallback zone colors. Brightness and saturate go into the
+   * colors unless the element's CSS filter already applies them.
+   *
+   * @param zones - Zone colors for the CSS gradient grid.
+   * @private
+   */
+  private paintFallback(zones: Float32Array): void {
+    const hasColorFilter =
+      this.renderer.type === 'canvas2d' && this.options.blurMode === 'css'
+    this.fallbackPainter.paint(
+      zones,
+      hasColorFilter ? { brightness: 1, saturate: 1 } : this.options
+    )
+  }
+
+  /**
+   * Takes the fallback down so the next frame is read again.
+   * @private
+   */
+  private resetTaintedFallback(): void {
+    if (!this.isTainted) return
+    this.isTainted = false
+    this.posterRequest++
+    this.fallbackCue = null
+    this.fallbackPainter.reset()
+  }
+
+  /**
+   * Extracts the palette once for its consumers - writes the CSS
+   * variables, eases the theme color, and emits `colorchange` if the palette moved past the
+   * threshold since the last one reported. Runs at most every
+   * PALETTE.UPDATE_INTERVAL_MS.
+   *
+   * @param now - Current time.
+   * @private
+   */
+  private updateColors(now: number): void {
+    if (now - this.lastColorCheck < PALETTE.UPDATE_INTERVAL_MS) return
+    this.lastColorCheck = now
+
+    const palette = this.getPalette()
+    if (!palette.length) return
+
+    const { cssVariables } = this.options
+    const target = cssVariables
+      ? (cssVariables.target ?? this.video.parentElement)
+      : null
+    if (cssVariables && target) {
+      this.cssVariableWriter.write(
+        target,
+        getGlowCssVariables(palette, cssVariables.prefix)
+      )
+    }
+    if (this.options.themeColor) {
+      this.updateThemeColor(palette, now)
+    }
+
+    if (!this.emitter.hasListeners('colorchange')) return
+    const distance = this.lastPalette
+      ? getPaletteDistance(this.lastPalette, palette)
+      : null
+    if (distance !== null && distance < this.options.colorChangeThreshold) {
       return
     }
 
-    this.lastImage = drawAndBlendFrame(
-      this.video,
-      this.tempCtx,
-      this.ctx,
-      this.canvas.width,
-      this.canvas.height,
-      this.options,
-      this.lastImage
+    this.lastPalette = palette
+    this.emitter.emit('colorchange', {
+      palette,
+      dominant: palette[0],
+      distance,
+      currentTime: this.video.currentTime
+    })
+  }
+
+  /**
+   * Eases the theme color toward the palette's average and hands it to
+   * the page's theme color controller.
+   *
+   * @param palette - Current palette.
+   * @param now - Current time.
+   * @private
+   */
+  private updateThemeColor(palette: GlowColor[], now: number): void {
+    const average = getAverageColor(palette)
+    const previous = this.themeColor
+    if (previous) {
+      const { blendOld, blendNew } = getBlendWeights(
+        THEME_COLOR_SMOOTHING_MS,
+        now - this.lastThemeColorTime
+      )
+      for (let i = 0; i < 3; i++) {
+        average[i] = previous[i] * blendOld + average[i] * blendNew
+      }
+    }
+    this.themeColor = average
+    this.lastThemeColorTime = now
+    getSharedThemeColor(this.video.ownerDocument).update(
+      this.themeColorSource,
+      toHexColor(average[0], average[1], average[2])
     )
   }
 
   /**
-   * Draws a video frame immediately without blending (ignores previous frame).
-   * Used when video changes, is seeked, or playback resumes.
+   * Gives up the theme color tag (restored if no other glow holds it).
    * @private
    */
-  private drawFrameImmediately(): void {
+  private releaseThemeColor(): void {
+    getSharedThemeColor(this.video.ownerDocument).remove(this.themeColorSource)
+    this.themeColor = null
+  }
+
+  /**
+   * Samples zone colors for this update and emits them.
+   *
+   * @param elapsedMs - Time since the last update.
+   * @param reset - Snap to this frame instead of blending.
+   * @private
+   */
+  private updateZones(elapsedMs: number, reset: boolean): void {
+    const { zones } = this.options
+    if (!zones || !this.canReadFrames) return
+
+    let colors: Float32Array | null
+    try {
+      colors = this.zoneSampler.sample(
+        this.video,
+        this.sampleSource,
+        this.options,
+        elapsedMs,
+        reset
+      )
+    } catch {
+      // Cross-origin frames can't be read
+      this.canReadFrames = false
+      return
+    }
+    if (!colors) return
+
+    this.emitter.emit('zones', {
+      colors: toZoneColors(colors),
+      layout: {
+        top: zones.top,
+        right: zones.right,
+        bottom: zones.bottom,
+        left: zones.left
+      },
+      currentTime: this.video.currentTime
+    })
+  }
+
+  /**
+   * Measures black bars in a small copy of the current frame every
+   * LETTERBOX.PROBE_INTERVAL_MS and crops sampling once they settle.
+   *
+   * @param now - Current time.
+   * @private
+   */
+  private probeLetterbox(now: number): void {
     if (
-      this.isDestroyed ||
-      this.canvas.width <= MIN_CANVAS_DIMENSION - 1 ||
-      this.canvas.height <= MIN_CANVAS_DIMENSION - 1
+      !this.canReadFrames ||
+      !this.video.videoWidth ||
+      now - this.lastProbeTime < LETTERBOX.PROBE_INTERVAL_MS
     ) {
       return
     }
+    this.lastProbeTime = now
 
-    this.lastImage = drawAndBlendFrame(
-      this.video,
-      this.tempCtx,
-      this.ctx,
-      this.canvas.width,
-      this.canvas.height,
-      this.options,
-      null // Pass null to force a fresh draw without blending
+    const region = this.getVisibleRegion()
+    const width = LETTERBOX.PROBE_WIDTH
+    const height = Math.max(
+      MIN_CANVAS_DIMENSION,
+      Math.round((width * region.height) / region.width)
     )
+    if (!this.probeCtx) {
+      this.probeCtx = getCanvasContext(createTempCanvas(), 'letterbox canvas')
+    }
+    const { canvas } = this.probeCtx
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width
+      canvas.height = height
+    }
+
+    let frame: ImageData
+    try {
+      frame = sampleFrame(
+        this.video,
+        this.probeCtx,
+        width,
+        height,
+        null,
+        undefined,
+        this.contentSource
+      )
+    } catch {
+      // Cross-origin frames can't be read - sample the whole picture
+      this.canReadFrames = false
+      return
+    }
+
+    const borders = measureFrameBorders(frame, this.options.letterboxThreshold)
+    if (this.borderDetector.update(borders)) {
+      this.updateSampleSource()
+    }
+  }
+
+  /**
+   * Gets the part of the frame object-fit leaves on screen.
+   *
+   * @returns Visible rect in video pixels.
+   * @private
+   */
+  private getVisibleRegion(): ContentRect {
+    return (
+      this.contentSource ?? {
+        x: 0,
+        y: 0,
+        width: this.video.videoWidth,
+        height: this.video.videoHeight
+      }
+    )
+  }
+
+  /**
+   * Works out the rect renderers sample - the visible picture minus any
+   * detected bars.
+   * @private
+   */
+  private updateSampleSource(): void {
+    const { top, bottom, left, right } = this.borderDetector.crop
+    if (!this.video.videoWidth || !(top || bottom || left || right)) {
+      this.sampleSource = this.contentSource
+      return
+    }
+
+    const region = this.getVisibleRegion()
+    this.sampleSource = {
+      x: region.x + region.width * left,
+      y: region.y + region.height * top,
+      width: region.width * (1 - left - right),
+      height: region.height * (1 - top - bottom)
+    }
+  }
+
+  /**
+   * Forgets detected bars and samples the whole visible picture again.
+   * @private
+   */
+  private resetLetterbox(): void {
+    this.borderDetector.reset()
+    this.lastProbeTime = 0
+    this.updateSampleSource()
+  }
+
+  /**
+   * Feeds a draw's cost to the governor and applies any quality step.
+   *
+   * @param costMs - Time the draw took.
+   * @private
+   */
+  private recordDrawCost(costMs: number): void {
+    if (this.governor.recordDraw(costMs, this.options.frameBudgetMs)) {
+      this.updateQuality()
+    }
+  }
+
+  /**
+   * Tracks time between rAF loop callbacks so the governor can spot
+   * dropped frames.
+   *
+   * @param time - Loop callback timestamp.
+   * @private
+   */
+  private recordLoopTime(time: number): void {
+    if (!this.options.adaptive) return
+    if (this.lastLoopTime)
+      this.governor.recordFrameGap(time - this.lastLoopTime)
+    this.lastLoopTime = time
+  }
+
+  /**
+   * Tracks the video's presented-frame count between frame callbacks.
+   * Frames presented without a callback of ours were dropped.
+   *
+   * @param presentedFrames - Count from the frame callback metadata.
+   * @private
+   */
+  private recordPresentedFrames(presentedFrames: number): void {
+    if (!this.options.adaptive) return
+    if (this.lastPresentedFrames >= 0) {
+      this.governor.recordDroppedFrames(
+        presentedFrames - this.lastPresentedFrames - 1
+      )
+    }
+    this.lastPresentedFrames = presentedFrames
+  }
+
+  /**
+   * Recomputes the effective downscale and interval, resizing the buffer
+   * if the downscale moved.
+   * @private
+   */
+  private updateQuality(): void {
+    const level = this.options.adaptive ? this.governor.level : 0
+    const previous = this.quality
+    this.quality = getEffectiveQuality(this.options, level)
+    if (this.quality.downscale !== previous.downscale) this.resizeCanvas()
+  }
+
+  /**
+   * Emits a scenechange event for a detected hard cut.
+   *
+   * @param difference - Frame difference that triggered the cut.
+   * @private
+   */
+  private emitSceneChange(difference: number): void {
+    this.emitter.emit('scenechange', {
+      difference,
+      currentTime: this.video.currentTime
+    })
+  }
+
+  /**
+   * Runs on a shared animation frame - the loop tick plus any redraw left
+   * over from a resize.
+   *
+   * @param currentTime - Timestamp from requestAnimationFrame.
+   * @returns True if a frame was drawn.
+   * @private
+   */
+  private handleSharedFrame(currentTime: number): boolean {
+    if (this.isDestroyed) return false
+
+    const drew = this.usesSharedLoop && this.animationLoop(currentTime)
+    if (this.needsRedraw) {
+      this.needsRedraw = false
+      if (!drew) {
+        this.drawFrame()
+        return true
+      }
+    }
+    return drew
   }
 
   /**
    * Animation loop - updates glow at configured intervals.
    *
    * @param currentTime - Timestamp from requestAnimationFrame.
+   * @returns True if a frame was drawn.
    * @private
    */
-  private animationLoop(currentTime: number): void {
-    if (!this.isLooping || this.isDestroyed) {
-      this.animationFrameId = null
-      return
+  private animationLoop(currentTime: number): boolean {
+    if (!this.isLooping) {
+      this.usesSharedLoop = false
+      return false
     }
-    this.animationFrameId = requestAnimationFrame(t => this.animationLoop(t))
+    this.recordLoopTime(currentTime)
 
     if (!this.lastUpdateTime) this.lastUpdateTime = currentTime
     const elapsed = currentTime - this.lastUpdateTime
+    const { updateInterval } = this.quality
 
-    if (elapsed >= this.options.updateInterval) {
-      this.lastUpdateTime =
-        currentTime - (elapsed % this.options.updateInterval)
-      this.drawFrame()
+    if (elapsed < updateInterval) return false
+    this.lastUpdateTime = currentTime - (elapsed % updateInterval)
+    this.drawFrame()
+    return true
+  }
+
+  /**
+   * Video frame loop - runs once per decoded frame, throttled to the
+   * configured interval. Frames we've already sampled are skipped, and
+   * draws share the per-frame budget with the rAF loop.
+   *
+   * @param now - Timestamp from requestVideoFrameCallback.
+   * @param metadata - Metadata for the presented frame.
+   * @private
+   */
+  private videoFrameLoop(
+    now: number,
+    metadata: VideoFrameCallbackMetadata
+  ): void {
+    if (!this.isLooping || this.isDestroyed) {
+      this.videoFrameCallbackId = null
+      return
+    }
+    this.videoFrameCallbackId = this.video.requestVideoFrameCallback((t, m) =>
+      this.videoFrameLoop(t, m)
+    )
+    // Callback gaps follow the video's frame rate (24 or 25 fps would read
+    // as dropped frames), so count skipped presented frames instead
+    this.recordPresentedFrames(metadata.presentedFrames)
+
+    if (!this.lastUpdateTime) this.lastUpdateTime = now
+    const elapsed = now - this.lastUpdateTime
+    const { updateInterval } = this.quality
+
+    if (
+      elapsed < updateInterval ||
+      !isNewVideoFrame(metadata, this.lastFrameMetadata)
+    ) {
+      return
     }
+    // Over budget - the next decoded frame tries again
+    this.scheduler.run(now, () => {
+      this.lastUpdateTime = now - (elapsed % updateInterval)
+      this.lastFrameMetadata = metadata
+      this.drawFrame()
+      return true
+    })
   }
 
   /**
@@ -426,19 +1338,384 @@ export class AmbientGlow {
    */
   public updateOptions(newOptions: Partial<GlowOptions>): void {
     if (this.isDestroyed) {
-      console.warn('AmbientGlow: Cannot update options on destroyed instance')
+      this.log.warn('AmbientGlow: Cannot update options on destroyed instance')
       return
     }
 
-    // Normalize options to handle responsiveness
-    this.options = this.normalizeOptions({ ...this.options, ...newOptions })
+    // Normalize from the raw user options so derived values stay in sync
+    const previousOptions = this.options
+    this.userOptions = { ...this.userOptions, ...newOptions }
+    this.options = this.normalizeOptions(this.userOptions)
     this.applyFilterStyles()
+    if (
+      newOptions.excludeRegions !== undefined ||
+      newOptions.sceneCutThreshold !== undefined ||
+      newOptions.cssVariables !== undefined ||
+      newOptions.themeColor !== undefined
+    ) {
+      this.warnIgnoredOptions()
+    }
+
+    // Restart the loop so it picks up the new frame source
+    if (
+      this.isLooping &&
+      previousOptions.syncToVideoFrames !== this.options.syncToVideoFrames
+    ) {
+      this.cancelLoop()
+      this.startLoop()
+    }
 
-    if (newOptions.downscale !== undefined || newOptions.scale !== undefined) {
+    // Stats cover the time since they were turned on
+    if (previousOptions.stats !== this.options.stats) {
+      this.stats.reset()
+    }
+    // Switching adaptive off (or on) starts from the configured quality
+    if (previousOptions.adaptive !== this.options.adaptive) {
+      this.governor.reset()
+      this.lastLoopTime = 0
+      this.lastPresentedFrames = -1
+    }
+    if (
+      previousOptions.letterbox !== this.options.letterbox ||
+      previousOptions.letterboxThreshold !== this.options.letterboxThreshold
+    ) {
+      this.resetLetterbox()
+    }
+    // New zones start from the next frame, not the old layout's colors
+    if (newOptions.zones !== undefined) {
+      this.zoneSampler.reset()
+    }
+    // Drop properties under the old target or prefix, write the new ones
+    // on the next draw
+    if (newOptions.cssVariables !== undefined) {
+      this.cssVariableWriter.clear()
+      this.lastColorCheck = 0
+    }
+    if (
+      this.isTainted &&
+      (newOptions.taintedFallback !== undefined ||
+        newOptions.brightness !== undefined ||
+        newOptions.saturate !== undefined ||
+        newOptions.blurMode !== undefined)
+    ) {
+      this.applyTaintedFallback()
+    }
+    if (previousOptions.themeColor !== this.options.themeColor) {
+      if (!this.options.themeColor) this.releaseThemeColor()
+      this.lastColorCheck = 0
+    }
+    // Resizes if the effective downscale moved
+    this.updateQuality()
+    if (
+      newOptions.scale !== undefined ||
+      newOptions.fillFullscreen !== undefined ||
+      newOptions.blur !== undefined ||
+      newOptions.blurMode !== undefined
+    ) {
       this.resizeCanvas()
     }
-    // Redraw immediately to reflect new options
-    this.drawFrame()
+    // Redraw immediately to reflect new options. Filters baked into the
+    // buffer would otherwise fade in over the smoothing time.
+    if (this.hasBakedFiltersChanged(previousOptions)) {
+      this.drawFrameImmediately()
+    } else {
+      this.drawFrame()
+    }
+  }
+
+  /**
+   * Checks if an options change affects filters baked into the buffer.
+   *
+   * @param previous - Options before the update.
+   * @returns True if the next frame shouldn't blend with the old one.
+   * @private
+   */
+  private hasBakedFiltersChanged(previous: NormalizedGlowOptions): boolean {
+    const current = this.options
+    if (previous.blurMode !== current.blurMode) return true
+    return (
+      current.blurMode === 'canvas' &&
+      (previous.blur !== current.blur ||
+        previous.brightness !== current.brightness ||
+        previous.saturate !== current.saturate)
+    )
+  }
+
+  /**
+   * Subscribes to a glow event.
+   *
+   * @param type - Event name. See {@link GlowEventMap}.
+   * @param listener - Called with the event payload.
+   *
+   * @example
+   * ```typescript
+   * glow.on('scenechange', ({ difference }) => {
+   *   console.log('Hard cut', difference);
+   * });
+   * ```
+   */
+  public on<K extends keyof GlowEventMap>(
+    type: K,
+    listener: Listener<GlowEventMap[K]>
+  ): void {
+    this.emitter.on(type, listener)
+  }
+
+  /**
+   * Subscribes to the next glow event of a type only.
+   *
+   * @param type - Event name. See {@link GlowEventMap}.
+   * @param listener - Called once with the event payload.
+   *
+   * @example
+   * ```typescript
+   * glow.once('resize', ({ displayWidth, displayHeight }) => {
+   *   console.log('Glow laid out at', displayWidth, displayHeight);
+   * });
+   * ```
+   */
+  public once<K extends keyof GlowEventMap>(
+    type: K,
+    listener: Listener<GlowEventMap[K]>
+  ): void {
+    this.emitter.once(type, listener)
+  }
+
+  /**
+   * Unsubscribes a listener added with {@link AmbientGlow.on} or
+   * {@link AmbientGlow.once}.
+   *
+   * @param type - Event name.
+   * @param listener - The listener passed to `on` or `once`.
+   *
+   * @example
+   * ```typescript
+   * glow.off('scenechange', onSceneChange);
+   * ```
+   */
+  public off<K extends keyof GlowEventMap>(
+    type: K,
+    listener: Listener<GlowEventMap[K]>
+  ): void {
+    this.emitter.off(type, listener)
+  }
+
+  /**
+   * Gets the most common color in the glow right now, for theming page
+   * chrome from what's playing.
+   *
+   * @returns Dominant color with hex and luminance, or null before the
+   *   first frame or with `worker` on (the glow's pixels live in the
+   *   worker).
+   *
+   * @example
+   * ```typescript
+   * const color = glow.getDominantColor();
+   * if (color) {
+   *   titleBar.style.background = color.hex;
+   *   titleBar.style.color = color.luminance > 0.18 ? '#000' : '#fff';
+   * }
+   * ```
+   */
+  public getDominantColor(): GlowColor | null {
+    return this.getPalette()[0] ?? null
+  }
+
+  /**
+   * Quantizes the glow's current colors into a palette (median cut over
+   * the blended buffer).
+   *
+   * @param count - Colors wanted (defaults to `paletteSize`).
+   * @returns Up to `count` colors, most common first. Empty before the
+   *   first frame or with `worker` on.
+   *
+   * @example
+   * ```typescript
+   * const [primary, secondary] = glow.getPalette(3);
+   * ```
+   */
+  public getPalette(count: number = this.options.paletteSize): GlowColor[] {
+    if (this.isDestroyed) return []
+    this.warnWorkerPixels()
+    const pixels = this.renderer.readPixels()
+    return pixels ? extractPalette(pixels, count) : []
+  }
+
+  /**
+   * Sends zone colors to a sink on every update (needs the `zones`
+   * option). Sinks still attached are closed on destroy.
+   *
+   * @param sink - Sink to add, e.g. from {@link createWebSocketSink}.
+   *
+   * @example
+   * ```typescript
+   * glow.addZoneSink(createWebSocketSink('ws://localhost:8080'));
+   * ```
+   */
+  public addZoneSink(sink: GlowZoneSink): void {
+    if (this.zoneSinks.has(sink)) return
+    const listener = (event: ZoneColorsEvent) => sink.send(event)
+    this.zoneSinks.set(sink, listener)
+    this.emitter.on('zones', listener)
+  }
+
+  /**
+   * Stops sending zone colors to a sink. The sink is left open.
+   *
+   * @param sink - Sink passed to `addZoneSink`.
+   *
+   * @example
+   * ```typescript
+   * glow.removeZoneSink(sink);
+   * sink.close();
+   * ```
+   */
+  public removeZoneSink(sink: GlowZoneSink): void {
+    const listener = this.zoneSinks.get(sink)
+    if (!listener) return
+    this.emitter.off('zones', listener)
+    this.zoneSinks.delete(sink)
+  }
+
+  /**
+   * Gets the quality the glow is running at. With `adaptive` on, this is
+   * where the governor has currently settled.
+   *
+   * @returns Effective downscale and update interval, plus governor state.
+   *
+   * @example
+   * ```typescript
+   * const { downscale, updateInterval, level } = glow.getQuality();
+   * ```
+   */
+  public getQuality(): GlowQuality {
+    return {
+      adaptive: this.options.adaptive,
+      level: this.options.adaptive ? this.governor.level : 0,
+      downscale: this.quality.downscale,
+      updateInterval: this.quality.updateInterval,
+      drawCostMs: this.governor.drawCostMs
+    }
+  }
+
+  /**
+   * Gets what the glow costs and what it's doing. Draw times, the update
+   * rate and counts are only collected with the `stats` option on.
+   *
+   * @returns Current stats. See {@link GlowStats}.
+   *
+   * @example
+   * ```typescript
+   * const glow = new AmbientGlow(video, { stats: true });
+   * // later
+   * const { averageDrawMs, p95DrawMs, updatesPerSecond } = glow.getStats();
+   * ```
+   */
+  public getStats(): GlowStats {
+    return {
+      collecting: this.options.stats,
+      ...this.stats.read(performance.now()),
+      bufferWidth: this.renderer.width,
+      bufferHeight: this.renderer.height,
+      cssWidth: this.lastSize?.displayWidth ?? 0,
+      cssHeight: this.lastSize?.displayHeight ?? 0,
+      isLooping: this.isLooping,
+      isVisible: this.renderState.shouldRender,
+      lastError: this.lastError
+    }
+  }
+
+  /**
+   * Gets the options in effect, after defaults and derived values (e.g.
+   * `blendOld`/`blendNew` from `responsiveness`) are applied.
+   *
+   * @returns Copy of the normalized options.
+   *
+   * @example
+   * ```typescript
+   * const { smoothingMs, renderer } = glow.getOptions();
+   * ```
+   */
+  public getOptions(): NormalizedGlowOptions {
+    return { ...this.options }
+  }
+
+  /**
+   * Gets glow internals for debugging tools. The overlay from
+   * `video-ambient-glow/debug` draws from this.
+   *
+   * @returns What the glow samples and its blended buffer. See
+   *   {@link GlowDebugInfo}.
+   *
+   * @example
+   * ```typescript
+   * const { sampleRegion, blendedPixels } = glow.getDebugInfo();
+   * ```
+   */
+  public getDebugInfo(): GlowDebugInfo {
+    const { videoWidth, videoHeight } = this.video
+    const rect =
+      videoWidth && videoHeight
+        ? getSampleRect(
+            this.video,
+            this.sampleSource,
+            this.options.sampleRegion
+          )
+        : null
+    return {
+      video: this.video,
+      element: this.glowElement,
+      rendererType: this.renderer.type,
+      sampleRegion: rect
+        ? {
+            x: rect.x / videoWidth,
+            y: rect.y / videoHeight,
+            width: rect.width / videoWidth,
+            height: rect.height / videoHeight
+          }
+        : { x: 0, y: 0, width: 1, height: 1 },
+      excludeRegions: this.appliesExcludeRegions()
+        ? resolveExcludeRegions(this.options.excludeRegions, this.video)
+        : [],
+      sampleWidth: Math.max(0, this.renderer.width - this.bufferPadding * 2),
+      sampleHeight: Math.max(0, this.renderer.height - this.bufferPadding * 2),
+      blendedPixels: this.renderer.readPixels()
+    }
+  }
+
+  /**
+   * Gets whether the glow is rendering. It pauses while the video is
+   * scrolled out of view, the tab is hidden, the video is in
+   * Picture-in-Picture, or native fullscreen covers the glow.
+   *
+   * @returns Render flag plus everything currently pausing it.
+   *
+   * @example
+   * ```typescript
+   * const { shouldRender, pausedBy } = glow.getRenderState();
+   * ```
+   */
+  public getRenderState(): GlowRenderState {
+    return {
+      shouldRender: this.renderState.shouldRender,
+      pausedBy: this.renderState.reasons
+    }
+  }
+
+  /**
+   * Gets the black bars detected in the video. Sampling skips them so the
+   * glow follows the picture, not the bars.
+   *
+   * @returns Bar sizes as fractions of the visible picture (all zero when
+   *   none are detected or `letterbox` is off).
+   *
+   * @example
+   * ```typescript
+   * const { top, bottom } = glow.getLetterbox();
+   * ```
+   */
+  public getLetterbox(): GlowLetterbox {
+    return this.borderDetector.crop
   }
 
   /**
@@ -450,7 +1727,8 @@ export class AmbientGlow {
   }
 
   /**
-   * Cleans up - stops animation, removes listeners, removes canvas from DOM.
+   * Cleans up - stops animation, emits `destroy`, removes listeners and
+   * removes the glow from the DOM.
    *
    * @example
    * ```typescript
@@ -461,45 +1739,85 @@ export class AmbientGlow {
     if (this.isDestroyed) return
     this.isDestroyed = true
 
-    this.isLooping = false
-    if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId)
-      this.animationFrameId = null
-    }
+    this.stopLoop('destroy')
+    this.log.debug('AmbientGlow: Destroyed')
+    this.cancelLoop()
 
     if (this.resizeTimeout !== null) {
       clearTimeout(this.resizeTimeout)
       this.resizeTimeout = null
     }
 
-    if (this.resizeRafId !== null) {
-      cancelAnimationFrame(this.resizeRafId)
-      this.resizeRafId = null
-    }
-
-    if (this.resizeObserver) {
-      this.resizeObserver.disconnect()
-      this.resizeObserver = null
-    }
-
-    if (this.intersectionObserver) {
-      this.intersectionObserver.disconnect()
-      this.intersectionObserver = null
-    }
+    this.needsRedraw = false
+    this.scheduler.remove(this.scheduled)
 
     this.boundHandlers.forEach((handler, event) => {
-      if (event === 'resize') {
-        window.removeEventListener('resize', handler)
-      } else {
-        this.video.removeEventListener(event, handler)
-      }
+      this.video.removeEventListener(event, handler)
     })
     this.boundHandlers.clear()
+    this.documentHandlers.forEach((handler, event) => {
+      this.video.ownerDocument.removeEventListener(event, handler)
+    })
+    this.documentHandlers.clear()
 
-    this.canvas.remove()
+    this.renderer.dispose()
+    this.emitter.emit('destroy', { currentTime: this.video.currentTime })
+    this.emitter.clear()
+    this.zoneSinks.forEach((_, sink) => sink.close())
+    this.zoneSinks.clear()
+    this.zoneSampler.dispose()
+    this.cssVariableWriter.clear()
+    this.releaseThemeColor()
 
-    this.lastImage = null
+    this.lastFrameMetadata = null
+    this.probeCtx = null
   }
 }
 
-export type { GlowOptions, NormalizedGlowOptions } from './types'
+export { createWebSocketSink, type WebSocketZoneSink } from './lib/sinks'
+
+export type {
+  GlowOptions,
+  NormalizedGlowOptions,
+  GlowEventMap,
+  GlowRendererType,
+  GlowBlurMode,
+  GlowBlendPrecision,
+  GlowSamplingMode,
+  GlowQuality,
+  GlowSchedulerOptions,
+  GlowPauseReason,
+  GlowRenderState,
+  GlowLetterbox,
+  GlowRegion,
+  GlowExcludeRegions,
+  GlowZoneOptions,
+  GlowRGB,
+  GlowColor,
+  ColorChangeEvent,
+  GlowCssVariableOptions,
+  ZoneColorsEvent,
+  GlowZoneSink,
+  WebSocketLike,
+  WebSocketSinkOptions,
+  SceneChangeEvent,
+  GlowFrameEvent,
+  GlowStartEvent,
+  GlowStopEvent,
+  GlowStopReason,
+  GlowResizeEvent,
+  GlowErrorEvent,
+  GlowErrorCode,
+  GlowDestroyEvent,
+  GlowTaintedFallback,
+  GlowColorCue,
+  GlowLogger,
+  GlowLogLevel,
+  GlowLogContext,
+  GlowLogState,
+  GlowLoggingOptions,
+  GlowStats,
+  GlowPixels,
+  GlowDebugInfo,
+  GlowDebugOverlayOptions
+} from './types'
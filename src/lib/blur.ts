@@ -0,0 +1,214 @@
+/**
+ * In-buffer blur for `blurMode: 'canvas'` - blurs the small sampling buffer
+ * once per update so the visible element doesn't need a CSS blur filter
+ * (which browsers re-rasterize on every scroll and layout change).
+ *
+ * @module lib/blur
+ * @internal
+ */
+
+import type { NormalizedGlowOptions } from '../types'
+import { BLUR_PADDING } from '../constants'
+import { getSaturateMatrix } from './color'
+
+/**
+ * Blur and color adjustments to bake into a sampled frame, precomputed
+ * for both paths: `filter` for contexts with `ctx.filter`, the rest for
+ * the JS fallback.
+ *
+ * @internal
+ */
+export interface BakedFilters {
+  /** Value for `ctx.filter`. */
+  filter: string
+  /** Box radii for {@link blurImageData}. */
+  radii: number[]
+  /** Brightness multiplier. */
+  brightness: number
+  /** Saturate matrix. */
+  matrix: number[]
+}
+
+/**
+ * Works out what to bake into each sampled frame.
+ *
+ * @param options - Glow options.
+ * @param blurRadius - Blur in buffer pixels. See {@link getBufferBlurRadius}.
+ * @returns Filters to bake, or null unless `blurMode` is `canvas`.
+ *
+ * @internal
+ */
+export function getBakedFilters(
+  options: NormalizedGlowOptions,
+  blurRadius: number
+): BakedFilters | null {
+  if (options.blurMode !== 'canvas') return null
+  const { brightness, saturate } = options
+  return {
+    filter: `blur(${blurRadius}px) brightness(${brightness}) saturate(${saturate})`,
+    radii: getBoxBlurRadii(blurRadius),
+    brightness,
+    matrix: getSaturateMatrix(saturate)
+  }
+}
+
+/**
+ * Converts the CSS blur (in displayed pixels) to buffer pixels.
+ *
+ * @param blur - CSS blur radius in px.
+ * @param bufferWidth - Width of the sampling buffer.
+ * @param displayWidth - CSS width the buffer is shown at.
+ * @returns Blur radius (standard deviation) in buffer pixels, 0 if unknown.
+ *
+ * @internal
+ */
+export function getBufferBlurRadius(
+  blur: number,
+  bufferWidth: number,
+  displayWidth: number
+): number {
+  if (blur <= 0 || displayWidth <= 0) return 0
+  return (blur * bufferWidth) / displayWidth
+}
+
+/**
+ * Works out the transparent margin a baked blur spreads into.
+ *
+ * @param options - Glow options.
+ * @param bufferWidth - Width of the picture in the sampling buffer.
+ * @param displayWidth - CSS width the picture is shown at.
+ * @returns Padding per side in buffer pixels, 0 unless `blurMode` is
+ *   `canvas`.
+ *
+ * @internal
+ */
+export function getBlurPadding(
+  options: NormalizedGlowOptions,
+  bufferWidth: number,
+  displayWidth: number
+): number {
+  if (options.blurMode !== 'canvas') return 0
+  const radius = getBufferBlurRadius(options.blur, bufferWidth, displayWidth)
+  return Math.ceil(radius * BLUR_PADDING)
+}
+
+/**
+ * Checks if a 2D context supports `ctx.filter` (missing in older Safari).
+ *
+ * @param ctx - 2D context.
+ * @returns True if filters can be applied while drawing.
+ *
+ * @internal
+ */
+export function supportsCanvasFilter(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+): boolean {
+  return typeof ctx.filter === 'string'
+}
+
+/**
+ * Box radii for approximating a Gaussian with three box blurs.
+ * Mixes two neighboring odd box sizes so the summed variance matches
+ * sigma squared.
+ *
+ * @param sigma - Gaussian standard deviation in pixels.
+ * @returns Three box radii.
+ *
+ * @internal
+ */
+export function getBoxBlurRadii(sigma: number): number[] {
+  const passes = 3
+  if (sigma <= 0) return [0, 0, 0]
+
+  const variance = sigma * sigma
+  let lower = Math.floor(Math.sqrt((12 * variance) / passes + 1))
+  if (lower % 2 === 0) lower--
+  const upper = lower + 2
+  const lowerCount = Math.round(
+    (12 * variance - passes * lower * lower - 4 * passes * lower - 3 * passes) /
+      (-4 * lower - 4)
+  )
+
+  const radii: number[] = []
+  for (let i = 0; i < passes; i++) {
+    radii.push(((i < lowerCount ? lower : upper) - 1) / 2)
+  }
+  return radii
+}
+
+/**
+ * Approximates a Gaussian blur with separable box blurs (modifies the image
+ * in place). Each pass is a running sum, so the cost doesn't depend on the
+ * radius. Edges are clamped and alpha is left alone, unless `withAlpha`
+ * is set: then alpha is blurred too, so color spreads into transparent
+ * (black) padding, and is divided back out at the end.
+ *
+ * The worker runs a serialized copy, so it uses nothing outside its body.
+ *
+ * @param image - Image to blur (gets modified).
+ * @param radii - Box radii, one per pass. See {@link getBoxBlurRadii}.
+ * @param scratch - Reusable scratch space, at least as long as the pixels.
+ * @param withAlpha - Blur alpha as well. Transparent pixels must be black.
+ * @returns The same image, blurred.
+ *
+ * @internal
+ */
+export function blurImageData(
+  image: ImageData,
+  radii: number[],
+  scratch: Float32Array = new Float32Array(image.data.length),
+  withAlpha = false
+): ImageData {
+  const { data, width, height } = image
+  if (width === 0 || height === 0) return image
+  const channels = withAlpha ? 4 : 3
+
+  // One running-sum pass along rows (step 4) or columns (step width * 4)
+  const pass = (
+    src: Uint8ClampedArray | Float32Array,
+    dst: Uint8ClampedArray | Float32Array,
+    radius: number,
+    lines: number,
+    length: number,
+    lineStep: number,
+    step: number
+  ) => {
+    const size = radius * 2 + 1
+    for (let line = 0; line < lines; line++) {
+      const start = line * lineStep
+      const last = start + (length - 1) * step
+      for (let c = 0; c < channels; c++) {
+        let sum = 0
+        for (let k = -radius; k <= radius; k++) {
+          sum += src[start + Math.min(Math.max(k, 0), length - 1) * step + c]
+        }
+        for (let x = 0; x < length; x++) {
+          dst[start + x * step + c] = sum / size
+          const add = Math.min(start + (x + radius + 1) * step, last)
+          const remove = Math.max(start + (x - radius) * step, start)
+          sum += src[add + c] - src[remove + c]
+        }
+      }
+    }
+  }
+
+  for (const radius of radii) {
+    if (radius <= 0) continue
+    pass(data, scratch, radius, height, width, width * 4, 4)
+    pass(scratch, data, radius, width, height, 4, width * 4)
+  }
+
+  if (withAlpha) {
+    // Blurred color is weighted by coverage, undo that
+    for (let i = 0; i < data.length; i += 4) {
+      const alpha = data[i + 3]
+      if (alpha === 0 || alpha === 255) continue
+      const scale = 255 / alpha
+      data[i] *= scale
+      data[i + 1] *= scale
+      data[i + 2] *= scale
+    }
+  }
+
+  return image
+}
@@ -10,7 +10,8 @@ import type { NormalizedGlowOptions } from '../types'
 import {
   CANVAS_STYLE,
   CANVAS_TRANSFORM,
-  CANVAS_CONTEXT_OPTIONS
+  CANVAS_CONTEXT_OPTIONS,
+  GLOW_EDGE_MASK
 } from '../constants'
 
 /**
@@ -30,6 +31,25 @@ export function createGlowCanvas(
   return canvas
 }
 
+/**
+ * Creates a plain div for renderers that paint the glow with CSS
+ * backgrounds instead of a canvas.
+ *
+ * @param options - Glow styling options.
+ * @returns Div ready to add to DOM.
+ *
+ * @internal
+ */
+export function createGlowElement(
+  options: NormalizedGlowOptions
+): HTMLDivElement {
+  const element = document.createElement('div')
+  element.setAttribute('aria-hidden', 'true')
+  applyPositionStyles(element)
+  element.style.opacity = `${options.opacity}`
+  return element
+}
+
 /**
  * Creates a temp canvas for processing frames.
  *
@@ -95,9 +115,19 @@ export function applyCanvasStyles(
   canvas: HTMLCanvasElement,
   options: NormalizedGlowOptions
 ): void {
-  const { blur, opacity, brightness, saturate } = options
+  applyPositionStyles(canvas)
+  updateCanvasFilterStyles(canvas, options)
+}
 
-  canvas.style.cssText = `
+/**
+ * Centers the glow element behind the video (replaces inline styles).
+ *
+ * @param element - Glow element to position.
+ *
+ * @internal
+ */
+export function applyPositionStyles(element: HTMLElement): void {
+  element.style.cssText = `
     position: ${CANVAS_STYLE.POSITION};
     top: 50%;
     left: 50%;
@@ -106,8 +136,6 @@ export function applyCanvasStyles(
     z-index: ${CANVAS_STYLE.Z_INDEX};
     border-radius: ${CANVAS_STYLE.BORDER_RADIUS};
   `
-  canvas.style.filter = `blur(${blur}px) brightness(${brightness}) saturate(${saturate})`
-  canvas.style.opacity = `${opacity}`
 }
 
 /**
@@ -122,9 +150,38 @@ export function updateCanvasFilterStyles(
   canvas: HTMLCanvasElement,
   options: NormalizedGlowOptions
 ): void {
-  const { blur, opacity, brightness, saturate } = options
-  canvas.style.filter = `blur(${blur}px) brightness(${brightness}) saturate(${saturate})`
-  canvas.style.opacity = `${opacity}`
+  canvas.style.filter = getGlowFilter(options)
+  canvas.style.opacity = `${options.opacity}`
+}
+
+/**
+ * CSS filter for the glow canvas. With `blurMode: 'canvas'` the blur and
+ * color adjustments are baked into the pixels, so there's none.
+ *
+ * @param options - Glow options.
+ * @returns Value for `filter`.
+ *
+ * @internal
+ */
+export function getGlowFilter(options: NormalizedGlowOptions): string {
+  const { blur, brightness, saturate, blurMode } = options
+  if (blurMode === 'canvas') return 'none'
+  return `blur(${blur}px) brightness(${brightness}) saturate(${saturate})`
+}
+
+/**
+ * Adds or removes the mask that fades the glow out at its edges (what
+ * the CSS blur would otherwise do).
+ *
+ * @param element - Glow element.
+ * @param enabled - True to fade the edges.
+ *
+ * @internal
+ */
+export function applyEdgeMask(element: HTMLElement, enabled: boolean): void {
+  const mask = enabled ? GLOW_EDGE_MASK : ''
+  element.style.setProperty('mask-image', mask)
+  element.style.setProperty('-webkit-mask-image', mask)
 }
 
 /**
@@ -0,0 +1,219 @@
+/**
+ * Color helpers - CSS filter math and color formatting.
+ *
+ * @module lib/color
+ * @internal
+ */
+
+/**
+ * Clamps a channel value to 0-255.
+ *
+ * @param value - Channel value.
+ * @returns Clamped value.
+ *
+ * @internal
+ */
+export function clampChannel(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value
+}
+
+/**
+ * Row-major 3x3 matrix for CSS `saturate()` (from the Filter Effects spec).
+ *
+ * @param saturate - Saturation multiplier.
+ * @returns Nine matrix coefficients.
+ *
+ * @internal
+ */
+export function getSaturateMatrix(saturate: number): number[] {
+  const s = saturate
+  return [
+    0.213 + 0.787 * s,
+    0.715 - 0.715 * s,
+    0.072 - 0.072 * s,
+    0.213 - 0.213 * s,
+    0.715 + 0.285 * s,
+    0.072 - 0.072 * s,
+    0.213 - 0.213 * s,
+    0.715 - 0.715 * s,
+    0.072 + 0.928 * s
+  ]
+}
+
+/**
+ * Applies CSS `brightness()` then `saturate()` to an RGB color, matching
+ * the filter matrices from the Filter Effects spec. Lets non-filter
+ * renderers look the same as the CSS-filtered canvas.
+ *
+ * @param r - Red (0-255).
+ * @param g - Green (0-255).
+ * @param b - Blue (0-255).
+ * @param brightness - Brightness multiplier.
+ * @param saturate - Saturation multiplier.
+ * @returns Adjusted [r, g, b], clamped to 0-255.
+ *
+ * @internal
+ */
+export function applyColorFilters(
+  r: number,
+  g: number,
+  b: number,
+  brightness: number,
+  saturate: number
+): [number, number, number] {
+  const m = getSaturateMatrix(saturate)
+  const br = clampChannel(r * brightness)
+  const bg = clampChannel(g * brightness)
+  const bb = clampChannel(b * brightness)
+
+  return [
+    clampChannel(m[0] * br + m[1] * bg + m[2] * bb),
+    clampChannel(m[3] * br + m[4] * bg + m[5] * bb),
+    clampChannel(m[6] * br + m[7] * bg + m[8] * bb)
+  ]
+}
+
+/**
+ * Applies brightness and a saturate matrix to every pixel (modifies the
+ * image in place). Same result as {@link applyColorFilters} per pixel.
+ *
+ * Also runs in the worker, which gets only this function's source, so
+ * it doesn't call the helpers above.
+ *
+ * @param image - Image to adjust (gets modified).
+ * @param brightness - Brightness multiplier.
+ * @param matrix - Saturate matrix. See {@link getSaturateMatrix}.
+ * @returns The same image, adjusted.
+ *
+ * @internal
+ */
+export function filterImageData(
+  image: ImageData,
+  brightness: number,
+  matrix: number[]
+): ImageData {
+  const { data } = image
+  for (let i = 0; i < data.length; i += 4) {
+    const r = Math.min(255, data[i] * brightness)
+    const g = Math.min(255, data[i + 1] * brightness)
+    const b = Math.min(255, data[i + 2] * brightness)
+    // Uint8ClampedArray clamps the results
+    data[i] = matrix[0] * r + matrix[1] * g + matrix[2] * b
+    data[i + 1] = matrix[3] * r + matrix[4] * g + matrix[5] * b
+    data[i + 2] = matrix[6] * r + matrix[7] * g + matrix[8] * b
+  }
+  return image
+}
+
+/**
+ * Formats a color as a `#rrggbb` hex string with rounded channels.
+ *
+ * @param r - Red (0-255).
+ * @param g - Green (0-255).
+ * @param b - Blue (0-255).
+ * @returns Hex color string.
+ *
+ * @internal
+ */
+export function toHexColor(r: number, g: number, b: number): string {
+  const hex = (value: number) =>
+    clampChannel(Math.round(value)).toString(16).padStart(2, '0')
+  return `#${hex(r)}${hex(g)}${hex(b)}`
+}
+
+/**
+ * Linearizes an sRGB channel.
+ *
+ * @param value - Channel (0-255).
+ * @returns Linear channel (0-1).
+ */
+function toLinear(value: number): number {
+  const channel = value / 255
+  return channel <= 0.04045
+    ? channel / 12.92
+    : Math.pow((channel + 0.055) / 1.055, 2.4)
+}
+
+/**
+ * Gets the WCAG relative luminance of an sRGB color - what contrast
+ * ratios are computed from.
+ *
+ * @param r - Red (0-255).
+ * @param g - Green (0-255).
+ * @param b - Blue (0-255).
+ * @returns Luminance from 0 (black) to 1 (white).
+ *
+ * @internal
+ */
+export function getRelativeLuminance(r: number, g: number, b: number): number {
+  return 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b)
+}
+
+/**
+ * Converts an sRGB color to CIE L*a*b* (D65 white).
+ *
+ * @param r - Red (0-255).
+ * @param g - Green (0-255).
+ * @param b - Blue (0-255).
+ * @returns [L, a, b].
+ *
+ * @internal
+ */
+export function rgbToLab(
+  r: number,
+  g: number,
+  b: number
+): [number, number, number] {
+  const lr = toLinear(r)
+  const lg = toLinear(g)
+  const lb = toLinear(b)
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883
+  const f = (t: number) =>
+    t > 216 / 24389 ? Math.cbrt(t) : ((24389 / 27) * t + 16) / 116
+  const fx = f(x)
+  const fy = f(y)
+  const fz = f(z)
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+/**
+ * Measures the perceptual distance between two sRGB colors (CIE76 delta
+ * E). Around 2 is barely noticeable, 10+ reads as a different color.
+ *
+ * @param first - First [r, g, b].
+ * @param second - Second [r, g, b].
+ * @returns Delta E.
+ *
+ * @internal
+ */
+export function getDeltaE(
+  first: readonly [number, number, number],
+  second: readonly [number, number, number]
+): number {
+  const [l1, a1, b1] = rgbToLab(first[0], first[1], first[2])
+  const [l2, a2, b2] = rgbToLab(second[0], second[1], second[2])
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2)
+}
+
+/**
+ * Formats a color as a CSS `rgb()`/`rgba()` string with rounded channels.
+ *
+ * @param r - Red (0-255).
+ * @param g - Green (0-255).
+ * @param b - Blue (0-255).
+ * @param alpha - Optional alpha (0-1). Omitted = opaque `rgb()`.
+ * @returns CSS color string.
+ *
+ * @internal
+ */
+export function toCssColor(
+  r: number,
+  g: number,
+  b: number,
+  alpha?: number
+): string {
+  const rgb = `${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}`
+  return alpha === undefined ? `rgb(${rgb})` : `rgba(${rgb}, ${alpha})`
+}
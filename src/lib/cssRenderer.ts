@@ -0,0 +1,232 @@
+/**
+ * CSS gradient renderer - averages the frame into a small grid of zone
+ * colors and paints them as layered radial gradients on a div. No large
+ * canvas gets composited and no blur() filter runs, which makes it the
+ * cheapest backend for low-end devices.
+ *
+ * @module lib/cssRenderer
+ * @internal
+ */
+
+import type { NormalizedGlowOptions } from '../types'
+import { CSS_GRADIENT_GRID } from '../constants'
+import {
+  applyEdgeMask,
+  createGlowElement,
+  createTempCanvas,
+  getCanvasContext
+} from './canvas'
+import { applyColorFilters, toCssColor } from './color'
+import {
+  averageGridColors,
+  blendColors,
+  drawVideoFrame,
+  fillExcludedRect,
+  getBlendWeights,
+  getColorDifference,
+  getExcludedRects,
+  getSampleRect,
+  resolveExcludeRegions
+} from './frameProcessor'
+import type { GlowRenderer, RendererCallbacks } from './glowRenderer'
+import { hasCurrentFrame, hasDrawableSize } from './glowRenderer'
+
+/**
+ * Builds the CSS background for a grid of zone colors - one radial
+ * gradient per zone, centered on its cell and fading to transparent.
+ * Brightness and saturate are applied to the colors directly since the
+ * element has no filter.
+ *
+ * @param zones - RGB triplets, row-major.
+ * @param columns - Grid columns.
+ * @param rows - Grid rows.
+ * @param options - Glow options (brightness, saturate).
+ * @returns Value for `background-image`.
+ *
+ * @internal
+ */
+export function buildGradientBackground(
+  zones: Float32Array,
+  columns: number,
+  rows: number,
+  options: Pick<NormalizedGlowOptions, 'brightness' | 'saturate'>
+): string {
+  const radiusX = round((100 / columns) * CSS_GRADIENT_GRID.SPREAD)
+  const radiusY = round((100 / rows) * CSS_GRADIENT_GRID.SPREAD)
+  const layers: string[] = []
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      const i = (row * columns + col) * 3
+      const [r, g, b] = applyColorFilters(
+        zones[i],
+        zones[i + 1],
+        zones[i + 2],
+        options.brightness,
+        options.saturate
+      )
+      const x = round(((col + 0.5) / columns) * 100)
+      const y = round(((row + 0.5) / rows) * 100)
+      layers.push(
+        `radial-gradient(ellipse ${radiusX}% ${radiusY}% at ${x}% ${y}%, ` +
+          `${toCssColor(r, g, b)} 0%, ${toCssColor(r, g, b, 0)} 100%)`
+      )
+    }
+  }
+
+  return layers.join(', ')
+}
+
+/**
+ * Rounds a percentage to two decimals, to keep the gradient CSS short.
+ *
+ * @param value - Value to round.
+ * @returns Rounded value.
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Creates the CSS gradient renderer. Samples through a small temp canvas
+ * (sized by resize, same as the other backends) but only ever shows a div.
+ *
+ * @param options - Glow options (for initial styles).
+ * @param callbacks - Renderer callbacks.
+ * @returns CSS gradient renderer.
+ * @throws {Error} If a 2D context is unavailable for sampling.
+ *
+ * @internal
+ */
+export function createCssGradientRenderer(
+  options: NormalizedGlowOptions,
+  callbacks: RendererCallbacks
+): GlowRenderer {
+  const { COLUMNS, ROWS } = CSS_GRADIENT_GRID
+  const element = createGlowElement(options)
+  let tempCanvas = createTempCanvas()
+  let tempCtx = getCanvasContext(tempCanvas, 'temporary canvas')
+  let colorOptions = options
+  // Both allocated once - zones holds the smoothed colors between frames
+  const zones = new Float32Array(COLUMNS * ROWS * 3)
+  const sample = new Float32Array(zones.length)
+  const pixels = {
+    data: new Uint8ClampedArray(COLUMNS * ROWS * 4),
+    width: COLUMNS,
+    height: ROWS
+  }
+  let hasZones = false
+
+  element.style.filter = 'none'
+  applyEdgeMask(element, true)
+
+  function paint(): void {
+    if (!hasZones) return
+    element.style.backgroundImage = buildGradientBackground(
+      zones,
+      COLUMNS,
+      ROWS,
+      colorOptions
+    )
+  }
+
+  return {
+    type: 'css',
+    usesWorker: false,
+    element,
+    get width() {
+      return tempCanvas.width
+    },
+    get height() {
+      return tempCanvas.height
+    },
+    resize(width, height) {
+      if (tempCanvas.width === width && tempCanvas.height === height) return
+      tempCanvas.width = width
+      tempCanvas.height = height
+      hasZones = false
+    },
+    draw(video, frame) {
+      const { width, height } = tempCanvas
+      if (!hasDrawableSize(width, height) || !hasCurrentFrame(video)) {
+        return false
+      }
+      if (frame.reset) hasZones = false
+
+      try {
+        const { sceneCutThreshold, smoothingMs } = frame.options
+        const sampleRect = getSampleRect(
+          video,
+          frame.source,
+          frame.options.sampleRegion
+        )
+        drawVideoFrame(tempCtx, video, width, height, sampleRect)
+        const image = tempCtx.getImageData(0, 0, width, height)
+        getExcludedRects(
+          video,
+          sampleRect,
+          width,
+          height,
+          resolveExcludeRegions(frame.options.excludeRegions, video)
+        ).forEach(rect => fillExcludedRect(image, rect))
+        averageGridColors(image, COLUMNS, ROWS, sample)
+
+        if (!hasZones) {
+          zones.set(sample)
+        } else {
+          const difference =
+            sceneCutThreshold > 0 ? getColorDifference(zones, sample) : 0
+          if (sceneCutThreshold > 0 && difference >= sceneCutThreshold) {
+            // Hard cut - snap like the canvas renderer does
+            zones.set(sample)
+            callbacks.onSceneChange(difference)
+          } else {
+            const { blendOld, blendNew } = getBlendWeights(
+              smoothingMs,
+              frame.elapsedMs
+            )
+            blendColors(zones, sample, blendOld, blendNew)
+          }
+        }
+        hasZones = true
+
+        paint()
+        return true
+      } catch (error) {
+        callbacks.onError(error)
+        return false
+      }
+    },
+    readPixels() {
+      if (!hasZones) return null
+      // One pixel per zone
+      for (let i = 0, j = 0; i < zones.length; i += 3, j += 4) {
+        pixels.data[j] = zones[i]
+        pixels.data[j + 1] = zones[i + 1]
+        pixels.data[j + 2] = zones[i + 2]
+        pixels.data[j + 3] = 255
+      }
+      return pixels
+    },
+    clear() {
+      hasZones = false
+      element.style.backgroundImage = ''
+    },
+    replaceSampleCanvas() {
+      const { width, height } = tempCanvas
+      tempCanvas = createTempCanvas()
+      tempCanvas.width = width
+      tempCanvas.height = height
+      tempCtx = getCanvasContext(tempCanvas, 'temporary canvas')
+    },
+    updateStyles(newOptions) {
+      colorOptions = newOptions
+      element.style.opacity = `${newOptions.opacity}`
+      paint()
+    },
+    dispose() {
+      hasZones = false
+      element.remove()
+    }
+  }
+}
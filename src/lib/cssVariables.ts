@@ -0,0 +1,81 @@
+/**
+ * CSS custom properties - publishes the glow's palette on an element so
+ * page styles can follow the video.
+ *
+ * @module lib/cssVariables
+ * @internal
+ */
+
+import type { GlowColor } from '../types'
+import { getAccentColor, getAverageLuminance } from './palette'
+
+/**
+ * Writes custom properties to one element at a time and remembers them,
+ * so they can be removed again.
+ *
+ * @internal
+ */
+export interface CssVariableWriter {
+  /**
+   * Sets properties, skipping values that haven't changed. Switching to a
+   * different element first removes everything from the old one.
+   */
+  write(target: HTMLElement, variables: Record<string, string>): void
+  /** Removes every property written so far. */
+  clear(): void
+}
+
+/**
+ * Builds the custom properties for a palette.
+ *
+ * @param palette - Palette, most common first (not empty).
+ * @param prefix - Name prefix, including the leading `--`.
+ * @returns `-color`, `-accent` and `-luminance` properties by name.
+ *
+ * @internal
+ */
+export function getGlowCssVariables(
+  palette: readonly GlowColor[],
+  prefix: string
+): Record<string, string> {
+  const dominant = palette[0]
+  const accent = getAccentColor(palette) ?? dominant
+  return {
+    [`${prefix}-color`]: dominant.hex,
+    [`${prefix}-accent`]: accent.hex,
+    [`${prefix}-luminance`]: getAverageLuminance(palette).toFixed(3)
+  }
+}
+
+/**
+ * Creates a custom property writer.
+ *
+ * @returns Writer with nothing written yet.
+ *
+ * @internal
+ */
+export function createCssVariableWriter(): CssVariableWriter {
+  let element: HTMLElement | null = null
+  const written = new Map<string, string>()
+
+  const clear = () => {
+    written.forEach((_, name) => element?.style.removeProperty(name))
+    written.clear()
+    element = null
+  }
+
+  return {
+    write(target, variables) {
+      if (target !== element) {
+        clear()
+        element = target
+      }
+      Object.entries(variables).forEach(([name, value]) => {
+        if (written.get(name) === value) return
+        target.style.setProperty(name, value)
+        written.set(name, value)
+      })
+    },
+    clear
+  }
+}
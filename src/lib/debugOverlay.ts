@@ -0,0 +1,412 @@
+/**
+ * Debug overlay - a HUD in the corner of the video showing what the glow
+ * samples, what it blends and what that costs, for tuning `downscale` and
+ * `updateInterval` on real devices. Only reachable through the `/debug`
+ * entry, so the main bundle doesn't carry it.
+ *
+ * @module lib/debugOverlay
+ */
+
+import type { AmbientGlow } from '../index'
+import type {
+  GlowDebugInfo,
+  GlowDebugOverlayOptions,
+  GlowFrameEvent,
+  GlowPixels
+} from '../types'
+import { DEBUG_OVERLAY, VIDEO_READY_STATE_CURRENT_DATA } from '../constants'
+import {
+  getEdgeSampling,
+  getExcludedRects,
+  sampleFrame,
+  type EdgeSampling
+} from './frameProcessor'
+
+/**
+ * Debug overlay attached to a glow.
+ *
+ * @public
+ */
+export interface GlowDebugOverlay {
+  /** Overlay root, inserted after the video. */
+  readonly element: HTMLElement
+  /** True while the overlay is shown (and following the glow). */
+  readonly isVisible: boolean
+  show(): void
+  hide(): void
+  /**
+   * Shows or hides the overlay.
+   * @param visible - State to switch to, else the opposite of the current.
+   */
+  toggle(visible?: boolean): void
+  /** Removes the overlay. Runs by itself when the glow is destroyed. */
+  destroy(): void
+}
+
+/**
+ * Labeled preview canvas.
+ */
+interface Preview {
+  readonly root: HTMLElement
+  readonly canvas: HTMLCanvasElement
+  readonly ctx: CanvasRenderingContext2D | null
+}
+
+/**
+ * Creates a labeled preview, shown `width` px wide whatever its buffer
+ * size (pixelated, so each buffer pixel stays visible).
+ *
+ * @param doc - Document to create it in.
+ * @param label - Caption.
+ * @param width - Display width in CSS px.
+ * @returns Preview parts.
+ */
+function createPreview(doc: Document, label: string, width: number): Preview {
+  const root = doc.createElement('figure')
+  root.style.margin = '0 0 4px'
+  const canvas = doc.createElement('canvas')
+  canvas.style.display = 'block'
+  canvas.style.width = `${width}px`
+  canvas.style.imageRendering = 'pixelated'
+  canvas.style.background = '#000'
+  const caption = doc.createElement('figcaption')
+  caption.textContent = label
+  root.append(caption, canvas)
+  return { root, canvas, ctx: canvas.getContext('2d') }
+}
+
+/**
+ * Resizes a preview buffer and its display height to an aspect ratio.
+ *
+ * @param preview - Preview to size.
+ * @param width - Buffer width.
+ * @param height - Buffer height.
+ * @param displayWidth - Display width in CSS px.
+ */
+function sizePreview(
+  preview: Preview,
+  width: number,
+  height: number,
+  displayWidth: number
+): void {
+  const { canvas } = preview
+  if (canvas.width !== width) canvas.width = width
+  if (canvas.height !== height) canvas.height = height
+  canvas.style.height = `${Math.round((displayWidth * height) / width)}px`
+}
+
+/**
+ * Copies pixels top row first, flipping buffers read bottom-up.
+ *
+ * @param pixels - Pixels to copy.
+ * @param target - Top-down RGBA data of the same size.
+ */
+function copyRowsTopDown(pixels: GlowPixels, target: Uint8ClampedArray): void {
+  const { data, height } = pixels
+  if (!pixels.bottomUp) {
+    target.set(data)
+    return
+  }
+  const rowLength = pixels.width * 4
+  for (let y = 0; y < height; y++) {
+    const start = (height - 1 - y) * rowLength
+    target.set(data.subarray(start, start + rowLength), y * rowLength)
+  }
+}
+
+/**
+ * Samples the frame the way the glow does - same source rect, size,
+ * excluded rects and edge bands - minus the blur and color filters.
+ *
+ * @param preview - Sample preview.
+ * @param info - Glow debug info.
+ * @param edges - Edge sampling the renderer applies, or null.
+ * @param displayWidth - Display width in CSS px.
+ */
+function drawSamplePreview(
+  preview: Preview,
+  info: GlowDebugInfo,
+  edges: EdgeSampling | null,
+  displayWidth: number
+): void {
+  const { ctx } = preview
+  const { video, sampleRegion, sampleWidth, sampleHeight } = info
+  sizePreview(preview, sampleWidth, sampleHeight, displayWidth)
+  if (!ctx) return
+
+  const source = {
+    x: sampleRegion.x * video.videoWidth,
+    y: sampleRegion.y * video.videoHeight,
+    width: sampleRegion.width * video.videoWidth,
+    height: sampleRegion.height * video.videoHeight
+  }
+  const exclusions = getExcludedRects(
+    video,
+    source,
+    sampleWidth,
+    sampleHeight,
+    info.excludeRegions
+  )
+  try {
+    const frame = sampleFrame(
+      video,
+      ctx,
+      sampleWidth,
+      sampleHeight,
+      null,
+      undefined,
+      source,
+      exclusions,
+      edges
+    )
+    ctx.putImageData(frame, 0, 0)
+  } catch {
+    // Cross-origin frames can't be read back - the plain draw stays up
+  }
+}
+
+/**
+ * Draws the frame with the sampled rect outlined, excluded regions filled
+ * in, and edge bands shaded when sampling edges.
+ *
+ * @param preview - Source preview.
+ * @param info - Glow debug info.
+ * @param edgeDepth - Edge band depth, or 0 when sampling the whole rect.
+ * @param width - Preview width in px.
+ */
+function drawSourcePreview(
+  preview: Preview,
+  info: GlowDebugInfo,
+  edgeDepth: number,
+  width: number
+): void {
+  const { ctx } = preview
+  const { video, sampleRegion, excludeRegions } = info
+  const height = Math.max(
+    1,
+    Math.round((width * video.videoHeight) / video.videoWidth)
+  )
+  sizePreview(preview, width, height, width)
+  if (!ctx) return
+
+  ctx.drawImage(video, 0, 0, width, height)
+  const x = sampleRegion.x * width
+  const y = sampleRegion.y * height
+  const w = sampleRegion.width * width
+  const h = sampleRegion.height * height
+
+  if (edgeDepth > 0) {
+    const depthX = w * edgeDepth
+    const depthY = h * edgeDepth
+    ctx.fillStyle = DEBUG_OVERLAY.EDGE_COLOR
+    ctx.fillRect(x, y, w, depthY)
+    ctx.fillRect(x, y + h - depthY, w, depthY)
+    ctx.fillRect(x, y + depthY, depthX, h - 2 * depthY)
+    ctx.fillRect(x + w - depthX, y + depthY, depthX, h - 2 * depthY)
+  }
+  ctx.fillStyle = DEBUG_OVERLAY.EXCLUDED_COLOR
+  excludeRegions.forEach(region => {
+    ctx.fillRect(
+      region.x * width,
+      region.y * height,
+      region.width * width,
+      region.height * height
+    )
+  })
+  ctx.strokeStyle = DEBUG_OVERLAY.SAMPLE_COLOR
+  ctx.lineWidth = 1
+  ctx.strokeRect(x + 0.5, y + 0.5, Math.max(0, w - 1), Math.max(0, h - 1))
+}
+
+/**
+ * Attaches a debug overlay to a glow, in a corner of its video. It shows
+ * the frame with the sampled, excluded and edge regions marked, the
+ * downscaled sample as the glow takes it (before blur and color), the
+ * blended buffer, and the frame rate, draw cost, buffer size, quality and
+ * loop / visibility state. Hidden, it stops listening to the glow, so it
+ * costs nothing until shown again.
+ *
+ * @param glow - Glow to inspect.
+ * @param options - Placement and size. See {@link GlowDebugOverlayOptions}.
+ * @returns Overlay controls.
+ * @throws {Error} If the glow was destroyed.
+ *
+ * @example
+ * ```typescript
+ * import { createDebugOverlay } from 'video-ambient-glow/debug';
+ *
+ * const overlay = createDebugOverlay(glow, { corner: 'top-right' });
+ * window.addEventListener('keydown', event => {
+ *   if (event.key === 'd') overlay.toggle();
+ * });
+ * ```
+ *
+ * @public
+ */
+export function createDebugOverlay(
+  glow: AmbientGlow,
+  options: GlowDebugOverlayOptions = {}
+): GlowDebugOverlay {
+  if (glow.getIsDestroyed()) {
+    throw new Error(
+      'AmbientGlow: Cannot attach a debug overlay to a destroyed instance'
+    )
+  }
+
+  const { video } = glow.getDebugInfo()
+  const doc = video.ownerDocument
+  const corner = options.corner ?? 'top-left'
+  const previewWidth = options.previewWidth ?? DEBUG_OVERLAY.PREVIEW_WIDTH
+  const alignRight = corner.endsWith('right')
+  const alignBottom = corner.startsWith('bottom')
+
+  const element = doc.createElement('div')
+  element.className = 'ambient-glow-debug'
+  element.setAttribute('aria-hidden', 'true')
+  Object.assign(element.style, {
+    position: 'absolute',
+    zIndex: DEBUG_OVERLAY.Z_INDEX,
+    transform: `translate(${alignRight ? '-100%' : '0'}, ${alignBottom ? '-100%' : '0'})`,
+    padding: '6px',
+    background: 'rgba(0, 0, 0, 0.75)',
+    color: '#fff',
+    font: '11px/1.4 ui-monospace, monospace',
+    pointerEvents: 'none'
+  })
+
+  const source = createPreview(doc, 'source', previewWidth)
+  const sample = createPreview(doc, 'sample', previewWidth)
+  const blended = createPreview(doc, 'blended', previewWidth)
+  const readout = doc.createElement('pre')
+  readout.style.margin = '0'
+  element.append(source.root, sample.root, blended.root, readout)
+  video.after(element)
+
+  // Frames in the rate window, for the frame rate and average draw cost
+  const frames: { time: number; costMs: number }[] = []
+  let lastCostMs = 0
+  let isVisible = false
+  let isDestroyed = false
+
+  const place = () => {
+    const margin = DEBUG_OVERLAY.MARGIN
+    const left = alignRight
+      ? video.offsetLeft + video.offsetWidth - margin
+      : video.offsetLeft + margin
+    const top = alignBottom
+      ? video.offsetTop + video.offsetHeight - margin
+      : video.offsetTop + margin
+    element.style.left = `${left}px`
+    element.style.top = `${top}px`
+  }
+
+  const drawPreviews = (info: GlowDebugInfo) => {
+    const hasFrame =
+      video.readyState >= VIDEO_READY_STATE_CURRENT_DATA &&
+      video.videoWidth > 0 &&
+      video.videoHeight > 0
+    // Only the 2D renderer samples edge bands
+    const edges =
+      info.rendererType === 'canvas2d'
+        ? getEdgeSampling(glow.getOptions())
+        : null
+    if (hasFrame) {
+      drawSourcePreview(source, info, edges?.depth ?? 0, previewWidth)
+    }
+
+    if (hasFrame && info.sampleWidth > 0 && info.sampleHeight > 0) {
+      drawSamplePreview(sample, info, edges, previewWidth)
+    }
+
+    const pixels = info.blendedPixels
+    if (pixels && blended.ctx) {
+      sizePreview(blended, pixels.width, pixels.height, previewWidth)
+      const image = blended.ctx.createImageData(pixels.width, pixels.height)
+      copyRowsTopDown(pixels, image.data)
+      blended.ctx.putImageData(image, 0, 0)
+    }
+  }
+
+  const refresh = () => {
+    if (!isVisible || isDestroyed) return
+    const info = glow.getDebugInfo()
+    const stats = glow.getStats()
+    const quality = glow.getQuality()
+    const { pausedBy } = glow.getRenderState()
+
+    const now = performance.now()
+    while (
+      frames.length &&
+      now - frames[0].time > DEBUG_OVERLAY.RATE_WINDOW_MS
+    ) {
+      frames.shift()
+    }
+    const fps = (frames.length * 1000) / DEBUG_OVERLAY.RATE_WINDOW_MS
+    const averageCostMs = frames.length
+      ? frames.reduce((total, frame) => total + frame.costMs, 0) / frames.length
+      : 0
+
+    place()
+    drawPreviews(info)
+    readout.textContent = [
+      `${info.rendererType} · ${fps.toFixed(1)} fps`,
+      `draw ${lastCostMs.toFixed(2)}ms (avg ${averageCostMs.toFixed(2)}ms)`,
+      `buffer ${stats.bufferWidth}×${stats.bufferHeight} · css ${Math.round(stats.cssWidth)}×${Math.round(stats.cssHeight)}`,
+      `downscale ${quality.downscale.toFixed(3)} · every ${Math.round(quality.updateInterval)}ms` +
+        (quality.adaptive ? ` · level ${quality.level}` : ''),
+      `${stats.isLooping ? 'looping' : 'idle'} · ` +
+        (stats.isVisible ? 'visible' : `paused (${pausedBy.join(', ')})`)
+    ].join('\n')
+  }
+
+  const handleFrame = ({ drawCostMs }: GlowFrameEvent) => {
+    lastCostMs = drawCostMs
+    frames.push({ time: performance.now(), costMs: drawCostMs })
+    refresh()
+  }
+
+  const overlay: GlowDebugOverlay = {
+    element,
+    get isVisible() {
+      return isVisible
+    },
+    show() {
+      if (isVisible || isDestroyed) return
+      isVisible = true
+      element.style.display = ''
+      glow.on('frame', handleFrame)
+      glow.on('start', refresh)
+      glow.on('stop', refresh)
+      glow.on('resize', refresh)
+      refresh()
+    },
+    hide() {
+      if (!isVisible) return
+      isVisible = false
+      element.style.display = 'none'
+      glow.off('frame', handleFrame)
+      glow.off('start', refresh)
+      glow.off('stop', refresh)
+      glow.off('resize', refresh)
+      // Stale once shown again
+      frames.length = 0
+      lastCostMs = 0
+    },
+    toggle(visible = !isVisible) {
+      if (visible) overlay.show()
+      else overlay.hide()
+    },
+    destroy() {
+      if (isDestroyed) return
+      overlay.hide()
+      isDestroyed = true
+      glow.off('destroy', overlay.destroy)
+      element.remove()
+    }
+  }
+
+  glow.once('destroy', overlay.destroy)
+  if (options.visible ?? true) overlay.show()
+  else element.style.display = 'none'
+  return overlay
+}
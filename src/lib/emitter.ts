@@ -0,0 +1,97 @@
+/**
+ * Tiny typed event emitter used for the public `on`/`off`/`once` API.
+ *
+ * @module lib/emitter
+ * @internal
+ */
+
+/**
+ * Listener for a single event type.
+ *
+ * @internal
+ */
+export type Listener<T> = (payload: T) => void
+
+/**
+ * Typed emitter keyed by an event map.
+ *
+ * @internal
+ */
+export interface Emitter<EventMap> {
+  on<K extends keyof EventMap>(type: K, listener: Listener<EventMap[K]>): void
+  off<K extends keyof EventMap>(type: K, listener: Listener<EventMap[K]>): void
+  /** Adds a listener that's removed before its first call. */
+  once<K extends keyof EventMap>(type: K, listener: Listener<EventMap[K]>): void
+  emit<K extends keyof EventMap>(type: K, payload: EventMap[K]): void
+  /** True if anyone listens for the event (skip work nobody would see). */
+  hasListeners(type: keyof EventMap): boolean
+  clear(): void
+}
+
+/**
+ * Creates a typed emitter. Listener errors are caught and reported so one
+ * bad listener can't break the frame loop or other listeners.
+ *
+ * @param onListenerError - Receives listener errors (warned by default).
+ * @returns New emitter with no listeners.
+ *
+ * @internal
+ */
+export function createEmitter<EventMap>(
+  onListenerError: (type: keyof EventMap, error: unknown) => void = (
+    type,
+    error
+  ) => console.warn(`AmbientGlow: Listener for "${String(type)}" threw:`, error)
+): Emitter<EventMap> {
+  const listeners = new Map<keyof EventMap, Set<Listener<never>>>()
+  // Subset of listeners to drop after one call
+  const onceListeners = new Map<keyof EventMap, Set<Listener<never>>>()
+
+  const add = (
+    map: Map<keyof EventMap, Set<Listener<never>>>,
+    type: keyof EventMap,
+    listener: Listener<never>
+  ) => {
+    let set = map.get(type)
+    if (!set) {
+      set = new Set()
+      map.set(type, set)
+    }
+    set.add(listener)
+  }
+
+  return {
+    on(type, listener) {
+      add(listeners, type, listener)
+    },
+    off(type, listener) {
+      listeners.get(type)?.delete(listener)
+      onceListeners.get(type)?.delete(listener)
+    },
+    once(type, listener) {
+      add(listeners, type, listener)
+      add(onceListeners, type, listener)
+    },
+    emit(type, payload) {
+      const set = listeners.get(type)
+      if (!set) return
+      const once = onceListeners.get(type)
+      // Copy so listeners can unsubscribe while we iterate
+      Array.from(set).forEach(listener => {
+        if (once?.delete(listener)) set.delete(listener)
+        try {
+          ;(listener as Listener<typeof payload>)(payload)
+        } catch (error) {
+          onListenerError(type, error)
+        }
+      })
+    },
+    hasListeners(type) {
+      return (listeners.get(type)?.size ?? 0) > 0
+    },
+    clear() {
+      listeners.clear()
+      onceListeners.clear()
+    }
+  }
+}
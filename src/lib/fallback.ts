@@ -0,0 +1,151 @@
+/**
+ * Tainted video fallback - what the glow shows when a cross-origin video
+ * without CORS headers can't be read. Painted as CSS gradients on the glow
+ * element, like the CSS renderer, so it works with every backend.
+ *
+ * @module lib/fallback
+ * @internal
+ */
+
+import type { GlowColorCue, GlowRGB, NormalizedGlowOptions } from '../types'
+import { CSS_GRADIENT_GRID, TAINTED_FALLBACK } from '../constants'
+import { createTempCanvas, getCanvasContext } from './canvas'
+import { buildGradientBackground } from './cssRenderer'
+import { averageGridColors } from './frameProcessor'
+
+/**
+ * Paints fallback glows on the glow element.
+ *
+ * @internal
+ */
+export interface FallbackPainter {
+  /** Shows a grid of zone colors (CSS_GRADIENT_GRID, row-major RGB). */
+  paint(
+    zones: Float32Array,
+    options: Pick<NormalizedGlowOptions, 'brightness' | 'saturate'>
+  ): void
+  /** Hides the glow. */
+  hide(): void
+  /** Takes the fallback down, leaving the element to its renderer. */
+  reset(): void
+}
+
+/**
+ * Checks if an error means the video's frames can't be read - the
+ * SecurityError getImageData and texImage2D throw for tainted sources.
+ *
+ * @param error - Error a renderer caught.
+ * @returns True for a tainted source.
+ *
+ * @internal
+ */
+export function isTaintedError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { name?: unknown }).name === 'SecurityError'
+  )
+}
+
+/**
+ * Fills a zone grid with one color.
+ *
+ * @param color - [r, g, b].
+ * @returns Zone colors for the CSS gradient grid.
+ *
+ * @internal
+ */
+export function fillZones(color: GlowRGB): Float32Array {
+  const { COLUMNS, ROWS } = CSS_GRADIENT_GRID
+  const zones = new Float32Array(COLUMNS * ROWS * 3)
+  for (let i = 0; i < zones.length; i += 3) zones.set(color, i)
+  return zones
+}
+
+/**
+ * Finds the cue playing at a time.
+ *
+ * @param cues - Cues sorted by time.
+ * @param time - Video time in seconds.
+ * @returns The last cue starting at or before `time` (the first one before
+ *   it starts), or null without cues.
+ *
+ * @internal
+ */
+export function getCueAt(
+  cues: readonly GlowColorCue[],
+  time: number
+): GlowColorCue | null {
+  let current = cues[0] ?? null
+  for (const cue of cues) {
+    if (cue.time > time) break
+    current = cue
+  }
+  return current
+}
+
+/**
+ * Samples a poster image into zone colors.
+ *
+ * @param url - Poster URL.
+ * @returns Zone colors for the CSS gradient grid, or null if the image
+ *   fails to load or is cross-origin (its pixels can't be read either).
+ *
+ * @internal
+ */
+export async function loadPosterZones(
+  url: string
+): Promise<Float32Array | null> {
+  const { COLUMNS, ROWS } = CSS_GRADIENT_GRID
+  const { SAMPLE_SCALE } = TAINTED_FALLBACK
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+
+    const ctx = getCanvasContext(createTempCanvas(), 'poster canvas')
+    const width = COLUMNS * SAMPLE_SCALE
+    const height = ROWS * SAMPLE_SCALE
+    ctx.canvas.width = width
+    ctx.canvas.height = height
+    ctx.drawImage(image, 0, 0, width, height)
+    return averageGridColors(
+      ctx.getImageData(0, 0, width, height),
+      COLUMNS,
+      ROWS
+    )
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Creates a fallback painter for a glow element.
+ *
+ * @param element - Glow element.
+ * @returns Painter that hasn't changed the element yet.
+ *
+ * @internal
+ */
+export function createFallbackPainter(element: HTMLElement): FallbackPainter {
+  const { COLUMNS, ROWS } = CSS_GRADIENT_GRID
+  return {
+    paint(zones, options) {
+      element.style.backgroundImage = buildGradientBackground(
+        zones,
+        COLUMNS,
+        ROWS,
+        options
+      )
+      element.style.visibility = ''
+    },
+    hide() {
+      element.style.backgroundImage = ''
+      element.style.visibility = 'hidden'
+    },
+    reset() {
+      element.style.backgroundImage = ''
+      element.style.visibility = ''
+    }
+  }
+}
@@ -1,24 +1,174 @@
 /**
  * Frame processing - extracts frames from video and blends them.
  *
+ * The buffer, blend, difference, edge and exclusion helpers the worker
+ * renderer runs are self-contained (no imports or module state), so the
+ * worker can serialize them with `toString()`.
+ *
  * @module lib/frameProcessor
  * @internal
  */
 
-import type { NormalizedGlowOptions } from '../types'
-import { VIDEO_READY_STATE_CURRENT_DATA } from '../constants'
+import type {
+  GlowBlendPrecision,
+  GlowExcludeRegions,
+  GlowLetterbox,
+  GlowRegion,
+  NormalizedGlowOptions
+} from '../types'
+import { LETTERBOX, VIDEO_READY_STATE_CURRENT_DATA } from '../constants'
+import { blurImageData, supportsCanvasFilter, type BakedFilters } from './blur'
+import { filterImageData } from './color'
+import type { ContentRect } from './objectFit'
+
+/**
+ * Typed array the blended glow accumulates in. `uint8` precision blends
+ * straight into the output pixels, `uint16` stores 8.8 fixed point and
+ * `float32` stores 0-255 floats.
+ *
+ * @internal
+ */
+export type FrameAccumulator = Uint8ClampedArray | Uint16Array | Float32Array
+
+/**
+ * Preallocated buffers for one glow size, so steady-state updates don't
+ * allocate. Created on resize and reused for every frame after that.
+ *
+ * @internal
+ */
+export interface FrameBuffer {
+  readonly width: number
+  readonly height: number
+  /** Transparent margin per side the baked blur spreads into. */
+  readonly padding: number
+  readonly precision: GlowBlendPrecision
+  /** Blended glow, kept between frames. */
+  readonly accumulator: FrameAccumulator
+  /** Pixels handed to putImageData (shares memory with `uint8` accumulators). */
+  readonly output: ImageData
+  /** Scratch space for the JS blur, allocated the first time it's needed. */
+  blurScratch: Float32Array | null
+  /** Edge band colors for `sampling: 'edges'`, allocated the same way. */
+  edgeScratch: Float32Array | null
+  /** False until the first frame lands (or after a reset). */
+  hasFrame: boolean
+}
+
+/**
+ * Allocates the buffers for one glow size.
+ *
+ * @param ctx - Context used to create the output ImageData.
+ * @param width - Buffer width, padding included.
+ * @param height - Buffer height, padding included.
+ * @param precision - Accumulator precision.
+ * @param padding - Transparent margin per side.
+ * @returns Frame buffer with no frame in it yet.
+ *
+ * @internal
+ */
+export function createFrameBuffer(
+  ctx: { createImageData(width: number, height: number): ImageData },
+  width: number,
+  height: number,
+  precision: GlowBlendPrecision,
+  padding = 0
+): FrameBuffer {
+  const output = ctx.createImageData(width, height)
+  const length = output.data.length
+  const accumulator =
+    precision === 'float32'
+      ? new Float32Array(length)
+      : precision === 'uint16'
+        ? new Uint16Array(length)
+        : output.data
+
+  return {
+    width,
+    height,
+    padding,
+    precision,
+    accumulator,
+    output,
+    blurScratch: null,
+    edgeScratch: null,
+    hasFrame: false
+  }
+}
+
+/**
+ * Blends 8-bit pixels into an accumulator in place. Pass blendOld 0 and
+ * blendNew 1 to load a frame without blending.
+ *
+ * @param accumulator - Accumulator (gets modified).
+ * @param pixels - New 8-bit RGBA pixels.
+ * @param blendOld - Weight for the accumulated glow (0-1).
+ * @param blendNew - Weight for the new pixels (0-1).
+ *
+ * @internal
+ */
+export function accumulateFrame(
+  accumulator: FrameAccumulator,
+  pixels: Uint8ClampedArray,
+  blendOld: number,
+  blendNew: number
+): void {
+  const len = Math.min(accumulator.length, pixels.length)
+
+  if (accumulator instanceof Uint16Array) {
+    // 8.8 fixed point - round instead of letting the store truncate, or
+    // repeated blending creeps toward black
+    const scaledNew = blendNew * 256
+    for (let i = 0; i < len; i++) {
+      accumulator[i] = accumulator[i] * blendOld + pixels[i] * scaledNew + 0.5
+    }
+    return
+  }
+
+  for (let i = 0; i < len; i++) {
+    accumulator[i] = accumulator[i] * blendOld + pixels[i] * blendNew
+  }
+}
+
+/**
+ * Writes an accumulator out as 8-bit pixels. No-op for `uint8`
+ * accumulators, which already are the output.
+ *
+ * @param accumulator - Blended glow.
+ * @param output - 8-bit RGBA pixels to write to.
+ *
+ * @internal
+ */
+export function writeAccumulator(
+  accumulator: FrameAccumulator,
+  output: Uint8ClampedArray
+): void {
+  if (accumulator === output) return
+
+  const len = Math.min(accumulator.length, output.length)
+  const scale = accumulator instanceof Uint16Array ? 1 / 256 : 1
+  for (let i = 0; i < len; i++) {
+    output[i] = accumulator[i] * scale
+  }
+}
 
 /**
- * Draws a video frame and blends it with the previous one for smooth transitions.
+ * Draws a video frame and blends it into the frame buffer for smooth
+ * transitions. Everything except the getImageData readback (which the 2D
+ * canvas API always allocates) reuses the buffer's memory.
  *
  * @param video - Video element to sample.
  * @param tempCtx - Temp canvas for extraction.
  * @param mainCtx - Main canvas for glow.
- * @param canvasWidth - Canvas width.
- * @param canvasHeight - Canvas height.
- * @param options - Options with blend weights.
- * @param lastImage - Previous frame data, or null.
- * @returns New frame data for next blend.
+ * @param buffer - Frame buffer for the current size (gets modified).
+ * @param options - Options with the smoothing time constant.
+ * @param elapsedMs - Time since the last blend (defaults to updateInterval).
+ * @param onSceneChange - Called with the frame difference when a hard cut is detected.
+ * @param baked - Blur and color filters to bake in (`blurMode: 'canvas'`).
+ * @param source - Visible part of the frame in video pixels, or null for
+ *   the whole frame.
+ * @param onError - Called when the frame can't be read (e.g. a
+ *   cross-origin video without CORS). Warns when not given.
+ * @returns True if a frame was drawn.
  *
  * @internal
  */
@@ -26,34 +176,821 @@ export function drawAndBlendFrame(
   video: HTMLVideoElement,
   tempCtx: CanvasRenderingContext2D,
   mainCtx: CanvasRenderingContext2D,
-  canvasWidth: number,
-  canvasHeight: number,
+  buffer: FrameBuffer,
   options: NormalizedGlowOptions,
-  lastImage: ImageData | null
-): ImageData | null {
-  if (video.readyState < VIDEO_READY_STATE_CURRENT_DATA || canvasWidth === 0) {
-    return lastImage
+  elapsedMs: number = options.updateInterval,
+  onSceneChange?: (difference: number) => void,
+  baked: BakedFilters | null = null,
+  source: ContentRect | null = null,
+  onError?: (error: unknown) => void
+): boolean {
+  const { padding, output } = buffer
+  // The video fills the middle, the padding is left for the blur
+  const width = buffer.width - padding * 2
+  const height = buffer.height - padding * 2
+  if (video.readyState < VIDEO_READY_STATE_CURRENT_DATA || width <= 0) {
+    return false
   }
 
-  const { blendOld, blendNew } = options
+  const { blendOld, blendNew } = getBlendWeights(options.smoothingMs, elapsedMs)
 
   try {
-    tempCtx.drawImage(video, 0, 0, canvasWidth, canvasHeight)
-    const newFrame = tempCtx.getImageData(0, 0, canvasWidth, canvasHeight)
+    if (baked && !buffer.blurScratch) {
+      buffer.blurScratch = new Float32Array(output.data.length)
+    }
+    const edges = getEdgeSampling(options)
+    if (edges && !buffer.edgeScratch) {
+      buffer.edgeScratch = new Float32Array(getEdgeScratchLength(width, height))
+    }
+    const sampleRect = getSampleRect(video, source, options.sampleRegion)
+    const newFrame = sampleFrame(
+      video,
+      tempCtx,
+      width,
+      height,
+      baked,
+      buffer.blurScratch ?? undefined,
+      sampleRect,
+      getExcludedRects(
+        video,
+        sampleRect,
+        width,
+        height,
+        resolveExcludeRegions(options.excludeRegions, video)
+      ),
+      edges,
+      buffer.edgeScratch ?? undefined,
+      padding
+    )
+
+    let cutDifference: number | null = null
+    if (buffer.hasFrame && options.sceneCutThreshold > 0) {
+      const difference = getFrameDifference(output, newFrame)
+      if (difference >= options.sceneCutThreshold) cutDifference = difference
+    }
 
-    if (lastImage) {
-      const blendedFrame = blendFrames(lastImage, newFrame, blendOld, blendNew)
-      mainCtx.putImageData(blendedFrame, 0, 0)
-      return blendedFrame
+    if (buffer.hasFrame && cutDifference === null) {
+      accumulateFrame(buffer.accumulator, newFrame.data, blendOld, blendNew)
     } else {
-      mainCtx.putImageData(newFrame, 0, 0)
-      return newFrame
+      // First frame or hard cut - snap to the new scene instead of
+      // smearing across it
+      accumulateFrame(buffer.accumulator, newFrame.data, 0, 1)
     }
+    buffer.hasFrame = true
+
+    writeAccumulator(buffer.accumulator, output.data)
+    mainCtx.putImageData(output, 0, 0)
+    if (cutDifference !== null) onSceneChange?.(cutDifference)
+    return true
   } catch (error) {
     // Handle CORS or other drawing errors gracefully
-    console.warn('AmbientGlow: Failed to draw frame:', error)
-    return lastImage
+    if (onError) onError(error)
+    else console.warn('AmbientGlow: Failed to draw frame:', error)
+    return false
+  }
+}
+
+/**
+ * Draws the video into the temp canvas and reads it back, baking in blur
+ * and color filters when given. Uses `ctx.filter` where supported and the
+ * JS box blur otherwise. Excluded rects are filled in and edge bands
+ * sampled before the blur, so frames with either always take the JS path.
+ * With padding the frame sits in the middle of a transparent margin that
+ * the blur spreads into.
+ *
+ * @param video - Video to sample.
+ * @param tempCtx - Temp canvas context (sized for the padded frame).
+ * @param width - Sample width.
+ * @param height - Sample height.
+ * @param baked - Filters to bake in, or null.
+ * @param blurScratch - Reusable scratch space for the JS blur.
+ * @param source - Visible part of the frame, or null for the whole frame.
+ * @param exclusions - Rects to fill from their surroundings, in sample px.
+ * @param edges - Edge sampling settings, or null to keep the whole frame.
+ * @param edgeScratch - Reusable scratch space for the edge bands.
+ * @param padding - Transparent margin per side, in sample px.
+ * @returns Sampled frame, padding included.
+ *
+ * @internal
+ */
+export function sampleFrame(
+  video: HTMLVideoElement,
+  tempCtx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  baked: BakedFilters | null = null,
+  blurScratch?: Float32Array,
+  source: ContentRect | null = null,
+  exclusions: readonly ContentRect[] = [],
+  edges: EdgeSampling | null = null,
+  edgeScratch?: Float32Array,
+  padding = 0
+): ImageData {
+  const paddedWidth = width + padding * 2
+  const paddedHeight = height + padding * 2
+  const editsPixels = exclusions.length > 0 || edges !== null
+  if (baked && !editsPixels && supportsCanvasFilter(tempCtx)) {
+    // The blur leaves the edges see-through, so the last frame must go
+    tempCtx.clearRect(0, 0, paddedWidth, paddedHeight)
+    tempCtx.filter = baked.filter
+    drawVideoFrame(tempCtx, video, width, height, source, padding)
+    tempCtx.filter = 'none'
+    return tempCtx.getImageData(0, 0, paddedWidth, paddedHeight)
+  }
+
+  drawVideoFrame(tempCtx, video, width, height, source)
+  let frame = tempCtx.getImageData(0, 0, width, height)
+  exclusions.forEach(rect => fillExcludedRect(frame, rect))
+  if (edges) sampleEdges(frame, edges.depth, edges.falloff, edgeScratch)
+  if (!baked) return frame
+
+  if (padding > 0) {
+    tempCtx.clearRect(0, 0, paddedWidth, paddedHeight)
+    tempCtx.putImageData(frame, padding, padding)
+    frame = tempCtx.getImageData(0, 0, paddedWidth, paddedHeight)
+  }
+  blurImageData(frame, baked.radii, blurScratch, padding > 0)
+  return filterImageData(frame, baked.brightness, baked.matrix)
+}
+
+/**
+ * Draws the video scaled to the given size, cropped to the source rect
+ * when there is one.
+ *
+ * @param ctx - Context to draw into.
+ * @param video - Video to draw.
+ * @param width - Target width.
+ * @param height - Target height.
+ * @param source - Visible part of the frame, or null for the whole frame.
+ * @param offset - Distance from the top-left corner on both axes.
+ *
+ * @internal
+ */
+export function drawVideoFrame(
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  width: number,
+  height: number,
+  source: ContentRect | null = null,
+  offset = 0
+): void {
+  if (!source) {
+    ctx.drawImage(video, offset, offset, width, height)
+    return
+  }
+  const { x, y, width: sourceWidth, height: sourceHeight } = source
+  ctx.drawImage(
+    video,
+    x,
+    y,
+    sourceWidth,
+    sourceHeight,
+    offset,
+    offset,
+    width,
+    height
+  )
+}
+
+/**
+ * Narrows the sampled part of the frame to `sampleRegion`.
+ *
+ * @param video - Video being sampled (for its frame size).
+ * @param source - Visible part of the frame, or null for the whole frame.
+ * @param region - Normalized region to keep, or null for all of it.
+ * @returns Rect to sample in video pixels, or null for the whole frame.
+ *   Regions outside the visible picture are ignored.
+ *
+ * @internal
+ */
+export function getSampleRect(
+  video: HTMLVideoElement,
+  source: ContentRect | null,
+  region: GlowRegion | null
+): ContentRect | null {
+  const { videoWidth, videoHeight } = video
+  if (!region || !videoWidth || !videoHeight) return source
+
+  const visible = source ?? {
+    x: 0,
+    y: 0,
+    width: videoWidth,
+    height: videoHeight
+  }
+  const left = Math.max(visible.x, region.x * videoWidth)
+  const top = Math.max(visible.y, region.y * videoHeight)
+  const right = Math.min(
+    visible.x + visible.width,
+    (region.x + region.width) * videoWidth
+  )
+  const bottom = Math.min(
+    visible.y + visible.height,
+    (region.y + region.height) * videoHeight
+  )
+  if (right <= left || bottom <= top) return source
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+/**
+ * Gets the exclusion list for this frame.
+ *
+ * @param regions - Static list, or a function of the video.
+ * @param video - Video being sampled.
+ * @returns Regions to exclude.
+ *
+ * @internal
+ */
+export function resolveExcludeRegions(
+  regions: GlowExcludeRegions,
+  video: HTMLVideoElement
+): readonly GlowRegion[] {
+  return typeof regions === 'function' ? regions(video) : regions
+}
+
+/**
+ * Maps normalized exclusion regions into sample pixels, rounding outwards
+ * so nothing of an excluded logo leaks in at the edges.
+ *
+ * @param video - Video being sampled (for its frame size).
+ * @param sampleRect - Sampled rect in video pixels, or null for the whole
+ *   frame.
+ * @param width - Sample width.
+ * @param height - Sample height.
+ * @param regions - Normalized regions to exclude.
+ * @returns Non-empty rects in sample pixels.
+ *
+ * @internal
+ */
+export function getExcludedRects(
+  video: HTMLVideoElement,
+  sampleRect: ContentRect | null,
+  width: number,
+  height: number,
+  regions: readonly GlowRegion[]
+): ContentRect[] {
+  const { videoWidth, videoHeight } = video
+  if (!regions.length || !videoWidth || !videoHeight) return []
+
+  const rect = sampleRect ?? {
+    x: 0,
+    y: 0,
+    width: videoWidth,
+    height: videoHeight
   }
+  const toSampleX = (x: number) =>
+    ((x * videoWidth - rect.x) / rect.width) * width
+  const toSampleY = (y: number) =>
+    ((y * videoHeight - rect.y) / rect.height) * height
+
+  // Float noise (0.15 * 60 = 9.000000000000002) shouldn't grow a rect
+  const floor = (value: number) => Math.floor(value + 1e-6)
+  const ceil = (value: number) => Math.ceil(value - 1e-6)
+
+  const rects: ContentRect[] = []
+  regions.forEach(region => {
+    const left = Math.max(0, floor(toSampleX(region.x)))
+    const top = Math.max(0, floor(toSampleY(region.y)))
+    const right = Math.min(width, ceil(toSampleX(region.x + region.width)))
+    const bottom = Math.min(height, ceil(toSampleY(region.y + region.height)))
+    if (right > left && bottom > top) {
+      rects.push({ x: left, y: top, width: right - left, height: bottom - top })
+    }
+  })
+  return rects
+}
+
+/**
+ * Fills a rect from the pixels around it - each pixel is the average of a
+ * horizontal blend between the columns either side and a vertical blend
+ * between the rows above and below. Sides on the frame edge are skipped.
+ * Alpha is left alone.
+ *
+ * @param frame - Frame to fill in (gets modified).
+ * @param rect - Rect in frame pixels.
+ *
+ * @internal
+ */
+export function fillExcludedRect(frame: ImageData, rect: ContentRect): void {
+  const { data, width, height } = frame
+  const x0 = rect.x
+  const y0 = rect.y
+  const x1 = rect.x + rect.width
+  const y1 = rect.y + rect.height
+  const hasLeft = x0 > 0
+  const hasRight = x1 < width
+  const hasTop = y0 > 0
+  const hasBottom = y1 < height
+  const hasRow = hasLeft || hasRight
+  const hasColumn = hasTop || hasBottom
+  // Covers the whole frame - nothing to fill from
+  if (!hasRow && !hasColumn) return
+
+  const pixel = (x: number, y: number) => (y * width + x) * 4
+  for (let y = y0; y < y1; y++) {
+    const rowT = (y - y0 + 1) / (rect.height + 1)
+    for (let x = x0; x < x1; x++) {
+      const columnT = (x - x0 + 1) / (rect.width + 1)
+      const index = pixel(x, y)
+      for (let c = 0; c < 3; c++) {
+        let sum = 0
+        if (hasRow) {
+          const left = data[pixel(hasLeft ? x0 - 1 : x1, y) + c]
+          const right = data[pixel(hasRight ? x1 : x0 - 1, y) + c]
+          sum += left + (right - left) * columnT
+        }
+        if (hasColumn) {
+          const top = data[pixel(x, hasTop ? y0 - 1 : y1) + c]
+          const bottom = data[pixel(x, hasBottom ? y1 : y0 - 1) + c]
+          sum += top + (bottom - top) * rowT
+        }
+        data[index + c] = hasRow && hasColumn ? sum / 2 : sum
+      }
+    }
+  }
+}
+
+/**
+ * Edge band settings for `sampling: 'edges'`.
+ *
+ * @internal
+ */
+export interface EdgeSampling {
+  /** Band depth as a fraction of the frame's width or height. */
+  depth: number
+  /** Weight falloff exponent across the band. */
+  falloff: number
+}
+
+/**
+ * Gets the edge sampling settings from options.
+ *
+ * @param options - Glow options.
+ * @returns Edge settings, or null when sampling the whole frame.
+ *
+ * @internal
+ */
+export function getEdgeSampling(
+  options: NormalizedGlowOptions
+): EdgeSampling | null {
+  if (options.sampling !== 'edges') return null
+  return {
+    depth: Math.min(0.5, Math.max(0, options.edgeDepth)),
+    falloff: Math.max(0, options.edgeFalloff)
+  }
+}
+
+/**
+ * Gets the scratch length {@link sampleEdges} needs for a frame size.
+ *
+ * @param width - Frame width.
+ * @param height - Frame height.
+ * @returns Float count - an RGB color per row for each side band, and per
+ *   column for the top and bottom bands.
+ *
+ * @internal
+ */
+export function getEdgeScratchLength(width: number, height: number): number {
+  return (width + height) * 6
+}
+
+/**
+ * Repaints a frame TV bias lighting style (modifies it in place). Each
+ * row gets a color from the band along the left and right edges, each
+ * column from the bands along the top and bottom, and every pixel takes
+ * the color of the edge it's nearest to. Within a band, pixels weigh
+ * `(1 - i / depth) ^ falloff` at `i` pixels in from the edge. Alpha is
+ * left alone.
+ *
+ * @param frame - Frame to repaint (gets modified).
+ * @param depth - Band depth as a fraction of the width or height.
+ * @param falloff - Weight falloff exponent (0 is a flat average).
+ * @param scratch - Reusable scratch space, at least
+ *   {@link getEdgeScratchLength} long.
+ * @returns The same frame, repainted.
+ *
+ * @internal
+ */
+export function sampleEdges(
+  frame: ImageData,
+  depth: number,
+  falloff: number,
+  scratch?: Float32Array
+): ImageData {
+  const { data, width, height } = frame
+  const length = (width + height) * 6
+  const bands =
+    scratch && scratch.length >= length ? scratch : new Float32Array(length)
+  const depthX = Math.max(1, Math.min(width, Math.round(width * depth)))
+  const depthY = Math.max(1, Math.min(height, Math.round(height * depth)))
+  // Band offsets - left and right have a color per row, top and bottom
+  // one per column
+  const left = 0
+  const right = height * 3
+  const top = height * 6
+  const bottom = top + width * 3
+
+  let totalX = 0
+  for (let i = 0; i < depthX; i++) totalX += Math.pow(1 - i / depthX, falloff)
+  let totalY = 0
+  for (let i = 0; i < depthY; i++) totalY += Math.pow(1 - i / depthY, falloff)
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width
+    for (let c = 0; c < 3; c++) {
+      let near = 0
+      let far = 0
+      for (let i = 0; i < depthX; i++) {
+        const weight = Math.pow(1 - i / depthX, falloff)
+        near += data[(row + i) * 4 + c] * weight
+        far += data[(row + width - 1 - i) * 4 + c] * weight
+      }
+      bands[left + y * 3 + c] = near / totalX
+      bands[right + y * 3 + c] = far / totalX
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    for (let c = 0; c < 3; c++) {
+      let near = 0
+      let far = 0
+      for (let i = 0; i < depthY; i++) {
+        const weight = Math.pow(1 - i / depthY, falloff)
+        near += data[(i * width + x) * 4 + c] * weight
+        far += data[((height - 1 - i) * width + x) * 4 + c] * weight
+      }
+      bands[top + x * 3 + c] = near / totalY
+      bands[bottom + x * 3 + c] = far / totalY
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    // Distances relative to the frame size, so the long sides of a wide
+    // frame don't take over
+    const toTop = (y + 0.5) / height
+    const toBottom = 1 - toTop
+    for (let x = 0; x < width; x++) {
+      const toLeft = (x + 0.5) / width
+      const toRight = 1 - toLeft
+      const nearest = Math.min(toLeft, toRight, toTop, toBottom)
+      const offset =
+        nearest === toLeft
+          ? left + y * 3
+          : nearest === toRight
+            ? right + y * 3
+            : nearest === toTop
+              ? top + x * 3
+              : bottom + x * 3
+      const index = (y * width + x) * 4
+      data[index] = bands[offset]
+      data[index + 1] = bands[offset + 1]
+      data[index + 2] = bands[offset + 2]
+    }
+  }
+  return frame
+}
+
+/**
+ * Measures how different two frames are (mean absolute RGB difference).
+ * Alpha is skipped since the glow canvas is opaque.
+ *
+ * @param oldFrame - Previous frame.
+ * @param newFrame - New frame (same size).
+ * @returns Difference from 0 (identical) to 1 (black vs white).
+ *
+ * @internal
+ */
+export function getFrameDifference(
+  oldFrame: ImageData,
+  newFrame: ImageData
+): number {
+  const oldData = oldFrame.data
+  const newData = newFrame.data
+  const len = Math.min(oldData.length, newData.length)
+  if (len === 0) return 0
+
+  let total = 0
+  for (let i = 0; i < len; i += 4) {
+    total +=
+      Math.abs(oldData[i] - newData[i]) +
+      Math.abs(oldData[i + 1] - newData[i + 1]) +
+      Math.abs(oldData[i + 2] - newData[i + 2])
+  }
+
+  return total / ((len / 4) * 3 * 255)
+}
+
+/**
+ * Checks if a run of pixels is a black bar - all near-black and uniform.
+ *
+ * @param data - Frame pixels.
+ * @param start - Index of the first pixel's red channel.
+ * @param count - Number of pixels.
+ * @param stride - Index step between pixels.
+ * @param cutoff - Brightest luma (0-255) that still counts as black.
+ * @returns True if the run is bar.
+ */
+function isBarRun(
+  data: Uint8ClampedArray,
+  start: number,
+  count: number,
+  stride: number,
+  cutoff: number
+): boolean {
+  let min = 255
+  let max = 0
+  for (let i = 0, index = start; i < count; i++, index += stride) {
+    const luma =
+      0.2126 * data[index] + 0.7152 * data[index + 1] + 0.0722 * data[index + 2]
+    if (luma < min) min = luma
+    if (luma > max) max = luma
+  }
+  return max <= cutoff && max - min <= LETTERBOX.MAX_SPREAD
+}
+
+/**
+ * Measures black bars along each edge of a frame.
+ *
+ * @param frame - Frame to measure.
+ * @param threshold - Brightness (0-1) below which pixels count as black.
+ * @returns Bars as fractions of the frame, or null if the frame says
+ *   nothing (all black, or bars too big to be anything but a dark scene).
+ *
+ * @internal
+ */
+export function measureFrameBorders(
+  frame: ImageData,
+  threshold: number
+): GlowLetterbox | null {
+  const { data, width, height } = frame
+  if (width === 0 || height === 0) return null
+  const cutoff = threshold * 255
+  const rowStride = width * 4
+
+  const isBarRow = (y: number) =>
+    isBarRun(data, y * rowStride, width, 4, cutoff)
+  const isBarColumn = (x: number) =>
+    isBarRun(data, x * 4, height, rowStride, cutoff)
+
+  let top = 0
+  while (top < height && isBarRow(top)) top++
+  if (top === height) return null
+  let bottom = 0
+  while (bottom < height - top && isBarRow(height - 1 - bottom)) bottom++
+  // Columns can all be bar even when rows aren't (dark frame with flat
+  // columns), so both scans stop at the frame edge
+  let left = 0
+  while (left < width && isBarColumn(left)) left++
+  if (left === width) return null
+  let right = 0
+  while (right < width - left && isBarColumn(width - 1 - right)) right++
+
+  const borders = {
+    top: top / height,
+    bottom: bottom / height,
+    left: left / width,
+    right: right / width
+  }
+  const largest = Math.max(
+    borders.top,
+    borders.bottom,
+    borders.left,
+    borders.right
+  )
+  return largest > LETTERBOX.MAX_BORDER ? null : borders
+}
+
+/**
+ * Letterbox detector state.
+ *
+ * @internal
+ */
+export interface BorderDetector {
+  /** Current crop (all zero until bars are confirmed). */
+  readonly crop: GlowLetterbox
+  /**
+   * Adds a measurement (null ones are skipped).
+   * @returns True if the crop changed.
+   */
+  update(borders: GlowLetterbox | null): boolean
+  /** Drops the crop and the measurement window. */
+  reset(): void
+}
+
+/**
+ * Creates a letterbox detector over a rolling window of measurements.
+ * Each side is the smallest bar in the window, so it only grows once every
+ * recent frame agrees (a dark scene won't eat into the picture), but
+ * shrinks as soon as picture shows up where the bar was.
+ *
+ * @param windowSize - Measurements to keep.
+ * @returns Detector with no crop.
+ *
+ * @internal
+ */
+export function createBorderDetector(
+  windowSize: number = LETTERBOX.WINDOW
+): BorderDetector {
+  const sides = ['top', 'bottom', 'left', 'right'] as const
+  const window: GlowLetterbox[] = []
+  let crop: GlowLetterbox = { top: 0, bottom: 0, left: 0, right: 0 }
+
+  return {
+    get crop() {
+      return { ...crop }
+    },
+    update(borders) {
+      if (!borders) return false
+      window.push(borders)
+      if (window.length > windowSize) window.shift()
+
+      const isFull = window.length === windowSize
+      const next = { ...crop }
+      let changed = false
+      sides.forEach(side => {
+        const smallest = Math.min(...window.map(entry => entry[side]))
+        if (smallest >= crop[side] && !isFull) return
+        if (Math.abs(smallest - crop[side]) < LETTERBOX.MIN_CHANGE) return
+        next[side] = smallest
+        changed = true
+      })
+      if (changed) crop = next
+      return changed
+    },
+    reset() {
+      window.length = 0
+      crop = { top: 0, bottom: 0, left: 0, right: 0 }
+    }
+  }
+}
+
+/**
+ * Averages the RGB color of a rectangular region of a frame.
+ *
+ * @param frame - Frame to sample.
+ * @param x - Region left (pixels).
+ * @param y - Region top (pixels).
+ * @param width - Region width (pixels).
+ * @param height - Region height (pixels).
+ * @param out - Array to write [r, g, b] into.
+ * @param offset - Index in `out` to write at.
+ *
+ * @internal
+ */
+export function averageRegionColor(
+  frame: ImageData,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  out: Float32Array,
+  offset: number
+): void {
+  const { data } = frame
+  const x0 = Math.max(0, Math.floor(x))
+  const y0 = Math.max(0, Math.floor(y))
+  const x1 = Math.min(frame.width, Math.max(x0 + 1, Math.ceil(x + width)))
+  const y1 = Math.min(frame.height, Math.max(y0 + 1, Math.ceil(y + height)))
+
+  let r = 0
+  let g = 0
+  let b = 0
+  let count = 0
+  for (let row = y0; row < y1; row++) {
+    for (let col = x0; col < x1; col++) {
+      const i = (row * frame.width + col) * 4
+      r += data[i]
+      g += data[i + 1]
+      b += data[i + 2]
+      count++
+    }
+  }
+
+  out[offset] = count ? r / count : 0
+  out[offset + 1] = count ? g / count : 0
+  out[offset + 2] = count ? b / count : 0
+}
+
+/**
+ * Averages a frame into a grid of zone colors.
+ *
+ * @param frame - Frame to sample.
+ * @param columns - Grid columns.
+ * @param rows - Grid rows.
+ * @param colors - Array to write into (reused between frames).
+ * @returns RGB triplets, row-major (length columns * rows * 3).
+ *
+ * @internal
+ */
+export function averageGridColors(
+  frame: ImageData,
+  columns: number,
+  rows: number,
+  colors: Float32Array = new Float32Array(columns * rows * 3)
+): Float32Array {
+  const cellWidth = frame.width / columns
+  const cellHeight = frame.height / rows
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      averageRegionColor(
+        frame,
+        col * cellWidth,
+        row * cellHeight,
+        cellWidth,
+        cellHeight,
+        colors,
+        (row * columns + col) * 3
+      )
+    }
+  }
+
+  return colors
+}
+
+/**
+ * Blends two arrays of RGB colors (modifies oldColors in place).
+ *
+ * @param oldColors - Previous colors (gets modified).
+ * @param newColors - New colors.
+ * @param blendOld - Weight for old colors (0-1).
+ * @param blendNew - Weight for new colors (0-1).
+ * @returns Blended colors (same ref as oldColors).
+ *
+ * @internal
+ */
+export function blendColors(
+  oldColors: Float32Array,
+  newColors: Float32Array,
+  blendOld: number,
+  blendNew: number
+): Float32Array {
+  const len = Math.min(oldColors.length, newColors.length)
+  for (let i = 0; i < len; i++) {
+    oldColors[i] = oldColors[i] * blendOld + newColors[i] * blendNew
+  }
+  return oldColors
+}
+
+/**
+ * Measures how different two arrays of RGB colors are.
+ * Same scale as {@link getFrameDifference}, so the same scene cut
+ * threshold works for both.
+ *
+ * @param oldColors - Previous colors.
+ * @param newColors - New colors.
+ * @returns Difference from 0 (identical) to 1 (black vs white).
+ *
+ * @internal
+ */
+export function getColorDifference(
+  oldColors: Float32Array,
+  newColors: Float32Array
+): number {
+  const len = Math.min(oldColors.length, newColors.length)
+  if (len === 0) return 0
+
+  let total = 0
+  for (let i = 0; i < len; i++) {
+    total += Math.abs(oldColors[i] - newColors[i])
+  }
+  return total / (len * 255)
+}
+
+/**
+ * Converts a per-update blend weight into a smoothing time constant.
+ *
+ * @param blendNew - Weight for new frame per update (0-1).
+ * @param updateInterval - Update interval the weight was tuned for, in ms.
+ * @returns Time constant in ms (0 = instant, Infinity = frozen).
+ *
+ * @internal
+ */
+export function blendToSmoothingMs(
+  blendNew: number,
+  updateInterval: number
+): number {
+  if (blendNew >= 1) return 0
+  if (blendNew <= 0) return Infinity
+  return -updateInterval / Math.log(1 - blendNew)
+}
+
+/**
+ * Gets blend weights for the real time elapsed since the last blend.
+ * Exponential decay, so two 50ms steps land where one 100ms step does.
+ *
+ * @param smoothingMs - Time constant in ms.
+ * @param elapsedMs - Time since the last blend in ms.
+ * @returns Weights for the old and new frame.
+ *
+ * @internal
+ */
+export function getBlendWeights(
+  smoothingMs: number,
+  elapsedMs: number
+): { blendOld: number; blendNew: number } {
+  if (smoothingMs <= 0) return { blendOld: 0, blendNew: 1 }
+  const blendNew = 1 - Math.exp(-Math.max(0, elapsedMs) / smoothingMs)
+  return { blendOld: 1 - blendNew, blendNew }
 }
 
 /**
@@ -73,13 +1010,6 @@ export function blendFrames(
   blendOld: number,
   blendNew: number
 ): ImageData {
-  const oldData = oldFrame.data
-  const newData = newFrame.data
-  const len = oldData.length
-
-  for (let i = 0; i < len; i++) {
-    oldData[i] = oldData[i] * blendOld + newData[i] * blendNew
-  }
-
+  accumulateFrame(oldFrame.data, newFrame.data, blendOld, blendNew)
   return oldFrame
 }
@@ -0,0 +1,42 @@
+/**
+ * Frame scheduling helpers - picks between video frame callbacks and rAF.
+ *
+ * @module lib/frameScheduling
+ * @internal
+ */
+
+/**
+ * Checks if the video supports `requestVideoFrameCallback`.
+ *
+ * @param video - Video element to check.
+ * @returns True if frame callbacks can be requested and cancelled.
+ *
+ * @internal
+ */
+export function supportsVideoFrameCallback(video: HTMLVideoElement): boolean {
+  return (
+    typeof video.requestVideoFrameCallback === 'function' &&
+    typeof video.cancelVideoFrameCallback === 'function'
+  )
+}
+
+/**
+ * Checks if a decoded frame is new compared to the last one we sampled.
+ * Paused-but-looping states and repeated compositor callbacks can hand us
+ * the same frame more than once. Only the presented-frame count is
+ * compared - a loop or seek can present a new frame at a media time we
+ * already sampled.
+ *
+ * @param metadata - Metadata for the frame being presented.
+ * @param lastMetadata - Metadata of the last sampled frame, or null.
+ * @returns True if the frame hasn't been sampled yet.
+ *
+ * @internal
+ */
+export function isNewVideoFrame(
+  metadata: VideoFrameCallbackMetadata,
+  lastMetadata: VideoFrameCallbackMetadata | null
+): boolean {
+  if (!lastMetadata) return true
+  return metadata.presentedFrames !== lastMetadata.presentedFrames
+}
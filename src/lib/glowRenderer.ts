@@ -0,0 +1,136 @@
+/**
+ * Renderer interface - what every glow backend implements, plus the
+ * checks they share. Each renderer owns the glow canvas and whatever state
+ * it needs to blend frames into it, so the main class only deals with
+ * sizing and timing.
+ *
+ * @module lib/glowRenderer
+ * @internal
+ */
+
+import type { GlowRendererType, NormalizedGlowOptions } from '../types'
+import {
+  MIN_CANVAS_DIMENSION,
+  VIDEO_READY_STATE_CURRENT_DATA
+} from '../constants'
+import type { ContentRect } from './objectFit'
+
+/**
+ * Per-draw input for a renderer.
+ *
+ * @internal
+ */
+export interface RenderFrame {
+  /** Current normalized options. */
+  options: NormalizedGlowOptions
+  /** Time since the last accepted draw, in ms. */
+  elapsedMs: number
+  /** Drop the previous frame and draw without blending. */
+  reset: boolean
+  /** Blur in buffer pixels, for `blurMode: 'canvas'`. */
+  blurRadius: number
+  /**
+   * Part of the frame the video shows (after `object-fit`), in video
+   * pixels. Null for the whole frame.
+   */
+  source: ContentRect | null
+}
+
+/**
+ * RGBA pixels, row-major (ImageData fits).
+ *
+ * @internal
+ */
+export interface PixelBuffer {
+  readonly data: Uint8ClampedArray
+  readonly width: number
+  readonly height: number
+  /** True if rows run bottom to top, as WebGL reads them. */
+  readonly bottomUp?: boolean
+}
+
+/**
+ * Callbacks renderers use to report back to the glow.
+ *
+ * @internal
+ */
+export interface RendererCallbacks {
+  onSceneChange: (difference: number) => void
+  onError: (error: unknown) => void
+  /** Called when a renderer that lost its context can draw again. */
+  onRestore?: () => void
+}
+
+/**
+ * A glow rendering backend.
+ *
+ * @internal
+ */
+export interface GlowRenderer {
+  /** Backend actually in use (after any fallback). */
+  readonly type: GlowRendererType
+  /** True if frames are blended in a worker, so no pixels reach this side. */
+  readonly usesWorker: boolean
+  /** Element the glow is drawn into (a canvas, or a div for `css`). */
+  readonly element: HTMLElement
+  /** Current buffer width. */
+  readonly width: number
+  /** Current buffer height. */
+  readonly height: number
+  /**
+   * Resizes the internal buffer. Drops the previous frame if the size changed.
+   * @param width - Buffer width, padding included.
+   * @param height - Buffer height, padding included.
+   * @param padding - Transparent margin per side for a baked blur to
+   *   spread into (`blurMode: 'canvas'`). The video fills the rest.
+   */
+  resize(width: number, height: number, padding?: number): void
+  /**
+   * Samples the video and blends it into the glow.
+   * @returns True if the frame was accepted (false if not ready or busy).
+   */
+  draw(video: HTMLVideoElement, frame: RenderFrame): boolean
+  /**
+   * Reads the blended glow buffer. Check `bottomUp` for the row order.
+   * @returns Pixels, or null before the first frame or when they live off
+   *   the main thread (worker).
+   */
+  readPixels(): PixelBuffer | null
+  /** Wipes the glow. The next frame starts fresh instead of blending. */
+  clear(): void
+  /**
+   * Swaps the canvas frames are sampled through for a new one. A canvas
+   * stays tainted once a cross-origin frame is drawn into it, so a new
+   * source that can be read needs a new canvas too.
+   */
+  replaceSampleCanvas(): void
+  /** Applies option-driven styles (CSS filters, opacity, uniforms). */
+  updateStyles(options: NormalizedGlowOptions): void
+  /** Releases contexts, workers and GPU resources. */
+  dispose(): void
+}
+
+/**
+ * Checks if the buffer is big enough to draw into.
+ *
+ * @param width - Buffer width.
+ * @param height - Buffer height.
+ * @returns True if both dimensions are at least the minimum.
+ *
+ * @internal
+ */
+export function hasDrawableSize(width: number, height: number): boolean {
+  return width >= MIN_CANVAS_DIMENSION && height >= MIN_CANVAS_DIMENSION
+}
+
+/**
+ * Checks if the video has a frame we can sample.
+ *
+ * @param video - Video element.
+ * @returns True if readyState is at least HAVE_CURRENT_DATA.
+ *
+ * @internal
+ */
+export function hasCurrentFrame(video: HTMLVideoElement): boolean {
+  return video.readyState >= VIDEO_READY_STATE_CURRENT_DATA
+}
@@ -0,0 +1,155 @@
+/**
+ * Adaptive quality governor - steps downscale and updateInterval down when
+ * draws run over budget or frames get dropped, and back up when there's
+ * headroom.
+ *
+ * @module lib/governor
+ * @internal
+ */
+
+import type { NormalizedGlowOptions } from '../types'
+import { ADAPTIVE_QUALITY } from '../constants'
+
+/**
+ * Tracks measured cost and the current quality level.
+ *
+ * @internal
+ */
+export interface QualityGovernor {
+  /** Steps below the configured quality (0 = as configured). */
+  readonly level: number
+  /** Smoothed draw cost in ms (0 until measured). */
+  readonly drawCostMs: number
+  /**
+   * Records how long a draw took and re-evaluates the level.
+   * @returns True if the level changed.
+   */
+  recordDraw(costMs: number, budgetMs: number): boolean
+  /** Records the time between two loop callbacks, to spot dropped frames. */
+  recordFrameGap(gapMs: number): void
+  /** Records frames the video presented between two frame callbacks. */
+  recordDroppedFrames(count: number): void
+  /** Back to the configured quality with fresh measurements. */
+  reset(): void
+}
+
+/**
+ * Applies a quality level to the configured downscale and update interval.
+ *
+ * @param options - Configured options.
+ * @param level - Steps below the configured quality.
+ * @returns Effective downscale and update interval.
+ *
+ * @internal
+ */
+export function getEffectiveQuality(
+  options: Pick<NormalizedGlowOptions, 'downscale' | 'updateInterval'>,
+  level: number
+): { downscale: number; updateInterval: number } {
+  if (level <= 0) {
+    return {
+      downscale: options.downscale,
+      updateInterval: options.updateInterval
+    }
+  }
+
+  const downscale = Math.max(
+    Math.min(options.downscale, ADAPTIVE_QUALITY.MIN_DOWNSCALE),
+    options.downscale * Math.pow(ADAPTIVE_QUALITY.DOWNSCALE_STEP, level)
+  )
+  const updateInterval = Math.min(
+    Math.max(options.updateInterval, ADAPTIVE_QUALITY.MAX_UPDATE_INTERVAL),
+    options.updateInterval * Math.pow(ADAPTIVE_QUALITY.INTERVAL_STEP, level)
+  )
+  return { downscale, updateInterval }
+}
+
+/**
+ * Creates a quality governor. Stepping down needs a run of over-budget
+ * draws, stepping up a much longer run with headroom (hysteresis), and
+ * both counters start over after every step.
+ *
+ * @returns Governor at the configured quality.
+ *
+ * @internal
+ */
+export function createQualityGovernor(): QualityGovernor {
+  let level = 0
+  let drawCostMs = 0
+  let overBudgetRuns = 0
+  let headroomRuns = 0
+  let shortestGap = Infinity
+  let droppedFrames = 0
+
+  // Costs measured at the old level don't say much about the new one
+  const startOver = () => {
+    drawCostMs = 0
+    overBudgetRuns = 0
+    headroomRuns = 0
+    droppedFrames = 0
+  }
+
+  return {
+    get level() {
+      return level
+    },
+    get drawCostMs() {
+      return drawCostMs
+    },
+    recordDraw(costMs, budgetMs) {
+      drawCostMs = drawCostMs
+        ? drawCostMs + (costMs - drawCostMs) * ADAPTIVE_QUALITY.COST_SMOOTHING
+        : costMs
+
+      const isDropping = droppedFrames >= ADAPTIVE_QUALITY.DROPPED_FRAME_LIMIT
+      const hasHeadroom =
+        droppedFrames === 0 && drawCostMs < budgetMs * ADAPTIVE_QUALITY.HEADROOM
+      droppedFrames = 0
+
+      if (drawCostMs > budgetMs || isDropping) {
+        headroomRuns = 0
+        overBudgetRuns++
+        if (
+          overBudgetRuns >= ADAPTIVE_QUALITY.DOWNGRADE_AFTER &&
+          level < ADAPTIVE_QUALITY.MAX_LEVEL
+        ) {
+          level++
+          startOver()
+          return true
+        }
+      } else if (hasHeadroom) {
+        overBudgetRuns = 0
+        headroomRuns++
+        if (headroomRuns >= ADAPTIVE_QUALITY.UPGRADE_AFTER && level > 0) {
+          level--
+          startOver()
+          return true
+        }
+      } else {
+        overBudgetRuns = 0
+        headroomRuns = 0
+      }
+      return false
+    },
+    recordFrameGap(gapMs) {
+      if (gapMs <= 0) return
+      shortestGap = Math.min(shortestGap, gapMs)
+      if (gapMs > shortestGap * ADAPTIVE_QUALITY.DROPPED_FRAME_FACTOR) {
+        // Capped so one long stall only spoils a single sample
+        droppedFrames += Math.min(
+          Math.round(gapMs / shortestGap) - 1,
+          ADAPTIVE_QUALITY.DROPPED_FRAME_LIMIT
+        )
+      }
+    },
+    recordDroppedFrames(count) {
+      if (count <= 0) return
+      droppedFrames += Math.min(count, ADAPTIVE_QUALITY.DROPPED_FRAME_LIMIT)
+    },
+    reset() {
+      level = 0
+      shortestGap = Infinity
+      startOver()
+    }
+  }
+}
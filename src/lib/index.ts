@@ -14,7 +14,108 @@ export {
   updateCanvasFilterStyles,
   ensureParentPositioning
 } from './canvas'
-export { drawAndBlendFrame } from './frameProcessor'
+export {
+  drawAndBlendFrame,
+  blendToSmoothingMs,
+  getBlendWeights,
+  sampleFrame,
+  measureFrameBorders,
+  getSampleRect,
+  resolveExcludeRegions,
+  createBorderDetector,
+  type BorderDetector
+} from './frameProcessor'
+export { createRenderer, createCanvas2DRenderer } from './renderer'
+export type {
+  GlowRenderer,
+  RenderFrame,
+  RendererCallbacks
+} from './glowRenderer'
+export { createWebGLRenderer } from './webglRenderer'
+export { createCssGradientRenderer } from './cssRenderer'
+export { getBlurPadding, getBufferBlurRadius } from './blur'
+export { toHexColor } from './color'
+export {
+  createQualityGovernor,
+  getEffectiveQuality,
+  type QualityGovernor
+} from './governor'
+export { createWorkerRenderer } from './worker'
+export {
+  createScheduler,
+  getSharedScheduler,
+  type GlowScheduler,
+  type ScheduledGlow
+} from './scheduler'
+export {
+  createRenderState,
+  isInPictureInPicture,
+  isHiddenByFullscreen,
+  type RenderState
+} from './renderState'
+export {
+  getFullscreenContainer,
+  getFillLayout,
+  applyGlowLayout,
+  type GlowLayout
+} from './layout'
+export {
+  extractPalette,
+  getPaletteDistance,
+  getAccentColor,
+  getAverageColor,
+  getAverageLuminance
+} from './palette'
+export {
+  createFallbackPainter,
+  isTaintedError,
+  fillZones,
+  getCueAt,
+  loadPosterZones,
+  type FallbackPainter
+} from './fallback'
+export {
+  createThemeColorController,
+  getSharedThemeColor,
+  getVisibleArea,
+  type ThemeColorController,
+  type ThemeColorSource
+} from './themeColor'
+export {
+  createCssVariableWriter,
+  getGlowCssVariables,
+  type CssVariableWriter
+} from './cssVariables'
+export {
+  createZoneSampler,
+  normalizeZoneOptions,
+  getZoneRects,
+  toZoneColors,
+  type ZoneSampler
+} from './zones'
+export {
+  getContentGeometry,
+  parseObjectPosition,
+  isFullFrame,
+  type ContentRect,
+  type ContentGeometry
+} from './objectFit'
+export { supportsVideoFrameCallback, isNewVideoFrame } from './frameScheduling'
+export { createEmitter, type Emitter, type Listener } from './emitter'
+export {
+  createGlowLog,
+  configureDefaultLogging,
+  isLogLevelEnabled,
+  type GlowLog,
+  type GlowLogSource,
+  type GlowLogMessageLevel
+} from './logger'
+export {
+  createStatsCollector,
+  getPercentile,
+  type StatsCollector,
+  type StatsSnapshot
+} from './stats'
 export {
   createVideoEventHandlers,
   type VideoEventType,
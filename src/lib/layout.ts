@@ -0,0 +1,91 @@
+/**
+ * Layout helpers - places the glow around the video, or across a
+ * fullscreen container so its letterbox bars light up.
+ *
+ * @module lib/layout
+ * @internal
+ */
+
+import { CANVAS_STYLE, CANVAS_TRANSFORM } from '../constants'
+
+/**
+ * Glow box in px, relative to the glow's offset parent.
+ *
+ * @internal
+ */
+export interface GlowLayout {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+/**
+ * Gets the fullscreen element if it holds the glow (a player wrapper
+ * rather than the video itself).
+ *
+ * @param glow - Glow element.
+ * @returns Fullscreen container, or null if nothing holding the glow is
+ *   fullscreen.
+ *
+ * @internal
+ */
+export function getFullscreenContainer(glow: Element): Element | null {
+  const { fullscreenElement } = glow.ownerDocument
+  return fullscreenElement && fullscreenElement.contains(glow)
+    ? fullscreenElement
+    : null
+}
+
+/**
+ * Gets the layout that makes the glow cover the container.
+ *
+ * @param container - Element to cover (usually the fullscreen container).
+ * @param parent - Positioned parent the glow is laid out in.
+ * @returns Container box relative to the parent.
+ *
+ * @internal
+ */
+export function getFillLayout(container: Element, parent: Element): GlowLayout {
+  const target = container.getBoundingClientRect()
+  const origin = parent.getBoundingClientRect()
+  return {
+    left: target.left - origin.left,
+    top: target.top - origin.top,
+    width: target.width,
+    height: target.height
+  }
+}
+
+/**
+ * Positions the glow. A layout pins it to that box with square corners,
+ * null puts it back centered behind the video.
+ *
+ * @param element - Glow element.
+ * @param layout - Box to cover, or null for the normal layout.
+ * @param offset - Shift from the video's center in the normal layout, for
+ *   pictures `object-position` moves off-center.
+ *
+ * @internal
+ */
+export function applyGlowLayout(
+  element: HTMLElement,
+  layout: GlowLayout | null,
+  offset: { x: number; y: number } = { x: 0, y: 0 }
+): void {
+  const { style } = element
+  if (layout) {
+    style.left = `${layout.left}px`
+    style.top = `${layout.top}px`
+    style.transform = 'none'
+    style.borderRadius = '0'
+  } else {
+    style.left = '50%'
+    style.top = '50%'
+    style.transform =
+      offset.x || offset.y
+        ? `translate(calc(-50% + ${offset.x}px), calc(-50% + ${offset.y}px))`
+        : CANVAS_TRANSFORM
+    style.borderRadius = CANVAS_STYLE.BORDER_RADIUS
+  }
+}
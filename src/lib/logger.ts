@@ -0,0 +1,129 @@
+/**
+ * Diagnostics - routes messages to the instance's logger (or the page-wide
+ * default) with the instance's context, filters them by level and drops
+ * repeated warnings.
+ *
+ * @module lib/logger
+ * @internal
+ */
+
+import type {
+  GlowLogger,
+  GlowLogLevel,
+  GlowLogContext,
+  GlowLoggingOptions
+} from '../types'
+import { LOG_LEVELS } from '../constants'
+
+/**
+ * Level a message is logged at (`silent` only filters).
+ *
+ * @internal
+ */
+export type GlowLogMessageLevel = Exclude<GlowLogLevel, 'silent'>
+
+/**
+ * Logger bound to one glow instance.
+ *
+ * @internal
+ */
+export interface GlowLog {
+  debug(message: string, detail?: unknown): void
+  info(message: string, detail?: unknown): void
+  /** Logged once per message until {@link GlowLog.reset}. */
+  warn(message: string, detail?: unknown): void
+  /** Logged once per message until {@link GlowLog.reset}. */
+  error(message: string, detail?: unknown): void
+  /** Forgets which warnings and errors were logged, e.g. for a new source. */
+  reset(): void
+}
+
+/**
+ * What a glow log reads from its instance on every message.
+ *
+ * @internal
+ */
+export interface GlowLogSource {
+  /** Instance logger, or null for the page-wide default. */
+  getLogger(): GlowLogger | null
+  /** Instance level, or null for the page-wide default. */
+  getLevel(): GlowLogLevel | null
+  /** Snapshot of the instance for the message. */
+  getContext(): Omit<GlowLogContext, 'detail'>
+}
+
+let defaultLogger: GlowLogger = console
+let defaultLevel: GlowLogLevel = 'warn'
+
+/**
+ * Sets the logger and level for every glow without its own.
+ *
+ * @param options - Page-wide settings. A null `logger` restores `console`.
+ *
+ * @internal
+ */
+export function configureDefaultLogging(options: GlowLoggingOptions): void {
+  if (options.logger !== undefined) defaultLogger = options.logger ?? console
+  if (options.level !== undefined) defaultLevel = options.level
+}
+
+/**
+ * Checks if a message passes a level filter.
+ *
+ * @param level - Message level.
+ * @param threshold - Lowest level that gets through.
+ * @returns True if the message should be logged.
+ *
+ * @internal
+ */
+export function isLogLevelEnabled(
+  level: GlowLogMessageLevel,
+  threshold: GlowLogLevel
+): boolean {
+  return LOG_LEVELS[level] >= LOG_LEVELS[threshold]
+}
+
+/**
+ * Creates a logger for one glow instance. Settings are read on every
+ * message, so option updates and page-wide changes apply right away.
+ *
+ * @param source - Instance settings and context.
+ * @returns Bound logger.
+ *
+ * @internal
+ */
+export function createGlowLog(source: GlowLogSource): GlowLog {
+  const logged = new Set<string>()
+
+  const write = (
+    level: GlowLogMessageLevel,
+    message: string,
+    detail: unknown,
+    dedupe: boolean
+  ) => {
+    if (!isLogLevelEnabled(level, source.getLevel() ?? defaultLevel)) return
+    if (dedupe) {
+      const key = `${level}:${message}`
+      if (logged.has(key)) return
+      logged.add(key)
+    }
+    const context: GlowLogContext = source.getContext()
+    if (detail !== undefined) context.detail = detail
+    const logger = source.getLogger() ?? defaultLogger
+    try {
+      logger[level](message, context)
+    } catch {
+      // A broken logger mustn't take the glow down with it
+    }
+  }
+
+  return {
+    debug: (message, detail) => write('debug', message, detail, false),
+    info: (message, detail) => write('info', message, detail, false),
+    warn: (message, detail) => write('warn', message, detail, true),
+    error: (message, detail) => write('error', message, detail, true),
+    reset() {
+      logged.clear()
+    }
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Object-fit geometry - works out which part of the frame is on screen and
+ * where it sits in the video's box, following `object-fit` and
+ * `object-position`.
+ *
+ * @module lib/objectFit
+ * @internal
+ */
+
+/**
+ * Axis-aligned rectangle in px.
+ *
+ * @internal
+ */
+export interface ContentRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Rendered content of a video element.
+ *
+ * @internal
+ */
+export interface ContentGeometry {
+  /** Visible part of the frame, in video pixels. */
+  source: ContentRect
+  /** Where that part is drawn, relative to the element's box. */
+  display: ContentRect
+}
+
+/**
+ * Resolves one `object-position` component to an offset.
+ *
+ * @param value - Component (`50%`, `12px`, or a keyword).
+ * @param free - Box size minus content size on this axis.
+ * @returns Offset of the content in px.
+ */
+function resolvePosition(value: string, free: number): number {
+  if (value === 'left' || value === 'top') return 0
+  if (value === 'right' || value === 'bottom') return free
+  if (value.endsWith('%')) {
+    const percent = parseFloat(value)
+    if (Number.isFinite(percent)) return (free * percent) / 100
+  } else if (value.endsWith('px')) {
+    const px = parseFloat(value)
+    if (Number.isFinite(px)) return px
+  }
+  // center, calc() and anything we can't resolve
+  return free / 2
+}
+
+/**
+ * Splits `object-position` into horizontal and vertical components.
+ * Computed values are two lengths/percentages, but keyword pairs like
+ * `top left` are handled too.
+ *
+ * @param position - `object-position` value.
+ * @returns [horizontal, vertical] components.
+ *
+ * @internal
+ */
+export function parseObjectPosition(position: string): [string, string] {
+  const parts = position.trim().split(/\s+/).filter(Boolean)
+  const [first = 'center', second = 'center'] = parts
+  const isVertical = (value: string) => value === 'top' || value === 'bottom'
+  const isHorizontal = (value: string) => value === 'left' || value === 'right'
+  if (isVertical(first) || isHorizontal(second)) return [second, first]
+  return [first, second]
+}
+
+/**
+ * Computes the rendered content of a replaced element.
+ *
+ * @param videoWidth - Intrinsic frame width.
+ * @param videoHeight - Intrinsic frame height.
+ * @param boxWidth - Element box width.
+ * @param boxHeight - Element box height.
+ * @param objectFit - `object-fit` value (unknown values act like `contain`,
+ *   the browser default for video).
+ * @param objectPosition - `object-position` value.
+ * @returns Visible source rect and where it's displayed.
+ *
+ * @internal
+ */
+export function getContentGeometry(
+  videoWidth: number,
+  videoHeight: number,
+  boxWidth: number,
+  boxHeight: number,
+  objectFit: string,
+  objectPosition: string
+): ContentGeometry {
+  const containScale = Math.min(boxWidth / videoWidth, boxHeight / videoHeight)
+  let scaleX: number
+  let scaleY: number
+  if (objectFit === 'fill') {
+    scaleX = boxWidth / videoWidth
+    scaleY = boxHeight / videoHeight
+  } else {
+    const scale =
+      objectFit === 'cover'
+        ? Math.max(boxWidth / videoWidth, boxHeight / videoHeight)
+        : objectFit === 'none'
+          ? 1
+          : objectFit === 'scale-down'
+            ? Math.min(1, containScale)
+            : containScale
+    scaleX = scale
+    scaleY = scale
+  }
+
+  const contentWidth = videoWidth * scaleX
+  const contentHeight = videoHeight * scaleY
+  const [positionX, positionY] = parseObjectPosition(objectPosition)
+  const offsetX = resolvePosition(positionX, boxWidth - contentWidth)
+  const offsetY = resolvePosition(positionY, boxHeight - contentHeight)
+
+  // Whatever spills past the box is clipped
+  const left = Math.max(0, offsetX)
+  const top = Math.max(0, offsetY)
+  const right = Math.min(boxWidth, offsetX + contentWidth)
+  const bottom = Math.min(boxHeight, offsetY + contentHeight)
+  const display = {
+    x: left,
+    y: top,
+    width: Math.max(0, right - left),
+    height: Math.max(0, bottom - top)
+  }
+
+  return {
+    source: {
+      x: (left - offsetX) / scaleX,
+      y: (top - offsetY) / scaleY,
+      width: display.width / scaleX,
+      height: display.height / scaleY
+    },
+    display
+  }
+}
+
+/**
+ * Checks if a source rect covers the whole frame (nothing to crop).
+ *
+ * @param source - Source rect in video pixels.
+ * @param videoWidth - Frame width.
+ * @param videoHeight - Frame height.
+ * @returns True if the rect is the full frame (within half a pixel).
+ *
+ * @internal
+ */
+export function isFullFrame(
+  source: ContentRect,
+  videoWidth: number,
+  videoHeight: number
+): boolean {
+  return (
+    Math.abs(source.x) < 0.5 &&
+    Math.abs(source.y) < 0.5 &&
+    Math.abs(source.width - videoWidth) < 0.5 &&
+    Math.abs(source.height - videoHeight) < 0.5
+  )
+}
@@ -0,0 +1,233 @@
+/**
+ * Palette extraction - median-cut quantization over the blended glow
+ * buffer, for theming page chrome from what's playing.
+ *
+ * @module lib/palette
+ * @internal
+ */
+
+import type { GlowColor, GlowRGB } from '../types'
+import { PALETTE } from '../constants'
+import { getDeltaE, getRelativeLuminance, rgbToLab, toHexColor } from './color'
+import type { PixelBuffer } from './glowRenderer'
+
+/**
+ * Builds a palette color from an average.
+ *
+ * @param r - Red (0-255).
+ * @param g - Green (0-255).
+ * @param b - Blue (0-255).
+ * @param population - Share of the pixels (0-1).
+ * @returns Color with rounded channels, hex and luminance.
+ *
+ * @internal
+ */
+export function toGlowColor(
+  r: number,
+  g: number,
+  b: number,
+  population: number
+): GlowColor {
+  const red = Math.round(r)
+  const green = Math.round(g)
+  const blue = Math.round(b)
+  return {
+    r: red,
+    g: green,
+    b: blue,
+    hex: toHexColor(red, green, blue),
+    luminance: getRelativeLuminance(red, green, blue),
+    population
+  }
+}
+
+/**
+ * Quantizes pixels into a palette with median cut - repeatedly splits the
+ * box with the widest channel range at its median until there are `count`
+ * boxes, then averages each one. Pixels are sampled evenly down to
+ * PALETTE.MAX_SAMPLES first, skipping transparent ones (the padding a
+ * baked blur spreads into).
+ *
+ * @param pixels - RGBA pixels.
+ * @param count - Colors wanted.
+ * @returns Up to `count` colors, most common first. Fewer if the pixels
+ *   run out of distinct colors, empty for no pixels.
+ *
+ * @internal
+ */
+export function extractPalette(
+  pixels: PixelBuffer,
+  count: number
+): GlowColor[] {
+  const { data } = pixels
+  const total = pixels.width * pixels.height
+  if (total === 0 || count < 1) return []
+
+  const step = Math.max(1, Math.floor(total / PALETTE.MAX_SAMPLES))
+  const samples: [number, number, number][] = []
+  for (let i = 0; i < total; i += step) {
+    if (data[i * 4 + 3] === 0) continue
+    samples.push([data[i * 4], data[i * 4 + 1], data[i * 4 + 2]])
+  }
+  if (samples.length === 0) return []
+
+  // Channel with the widest range in a box, and that range
+  const measure = (box: [number, number, number][]) => {
+    let channel = 0
+    let range = -1
+    for (let c = 0; c < 3; c++) {
+      let min = 255
+      let max = 0
+      box.forEach(color => {
+        if (color[c] < min) min = color[c]
+        if (color[c] > max) max = color[c]
+      })
+      if (max - min > range) {
+        range = max - min
+        channel = c
+      }
+    }
+    return { channel, range }
+  }
+
+  const boxes = [samples]
+  while (boxes.length < Math.floor(count)) {
+    let widest = -1
+    let widestRange = 0
+    let widestChannel = 0
+    boxes.forEach((box, index) => {
+      const { channel, range } = measure(box)
+      if (box.length > 1 && range > widestRange) {
+        widest = index
+        widestRange = range
+        widestChannel = channel
+      }
+    })
+    // Every box is a single color
+    if (widest < 0) break
+
+    const box = boxes[widest].sort(
+      (a, b) => a[widestChannel] - b[widestChannel]
+    )
+    // Split at the median, but never between pixels sharing that value,
+    // so a flat area isn't averaged into its neighbor
+    const value = (index: number) => box[index][widestChannel]
+    let split = box.length >> 1
+    while (split > 0 && value(split - 1) === value(split)) split--
+    if (split === 0) {
+      split = box.length >> 1
+      while (value(split - 1) === value(split)) split++
+    }
+    boxes.splice(widest, 1, box.slice(0, split), box.slice(split))
+  }
+
+  return boxes
+    .map(box => {
+      let r = 0
+      let g = 0
+      let b = 0
+      box.forEach(color => {
+        r += color[0]
+        g += color[1]
+        b += color[2]
+      })
+      return toGlowColor(
+        r / box.length,
+        g / box.length,
+        b / box.length,
+        box.length / samples.length
+      )
+    })
+    .sort((a, b) => b.population - a.population)
+}
+
+/**
+ * Measures how far a palette moved - the largest distance from any color
+ * in either palette to its closest match in the other.
+ *
+ * @param previous - Old palette.
+ * @param next - New palette.
+ * @returns Delta E (0 for identical palettes, Infinity if one is empty).
+ *
+ * @internal
+ */
+export function getPaletteDistance(
+  previous: readonly GlowColor[],
+  next: readonly GlowColor[]
+): number {
+  if (!previous.length || !next.length) {
+    return previous.length === next.length ? 0 : Infinity
+  }
+  const rgb = (color: GlowColor) => [color.r, color.g, color.b] as const
+  const farthest = (from: readonly GlowColor[], to: readonly GlowColor[]) =>
+    Math.max(
+      ...from.map(color =>
+        Math.min(...to.map(other => getDeltaE(rgb(color), rgb(other))))
+      )
+    )
+  return Math.max(farthest(previous, next), farthest(next, previous))
+}
+
+/**
+ * Picks an accent - the most colorful (highest CIE chroma) color after the
+ * dominant one.
+ *
+ * @param palette - Palette, most common first.
+ * @returns Accent color, the dominant color if it's the only one, or null
+ *   for an empty palette.
+ *
+ * @internal
+ */
+export function getAccentColor(
+  palette: readonly GlowColor[]
+): GlowColor | null {
+  const chroma = (color: GlowColor) => {
+    const [, a, b] = rgbToLab(color.r, color.g, color.b)
+    return Math.hypot(a, b)
+  }
+  let accent = palette[1] ?? palette[0] ?? null
+  for (let i = 2; i < palette.length; i++) {
+    if (accent && chroma(palette[i]) > chroma(accent)) accent = palette[i]
+  }
+  return accent
+}
+
+/**
+ * Averages a palette's colors, weighted by population.
+ *
+ * @param palette - Palette.
+ * @returns Average [r, g, b] (unrounded), black for an empty palette.
+ *
+ * @internal
+ */
+export function getAverageColor(palette: readonly GlowColor[]): GlowRGB {
+  const total: GlowRGB = [0, 0, 0]
+  let weight = 0
+  palette.forEach(color => {
+    total[0] += color.r * color.population
+    total[1] += color.g * color.population
+    total[2] += color.b * color.population
+    weight += color.population
+  })
+  return weight > 0
+    ? [total[0] / weight, total[1] / weight, total[2] / weight]
+    : total
+}
+
+/**
+ * Averages luminance over a palette, weighted by population.
+ *
+ * @param palette - Palette.
+ * @returns Average WCAG relative luminance (0-1), 0 for an empty palette.
+ *
+ * @internal
+ */
+export function getAverageLuminance(palette: readonly GlowColor[]): number {
+  let total = 0
+  let weight = 0
+  palette.forEach(color => {
+    total += color.luminance * color.population
+    weight += color.population
+  })
+  return weight > 0 ? total / weight : 0
+}
@@ -0,0 +1,84 @@
+/**
+ * Render state - folds every reason the glow can't be seen (scrolled away,
+ * hidden tab, Picture-in-Picture, native fullscreen) into one "should
+ * render" flag.
+ *
+ * @module lib/renderState
+ * @internal
+ */
+
+import type { GlowPauseReason } from '../types'
+
+/**
+ * Tracks active pause reasons.
+ *
+ * @internal
+ */
+export interface RenderState {
+  /** True when no pause reason is active. */
+  readonly shouldRender: boolean
+  /** Active pause reasons, in the order they started. */
+  readonly reasons: GlowPauseReason[]
+  /**
+   * Starts or ends a pause reason.
+   * @returns True if `shouldRender` flipped.
+   */
+  set(reason: GlowPauseReason, isActive: boolean): boolean
+}
+
+/**
+ * Creates a render state with no active pause reasons.
+ *
+ * @returns New render state.
+ *
+ * @internal
+ */
+export function createRenderState(): RenderState {
+  const reasons = new Set<GlowPauseReason>()
+
+  return {
+    get shouldRender() {
+      return reasons.size === 0
+    },
+    get reasons() {
+      return Array.from(reasons)
+    },
+    set(reason, isActive) {
+      const wasRendering = reasons.size === 0
+      if (isActive) {
+        reasons.add(reason)
+      } else {
+        reasons.delete(reason)
+      }
+      return wasRendering !== (reasons.size === 0)
+    }
+  }
+}
+
+/**
+ * Checks if the video is playing in a Picture-in-Picture window.
+ *
+ * @param video - Video to check.
+ * @returns True if the video is the document's PiP element.
+ *
+ * @internal
+ */
+export function isInPictureInPicture(video: HTMLVideoElement): boolean {
+  const { pictureInPictureElement } = video.ownerDocument
+  return !!pictureInPictureElement && pictureInPictureElement === video
+}
+
+/**
+ * Checks if native fullscreen hides the glow. Fullscreening a container
+ * that holds the glow keeps it on screen, fullscreening the video itself
+ * (or anything else) doesn't.
+ *
+ * @param glow - Glow element.
+ * @returns True if something is fullscreen and the glow isn't part of it.
+ *
+ * @internal
+ */
+export function isHiddenByFullscreen(glow: Element): boolean {
+  const { fullscreenElement } = glow.ownerDocument
+  return !!fullscreenElement && !fullscreenElement.contains(glow)
+}
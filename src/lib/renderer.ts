@@ -0,0 +1,167 @@
+/**
+ * Renderer factory and the default 2D canvas renderer. The interface the
+ * backends implement lives in lib/glowRenderer, so they don't import this.
+ *
+ * @module lib/renderer
+ * @internal
+ */
+
+import type { GlowBlendPrecision, NormalizedGlowOptions } from '../types'
+import {
+  createGlowCanvas,
+  createTempCanvas,
+  getCanvasContext,
+  updateCanvasFilterStyles
+} from './canvas'
+import { getBakedFilters } from './blur'
+import { createCssGradientRenderer } from './cssRenderer'
+import {
+  createFrameBuffer,
+  drawAndBlendFrame,
+  type FrameBuffer
+} from './frameProcessor'
+import {
+  hasDrawableSize,
+  type GlowRenderer,
+  type RendererCallbacks
+} from './glowRenderer'
+import { createWebGLRenderer } from './webglRenderer'
+import { createWorkerRenderer } from './worker'
+
+/**
+ * Creates the default renderer - 2D canvas with CSS filters, blending on
+ * the CPU via getImageData/putImageData.
+ *
+ * @param options - Glow options (for initial styles).
+ * @param callbacks - Renderer callbacks.
+ * @returns 2D renderer.
+ * @throws {Error} If a 2D context is unavailable.
+ *
+ * @internal
+ */
+export function createCanvas2DRenderer(
+  options: NormalizedGlowOptions,
+  callbacks: RendererCallbacks
+): GlowRenderer {
+  const canvas = createGlowCanvas(options)
+  const ctx = getCanvasContext(canvas, 'canvas')
+  let tempCanvas = createTempCanvas()
+  let tempCtx = getCanvasContext(tempCanvas, 'temporary canvas')
+  let buffer: FrameBuffer | null = null
+  let padding = 0
+
+  // Buffers are sized on resize; a precision change swaps them on the next draw
+  const allocate = (precision: GlowBlendPrecision) => {
+    buffer = createFrameBuffer(
+      ctx,
+      canvas.width,
+      canvas.height,
+      precision,
+      padding
+    )
+    return buffer
+  }
+
+  return {
+    type: 'canvas2d',
+    usesWorker: false,
+    element: canvas,
+    get width() {
+      return canvas.width
+    },
+    get height() {
+      return canvas.height
+    },
+    resize(width, height, newPadding = 0) {
+      if (
+        canvas.width === width &&
+        canvas.height === height &&
+        padding === newPadding
+      ) {
+        return
+      }
+      padding = newPadding
+      canvas.width = width
+      canvas.height = height
+      tempCanvas.width = width
+      tempCanvas.height = height
+      // Drops the last frame along with the old buffers
+      allocate(buffer?.precision ?? options.blendPrecision)
+    },
+    draw(video, frame) {
+      if (!hasDrawableSize(canvas.width, canvas.height)) return false
+
+      const { blendPrecision } = frame.options
+      const current =
+        buffer && buffer.precision === blendPrecision
+          ? buffer
+          : allocate(blendPrecision)
+      if (frame.reset) current.hasFrame = false
+
+      return drawAndBlendFrame(
+        video,
+        tempCtx,
+        ctx,
+        current,
+        frame.options,
+        frame.elapsedMs,
+        callbacks.onSceneChange,
+        getBakedFilters(frame.options, frame.blurRadius),
+        frame.source,
+        callbacks.onError
+      )
+    },
+    readPixels() {
+      return buffer?.hasFrame ? buffer.output : null
+    },
+    clear() {
+      ctx.clearRect(0, 0, canvas.width, canvas.height)
+      if (buffer) buffer.hasFrame = false
+    },
+    replaceSampleCanvas() {
+      const { width, height } = tempCanvas
+      tempCanvas = createTempCanvas()
+      tempCanvas.width = width
+      tempCanvas.height = height
+      tempCtx = getCanvasContext(tempCanvas, 'temporary canvas')
+    },
+    updateStyles(newOptions) {
+      updateCanvasFilterStyles(canvas, newOptions)
+    },
+    dispose() {
+      buffer = null
+      canvas.remove()
+    }
+  }
+}
+
+/**
+ * Creates the renderer selected in options, falling back to 2D when the
+ * requested backend isn't available.
+ *
+ * @param options - Glow options.
+ * @param callbacks - Renderer callbacks.
+ * @returns Renderer ready to be resized and drawn.
+ *
+ * @internal
+ */
+export function createRenderer(
+  options: NormalizedGlowOptions,
+  callbacks: RendererCallbacks
+): GlowRenderer {
+  if (options.renderer === 'css') {
+    return createCssGradientRenderer(options, callbacks)
+  }
+
+  if (options.renderer === 'webgl') {
+    const renderer = createWebGLRenderer(options, callbacks)
+    if (renderer) return renderer
+  }
+
+  if (options.worker) {
+    const renderer = createWorkerRenderer(options, callbacks)
+    if (renderer) return renderer
+  }
+
+  return createCanvas2DRenderer(options, callbacks)
+}
@@ -0,0 +1,275 @@
+/**
+ * Shared scheduler - one rAF loop, one ResizeObserver, one
+ * IntersectionObserver and one MutationObserver for every glow on the
+ * page. Updates run round-robin under a per-frame time budget so many
+ * glows don't pile into one frame.
+ *
+ * @module lib/scheduler
+ * @internal
+ */
+
+import { SHARED_FRAME_BUDGET_MS } from '../constants'
+
+/**
+ * Attribute changes that can restyle how the video is fitted.
+ */
+const STYLE_MUTATIONS: MutationObserverInit = {
+  attributes: true,
+  attributeFilter: ['style', 'class']
+}
+
+/**
+ * A glow registered with the scheduler.
+ *
+ * @internal
+ */
+export interface ScheduledGlow {
+  /** Element watched for resize and visibility. */
+  readonly target: Element
+  /** True while the glow wants shared animation frames. */
+  wantsFrames(): boolean
+  /**
+   * Runs on a shared animation frame.
+   * @returns True if it drew.
+   */
+  update(time: number): boolean
+  /**
+   * Target (or window, without ResizeObserver) was resized, or its inline
+   * style or class changed (which can move `object-fit` and friends).
+   */
+  resize(): void
+  /** Target scrolled in or out of view. */
+  setVisible(isVisible: boolean): void
+}
+
+/**
+ * Schedules work for all registered glows.
+ *
+ * @internal
+ */
+export interface GlowScheduler {
+  /** Registers a glow and starts observing its target. */
+  add(glow: ScheduledGlow): void
+  /** Unregisters a glow. The last one out stops the loop and observers. */
+  remove(glow: ScheduledGlow): void
+  /** Makes sure a frame is coming, call after `wantsFrames()` turns true. */
+  wake(): void
+  /**
+   * Runs work outside the shared loop (e.g. a video frame callback) against
+   * the same per-frame budget.
+   *
+   * @param time - Frame timestamp, used to tell frames apart.
+   * @param work - Draws and returns true, or returns false if it skipped.
+   * @returns True if the work ran and drew, false if over budget or skipped.
+   *   The first draw of a frame always runs.
+   */
+  run(time: number, work: () => boolean): boolean
+  /** Sets the time all glows may spend per frame. */
+  setFrameBudget(ms: number): void
+  readonly frameBudgetMs: number
+}
+
+/**
+ * Creates a scheduler. Observers and the loop only exist while at least one
+ * glow is registered.
+ *
+ * @returns Empty scheduler.
+ *
+ * @internal
+ */
+export function createScheduler(): GlowScheduler {
+  const glows: ScheduledGlow[] = []
+  const byTarget = new Map<Element, Set<ScheduledGlow>>()
+  // Last intersection per target - the observer only reports a target once
+  // when it starts watching, so glows added later are seeded from this
+  const visibility = new Map<Element, boolean>()
+  let frameBudgetMs: number = SHARED_FRAME_BUDGET_MS
+  let cursor = 0
+  let rafId: number | null = null
+  let frameTime = -1
+  let spentMs = 0
+  let drawsInFrame = 0
+  let resizeObserver: ResizeObserver | null = null
+  let intersectionObserver: IntersectionObserver | null = null
+  let mutationObserver: MutationObserver | null = null
+  let windowResize: (() => void) | null = null
+
+  const forTarget = (target: Element, fn: (glow: ScheduledGlow) => void) => {
+    byTarget.get(target)?.forEach(fn)
+  }
+
+  // Budget is tracked per frame timestamp so video frame callbacks and the
+  // rAF loop in the same frame share it
+  const beginFrame = (time: number) => {
+    if (time !== frameTime) {
+      frameTime = time
+      spentMs = 0
+      drawsInFrame = 0
+    }
+  }
+
+  const measure = (work: () => boolean): boolean => {
+    const start = performance.now()
+    const drew = work()
+    spentMs += performance.now() - start
+    if (drew) drawsInFrame++
+    return drew
+  }
+
+  const tick = (time: number) => {
+    rafId = null
+    if (!glows.some(glow => glow.wantsFrames())) return
+    // Request first so a throwing glow can't stop everyone else's loop
+    rafId = requestAnimationFrame(tick)
+    beginFrame(time)
+
+    // Always serve at least one glow per frame so nobody starves, then
+    // pick up where the budget ran out on the next frame
+    const count = glows.length
+    for (let i = 0; i < count; i++) {
+      const index = (cursor + i) % count
+      const glow = glows[index]
+      // Glows destroyed mid-frame leave the list shorter
+      if (!glow || !glow.wantsFrames()) continue
+      measure(() => glow.update(time))
+      if (spentMs >= frameBudgetMs) {
+        cursor = (index + 1) % count
+        return
+      }
+    }
+  }
+
+  const observe = (target: Element) => {
+    if (typeof ResizeObserver !== 'undefined') {
+      resizeObserver ??= new ResizeObserver(entries => {
+        entries.forEach(entry => forTarget(entry.target, glow => glow.resize()))
+      })
+      resizeObserver.observe(target)
+    } else if (!windowResize) {
+      // Fallback to window resize
+      windowResize = () => glows.slice().forEach(glow => glow.resize())
+      window.addEventListener('resize', windowResize)
+    }
+
+    // Style and class changes can change how the picture is fitted
+    if (typeof MutationObserver !== 'undefined') {
+      mutationObserver ??= new MutationObserver(records => {
+        const targets = new Set(records.map(record => record.target))
+        targets.forEach(node =>
+          forTarget(node as Element, glow => glow.resize())
+        )
+      })
+      mutationObserver.observe(target, STYLE_MUTATIONS)
+    }
+
+    // Used to pause animation when the target is out of view
+    if (typeof IntersectionObserver !== 'undefined') {
+      intersectionObserver ??= new IntersectionObserver(
+        entries => {
+          entries.forEach(entry => {
+            visibility.set(entry.target, entry.isIntersecting)
+            forTarget(entry.target, glow =>
+              glow.setVisible(entry.isIntersecting)
+            )
+          })
+        },
+        { threshold: 0 }
+      )
+      intersectionObserver.observe(target)
+    }
+  }
+
+  const teardown = () => {
+    if (rafId !== null) {
+      cancelAnimationFrame(rafId)
+      rafId = null
+    }
+    resizeObserver?.disconnect()
+    resizeObserver = null
+    intersectionObserver?.disconnect()
+    intersectionObserver = null
+    visibility.clear()
+    mutationObserver?.disconnect()
+    mutationObserver = null
+    if (windowResize) {
+      window.removeEventListener('resize', windowResize)
+      windowResize = null
+    }
+    cursor = 0
+    frameTime = -1
+    spentMs = 0
+    drawsInFrame = 0
+  }
+
+  return {
+    add(glow) {
+      if (glows.includes(glow)) return
+      glows.push(glow)
+
+      let set = byTarget.get(glow.target)
+      if (!set) {
+        set = new Set()
+        byTarget.set(glow.target, set)
+        observe(glow.target)
+      }
+      set.add(glow)
+      const isVisible = visibility.get(glow.target)
+      if (isVisible !== undefined) glow.setVisible(isVisible)
+    },
+    remove(glow) {
+      const index = glows.indexOf(glow)
+      if (index === -1) return
+      glows.splice(index, 1)
+      if (index < cursor) cursor--
+      if (cursor >= glows.length) cursor = 0
+
+      const set = byTarget.get(glow.target)
+      set?.delete(glow)
+      if (set?.size === 0) {
+        byTarget.delete(glow.target)
+        visibility.delete(glow.target)
+        resizeObserver?.unobserve(glow.target)
+        intersectionObserver?.unobserve(glow.target)
+        // MutationObserver can't unobserve a single node
+        if (mutationObserver) {
+          mutationObserver.disconnect()
+          byTarget.forEach((_, target) =>
+            mutationObserver?.observe(target, STYLE_MUTATIONS)
+          )
+        }
+      }
+
+      if (glows.length === 0) teardown()
+    },
+    wake() {
+      if (rafId === null && glows.some(glow => glow.wantsFrames())) {
+        rafId = requestAnimationFrame(tick)
+      }
+    },
+    run(time, work) {
+      beginFrame(time)
+      if (drawsInFrame > 0 && spentMs >= frameBudgetMs) return false
+      return measure(work)
+    },
+    setFrameBudget(ms) {
+      frameBudgetMs = ms
+    },
+    get frameBudgetMs() {
+      return frameBudgetMs
+    }
+  }
+}
+
+let sharedScheduler: GlowScheduler | null = null
+
+/**
+ * Gets the page-wide scheduler all glows register with.
+ *
+ * @returns Shared scheduler, created on first use.
+ *
+ * @internal
+ */
+export function getSharedScheduler(): GlowScheduler {
+  sharedScheduler ??= createScheduler()
+  return sharedScheduler
+}
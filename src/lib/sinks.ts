@@ -0,0 +1,75 @@
+/**
+ * Zone sinks - send ambient zone colors out of the page.
+ *
+ * @module lib/sinks
+ */
+
+import type {
+  GlowZoneSink,
+  WebSocketLike,
+  WebSocketSinkOptions
+} from '../types'
+import { WEBSOCKET_SINK } from '../constants'
+
+/**
+ * Zone sink that sends updates over a WebSocket.
+ *
+ * @public
+ */
+export interface WebSocketZoneSink extends GlowZoneSink {
+  /** True while the socket is open and updates are going out. */
+  readonly isOpen: boolean
+}
+
+/**
+ * Creates a sink that sends zone colors to a WebSocket server as JSON, for
+ * a bridge that drives room lights. Connects right away. Updates are
+ * dropped while the socket isn't open or is still busy sending, so lights
+ * always get the latest colors.
+ *
+ * @param url - Server URL.
+ * @param options - WebSocket implementation and message format.
+ * @returns Sink to pass to `glow.addZoneSink()`.
+ * @throws {Error} If no WebSocket implementation is available.
+ *
+ * @example
+ * ```typescript
+ * const glow = new AmbientGlow(video, { zones: { top: 12, left: 8, right: 8 } });
+ * glow.addZoneSink(createWebSocketSink('ws://localhost:8080'));
+ * ```
+ *
+ * @public
+ */
+export function createWebSocketSink(
+  url: string,
+  options: WebSocketSinkOptions = {}
+): WebSocketZoneSink {
+  const Socket =
+    options.WebSocket ??
+    (typeof WebSocket === 'undefined' ? undefined : WebSocket)
+  if (!Socket) {
+    throw new Error(
+      'AmbientGlow: WebSocket is not available. Pass a WebSocket implementation in options.WebSocket.'
+    )
+  }
+  const serialize = options.serialize ?? JSON.stringify
+  const socket: WebSocketLike = new Socket(url)
+
+  return {
+    get isOpen() {
+      return socket.readyState === WEBSOCKET_SINK.OPEN
+    },
+    send(event) {
+      if (
+        socket.readyState !== WEBSOCKET_SINK.OPEN ||
+        socket.bufferedAmount > WEBSOCKET_SINK.MAX_BUFFERED_BYTES
+      ) {
+        return
+      }
+      socket.send(serialize(event))
+    },
+    close() {
+      socket.close()
+    }
+  }
+}
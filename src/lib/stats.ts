@@ -0,0 +1,121 @@
+/**
+ * Runtime stats - keeps the last few draw costs and times in fixed ring
+ * buffers, so recording is a couple of writes and the math only runs when
+ * someone asks.
+ *
+ * @module lib/stats
+ * @internal
+ */
+
+import { STATS } from '../constants'
+
+/**
+ * Measured part of the glow stats.
+ *
+ * @internal
+ */
+export interface StatsSnapshot {
+  averageDrawMs: number
+  p95DrawMs: number
+  updatesPerSecond: number
+  skippedUpdates: number
+  framesBlended: number
+}
+
+/**
+ * Collects draw timings and counts.
+ *
+ * @internal
+ */
+export interface StatsCollector {
+  /**
+   * Records a blended frame.
+   *
+   * @param costMs - How long the draw took.
+   * @param time - When it started (`performance.now()`).
+   */
+  recordDraw(costMs: number, time: number): void
+  /** Records an update the renderer dropped. */
+  recordSkip(): void
+  /**
+   * Summarizes what was recorded.
+   *
+   * @param now - Current time, for the updates per second window.
+   */
+  read(now: number): StatsSnapshot
+  /** Drops everything recorded. */
+  reset(): void
+}
+
+/**
+ * Gets a percentile of samples by nearest rank.
+ *
+ * @param samples - Samples in any order (not modified).
+ * @param percentile - 0-100.
+ * @returns The percentile, or 0 without samples.
+ *
+ * @internal
+ */
+export function getPercentile(
+  samples: ArrayLike<number>,
+  percentile: number
+): number {
+  if (samples.length === 0) return 0
+  const sorted = Float64Array.from(samples).sort()
+  const rank = Math.ceil((percentile / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]
+}
+
+/**
+ * Creates a stats collector.
+ *
+ * @param sampleCount - Draws kept for the averages.
+ * @returns Empty collector.
+ *
+ * @internal
+ */
+export function createStatsCollector(
+  sampleCount: number = STATS.SAMPLE_COUNT
+): StatsCollector {
+  const costs = new Float64Array(sampleCount)
+  const times = new Float64Array(sampleCount)
+  let next = 0
+  let filled = 0
+  let skippedUpdates = 0
+  let framesBlended = 0
+
+  return {
+    recordDraw(costMs, time) {
+      costs[next] = costMs
+      times[next] = time
+      next = (next + 1) % sampleCount
+      filled = Math.min(filled + 1, sampleCount)
+      framesBlended++
+    },
+    recordSkip() {
+      skippedUpdates++
+    },
+    read(now) {
+      const recent = costs.subarray(0, filled)
+      let total = 0
+      let updates = 0
+      for (let i = 0; i < filled; i++) {
+        total += recent[i]
+        if (now - times[i] <= STATS.RATE_WINDOW_MS) updates++
+      }
+      return {
+        averageDrawMs: filled ? total / filled : 0,
+        p95DrawMs: getPercentile(recent, 95),
+        updatesPerSecond: (updates * 1000) / STATS.RATE_WINDOW_MS,
+        skippedUpdates,
+        framesBlended
+      }
+    },
+    reset() {
+      next = 0
+      filled = 0
+      skippedUpdates = 0
+      framesBlended = 0
+    }
+  }
+}
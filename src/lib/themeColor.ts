@@ -0,0 +1,145 @@
+/**
+ * Theme color - keeps `<meta name="theme-color">` in sync with a glow.
+ * Glows on the same page share the tag, and the most prominent one
+ * controls it.
+ *
+ * @module lib/themeColor
+ * @internal
+ */
+
+/**
+ * A glow that wants to control the theme color.
+ *
+ * @internal
+ */
+export interface ThemeColorSource {
+  /** How prominent the glow is (visible px², 0 while paused). */
+  getProminence(): number
+}
+
+/**
+ * Shares a document's theme-color tags between glows.
+ *
+ * @internal
+ */
+export interface ThemeColorController {
+  /**
+   * Sets a glow's color and rewrites the tags from the most prominent
+   * glow. The first update saves the page's own values.
+   */
+  update(source: ThemeColorSource, color: string): void
+  /**
+   * Drops a glow. The last one out restores the page's values (and
+   * removes the tag if there wasn't one).
+   */
+  remove(source: ThemeColorSource): void
+}
+
+/**
+ * Measures how much of an element is inside the viewport.
+ *
+ * @param element - Element to measure.
+ * @returns Visible area in px².
+ *
+ * @internal
+ */
+export function getVisibleArea(element: Element): number {
+  const rect = element.getBoundingClientRect()
+  const view = element.ownerDocument.defaultView
+  const right = Math.min(rect.right, view?.innerWidth ?? rect.right)
+  const bottom = Math.min(rect.bottom, view?.innerHeight ?? rect.bottom)
+  const width = right - Math.max(rect.left, 0)
+  const height = bottom - Math.max(rect.top, 0)
+  return width > 0 && height > 0 ? width * height : 0
+}
+
+/**
+ * Creates a theme color controller for a document.
+ *
+ * @param doc - Document whose tags are controlled.
+ * @returns Controller that hasn't touched the tags yet.
+ *
+ * @internal
+ */
+export function createThemeColorController(
+  doc: Document
+): ThemeColorController {
+  const colors = new Map<ThemeColorSource, string>()
+  // Page tags and their original content, or a tag we added
+  const originals = new Map<HTMLMetaElement, string | null>()
+  let created: HTMLMetaElement | null = null
+
+  const takeOver = () => {
+    doc
+      .querySelectorAll<HTMLMetaElement>('meta[name="theme-color"]')
+      .forEach(meta => originals.set(meta, meta.getAttribute('content')))
+    if (originals.size) return
+    created = doc.createElement('meta')
+    created.name = 'theme-color'
+    doc.head.appendChild(created)
+    originals.set(created, null)
+  }
+
+  const restore = () => {
+    originals.forEach((content, meta) => {
+      if (content === null) meta.removeAttribute('content')
+      else meta.setAttribute('content', content)
+    })
+    created?.remove()
+    created = null
+    originals.clear()
+  }
+
+  const write = () => {
+    // Ties go to the glow that registered first
+    let leader: ThemeColorSource | null = null
+    let best = 0
+    colors.forEach((_, source) => {
+      const prominence = source.getProminence()
+      if (prominence > best) {
+        leader = source
+        best = prominence
+      }
+    })
+    // Nothing on screen - leave the last color
+    if (!leader) return
+    const color = colors.get(leader)!
+    originals.forEach((_, meta) => {
+      if (meta.getAttribute('content') !== color) {
+        meta.setAttribute('content', color)
+      }
+    })
+  }
+
+  return {
+    update(source, color) {
+      if (!colors.size) takeOver()
+      colors.set(source, color)
+      write()
+    },
+    remove(source) {
+      if (!colors.delete(source)) return
+      if (colors.size) write()
+      else restore()
+    }
+  }
+}
+
+const controllers = new WeakMap<Document, ThemeColorController>()
+
+/**
+ * Gets the controller all glows in a document share.
+ *
+ * @param doc - Document whose tags are controlled.
+ * @returns Shared controller, created on first use.
+ *
+ * @internal
+ */
+export function getSharedThemeColor(doc: Document): ThemeColorController {
+  let controller = controllers.get(doc)
+  if (!controller) {
+    controller = createThemeColorController(doc)
+    controllers.set(doc, controller)
+  }
+  return controller
+}
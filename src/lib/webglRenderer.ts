@@ -0,0 +1,634 @@
+/**
+ * WebGL renderer - temporal blend and color adjustments run in shaders.
+ * Frames go straight from the video into a texture, so there's no
+ * getImageData readback on the CPU.
+ *
+ * @module lib/webglRenderer
+ * @internal
+ */
+
+import type { NormalizedGlowOptions } from '../types'
+import { WEBGL_CONTEXT_OPTIONS } from '../constants'
+import { createGlowCanvas } from './canvas'
+import { getBlendWeights, getSampleRect } from './frameProcessor'
+import type { ContentRect } from './objectFit'
+import {
+  hasCurrentFrame,
+  hasDrawableSize,
+  type GlowRenderer,
+  type RendererCallbacks
+} from './glowRenderer'
+
+/**
+ * Full-screen quad vertex shader.
+ */
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}
+`
+
+/**
+ * Blends the new video frame into the previous accumulated glow. `u_crop`
+ * (offset xy, size zw in texture coordinates) picks the visible part of
+ * the frame, `u_inset` (same layout, in buffer coordinates) is where it
+ * goes - outside it is the transparent padding for the blur.
+ */
+const BLEND_SHADER = `
+precision mediump float;
+uniform sampler2D u_frame;
+uniform sampler2D u_previous;
+uniform float u_blendNew;
+uniform vec4 u_crop;
+uniform vec4 u_inset;
+varying vec2 v_uv;
+void main() {
+  vec2 uv = (v_uv - u_inset.xy) / u_inset.zw;
+  vec2 inside = step(vec2(0.0), uv) * step(uv, vec2(1.0));
+  vec4 frame = texture2D(u_frame, u_crop.xy + clamp(uv, 0.0, 1.0) * u_crop.zw);
+  frame *= inside.x * inside.y;
+  gl_FragColor = mix(texture2D(u_previous, v_uv), frame, u_blendNew);
+}
+`
+
+/**
+ * One direction of a separable Gaussian blur - 9 taps folded into 5
+ * texture reads by sampling between texels (linear filtering does the
+ * weighting). At a 1-texel step this is a Gaussian with sigma ~1.7.
+ */
+const BLUR_SHADER = `
+precision mediump float;
+uniform sampler2D u_image;
+uniform vec2 u_step;
+varying vec2 v_uv;
+void main() {
+  vec2 near = u_step * 1.3846153846;
+  vec2 far = u_step * 3.2307692308;
+  vec4 sum = texture2D(u_image, v_uv) * 0.2270270270;
+  sum += (texture2D(u_image, v_uv + near) + texture2D(u_image, v_uv - near)) * 0.3162162162;
+  sum += (texture2D(u_image, v_uv + far) + texture2D(u_image, v_uv - far)) * 0.0702702703;
+  gl_FragColor = sum;
+}
+`
+
+/**
+ * Sigma of {@link BLUR_SHADER} at a 1-texel step. The step is scaled by
+ * blurRadius / this to reach the requested blur.
+ */
+const BLUR_KERNEL_SIGMA = Math.sqrt(3)
+
+/**
+ * Draws the accumulated glow with brightness and saturation applied
+ * (same luminance weights as the CSS `saturate()` filter). Color blurred
+ * into the padding is weighted by its alpha, so that's divided back out.
+ */
+const OUTPUT_SHADER = `
+precision mediump float;
+uniform sampler2D u_glow;
+uniform float u_brightness;
+uniform float u_saturate;
+varying vec2 v_uv;
+void main() {
+  vec4 glow = texture2D(u_glow, v_uv);
+  vec3 rgb = glow.a > 0.0 ? glow.rgb / glow.a * u_brightness : vec3(0.0);
+  float luma = dot(rgb, vec3(0.2126, 0.7152, 0.0722));
+  gl_FragColor = vec4(clamp(mix(vec3(luma), rgb, u_saturate), 0.0, 1.0), glow.a);
+}
+`
+
+/**
+ * Compiles and links a shader program.
+ *
+ * @param gl - WebGL context.
+ * @param fragmentSource - Fragment shader source.
+ * @returns Linked program.
+ * @throws {Error} If compiling or linking fails.
+ *
+ * @internal
+ */
+export function createProgram(
+  gl: WebGLRenderingContext,
+  fragmentSource: string
+): WebGLProgram {
+  const compile = (type: number, source: string): WebGLShader => {
+    const shader = gl.createShader(type)
+    if (!shader) {
+      throw new Error('AmbientGlow: Unable to create WebGL shader.')
+    }
+    gl.shaderSource(shader, source)
+    gl.compileShader(shader)
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader)
+      gl.deleteShader(shader)
+      throw new Error(`AmbientGlow: Failed to compile WebGL shader: ${log}`)
+    }
+    return shader
+  }
+
+  const vertexShader = compile(gl.VERTEX_SHADER, VERTEX_SHADER)
+  const fragmentShader = compile(gl.FRAGMENT_SHADER, fragmentSource)
+  const program = gl.createProgram()
+  if (!program) {
+    throw new Error('AmbientGlow: Unable to create WebGL program.')
+  }
+
+  gl.attachShader(program, vertexShader)
+  gl.attachShader(program, fragmentShader)
+  gl.bindAttribLocation(program, 0, 'a_position')
+  gl.linkProgram(program)
+  // Shaders can go once the program is linked
+  gl.deleteShader(vertexShader)
+  gl.deleteShader(fragmentShader)
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program)
+    gl.deleteProgram(program)
+    throw new Error(`AmbientGlow: Failed to link WebGL program: ${log}`)
+  }
+  return program
+}
+
+/**
+ * Converts a source rect to the blend shader's crop. The frame texture is
+ * uploaded flipped, so y counts up from the bottom of the frame.
+ *
+ * @param source - Visible part of the frame, or null for the whole frame.
+ * @param videoWidth - Frame width.
+ * @param videoHeight - Frame height.
+ * @returns [x, y, width, height] in texture coordinates.
+ *
+ * @internal
+ */
+export function getTextureCrop(
+  source: ContentRect | null,
+  videoWidth: number,
+  videoHeight: number
+): [number, number, number, number] {
+  if (!source || !videoWidth || !videoHeight) return [0, 0, 1, 1]
+  return [
+    source.x / videoWidth,
+    1 - (source.y + source.height) / videoHeight,
+    source.width / videoWidth,
+    source.height / videoHeight
+  ]
+}
+
+/**
+ * Works out where the video goes in a padded buffer, for the blend
+ * shader's `u_inset`.
+ *
+ * @param width - Buffer width, padding included.
+ * @param height - Buffer height, padding included.
+ * @param padding - Transparent margin per side.
+ * @returns [x, y, width, height] in buffer coordinates.
+ *
+ * @internal
+ */
+export function getBufferInset(
+  width: number,
+  height: number,
+  padding: number
+): [number, number, number, number] {
+  if (!padding || !width || !height) return [0, 0, 1, 1]
+  return [
+    padding / width,
+    padding / height,
+    1 - (padding * 2) / width,
+    1 - (padding * 2) / height
+  ]
+}
+
+/**
+ * Creates an RGBA texture with linear filtering and clamped edges.
+ *
+ * @param gl - WebGL context.
+ * @returns New texture.
+ * @throws {Error} If the texture can't be created.
+ *
+ * @internal
+ */
+function createTexture(gl: WebGLRenderingContext): WebGLTexture {
+  const texture = gl.createTexture()
+  if (!texture) {
+    throw new Error('AmbientGlow: Unable to create WebGL texture.')
+  }
+  gl.bindTexture(gl.TEXTURE_2D, texture)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+  return texture
+}
+
+/**
+ * Programs, textures and buffers of one WebGL context. Rebuilt from
+ * scratch when a lost context is restored.
+ */
+interface GLResources {
+  blendProgram: WebGLProgram
+  blurProgram: WebGLProgram
+  outputProgram: WebGLProgram
+  frameTexture: WebGLTexture
+  /** 0-1: accumulation ping-pong, 2-3: blur passes. */
+  accumTextures: WebGLTexture[]
+  framebuffers: WebGLFramebuffer[]
+  quadBuffer: WebGLBuffer | null
+  blendUniforms: Record<
+    'frame' | 'previous' | 'blendNew' | 'crop' | 'inset',
+    WebGLUniformLocation | null
+  >
+  blurUniforms: Record<'image' | 'step', WebGLUniformLocation | null>
+  outputUniforms: Record<
+    'glow' | 'brightness' | 'saturate',
+    WebGLUniformLocation | null
+  >
+}
+
+/**
+ * Compiles the programs, creates the textures and buffers, and sets up
+ * the quad every pass draws.
+ *
+ * @param gl - WebGL context.
+ * @returns New resources (textures still unsized).
+ * @throws {Error} If any of them can't be created.
+ */
+function createGLResources(gl: WebGLRenderingContext): GLResources {
+  const blendProgram = createProgram(gl, BLEND_SHADER)
+  const blurProgram = createProgram(gl, BLUR_SHADER)
+  const outputProgram = createProgram(gl, OUTPUT_SHADER)
+  const frameTexture = createTexture(gl)
+  const accumTextures: WebGLTexture[] = []
+  const framebuffers: WebGLFramebuffer[] = []
+  for (let i = 0; i < 4; i++) {
+    const framebuffer = gl.createFramebuffer()
+    if (!framebuffer) {
+      throw new Error('AmbientGlow: Unable to create WebGL framebuffer.')
+    }
+    accumTextures.push(createTexture(gl))
+    framebuffers.push(framebuffer)
+  }
+  const quadBuffer = gl.createBuffer()
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer)
+  gl.bufferData(
+    gl.ARRAY_BUFFER,
+    new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+    gl.STATIC_DRAW
+  )
+  gl.enableVertexAttribArray(0)
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0)
+  // Video rows start at the top, GL textures at the bottom
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true)
+
+  return {
+    blendProgram,
+    blurProgram,
+    outputProgram,
+    frameTexture,
+    accumTextures,
+    framebuffers,
+    quadBuffer,
+    blendUniforms: {
+      frame: gl.getUniformLocation(blendProgram, 'u_frame'),
+      previous: gl.getUniformLocation(blendProgram, 'u_previous'),
+      blendNew: gl.getUniformLocation(blendProgram, 'u_blendNew'),
+      crop: gl.getUniformLocation(blendProgram, 'u_crop'),
+      inset: gl.getUniformLocation(blendProgram, 'u_inset')
+    },
+    blurUniforms: {
+      image: gl.getUniformLocation(blurProgram, 'u_image'),
+      step: gl.getUniformLocation(blurProgram, 'u_step')
+    },
+    outputUniforms: {
+      glow: gl.getUniformLocation(outputProgram, 'u_glow'),
+      brightness: gl.getUniformLocation(outputProgram, 'u_brightness'),
+      saturate: gl.getUniformLocation(outputProgram, 'u_saturate')
+    }
+  }
+}
+
+/**
+ * Sizes the accumulation textures and attaches them to their
+ * framebuffers. Clears them as a side effect.
+ *
+ * @param gl - WebGL context.
+ * @param resources - Resources to size.
+ * @param width - Buffer width.
+ * @param height - Buffer height.
+ */
+function sizeAccumTextures(
+  gl: WebGLRenderingContext,
+  resources: GLResources,
+  width: number,
+  height: number
+): void {
+  resources.accumTextures.forEach((texture, i) => {
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA,
+      width,
+      height,
+      0,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      null
+    )
+    gl.bindFramebuffer(gl.FRAMEBUFFER, resources.framebuffers[i])
+    gl.framebufferTexture2D(
+      gl.FRAMEBUFFER,
+      gl.COLOR_ATTACHMENT0,
+      gl.TEXTURE_2D,
+      texture,
+      0
+    )
+  })
+}
+
+/**
+ * Creates a WebGL renderer. The two accumulation textures are ping-ponged:
+ * each update blends the video into one while reading the other. With
+ * `blurMode: 'canvas'` two more textures hold the horizontal and vertical
+ * blur passes. Frames never reach the CPU, so `excludeRegions`, edge
+ * sampling and scene-cut detection aren't applied. A lost context pauses drawing until the browser
+ * restores it, then everything is rebuilt.
+ *
+ * @param options - Glow options (for initial styles).
+ * @param callbacks - Renderer callbacks.
+ * @returns WebGL renderer, or null if WebGL isn't available.
+ *
+ * @internal
+ */
+export function createWebGLRenderer(
+  options: NormalizedGlowOptions,
+  callbacks: RendererCallbacks
+): GlowRenderer | null {
+  const canvas = createGlowCanvas(options)
+  let gl: WebGLRenderingContext | null = null
+  try {
+    gl = canvas.getContext('webgl', WEBGL_CONTEXT_OPTIONS)
+  } catch {
+    gl = null
+  }
+  if (!gl) return null
+  const glContext = gl
+
+  let resources: GLResources
+  try {
+    resources = createGLResources(glContext)
+  } catch (error) {
+    callbacks.onError(error)
+    return null
+  }
+  // readPixels needs a Uint8Array, callers get a clamped view of the same memory
+  let pixels: {
+    bytes: Uint8Array
+    data: Uint8ClampedArray
+    width: number
+    height: number
+    bottomUp: true
+  } | null = null
+
+  let width = 0
+  let height = 0
+  let padding = 0
+  let current = 0
+  let hasFrame = false
+  let isContextLost = false
+  let isDisposed = false
+
+  const handleContextLost = (event: Event) => {
+    // Tells the browser we want the context back
+    event.preventDefault()
+    isContextLost = true
+    hasFrame = false
+    callbacks.onError(new Error('AmbientGlow: WebGL context lost.'))
+  }
+  const handleContextRestored = () => {
+    if (isDisposed) return
+    // Everything from the old context is gone, including the texture sizes
+    try {
+      resources = createGLResources(glContext)
+      if (hasDrawableSize(width, height)) {
+        sizeAccumTextures(glContext, resources, width, height)
+      }
+    } catch (error) {
+      callbacks.onError(error)
+      return
+    }
+    isContextLost = false
+    current = 0
+    callbacks.onRestore?.()
+  }
+  canvas.addEventListener('webglcontextlost', handleContextLost)
+  canvas.addEventListener('webglcontextrestored', handleContextRestored)
+
+  const drawPass = (
+    program: WebGLProgram,
+    framebuffer: WebGLFramebuffer | null
+  ) => {
+    glContext.bindFramebuffer(glContext.FRAMEBUFFER, framebuffer)
+    glContext.viewport(0, 0, width, height)
+    glContext.useProgram(program)
+    glContext.drawArrays(glContext.TRIANGLE_STRIP, 0, 4)
+  }
+
+  return {
+    type: 'webgl',
+    usesWorker: false,
+    element: canvas,
+    get width() {
+      return width
+    },
+    get height() {
+      return height
+    },
+    resize(newWidth, newHeight, newPadding = 0) {
+      if (
+        newWidth === width &&
+        newHeight === height &&
+        newPadding === padding
+      ) {
+        return
+      }
+      width = newWidth
+      height = newHeight
+      padding = newPadding
+      canvas.width = width
+      canvas.height = height
+      hasFrame = false // Invalidate last frame on resize
+      // Sized on restore instead
+      if (!isContextLost) sizeAccumTextures(glContext, resources, width, height)
+    },
+    draw(video, frame) {
+      if (
+        isDisposed ||
+        isContextLost ||
+        !hasDrawableSize(width, height) ||
+        !hasCurrentFrame(video)
+      ) {
+        return false
+      }
+
+      const {
+        blendProgram,
+        blurProgram,
+        outputProgram,
+        frameTexture,
+        accumTextures,
+        framebuffers,
+        blendUniforms,
+        blurUniforms,
+        outputUniforms
+      } = resources
+
+      try {
+        glContext.activeTexture(glContext.TEXTURE0)
+        glContext.bindTexture(glContext.TEXTURE_2D, frameTexture)
+        glContext.texImage2D(
+          glContext.TEXTURE_2D,
+          0,
+          glContext.RGBA,
+          glContext.RGBA,
+          glContext.UNSIGNED_BYTE,
+          video
+        )
+      } catch (error) {
+        // Cross-origin video without CORS throws a SecurityError here
+        callbacks.onError(error)
+        return false
+      }
+
+      const blendNew =
+        frame.reset || !hasFrame
+          ? 1
+          : getBlendWeights(frame.options.smoothingMs, frame.elapsedMs).blendNew
+      const next = 1 - current
+
+      glContext.activeTexture(glContext.TEXTURE1)
+      glContext.bindTexture(glContext.TEXTURE_2D, accumTextures[current])
+      glContext.useProgram(blendProgram)
+      glContext.uniform1i(blendUniforms.frame, 0)
+      glContext.uniform1i(blendUniforms.previous, 1)
+      glContext.uniform1f(blendUniforms.blendNew, blendNew)
+      const [cropX, cropY, cropWidth, cropHeight] = getTextureCrop(
+        getSampleRect(video, frame.source, frame.options.sampleRegion),
+        video.videoWidth,
+        video.videoHeight
+      )
+      glContext.uniform4f(
+        blendUniforms.crop,
+        cropX,
+        cropY,
+        cropWidth,
+        cropHeight
+      )
+      const [insetX, insetY, insetWidth, insetHeight] = getBufferInset(
+        width,
+        height,
+        padding
+      )
+      glContext.uniform4f(
+        blendUniforms.inset,
+        insetX,
+        insetY,
+        insetWidth,
+        insetHeight
+      )
+      drawPass(blendProgram, framebuffers[next])
+      current = next
+      hasFrame = true
+
+      let glowTexture = accumTextures[current]
+      if (frame.options.blurMode === 'canvas' && frame.blurRadius > 0) {
+        const step = frame.blurRadius / BLUR_KERNEL_SIGMA
+        glContext.activeTexture(glContext.TEXTURE0)
+        glContext.useProgram(blurProgram)
+        glContext.uniform1i(blurUniforms.image, 0)
+
+        glContext.bindTexture(glContext.TEXTURE_2D, glowTexture)
+        glContext.uniform2f(blurUniforms.step, step / width, 0)
+        drawPass(blurProgram, framebuffers[2])
+
+        glContext.bindTexture(glContext.TEXTURE_2D, accumTextures[2])
+        glContext.uniform2f(blurUniforms.step, 0, step / height)
+        drawPass(blurProgram, framebuffers[3])
+        glowTexture = accumTextures[3]
+      }
+
+      glContext.activeTexture(glContext.TEXTURE0)
+      glContext.bindTexture(glContext.TEXTURE_2D, glowTexture)
+      glContext.useProgram(outputProgram)
+      glContext.uniform1i(outputUniforms.glow, 0)
+      glContext.uniform1f(outputUniforms.brightness, frame.options.brightness)
+      glContext.uniform1f(outputUniforms.saturate, frame.options.saturate)
+      drawPass(outputProgram, null)
+      return true
+    },
+    readPixels() {
+      if (isDisposed || isContextLost || !hasFrame) return null
+      if (!pixels || pixels.width !== width || pixels.height !== height) {
+        const bytes = new Uint8Array(width * height * 4)
+        pixels = {
+          bytes,
+          data: new Uint8ClampedArray(bytes.buffer),
+          width,
+          height,
+          bottomUp: true
+        }
+      }
+      glContext.bindFramebuffer(
+        glContext.FRAMEBUFFER,
+        resources.framebuffers[current]
+      )
+      glContext.readPixels(
+        0,
+        0,
+        width,
+        height,
+        glContext.RGBA,
+        glContext.UNSIGNED_BYTE,
+        pixels.bytes
+      )
+      glContext.bindFramebuffer(glContext.FRAMEBUFFER, null)
+      return pixels
+    },
+    clear() {
+      hasFrame = false
+      if (isDisposed || isContextLost) return
+      glContext.bindFramebuffer(glContext.FRAMEBUFFER, null)
+      glContext.clearColor(0, 0, 0, 0)
+      glContext.clear(glContext.COLOR_BUFFER_BIT)
+    },
+    replaceSampleCanvas() {
+      // Cross-origin uploads throw instead of tainting the context
+    },
+    updateStyles(newOptions) {
+      // Brightness and saturation are applied in the output shader
+      const bakesBlur = newOptions.blurMode === 'canvas'
+      canvas.style.filter = bakesBlur ? 'none' : `blur(${newOptions.blur}px)`
+      canvas.style.opacity = `${newOptions.opacity}`
+    },
+    dispose() {
+      if (isDisposed) return
+      isDisposed = true
+      canvas.removeEventListener('webglcontextlost', handleContextLost)
+      canvas.removeEventListener('webglcontextrestored', handleContextRestored)
+      const { accumTextures, framebuffers } = resources
+      glContext.deleteProgram(resources.blendProgram)
+      glContext.deleteProgram(resources.blurProgram)
+      glContext.deleteProgram(resources.outputProgram)
+      glContext.deleteTexture(resources.frameTexture)
+      accumTextures.forEach(texture => glContext.deleteTexture(texture))
+      framebuffers.forEach(framebuffer =>
+        glContext.deleteFramebuffer(framebuffer)
+      )
+      glContext.deleteBuffer(resources.quadBuffer)
+      canvas.remove()
+    }
+  }
+}
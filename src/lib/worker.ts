@@ -0,0 +1,494 @@
+/**
+ * Worker rendering - moves frame extraction and blending off the main thread.
+ * The glow canvas is transferred to a worker with `transferControlToOffscreen`
+ * and frames are sent over as `ImageBitmap`s.
+ *
+ * @module lib/worker
+ * @internal
+ */
+
+import type { GlowBlendPrecision, NormalizedGlowOptions } from '../types'
+import { createGlowCanvas, updateCanvasFilterStyles } from './canvas'
+import { blurImageData, getBakedFilters, type BakedFilters } from './blur'
+import { filterImageData } from './color'
+import {
+  accumulateFrame,
+  createFrameBuffer,
+  fillExcludedRect,
+  getExcludedRects,
+  getFrameDifference,
+  getBlendWeights,
+  getEdgeSampling,
+  getSampleRect,
+  resolveExcludeRegions,
+  sampleEdges,
+  writeAccumulator,
+  type EdgeSampling,
+  type FrameBuffer
+} from './frameProcessor'
+import type { ContentRect } from './objectFit'
+import {
+  hasCurrentFrame,
+  hasDrawableSize,
+  type GlowRenderer,
+  type RendererCallbacks
+} from './glowRenderer'
+
+/**
+ * Messages sent from the main thread to the glow worker.
+ *
+ * @internal
+ */
+export type GlowWorkerRequest =
+  | { type: 'init'; canvas: OffscreenCanvas }
+  | {
+      type: 'resize'
+      width: number
+      height: number
+      padding: number
+      precision: GlowBlendPrecision
+    }
+  | { type: 'clear' }
+  /** Swap in a new sample canvas - the old one may be tainted. */
+  | { type: 'renew' }
+  | {
+      type: 'frame'
+      bitmap: ImageBitmap
+      blendOld: number
+      blendNew: number
+      sceneCutThreshold: number
+      reset: boolean
+      baked: BakedFilters | null
+      edges: EdgeSampling | null
+      /** Rects to fill from their surroundings, in bitmap px. */
+      exclusions: ContentRect[]
+    }
+
+/**
+ * Messages sent from the glow worker back to the main thread.
+ *
+ * @internal
+ */
+export type GlowWorkerResponse =
+  | { type: 'drawn' }
+  | { type: 'scenechange'; difference: number }
+  | { type: 'error'; message: string; name: string }
+
+/**
+ * Pipeline helpers the worker body runs. Each one is self-contained, so
+ * they serialize with `toString()` alongside it.
+ *
+ * @internal
+ */
+export interface GlowWorkerHelpers {
+  createBuffer: typeof createFrameBuffer
+  accumulate: typeof accumulateFrame
+  write: typeof writeAccumulator
+  difference: typeof getFrameDifference
+  blur: typeof blurImageData
+  filter: typeof filterImageData
+  edges: typeof sampleEdges
+  exclude: typeof fillExcludedRect
+}
+
+/**
+ * Helpers passed to the worker body.
+ */
+const WORKER_HELPERS: GlowWorkerHelpers = {
+  createBuffer: createFrameBuffer,
+  accumulate: accumulateFrame,
+  write: writeAccumulator,
+  difference: getFrameDifference,
+  blur: blurImageData,
+  filter: filterImageData,
+  edges: sampleEdges,
+  exclude: fillExcludedRect
+}
+
+/**
+ * Minimal worker scope the worker body needs (lets tests drive it directly).
+ *
+ * @internal
+ */
+export interface GlowWorkerScope {
+  onmessage: ((event: MessageEvent<GlowWorkerRequest>) => void) | null
+  postMessage(message: GlowWorkerResponse): void
+}
+
+/**
+ * Checks if the browser can render the glow in a worker.
+ *
+ * @param canvas - Glow canvas that would be transferred.
+ * @returns True if Worker, OffscreenCanvas and createImageBitmap are usable.
+ *
+ * @internal
+ */
+export function supportsWorkerRendering(canvas: HTMLCanvasElement): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap === 'function' &&
+    typeof URL !== 'undefined' &&
+    typeof URL.createObjectURL === 'function' &&
+    typeof canvas.transferControlToOffscreen === 'function'
+  )
+}
+
+/**
+ * Worker body. Serialized with `toString()`, so it must not reference
+ * anything from module scope - helpers are passed in as an argument.
+ * Buffers are allocated on resize and reused for every frame.
+ *
+ * @param scope - Worker global scope.
+ * @param helpers - Pipeline helpers. See {@link GlowWorkerHelpers}.
+ *
+ * @internal
+ */
+export function glowWorkerMain(
+  scope: GlowWorkerScope,
+  helpers: GlowWorkerHelpers
+): void {
+  let ctx: OffscreenCanvasRenderingContext2D | null = null
+  let tempCtx: OffscreenCanvasRenderingContext2D | null = null
+  let buffer: FrameBuffer | null = null
+
+  scope.onmessage = event => {
+    const message = event.data
+
+    if (message.type === 'init') {
+      ctx = message.canvas.getContext('2d')
+      tempCtx = new OffscreenCanvas(1, 1).getContext('2d', {
+        willReadFrequently: true
+      })
+      return
+    }
+
+    if (message.type === 'resize') {
+      if (!ctx || !tempCtx) return
+      ctx.canvas.width = message.width
+      ctx.canvas.height = message.height
+      tempCtx.canvas.width = message.width
+      tempCtx.canvas.height = message.height
+      buffer = helpers.createBuffer(
+        ctx,
+        message.width,
+        message.height,
+        message.precision,
+        message.padding
+      )
+      return
+    }
+
+    if (message.type === 'renew') {
+      if (!tempCtx) return
+      const { width, height } = tempCtx.canvas
+      tempCtx = new OffscreenCanvas(width, height).getContext('2d', {
+        willReadFrequently: true
+      })
+      return
+    }
+
+    if (message.type === 'clear') {
+      if (!ctx) return
+      ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height)
+      if (buffer) buffer.hasFrame = false
+      return
+    }
+
+    const { bitmap, baked, edges, exclusions } = message
+    try {
+      // Every frame gets a reply, or the main thread waits on it forever
+      if (!ctx || !tempCtx) {
+        throw new Error('AmbientGlow: 2D context unavailable in the worker')
+      }
+      if (!buffer) throw new Error('AmbientGlow: Worker frame before resize')
+      const { width, height, padding, output } = buffer
+      // The bitmap is the video part, the padding is left for the blur
+      const frameWidth = width - padding * 2
+      const frameHeight = height - padding * 2
+      // Exclusions and edge bands go in before the blur, so they need the
+      // JS path
+      const hasFilter =
+        typeof tempCtx.filter === 'string' && !edges && !exclusions.length
+      let newFrame: ImageData
+      if (baked && hasFilter) {
+        tempCtx.clearRect(0, 0, width, height)
+        tempCtx.filter = baked.filter
+        tempCtx.drawImage(bitmap, padding, padding, frameWidth, frameHeight)
+        tempCtx.filter = 'none'
+        newFrame = tempCtx.getImageData(0, 0, width, height)
+      } else {
+        tempCtx.drawImage(bitmap, 0, 0, frameWidth, frameHeight)
+        newFrame = tempCtx.getImageData(0, 0, frameWidth, frameHeight)
+      }
+      for (const rect of exclusions) helpers.exclude(newFrame, rect)
+      if (edges) {
+        if (!buffer.edgeScratch) {
+          buffer.edgeScratch = new Float32Array((frameWidth + frameHeight) * 6)
+        }
+        helpers.edges(newFrame, edges.depth, edges.falloff, buffer.edgeScratch)
+      }
+      if (baked && !hasFilter) {
+        if (!buffer.blurScratch) {
+          buffer.blurScratch = new Float32Array(output.data.length)
+        }
+        if (padding > 0) {
+          tempCtx.clearRect(0, 0, width, height)
+          tempCtx.putImageData(newFrame, padding, padding)
+          newFrame = tempCtx.getImageData(0, 0, width, height)
+        }
+        helpers.blur(newFrame, baked.radii, buffer.blurScratch, padding > 0)
+        helpers.filter(newFrame, baked.brightness, baked.matrix)
+      }
+      if (message.reset) buffer.hasFrame = false
+
+      let isCut = false
+      if (buffer.hasFrame && message.sceneCutThreshold > 0) {
+        const diff = helpers.difference(output, newFrame)
+        if (diff >= message.sceneCutThreshold) {
+          isCut = true
+          scope.postMessage({ type: 'scenechange', difference: diff })
+        }
+      }
+
+      if (buffer.hasFrame && !isCut) {
+        helpers.accumulate(
+          buffer.accumulator,
+          newFrame.data,
+          message.blendOld,
+          message.blendNew
+        )
+      } else {
+        helpers.accumulate(buffer.accumulator, newFrame.data, 0, 1)
+      }
+      buffer.hasFrame = true
+      helpers.write(buffer.accumulator, output.data)
+      ctx.putImageData(output, 0, 0)
+      scope.postMessage({ type: 'drawn' })
+    } catch (error) {
+      scope.postMessage({
+        type: 'error',
+        message: String(error),
+        // Lets the main thread tell a tainted (SecurityError) frame apart
+        name: error instanceof Error ? error.name : 'Error'
+      })
+    } finally {
+      bitmap.close()
+    }
+  }
+}
+
+/**
+ * Serializes the worker helpers as an object literal.
+ *
+ * @returns Source for the helpers argument.
+ */
+function serializeHelpers(): string {
+  const entries = Object.entries(WORKER_HELPERS).map(
+    ([name, helper]) => `${name}: ${String(helper)}`
+  )
+  return `{ ${entries.join(', ')} }`
+}
+
+/**
+ * Creates a 2D renderer that blends in a worker. The glow canvas is
+ * transferred with `transferControlToOffscreen`, so it never gets a context
+ * on the main thread.
+ *
+ * @param options - Glow options (for initial styles).
+ * @param callbacks - Renderer callbacks.
+ * @returns Worker renderer, or null if worker rendering isn't supported.
+ *
+ * @internal
+ */
+export function createWorkerRenderer(
+  options: NormalizedGlowOptions,
+  callbacks: RendererCallbacks
+): GlowRenderer | null {
+  const canvas = createGlowCanvas(options)
+  if (!supportsWorkerRendering(canvas)) return null
+
+  const source = `(${glowWorkerMain.toString()})(self, ${serializeHelpers()})`
+  const url = URL.createObjectURL(
+    new Blob([source], { type: 'text/javascript' })
+  )
+
+  let worker: Worker
+  let offscreen: OffscreenCanvas
+  try {
+    worker = new Worker(url)
+    offscreen = canvas.transferControlToOffscreen()
+  } catch {
+    URL.revokeObjectURL(url)
+    return null
+  }
+
+  let width = 0
+  let precision = options.blendPrecision
+  let height = 0
+  let padding = 0
+  let isBusy = false
+  let isDisposed = false
+  let needsReset = false
+
+  worker.onmessage = (event: MessageEvent<GlowWorkerResponse>) => {
+    const message = event.data
+    if (message.type === 'drawn') {
+      isBusy = false
+    } else if (message.type === 'scenechange') {
+      callbacks.onSceneChange(message.difference)
+    } else {
+      isBusy = false
+      const error = new Error(message.message)
+      error.name = message.name
+      callbacks.onError(error)
+    }
+  }
+
+  const post = (message: GlowWorkerRequest, transfer: Transferable[] = []) =>
+    worker.postMessage(message, transfer)
+
+  post({ type: 'init', canvas: offscreen }, [offscreen])
+
+  return {
+    type: 'canvas2d',
+    usesWorker: true,
+    element: canvas,
+    get width() {
+      return width
+    },
+    get height() {
+      return height
+    },
+    resize(newWidth, newHeight, newPadding = 0) {
+      if (
+        newWidth === width &&
+        newHeight === height &&
+        newPadding === padding
+      ) {
+        return
+      }
+      width = newWidth
+      height = newHeight
+      padding = newPadding
+      post({ type: 'resize', width, height, padding, precision })
+    },
+    draw(video, frame) {
+      // Don't lose a reset that arrives while a frame is in flight
+      needsReset = needsReset || frame.reset
+      if (frame.options.blendPrecision !== precision) {
+        // Reallocates the worker's buffers (and drops the last frame)
+        precision = frame.options.blendPrecision
+        if (hasDrawableSize(width, height)) {
+          post({ type: 'resize', width, height, padding, precision })
+        }
+      }
+      if (
+        isBusy ||
+        isDisposed ||
+        !hasDrawableSize(width, height) ||
+        !hasCurrentFrame(video)
+      ) {
+        return false
+      }
+
+      const frameWidth = width - padding * 2
+      const frameHeight = height - padding * 2
+      const source = getSampleRect(
+        video,
+        frame.source,
+        frame.options.sampleRegion
+      )
+      let exclusions: ContentRect[]
+      try {
+        exclusions = getExcludedRects(
+          video,
+          source,
+          frameWidth,
+          frameHeight,
+          resolveExcludeRegions(frame.options.excludeRegions, video)
+        )
+      } catch (error) {
+        // A throwing excludeRegions function fails the frame like a bad read
+        callbacks.onError(error)
+        return false
+      }
+
+      isBusy = true
+      const reset = needsReset
+      needsReset = false
+      const { blendOld, blendNew } = getBlendWeights(
+        frame.options.smoothingMs,
+        frame.elapsedMs
+      )
+      const { sceneCutThreshold } = frame.options
+      const baked = getBakedFilters(frame.options, frame.blurRadius)
+      const edges = getEdgeSampling(frame.options)
+
+      // Let the browser crop and downscale while decoding the bitmap
+      const bitmapOptions: ImageBitmapOptions = {
+        resizeWidth: frameWidth,
+        resizeHeight: frameHeight,
+        resizeQuality: 'low'
+      }
+      const request = source
+        ? createImageBitmap(
+            video,
+            source.x,
+            source.y,
+            source.width,
+            source.height,
+            bitmapOptions
+          )
+        : createImageBitmap(video, bitmapOptions)
+      request.then(
+        bitmap => {
+          if (isDisposed) {
+            bitmap.close()
+            return
+          }
+          post(
+            {
+              type: 'frame',
+              bitmap,
+              blendOld,
+              blendNew,
+              sceneCutThreshold,
+              reset,
+              baked,
+              edges,
+              exclusions
+            },
+            [bitmap]
+          )
+        },
+        (error: unknown) => {
+          isBusy = false
+          if (!isDisposed) callbacks.onError(error)
+        }
+      )
+      return true
+    },
+    readPixels() {
+      // The blended buffer lives in the worker
+      return null
+    },
+    clear() {
+      needsReset = true
+      if (!isDisposed) post({ type: 'clear' })
+    },
+    replaceSampleCanvas() {
+      if (!isDisposed) post({ type: 'renew' })
+    },
+    updateStyles(newOptions) {
+      updateCanvasFilterStyles(canvas, newOptions)
+    },
+    dispose() {
+      if (isDisposed) return
+      isDisposed = true
+      worker.terminate()
+      URL.revokeObjectURL(url)
+      canvas.remove()
+    }
+  }
+}
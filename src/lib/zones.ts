@@ -0,0 +1,247 @@
+/**
+ * Ambient zones - averages colors in zones around the frame's perimeter so
+ * room lights can follow the video, smoothed the same way as the glow.
+ *
+ * @module lib/zones
+ * @internal
+ */
+
+import type { GlowRGB, GlowZoneOptions, NormalizedGlowOptions } from '../types'
+import { MIN_CANVAS_DIMENSION, ZONES } from '../constants'
+import { createTempCanvas, getCanvasContext } from './canvas'
+import {
+  averageRegionColor,
+  blendColors,
+  getBlendWeights,
+  getExcludedRects,
+  getSampleRect,
+  resolveExcludeRegions,
+  sampleFrame
+} from './frameProcessor'
+import type { ContentRect } from './objectFit'
+
+/**
+ * Fills in zone defaults.
+ *
+ * @param zones - Zone options from the user.
+ * @returns Zone options with every field set.
+ *
+ * @internal
+ */
+export function normalizeZoneOptions(
+  zones: GlowZoneOptions
+): Required<GlowZoneOptions> {
+  const count = (value: number | undefined, fallback: number) =>
+    Math.max(0, Math.floor(value ?? fallback))
+  return {
+    top: count(zones.top, ZONES.TOP),
+    right: count(zones.right, ZONES.RIGHT),
+    bottom: count(zones.bottom, ZONES.BOTTOM),
+    left: count(zones.left, ZONES.LEFT),
+    depth: Math.min(0.5, Math.max(0, zones.depth ?? ZONES.DEPTH))
+  }
+}
+
+/**
+ * Lays out zones over a frame, clockwise from the top-left corner. Side
+ * zones span the full height, so corners count toward both sides.
+ *
+ * @param width - Frame width.
+ * @param height - Frame height.
+ * @param zones - Zone counts and depth.
+ * @returns Zone rects in frame pixels.
+ *
+ * @internal
+ */
+export function getZoneRects(
+  width: number,
+  height: number,
+  zones: Required<GlowZoneOptions>
+): ContentRect[] {
+  const depthX = Math.max(1, width * zones.depth)
+  const depthY = Math.max(1, height * zones.depth)
+  const rects: ContentRect[] = []
+
+  const zoneWidth = width / zones.top
+  for (let i = 0; i < zones.top; i++) {
+    rects.push({ x: i * zoneWidth, y: 0, width: zoneWidth, height: depthY })
+  }
+  const zoneHeight = height / zones.right
+  for (let i = 0; i < zones.right; i++) {
+    rects.push({
+      x: width - depthX,
+      y: i * zoneHeight,
+      width: depthX,
+      height: zoneHeight
+    })
+  }
+  const bottomWidth = width / zones.bottom
+  for (let i = zones.bottom - 1; i >= 0; i--) {
+    rects.push({
+      x: i * bottomWidth,
+      y: height - depthY,
+      width: bottomWidth,
+      height: depthY
+    })
+  }
+  const leftHeight = height / zones.left
+  for (let i = zones.left - 1; i >= 0; i--) {
+    rects.push({ x: 0, y: i * leftHeight, width: depthX, height: leftHeight })
+  }
+  return rects
+}
+
+/**
+ * Rounds packed RGB floats into colors.
+ *
+ * @param colors - Packed RGB values.
+ * @returns One 0-255 color per zone.
+ *
+ * @internal
+ */
+export function toZoneColors(colors: Float32Array): GlowRGB[] {
+  const result: GlowRGB[] = []
+  for (let i = 0; i + 2 < colors.length; i += 3) {
+    result.push([
+      Math.round(colors[i]),
+      Math.round(colors[i + 1]),
+      Math.round(colors[i + 2])
+    ])
+  }
+  return result
+}
+
+/**
+ * Zone sampler state.
+ *
+ * @internal
+ */
+export interface ZoneSampler {
+  /**
+   * Samples the current frame and blends it into the zone colors.
+   *
+   * @param video - Video to sample.
+   * @param source - Part of the frame the glow samples, or null for all.
+   * @param options - Glow options (zones, smoothing, regions).
+   * @param elapsedMs - Time since the last update.
+   * @param reset - Snap to this frame instead of blending.
+   * @returns Smoothed packed RGB values, or null with zones off or no
+   *   frame size yet.
+   * @throws If the frame can't be read (cross-origin video).
+   */
+  sample(
+    video: HTMLVideoElement,
+    source: ContentRect | null,
+    options: NormalizedGlowOptions,
+    elapsedMs: number,
+    reset: boolean
+  ): Float32Array | null
+  /** Drops the smoothed colors. */
+  reset(): void
+  /** Releases the sample canvas. The next sample creates a new one. */
+  dispose(): void
+}
+
+/**
+ * Creates a zone sampler with its own small sample canvas, so zones work
+ * the same with every renderer.
+ *
+ * @returns Sampler with no colors yet.
+ *
+ * @internal
+ */
+export function createZoneSampler(): ZoneSampler {
+  let ctx: CanvasRenderingContext2D | null = null
+  let layoutKey = ''
+  let rects: ContentRect[] = []
+  let latest = new Float32Array(0)
+  let colors = new Float32Array(0)
+  let hasColors = false
+
+  return {
+    sample(video, source, options, elapsedMs, reset) {
+      const { zones } = options
+      const { videoWidth, videoHeight } = video
+      if (!zones || !videoWidth || !videoHeight) return null
+
+      const sampleRect = getSampleRect(video, source, options.sampleRegion)
+      const region = sampleRect ?? {
+        x: 0,
+        y: 0,
+        width: videoWidth,
+        height: videoHeight
+      }
+      const width = ZONES.SAMPLE_WIDTH
+      const height = Math.max(
+        MIN_CANVAS_DIMENSION,
+        Math.round((width * region.height) / region.width)
+      )
+
+      if (!ctx) ctx = getCanvasContext(createTempCanvas(), 'zone canvas')
+      const { canvas } = ctx
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width
+        canvas.height = height
+      }
+
+      // Zones move with the layout and frame shape
+      const { top, right, bottom, left, depth } = zones
+      const key = `${width}x${height}:${top},${right},${bottom},${left},${depth}`
+      if (key !== layoutKey) {
+        layoutKey = key
+        rects = getZoneRects(width, height, zones)
+        latest = new Float32Array(rects.length * 3)
+        colors = new Float32Array(rects.length * 3)
+        hasColors = false
+      }
+
+      const frame = sampleFrame(
+        video,
+        ctx,
+        width,
+        height,
+        null,
+        undefined,
+        sampleRect,
+        getExcludedRects(
+          video,
+          sampleRect,
+          width,
+          height,
+          resolveExcludeRegions(options.excludeRegions, video)
+        )
+      )
+      rects.forEach((rect, i) => {
+        averageRegionColor(
+          frame,
+          rect.x,
+          rect.y,
+          rect.width,
+          rect.height,
+          latest,
+          i * 3
+        )
+      })
+
+      if (!hasColors || reset) {
+        colors.set(latest)
+        hasColors = true
+      } else {
+        const { blendOld, blendNew } = getBlendWeights(
+          options.smoothingMs,
+          elapsedMs
+        )
+        blendColors(colors, latest, blendOld, blendNew)
+      }
+      return colors
+    },
+    reset() {
+      hasColors = false
+    },
+    dispose() {
+      ctx = null
+      layoutKey = ''
+      hasColors = false
+    }
+  }
+}
@@ -5,6 +5,47 @@
  * Type definitions for the glow effect.
  */
 
+/**
+ * Glow rendering backend.
+ * - `canvas2d` - 2D canvas, blended on the CPU, CSS filters for color.
+ * - `webgl` - blend and color adjustments in shaders on the GPU.
+ * - `css` - a few averaged zone colors painted as CSS gradients on a div,
+ *   no large canvas and no blur() filter. Cheapest to composite.
+ *
+ * @public
+ */
+export type GlowRendererType = 'canvas2d' | 'webgl' | 'css'
+
+/**
+ * Where the glow blur happens.
+ * - `css` - a CSS `blur()` filter on the glow element.
+ * - `canvas` - baked into the small sampling buffer once per update, so
+ *   the visible element carries no filter at all.
+ *
+ * @public
+ */
+export type GlowBlurMode = 'css' | 'canvas'
+
+/**
+ * Precision the blended glow is accumulated in.
+ * - `uint8` - blends straight into the 8-bit output pixels.
+ * - `uint16` - 8.8 fixed point, twice the memory.
+ * - `float32` - full precision, four times the memory.
+ *
+ * @public
+ */
+export type GlowBlendPrecision = 'uint8' | 'uint16' | 'float32'
+
+/**
+ * What each part of the glow takes its color from.
+ * - `frame` - the matching spot of the whole downscaled frame.
+ * - `edges` - the nearest band along the frame's edges, like TV bias
+ *   lighting, so a bright subject in the center doesn't tint the halo.
+ *
+ * @public
+ */
+export type GlowSamplingMode = 'frame' | 'edges'
+
 /**
  * Options for the glow effect.
  *
@@ -70,6 +111,200 @@ export interface GlowOptions {
    * @defaultValue undefined
    */
   responsiveness?: number
+  /**
+   * Time constant for temporal smoothing in ms. The glow covers ~63% of the
+   * way to a new color after this long, whatever the update cadence.
+   * Derived from `responsiveness` (or `blendNew`) and `updateInterval` when not set.
+   * @defaultValue 603
+   */
+  smoothingMs?: number
+  /**
+   * Sample only real decoded frames via `requestVideoFrameCallback`.
+   * Falls back to a `requestAnimationFrame` loop when the API is missing.
+   * `updateInterval` still throttles updates in both modes.
+   * @defaultValue true
+   */
+  syncToVideoFrames?: boolean
+  /**
+   * Frame difference (0-1, mean absolute RGB) that counts as a hard cut.
+   * On a cut the glow snaps to the new scene instead of cross-fading, and
+   * a `scenechange` event fires. Off by default - 0 disables detection
+   * (recommended: 0.25). Ignored (with a warning) by the `webgl` renderer,
+   * which blends on the GPU and never compares frames.
+   * @defaultValue 0
+   */
+  sceneCutThreshold?: number
+  /**
+   * Extract and blend frames in a Web Worker via OffscreenCanvas.
+   * Falls back to the main thread when workers or OffscreenCanvas are missing.
+   * Applies to the `canvas2d` renderer. Only read when the glow is created.
+   * @defaultValue false
+   */
+  worker?: boolean
+  /**
+   * Rendering backend. `webgl` falls back to `canvas2d` when WebGL is
+   * unavailable. Scene cut detection needs pixel readback, so it only
+   * runs with `canvas2d` and `css`. Only read when the glow is created.
+   * @defaultValue 'canvas2d'
+   */
+  renderer?: GlowRendererType
+  /**
+   * Where the blur runs. `canvas` blurs (and color-adjusts) the downscaled
+   * buffer once per update instead of using CSS filters, which browsers
+   * re-rasterize on every scroll and layout change. The buffer and the
+   * element grow by 2.5 blur radii a side so the blur has room to spread.
+   * Use it on pages that scroll a lot around the video. Ignored by the
+   * `css` renderer.
+   * @defaultValue 'css'
+   */
+  blurMode?: GlowBlurMode
+  /**
+   * Precision of the blend accumulator. With heavy smoothing, 8-bit
+   * rounding keeps the glow from settling exactly on the video's colors;
+   * `uint16` or `float32` fix that for a little more memory.
+   * @defaultValue 'uint8'
+   */
+  blendPrecision?: GlowBlendPrecision
+  /**
+   * Tune `downscale` and `updateInterval` from measured cost. Times each
+   * draw and watches for dropped frames (presented video frames we got
+   * no callback for, with `syncToVideoFrames`), lowers quality when
+   * over `frameBudgetMs` and raises it again (up to the configured values)
+   * when there's headroom. Read the current values with `getQuality()`.
+   * @defaultValue false
+   */
+  adaptive?: boolean
+  /**
+   * Per-draw time budget in ms for `adaptive` mode.
+   * @defaultValue 2
+   */
+  frameBudgetMs?: number
+  /**
+   * While a container holding the video and glow is fullscreen, size the
+   * glow to fill the container instead of scaling it around the video, so
+   * letterbox and pillarbox bars light up. `scale` is ignored meanwhile.
+   * @defaultValue true
+   */
+  fillFullscreen?: boolean
+  /**
+   * Detect black bars burned into the frames (2.39:1 film in 16:9, 4:3 in
+   * 16:9) and sample only the picture between them, so the glow doesn't
+   * go dark at those edges. Read the detected bars with `getLetterbox()`.
+   * Probes a frame on the main thread twice a second, `worker` or not.
+   * @defaultValue false
+   */
+  letterbox?: boolean
+  /**
+   * Brightness (0-1) below which a frame edge counts as a black bar.
+   * @defaultValue 0.1
+   */
+  letterboxThreshold?: number
+  /**
+   * Part of the frame to sample, normalized to the frame (0-1). Everything
+   * outside it is left out of the glow.
+   * @defaultValue null (the whole frame)
+   */
+  sampleRegion?: GlowRegion | null
+  /**
+   * Parts of the frame to leave out of the glow (subtitles, channel logos,
+   * score bugs), normalized to the frame (0-1). They're filled in from the
+   * pixels around them before blending. Pass a function to move them as
+   * the video plays - it's called with the video on every draw. Ignored
+   * (with a warning) by the `webgl` renderer, whose frames never reach the
+   * CPU.
+   * @defaultValue []
+   */
+  excludeRegions?: GlowExcludeRegions
+  /**
+   * What the glow samples. `edges` lights each side from the band along
+   * that edge of the frame. Applied by the `canvas2d` renderer (with or
+   * without `worker`).
+   * @defaultValue 'frame'
+   */
+  sampling?: GlowSamplingMode
+  /**
+   * How deep the edge bands reach into the frame, as a fraction (0-0.5) of
+   * its width (left, right) or height (top, bottom). Used with
+   * `sampling: 'edges'`.
+   * @defaultValue 0.15
+   */
+  edgeDepth?: number
+  /**
+   * How fast pixel weight falls off across an edge band. 0 averages the
+   * band evenly, higher values lean on the pixels nearest the edge. Used
+   * with `sampling: 'edges'`.
+   * @defaultValue 1
+   */
+  edgeFalloff?: number
+  /**
+   * Average colors in zones around the frame's perimeter on every update,
+   * for driving room lights. Read them with the `zones` event or
+   * `addZoneSink()`. They're smoothed like the glow (`responsiveness`,
+   * `smoothingMs`).
+   * @defaultValue null (off)
+   */
+  zones?: GlowZoneOptions | null
+  /**
+   * Colors in the palette `colorchange` reports, and the default size for
+   * `getPalette()`.
+   * @defaultValue 5
+   */
+  paletteSize?: number
+  /**
+   * How far (CIE76 delta E) the palette has to move before `colorchange`
+   * fires. Around 2 is barely noticeable, 10 is a clearly different color.
+   * @defaultValue 10
+   */
+  colorChangeThreshold?: number
+  /**
+   * Publish the glow's colors as CSS custom properties - `-color` (the
+   * dominant color), `-accent` (the most colorful other one) and
+   * `-luminance` (average WCAG luminance, 0-1) after the prefix - so
+   * borders, shadows and text contrast can follow the video in plain CSS.
+   * Updated at most twice a second and removed on destroy. Not available
+   * with `worker` on (a warning is logged). Pass `true` for the defaults. See
+   * {@link GlowCssVariableOptions}.
+   * @defaultValue false
+   */
+  cssVariables?: boolean | GlowCssVariableOptions
+  /**
+   * Keep `<meta name="theme-color">` on the glow's average color, so
+   * mobile browser chrome follows the video. Eased and updated at most
+   * twice a second. With several glows on, the one with the most video on
+   * screen controls the tag. The page's value comes back when the last
+   * one is destroyed or turns this off. Not available with `worker` on
+   * (a warning is logged).
+   * @defaultValue false
+   */
+  themeColor?: boolean
+  /**
+   * What to show once the video turns out to be cross-origin without CORS
+   * headers, so its frames can't be read. The glow stops sampling and
+   * reports one `error` with code `tainted` - see
+   * {@link GlowTaintedFallback}. A new source (`loadstart`, e.g. after
+   * setting `crossOrigin`) tries the frames again.
+   * @defaultValue { type: 'hide' }
+   */
+  taintedFallback?: GlowTaintedFallback
+  /**
+   * Where this glow's diagnostics go, instead of the page-wide logger set
+   * with `AmbientGlow.configureLogging()` (`console` unless changed). See
+   * {@link GlowLogger}.
+   * @defaultValue null (page-wide logger)
+   */
+  logger?: GlowLogger | null
+  /**
+   * Lowest level of this glow's diagnostics that gets logged, instead of
+   * the page-wide level. `silent` logs nothing.
+   * @defaultValue null (page-wide level, `warn` unless changed)
+   */
+  logLevel?: GlowLogLevel | null
+  /**
+   * Measure draw times, update rate and counts for `getStats()`. Off,
+   * those stay at zero and nothing is measured.
+   * @defaultValue false
+   */
+  stats?: boolean
 }
 
 /**
@@ -96,4 +331,644 @@ export interface NormalizedGlowOptions {
   blendOld: number
   /** @internal */
   blendNew: number
+  /** @internal */
+  smoothingMs: number
+  /** @internal */
+  syncToVideoFrames: boolean
+  /** @internal */
+  sceneCutThreshold: number
+  /** @internal */
+  worker: boolean
+  /** @internal */
+  renderer: GlowRendererType
+  /** @internal */
+  blurMode: GlowBlurMode
+  /** @internal */
+  blendPrecision: GlowBlendPrecision
+  /** @internal */
+  adaptive: boolean
+  /** @internal */
+  frameBudgetMs: number
+  /** @internal */
+  fillFullscreen: boolean
+  /** @internal */
+  letterbox: boolean
+  /** @internal */
+  letterboxThreshold: number
+  /** @internal */
+  sampleRegion: GlowRegion | null
+  /** @internal */
+  excludeRegions: GlowExcludeRegions
+  /** @internal */
+  sampling: GlowSamplingMode
+  /** @internal */
+  edgeDepth: number
+  /** @internal */
+  edgeFalloff: number
+  /** @internal */
+  zones: Required<GlowZoneOptions> | null
+  /** @internal */
+  paletteSize: number
+  /** @internal */
+  colorChangeThreshold: number
+  /** @internal */
+  cssVariables: {
+    target: HTMLElement | null
+    prefix: string
+  } | null
+  /** @internal */
+  themeColor: boolean
+  /** @internal */
+  taintedFallback: GlowTaintedFallback
+  /** @internal */
+  logger: GlowLogger | null
+  /** @internal */
+  logLevel: GlowLogLevel | null
+  /** @internal */
+  stats: boolean
+}
+
+/**
+ * A color for a stretch of the video, for the `track` tainted fallback.
+ *
+ * @public
+ */
+export interface GlowColorCue {
+  /** Video time the color starts at, in seconds. */
+  time: number
+  /** Glow color. */
+  color: GlowRGB
+}
+
+/**
+ * Glow shown for a video whose frames can't be read. `hide` hides it,
+ * `color` glows one color, `poster` glows from the `poster` image (if
+ * it's same-origin, else hides), and `track` follows caller-supplied
+ * colors through the video (cues sorted by time).
+ *
+ * @public
+ */
+export type GlowTaintedFallback =
+  | { type: 'hide' }
+  | { type: 'color'; color: GlowRGB }
+  | { type: 'poster' }
+  | { type: 'track'; cues: readonly GlowColorCue[] }
+
+/**
+ * Where and under what names `cssVariables` publishes the glow's colors.
+ *
+ * @public
+ */
+export interface GlowCssVariableOptions {
+  /**
+   * Element the properties are set on.
+   * @defaultValue the video's parent
+   */
+  target?: HTMLElement | null
+  /**
+   * Name prefix, including the leading `--`.
+   * @defaultValue '--ambient-glow'
+   */
+  prefix?: string
+}
+
+/**
+ * A color picked out of the glow.
+ *
+ * @public
+ */
+export interface GlowColor {
+  /** Red (0-255). */
+  r: number
+  /** Green (0-255). */
+  g: number
+  /** Blue (0-255). */
+  b: number
+  /** `#rrggbb` string. */
+  hex: string
+  /**
+   * WCAG relative luminance (0-1). Text on colors above about 0.18 reads
+   * better dark, below it light.
+   */
+  luminance: number
+  /** Share of the glow this color covers (0-1). */
+  population: number
+}
+
+/**
+ * Zone counts per side for ambient zone colors. Zones run clockwise from
+ * the top-left corner - top left to right, right top to bottom, bottom
+ * right to left, then left bottom to top - like an LED strip around a TV.
+ * Set a side to 0 to skip it.
+ *
+ * @public
+ */
+export interface GlowZoneOptions {
+  /** @defaultValue 12 */
+  top?: number
+  /** @defaultValue 8 */
+  right?: number
+  /** @defaultValue 12 */
+  bottom?: number
+  /** @defaultValue 8 */
+  left?: number
+  /**
+   * How deep zones reach into the frame, as a fraction (0-0.5) of its
+   * height (top, bottom) or width (left, right).
+   * @defaultValue 0.15
+   */
+  depth?: number
+}
+
+/**
+ * RGB color, 0-255 per channel.
+ *
+ * @public
+ */
+export type GlowRGB = [number, number, number]
+
+/**
+ * Payload for the `zones` event.
+ *
+ * @public
+ */
+export interface ZoneColorsEvent {
+  /** Smoothed zone colors, in clockwise order. See {@link GlowZoneOptions}. */
+  colors: GlowRGB[]
+  /** Zone counts per side. */
+  layout: { top: number; right: number; bottom: number; left: number }
+  /** Video `currentTime` of the sampled frame, in seconds. */
+  currentTime: number
+}
+
+/**
+ * Receives zone colors - room lights, a bridge process, a logger.
+ *
+ * @public
+ */
+export interface GlowZoneSink {
+  /** Called with every zone update. */
+  send(event: ZoneColorsEvent): void
+  /** Releases the sink (closes connections). */
+  close(): void
+}
+
+/**
+ * The parts of a WebSocket the WebSocket sink uses. Browser `WebSocket`
+ * and the `ws` package both fit.
+ *
+ * @public
+ */
+export interface WebSocketLike {
+  readonly readyState: number
+  readonly bufferedAmount: number
+  send(data: string): void
+  close(): void
+}
+
+/**
+ * Options for `createWebSocketSink`.
+ *
+ * @public
+ */
+export interface WebSocketSinkOptions {
+  /**
+   * WebSocket constructor, e.g. from the `ws` package in Node.
+   * @defaultValue globalThis.WebSocket
+   */
+  WebSocket?: new (url: string) => WebSocketLike
+  /**
+   * Turns an update into a message.
+   * @defaultValue JSON.stringify
+   */
+  serialize?: (event: ZoneColorsEvent) => string
+}
+
+/**
+ * Rectangle normalized to the video frame - `x: 0, width: 1` spans the
+ * full width.
+ *
+ * @public
+ */
+export interface GlowRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Regions to leave out of sampling, as a list or a function called with
+ * the video on every draw.
+ *
+ * @public
+ */
+export type GlowExcludeRegions =
+  | readonly GlowRegion[]
+  | ((video: HTMLVideoElement) => readonly GlowRegion[])
+
+/**
+ * Quality the glow is currently running at. Matches the configured
+ * options unless `adaptive` has stepped it down.
+ *
+ * @public
+ */
+export interface GlowQuality {
+  /** True if the adaptive governor is on. */
+  adaptive: boolean
+  /** Steps below the configured quality (0 = as configured). */
+  level: number
+  /** Effective downscale. */
+  downscale: number
+  /** Effective update interval in ms. */
+  updateInterval: number
+  /** Smoothed draw cost in ms (0 until measured). */
+  drawCostMs: number
+}
+
+/**
+ * Black bars detected in the video, each as a fraction (0-1) of the visible
+ * picture's height (top, bottom) or width (left, right). All zero when
+ * there are none or detection is off.
+ *
+ * @public
+ */
+export interface GlowLetterbox {
+  top: number
+  bottom: number
+  left: number
+  right: number
+}
+
+/**
+ * Page-wide settings for the scheduler every glow shares.
+ *
+ * @public
+ */
+export interface GlowSchedulerOptions {
+  /**
+   * Time in ms all glows on the page may spend drawing per frame. Glows
+   * past the budget wait for the next frame, taking turns round-robin. At
+   * least one glow always draws per frame.
+   * @defaultValue 8
+   */
+  frameBudgetMs?: number
+}
+
+/**
+ * What a glow costs and what it's doing, from `getStats()`. Timings and
+ * counts need the `stats` option and cover the time since it was turned
+ * on.
+ *
+ * @public
+ */
+export interface GlowStats {
+  /** True if timings and counts are being collected (`stats` is on). */
+  collecting: boolean
+  /** Average draw time in ms over the last 120 draws. */
+  averageDrawMs: number
+  /** 95th percentile draw time in ms over the last 120 draws. */
+  p95DrawMs: number
+  /** Frames blended in the last second. */
+  updatesPerSecond: number
+  /** Updates the renderer dropped (frame not ready, worker busy, or the draw failed). */
+  skippedUpdates: number
+  /** Frames blended into the glow in total. */
+  framesBlended: number
+  /** Glow buffer size in px. */
+  bufferWidth: number
+  bufferHeight: number
+  /** Size the glow is displayed at in CSS px. */
+  cssWidth: number
+  cssHeight: number
+  /** True while the update loop runs (the video plays and the glow renders). */
+  isLooping: boolean
+  /** True if the glow is on screen and not paused. See {@link GlowRenderState}. */
+  isVisible: boolean
+  /** Last error reported by the renderer, or null. */
+  lastError: Error | null
+}
+
+/**
+ * RGBA pixels, row-major (`ImageData` fits).
+ *
+ * @public
+ */
+export interface GlowPixels {
+  readonly data: Uint8ClampedArray
+  readonly width: number
+  readonly height: number
+  /** True if rows run bottom to top (`webgl` reads them off the GPU). */
+  readonly bottomUp?: boolean
+}
+
+/**
+ * Glow internals for debugging tools like the `/debug` overlay.
+ *
+ * @public
+ */
+export interface GlowDebugInfo {
+  /** Video the glow follows. */
+  video: HTMLVideoElement
+  /** Glow element behind the video. */
+  element: HTMLElement
+  /** Renderer in use (`canvas2d` for `worker` too). */
+  rendererType: GlowRendererType
+  /**
+   * Part of the frame being sampled - the visible picture minus detected
+   * bars, narrowed to `sampleRegion`.
+   */
+  sampleRegion: GlowRegion
+  /** Regions left out of sampling this frame (none with `webgl`). */
+  excludeRegions: readonly GlowRegion[]
+  /**
+   * Size frames are sampled at, in px - the glow buffer without the
+   * margin `blurMode: 'canvas'` adds for the blur.
+   */
+  sampleWidth: number
+  /** See {@link GlowDebugInfo.sampleWidth}. */
+  sampleHeight: number
+  /**
+   * Blended glow buffer (live, don't modify), or null before the first
+   * frame and with `worker`.
+   */
+  blendedPixels: GlowPixels | null
+}
+
+/**
+ * Settings for the debug overlay from `video-ambient-glow/debug`.
+ *
+ * @public
+ */
+export interface GlowDebugOverlayOptions {
+  /**
+   * Show the overlay right away.
+   * @defaultValue true
+   */
+  visible?: boolean
+  /**
+   * Corner of the video the overlay sits in.
+   * @defaultValue 'top-left'
+   */
+  corner?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+  /**
+   * Width of each preview in CSS px.
+   * @defaultValue 160
+   */
+  previewWidth?: number
+}
+
+/**
+ * Severity of a diagnostic. Setting a level logs it and everything more
+ * severe, `silent` logs nothing.
+ *
+ * @public
+ */
+export type GlowLogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+/**
+ * What a glow was doing when it logged. `running` - updating with the
+ * video, `idle` - waiting for playback, `paused` - kept from rendering
+ * (see {@link GlowRenderState}), `tainted` - showing the tainted fallback,
+ * `destroyed` - torn down.
+ *
+ * @public
+ */
+export type GlowLogState =
+  | 'running'
+  | 'idle'
+  | 'paused'
+  | 'tainted'
+  | 'destroyed'
+
+/**
+ * Context passed with every diagnostic.
+ *
+ * @public
+ */
+export interface GlowLogContext {
+  /** Id of the glow that logged, unique on the page. */
+  instanceId: number
+  /** The video's `currentSrc` (empty before a source is picked). */
+  src: string
+  /** What the glow was doing. */
+  state: GlowLogState
+  /** Error or data behind the message, if any. */
+  detail?: unknown
+}
+
+/**
+ * Receives glow diagnostics. Messages start with `AmbientGlow:`. `console`
+ * fits as is. Warnings and errors are logged once per glow and source.
+ *
+ * @public
+ */
+export interface GlowLogger {
+  debug(message: string, context: GlowLogContext): void
+  info(message: string, context: GlowLogContext): void
+  warn(message: string, context: GlowLogContext): void
+  error(message: string, context: GlowLogContext): void
+}
+
+/**
+ * Page-wide logging settings for glows without their own.
+ *
+ * @public
+ */
+export interface GlowLoggingOptions {
+  /**
+   * Logger for every glow without a `logger` option. Null restores
+   * `console`.
+   * @defaultValue console
+   */
+  logger?: GlowLogger | null
+  /**
+   * Level for every glow without a `logLevel` option.
+   * @defaultValue 'warn'
+   */
+  level?: GlowLogLevel
+}
+
+/**
+ * Why the glow isn't rendering. `offscreen` - the video is scrolled out of
+ * view, `hidden` - the tab is in the background, `pictureInPicture` - the
+ * video plays in a PiP window, `fullscreen` - native fullscreen covers the
+ * glow.
+ *
+ * @public
+ */
+export type GlowPauseReason =
+  | 'offscreen'
+  | 'hidden'
+  | 'pictureInPicture'
+  | 'fullscreen'
+
+/**
+ * Whether the glow is rendering, and if not, why.
+ *
+ * @public
+ */
+export interface GlowRenderState {
+  /** True if the glow is on screen and updates while the video plays. */
+  shouldRender: boolean
+  /** Everything currently keeping the glow from rendering. */
+  pausedBy: GlowPauseReason[]
+}
+
+/**
+ * Payload for the `scenechange` event.
+ *
+ * @public
+ */
+export interface SceneChangeEvent {
+  /** Frame difference that triggered the cut (0-1). */
+  difference: number
+  /** Video `currentTime` when the cut was detected, in seconds. */
+  currentTime: number
+}
+
+/**
+ * Payload for the `colorchange` event.
+ *
+ * @public
+ */
+export interface ColorChangeEvent {
+  /** New palette, most common color first. */
+  palette: GlowColor[]
+  /** Most common color (the first in the palette). */
+  dominant: GlowColor
+  /** How far the palette moved (delta E), or null for the first palette. */
+  distance: number | null
+  /** Video `currentTime` when the change was seen, in seconds. */
+  currentTime: number
+}
+
+/**
+ * Payload for the `frame` event.
+ *
+ * @public
+ */
+export interface GlowFrameEvent {
+  /** Video `currentTime` of the drawn frame, in seconds. */
+  currentTime: number
+  /** Time since the previous draw, in ms. */
+  elapsedMs: number
+  /** True if the frame replaced the glow instead of blending into it. */
+  reset: boolean
+  /** How long the draw took on the main thread, in ms. */
+  drawCostMs: number
+}
+
+/**
+ * Payload for the `start` event.
+ *
+ * @public
+ */
+export interface GlowStartEvent {
+  /** Video `currentTime` when the loop started, in seconds. */
+  currentTime: number
+}
+
+/**
+ * Why the update loop stopped - the video paused or ended, the glow can't
+ * be seen (see {@link GlowPauseReason}), or it was destroyed.
+ *
+ * @public
+ */
+export type GlowStopReason = 'pause' | 'ended' | 'destroy' | GlowPauseReason
+
+/**
+ * Payload for the `stop` event.
+ *
+ * @public
+ */
+export interface GlowStopEvent {
+  /** What stopped the loop. */
+  reason: GlowStopReason
+  /** Video `currentTime` when the loop stopped, in seconds. */
+  currentTime: number
+}
+
+/**
+ * Payload for the `resize` event.
+ *
+ * @public
+ */
+export interface GlowResizeEvent {
+  /** Glow buffer width in px (the downscaled frame). */
+  width: number
+  /** Glow buffer height in px. */
+  height: number
+  /** Glow width on the page, in CSS px. */
+  displayWidth: number
+  /** Glow height on the page, in CSS px. */
+  displayHeight: number
+}
+
+/**
+ * Kind of error - `tainted` means the video is cross-origin without CORS
+ * headers (reported once, then `taintedFallback` takes over), `draw` is
+ * any other failed frame.
+ *
+ * @public
+ */
+export type GlowErrorCode = 'tainted' | 'draw'
+
+/**
+ * Payload for the `error` event.
+ *
+ * @public
+ */
+export interface GlowErrorEvent {
+  /** Kind of error. */
+  code: GlowErrorCode
+  /**
+   * What went wrong - the original error is the `cause` of `tainted`
+   * errors.
+   */
+  error: Error
+  /** Video `currentTime` when it happened, in seconds. */
+  currentTime: number
+}
+
+/**
+ * Payload for the `destroy` event.
+ *
+ * @public
+ */
+export interface GlowDestroyEvent {
+  /** Video `currentTime` when the glow was destroyed, in seconds. */
+  currentTime: number
+}
+
+/**
+ * Events emitted by {@link AmbientGlow}, keyed by name.
+ *
+ * @public
+ */
+export interface GlowEventMap {
+  /** Fired after every frame drawn into the glow. */
+  frame: GlowFrameEvent
+  /** Fired when the update loop starts (playback, or the glow reappearing). */
+  start: GlowStartEvent
+  /** Fired when the update loop stops. */
+  stop: GlowStopEvent
+  /** Fired when the glow's buffer or on-page size changes. */
+  resize: GlowResizeEvent
+  /**
+   * Fired when a frame can't be drawn. Without a listener, errors are
+   * logged with `console.warn` instead.
+   */
+  error: GlowErrorEvent
+  /** Fired once from `destroy()`, before every listener is removed. */
+  destroy: GlowDestroyEvent
+  /** Fired when a hard cut is detected between sampled frames. */
+  scenechange: SceneChangeEvent
+  /** Fired on every update with `zones` on. */
+  zones: ZoneColorsEvent
+  /**
+   * Fired when the glow's palette moves past `colorChangeThreshold`,
+   * checked at most twice a second. The first palette always fires.
+   */
+  colorchange: ColorChangeEvent
 }
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for in-buffer blur.
+ *
+ * @module lib/blur
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  blurImageData,
+  getBakedFilters,
+  getBoxBlurRadii,
+  getBufferBlurRadius,
+  supportsCanvasFilter
+} from '../src/lib/blur'
+import { DEFAULT_OPTIONS } from '../src/constants'
+
+/** Single-row gray image with one bright pixel in the middle. */
+const impulse = (width: number, value = 255) => {
+  const data = new Uint8ClampedArray(width * 4)
+  for (let i = 3; i < data.length; i += 4) data[i] = 255
+  const mid = Math.floor(width / 2) * 4
+  data[mid] = data[mid + 1] = data[mid + 2] = value
+  return { data, width, height: 1 } as ImageData
+}
+
+const redChannel = (image: ImageData) =>
+  Array.from(
+    { length: image.width * image.height },
+    (_, i) => image.data[i * 4]
+  )
+
+describe('blur utilities', () => {
+  describe('getBufferBlurRadius', () => {
+    it('scales the CSS blur down to buffer pixels', () => {
+      expect(getBufferBlurRadius(96, 100, 800)).toBe(12)
+    })
+
+    it('returns 0 without a display size or blur', () => {
+      expect(getBufferBlurRadius(96, 100, 0)).toBe(0)
+      expect(getBufferBlurRadius(0, 100, 800)).toBe(0)
+    })
+  })
+
+  describe('supportsCanvasFilter', () => {
+    it('checks for a string filter property', () => {
+      const ctx = document.createElement('canvas').getContext('2d')!
+      expect(supportsCanvasFilter(ctx)).toBe(false)
+      expect(
+        supportsCanvasFilter({ filter: 'none' } as CanvasRenderingContext2D)
+      ).toBe(true)
+    })
+  })
+
+  describe('getBoxBlurRadii', () => {
+    it('returns three zero radii for no blur', () => {
+      expect(getBoxBlurRadii(0)).toEqual([0, 0, 0])
+    })
+
+    it('matches the Gaussian variance with three boxes', () => {
+      for (const sigma of [1, 2.5, 5, 12, 30]) {
+        const radii = getBoxBlurRadii(sigma)
+        expect(radii).toHaveLength(3)
+        // Variance of a box of width w is (w^2 - 1) / 12, and passes add up
+        const variance = radii.reduce(
+          (sum, r) => sum + ((2 * r + 1) ** 2 - 1) / 12,
+          0
+        )
+        expect(Math.sqrt(variance)).toBeCloseTo(sigma, 0)
+      }
+    })
+
+    it('uses at most two neighboring box sizes', () => {
+      const radii = getBoxBlurRadii(7)
+      expect(Math.max(...radii) - Math.min(...radii)).toBeLessThanOrEqual(1)
+    })
+  })
+
+  describe('blurImageData', () => {
+    it('leaves a flat image unchanged', () => {
+      const data = new Uint8ClampedArray(8 * 8 * 4).fill(90)
+      const image = { data, width: 8, height: 8 } as ImageData
+      blurImageData(image, [2, 2, 2])
+      expect(Array.from(data).every(value => value === 90)).toBe(true)
+    })
+
+    it('spreads an impulse symmetrically and keeps its energy', () => {
+      const image = blurImageData(impulse(41), [2, 2, 2])
+      const row = redChannel(image)
+
+      expect(row[20]).toBeLessThan(255)
+      for (let i = 1; i <= 6; i++) {
+        expect(row[20 - i]).toBe(row[20 + i])
+        expect(row[20 - i]).toBeLessThanOrEqual(row[20 - i + 1])
+      }
+      const total = row.reduce((sum, value) => sum + value, 0)
+      expect(total).toBeGreaterThan(255 - 41)
+      expect(total).toBeLessThan(255 + 41)
+    })
+
+    it('matches a single box blur of the given radius', () => {
+      const image = blurImageData(impulse(11, 250), [2])
+      // Box of 5 pixels: 250 / 5 = 50 around the impulse, 0 elsewhere
+      expect(redChannel(image)).toEqual([0, 0, 0, 50, 50, 50, 50, 50, 0, 0, 0])
+    })
+
+    it('blurs columns as well as rows', () => {
+      const data = new Uint8ClampedArray(5 * 5 * 4)
+      data[(2 * 5 + 2) * 4] = 250 // Center pixel, red only
+      const image = { data, width: 5, height: 5 } as ImageData
+      blurImageData(image, [1])
+
+      // 3x3 box: 250 / 9 in the neighborhood, nothing at the corners
+      expect(data[(1 * 5 + 2) * 4]).toBe(28)
+      expect(data[(3 * 5 + 2) * 4]).toBe(28)
+      expect(data[(2 * 5 + 1) * 4]).toBe(28)
+      expect(data[0]).toBe(0)
+    })
+
+    it('clamps at the edges instead of darkening them', () => {
+      const data = new Uint8ClampedArray(6 * 4).fill(200)
+      const image = { data, width: 6, height: 1 } as ImageData
+      blurImageData(image, [3, 3, 3])
+      expect(redChannel(image)).toEqual([200, 200, 200, 200, 200, 200])
+    })
+
+    it('leaves alpha alone', () => {
+      const image = blurImageData(impulse(9), [2, 2, 2])
+      for (let i = 3; i < image.data.length; i += 4) {
+        expect(image.data[i]).toBe(255)
+      }
+    })
+  })
+
+  describe('getBakedFilters', () => {
+    it('returns null with CSS blur', () => {
+      expect(getBakedFilters(DEFAULT_OPTIONS, 10)).toBeNull()
+    })
+
+    it('describes the blur and color filters for canvas blur', () => {
+      const baked = getBakedFilters(
+        { ...DEFAULT_OPTIONS, blurMode: 'canvas' },
+        10
+      )!
+      expect(baked.filter).toBe('blur(10px) brightness(1.1) saturate(1.2)')
+      expect(baked.radii).toEqual(getBoxBlurRadii(10))
+      expect(baked.brightness).toBe(1.1)
+      expect(baked.matrix).toHaveLength(9)
+    })
+  })
+})
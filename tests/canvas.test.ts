@@ -7,10 +7,13 @@
 import { describe, it, expect, afterEach, vi } from 'vitest'
 import {
   createGlowCanvas,
+  createGlowElement,
   createTempCanvas,
   getCanvasContext,
   applyCanvasStyles,
   updateCanvasFilterStyles,
+  getGlowFilter,
+  applyEdgeMask,
   ensureParentPositioning
 } from '../src/lib/canvas'
 import { DEFAULT_OPTIONS } from '../src/constants'
@@ -52,6 +55,17 @@ describe('canvas utilities', () => {
     })
   })
 
+  describe('createGlowElement', () => {
+    it('creates a positioned div without filters', () => {
+      const element = createGlowElement(DEFAULT_OPTIONS)
+      expect(element).toBeInstanceOf(HTMLDivElement)
+      expect(element.getAttribute('aria-hidden')).toBe('true')
+      expect(element.style.position).toBe('absolute')
+      expect(element.style.filter).toBe('')
+      expect(element.style.opacity).toBe('0.65')
+    })
+  })
+
   describe('createTempCanvas', () => {
     it('creates a basic canvas element', () => {
       const canvas = createTempCanvas()
@@ -157,6 +171,37 @@ describe('canvas utilities', () => {
     })
   })
 
+  describe('blurMode canvas', () => {
+    const canvasBlur: NormalizedGlowOptions = {
+      ...DEFAULT_OPTIONS,
+      blurMode: 'canvas'
+    }
+
+    it('drops every CSS filter', () => {
+      expect(getGlowFilter(canvasBlur)).toBe('none')
+      expect(getGlowFilter(DEFAULT_OPTIONS)).toBe(
+        'blur(96px) brightness(1.1) saturate(1.2)'
+      )
+    })
+
+    it('leaves the edges to the padding the blur spreads into', () => {
+      const canvas = document.createElement('canvas')
+      updateCanvasFilterStyles(canvas, canvasBlur)
+      expect(canvas.style.filter).toBe('none')
+      expect(canvas.style.getPropertyValue('mask-image')).toBe('')
+    })
+  })
+
+  describe('applyEdgeMask', () => {
+    it('adds and removes the edge mask', () => {
+      const element = document.createElement('div')
+      applyEdgeMask(element, true)
+      expect(element.style.getPropertyValue('mask-image')).not.toBe('')
+      applyEdgeMask(element, false)
+      expect(element.style.getPropertyValue('mask-image')).toBe('')
+    })
+  })
+
   describe('ensureParentPositioning', () => {
     it('sets position to relative if parent is static', () => {
       const parent = document.createElement('div')
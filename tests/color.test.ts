@@ -0,0 +1,123 @@
+/**
+ * Unit tests for color helpers.
+ *
+ * @module lib/color
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  applyColorFilters,
+  clampChannel,
+  filterImageData,
+  getDeltaE,
+  getRelativeLuminance,
+  getSaturateMatrix,
+  rgbToLab,
+  toCssColor,
+  toHexColor
+} from '../src/lib/color'
+
+describe('color utilities', () => {
+  describe('clampChannel', () => {
+    it('clamps to 0-255', () => {
+      expect(clampChannel(-10)).toBe(0)
+      expect(clampChannel(128)).toBe(128)
+      expect(clampChannel(300)).toBe(255)
+    })
+  })
+
+  describe('applyColorFilters', () => {
+    it('leaves colors alone at 1x brightness and saturation', () => {
+      const [r, g, b] = applyColorFilters(200, 100, 50, 1, 1)
+      expect(r).toBeCloseTo(200, 5)
+      expect(g).toBeCloseTo(100, 5)
+      expect(b).toBeCloseTo(50, 5)
+    })
+
+    it('scales channels by brightness', () => {
+      expect(applyColorFilters(100, 50, 200, 1.2, 1)).toEqual([
+        expect.closeTo(120, 5),
+        expect.closeTo(60, 5),
+        expect.closeTo(240, 5)
+      ])
+    })
+
+    it('produces gray at zero saturation', () => {
+      const [r, g, b] = applyColorFilters(255, 0, 0, 1, 0)
+      expect(r).toBeCloseTo(g, 5)
+      expect(g).toBeCloseTo(b, 5)
+    })
+
+    it('clamps oversaturated colors', () => {
+      const [r, g, b] = applyColorFilters(255, 0, 0, 2, 3)
+      expect(r).toBe(255)
+      expect(g).toBe(0)
+      expect(b).toBe(0)
+    })
+  })
+
+  describe('getSaturateMatrix', () => {
+    it('is the identity at 1x saturation', () => {
+      getSaturateMatrix(1).forEach((value, i) =>
+        expect(value).toBeCloseTo(i % 4 === 0 ? 1 : 0, 5)
+      )
+    })
+  })
+
+  describe('filterImageData', () => {
+    it('matches applyColorFilters for every pixel', () => {
+      const data = new Uint8ClampedArray([200, 100, 50, 255, 10, 240, 90, 255])
+      const image = { data, width: 2, height: 1 } as ImageData
+      filterImageData(image, 1.1, getSaturateMatrix(1.4))
+
+      const first = applyColorFilters(200, 100, 50, 1.1, 1.4)
+      const second = applyColorFilters(10, 240, 90, 1.1, 1.4)
+      expect(Array.from(data)).toEqual([
+        ...first.map(Math.round),
+        255,
+        ...second.map(Math.round),
+        255
+      ])
+    })
+  })
+
+  describe('toCssColor', () => {
+    it('formats rgb and rgba with rounded channels', () => {
+      expect(toCssColor(10.4, 20.6, 30)).toBe('rgb(10, 21, 30)')
+      expect(toCssColor(10, 20, 30, 0)).toBe('rgba(10, 20, 30, 0)')
+    })
+  })
+
+  describe('toHexColor', () => {
+    it('formats padded, rounded and clamped channels', () => {
+      expect(toHexColor(255, 8.6, 0)).toBe('#ff0900')
+      expect(toHexColor(300, -4, 16)).toBe('#ff0010')
+    })
+  })
+
+  describe('getRelativeLuminance', () => {
+    it('runs from 0 for black to 1 for white', () => {
+      expect(getRelativeLuminance(0, 0, 0)).toBe(0)
+      expect(getRelativeLuminance(255, 255, 255)).toBeCloseTo(1)
+      expect(getRelativeLuminance(0, 255, 0)).toBeCloseTo(0.7152)
+    })
+  })
+
+  describe('rgbToLab', () => {
+    it('maps white and black to the ends of L', () => {
+      const [l, a, b] = rgbToLab(255, 255, 255)
+      expect(l).toBeCloseTo(100, 1)
+      expect(a).toBeCloseTo(0, 1)
+      expect(b).toBeCloseTo(0, 1)
+      expect(rgbToLab(0, 0, 0)).toEqual([0, 0, 0])
+    })
+  })
+
+  describe('getDeltaE', () => {
+    it('is 0 for the same color and large for different ones', () => {
+      expect(getDeltaE([40, 80, 120], [40, 80, 120])).toBe(0)
+      expect(getDeltaE([0, 0, 0], [255, 255, 255])).toBeCloseTo(100, 1)
+      expect(getDeltaE([128, 128, 128], [130, 128, 128])).toBeLessThan(2)
+    })
+  })
+})
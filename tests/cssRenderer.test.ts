@@ -0,0 +1,293 @@
+/**
+ * Unit tests for the CSS gradient renderer.
+ *
+ * @module lib/cssRenderer
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  buildGradientBackground,
+  createCssGradientRenderer
+} from '../src/lib/cssRenderer'
+import { createRenderer } from '../src/lib/renderer'
+import type { RenderFrame } from '../src/lib/glowRenderer'
+import { CSS_GRADIENT_GRID, DEFAULT_OPTIONS } from '../src/constants'
+import type { NormalizedGlowOptions } from '../src/types'
+
+const cssOptions: NormalizedGlowOptions = {
+  ...DEFAULT_OPTIONS,
+  renderer: 'css'
+}
+
+const callbacks = () => ({ onSceneChange: vi.fn(), onError: vi.fn() })
+
+const renderFrame = (overrides: Partial<RenderFrame> = {}): RenderFrame => ({
+  options: cssOptions,
+  elapsedMs: 98,
+  reset: false,
+  blurRadius: 0,
+  source: null,
+  ...overrides
+})
+
+const readyVideo = () => {
+  const video = document.createElement('video')
+  Object.defineProperty(video, 'readyState', {
+    value: 2,
+    configurable: true
+  })
+  return video
+}
+
+const solidFrame = (value: number) =>
+  vi.fn(
+    (_x: number, _y: number, w: number, h: number) =>
+      ({
+        data: new Uint8ClampedArray(w * h * 4).fill(value),
+        width: w,
+        height: h
+      }) as ImageData
+  )
+
+// happy-dom drops gradients it can't parse, so record what gets assigned
+const trackBackground = (element: HTMLElement) => {
+  let background = ''
+  Object.defineProperty(element.style, 'backgroundImage', {
+    configurable: true,
+    get: () => background,
+    set: (value: string) => {
+      background = value
+    }
+  })
+  return () => background
+}
+
+const zoneCount = CSS_GRADIENT_GRID.COLUMNS * CSS_GRADIENT_GRID.ROWS
+
+describe('cssRenderer', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    document.body.innerHTML = ''
+  })
+
+  describe('buildGradientBackground', () => {
+    it('builds one radial gradient per zone', () => {
+      const zones = new Float32Array([255, 0, 0, 0, 0, 255])
+      const background = buildGradientBackground(zones, 2, 1, {
+        brightness: 1,
+        saturate: 1
+      })
+      const layers = background.split('radial-gradient(').slice(1)
+
+      expect(layers).toHaveLength(2)
+      expect(layers[0]).toContain('ellipse 75% 150% at 25% 50%')
+      expect(layers[0]).toContain('rgb(255, 0, 0) 0%')
+      expect(layers[0]).toContain('rgba(255, 0, 0, 0) 100%')
+      expect(layers[1]).toContain('at 75% 50%')
+      expect(layers[1]).toContain('rgb(0, 0, 255)')
+    })
+
+    it('applies brightness to the zone colors', () => {
+      const zones = new Float32Array([100, 100, 100])
+      expect(
+        buildGradientBackground(zones, 1, 1, { brightness: 1.5, saturate: 1 })
+      ).toContain('rgb(150, 150, 150)')
+    })
+  })
+
+  describe('createCssGradientRenderer', () => {
+    it('creates an unfiltered div', () => {
+      const renderer = createCssGradientRenderer(cssOptions, callbacks())
+      expect(renderer.type).toBe('css')
+      expect(renderer.element).toBeInstanceOf(HTMLDivElement)
+      expect(renderer.element.style.filter).toBe('none')
+      expect(renderer.element.style.opacity).toBe('0.65')
+    })
+
+    it('is selected by createRenderer', () => {
+      expect(createRenderer(cssOptions, callbacks()).type).toBe('css')
+    })
+
+    it('sizes the sampling buffer on resize', () => {
+      const renderer = createCssGradientRenderer(cssOptions, callbacks())
+      renderer.resize(16, 9)
+      expect(renderer.width).toBe(16)
+      expect(renderer.height).toBe(9)
+    })
+
+    it('paints zone gradients from the sampled frame', () => {
+      const renderer = createCssGradientRenderer(cssOptions, callbacks())
+      const background = trackBackground(renderer.element)
+      renderer.resize(16, 9)
+
+      expect(renderer.draw(readyVideo(), renderFrame())).toBe(true)
+      expect(background().split('radial-gradient(').length - 1).toBe(zoneCount)
+    })
+
+    it('skips videos without a current frame', () => {
+      const renderer = createCssGradientRenderer(cssOptions, callbacks())
+      const background = trackBackground(renderer.element)
+      renderer.resize(16, 9)
+      expect(
+        renderer.draw(document.createElement('video'), renderFrame())
+      ).toBe(false)
+      expect(background()).toBe('')
+    })
+
+    it('samples sampleRegion with excludeRegions filled in', () => {
+      const renderer = createCssGradientRenderer(cssOptions, callbacks())
+      renderer.resize(16, 9)
+      const video = readyVideo()
+      Object.defineProperty(video, 'videoWidth', { value: 320 })
+      Object.defineProperty(video, 'videoHeight', { value: 180 })
+      const ctx = document.createElement('canvas').getContext('2d')!
+      // Gray frame with a white logo in the top-left corner
+      vi.mocked(ctx.getImageData).mockImplementationOnce((_x, _y, w, h) => {
+        const data = new Uint8ClampedArray(w * h * 4).fill(90)
+        for (let y = 0; y < 3; y++) data.fill(255, y * w * 4, (y * w + 4) * 4)
+        return { data, width: w, height: h } as ImageData
+      })
+
+      renderer.draw(
+        video,
+        renderFrame({
+          options: {
+            ...cssOptions,
+            sampleRegion: { x: 0, y: 0, width: 0.5, height: 1 },
+            excludeRegions: [{ x: 0, y: 0, width: 0.125, height: 1 / 3 }]
+          }
+        })
+      )
+
+      expect(ctx.drawImage).toHaveBeenLastCalledWith(
+        video,
+        0,
+        0,
+        160,
+        180,
+        0,
+        0,
+        16,
+        9
+      )
+      expect(Array.from(renderer.readPixels()!.data.slice(0, 4))).toEqual([
+        90, 90, 90, 255
+      ])
+    })
+
+    it('reads one pixel per zone', () => {
+      const renderer = createCssGradientRenderer(cssOptions, callbacks())
+      renderer.resize(16, 9)
+      expect(renderer.readPixels()).toBeNull()
+
+      const ctx = document.createElement('canvas').getContext('2d')!
+      vi.mocked(ctx.getImageData).mockImplementationOnce(solidFrame(90))
+      renderer.draw(readyVideo(), renderFrame({ reset: true }))
+      const pixels = renderer.readPixels()!
+
+      expect(pixels.width).toBe(CSS_GRADIENT_GRID.COLUMNS)
+      expect(pixels.height).toBe(CSS_GRADIENT_GRID.ROWS)
+      expect(Array.from(pixels.data.slice(0, 4))).toEqual([90, 90, 90, 255])
+    })
+
+    it('drops the gradients on clear', () => {
+      const renderer = createCssGradientRenderer(cssOptions, callbacks())
+      const background = trackBackground(renderer.element)
+      renderer.resize(16, 9)
+      renderer.draw(readyVideo(), renderFrame())
+
+      renderer.clear()
+      renderer.updateStyles(cssOptions)
+
+      expect(background()).toBe('')
+      expect(renderer.readPixels()).toBeNull()
+    })
+
+    it('samples through a new canvas of the same size once replaced', () => {
+      const renderer = createCssGradientRenderer(cssOptions, callbacks())
+      const drawImage = vi.mocked(
+        document.createElement('canvas').getContext('2d')!.drawImage
+      )
+      const video = readyVideo()
+      renderer.resize(16, 9)
+      renderer.draw(video, renderFrame())
+      const before = drawImage.mock.contexts.at(-1) as CanvasRenderingContext2D
+
+      renderer.replaceSampleCanvas()
+      renderer.draw(video, renderFrame())
+      const after = drawImage.mock.contexts.at(-1) as CanvasRenderingContext2D
+
+      expect(after.canvas).not.toBe(before.canvas)
+      expect(renderer.width).toBe(16)
+      expect(renderer.height).toBe(9)
+    })
+
+    it('smooths zone colors between frames', () => {
+      const renderer = createCssGradientRenderer(cssOptions, callbacks())
+      const video = readyVideo()
+      const background = trackBackground(renderer.element)
+      renderer.resize(16, 9)
+
+      const tempCanvas = document.createElement('canvas')
+      const ctx = tempCanvas.getContext('2d')!
+      vi.mocked(ctx.getImageData).mockImplementationOnce(solidFrame(0))
+      renderer.draw(video, renderFrame())
+      vi.mocked(ctx.getImageData).mockImplementationOnce(solidFrame(200))
+      renderer.draw(video, renderFrame())
+
+      // Default smoothing keeps ~85% of the black frame, then 1.1x brightness
+      expect(background()).toContain('rgb(33, 33, 33)')
+    })
+
+    it('snaps to the new colors on a scene cut', () => {
+      const cb = callbacks()
+      const options = { ...cssOptions, sceneCutThreshold: 0.25 }
+      const renderer = createCssGradientRenderer(options, cb)
+      const video = readyVideo()
+      const background = trackBackground(renderer.element)
+      renderer.resize(16, 9)
+
+      const ctx = document.createElement('canvas').getContext('2d')!
+      vi.mocked(ctx.getImageData).mockImplementationOnce(solidFrame(0))
+      renderer.draw(video, renderFrame({ options }))
+      vi.mocked(ctx.getImageData).mockImplementationOnce(solidFrame(200))
+      renderer.draw(video, renderFrame({ options }))
+
+      expect(cb.onSceneChange).toHaveBeenCalledWith(expect.closeTo(0.78, 2))
+      expect(background()).toContain('rgb(220, 220, 220)')
+    })
+
+    it('reports sampling errors', () => {
+      const cb = callbacks()
+      const renderer = createCssGradientRenderer(cssOptions, cb)
+      renderer.resize(16, 9)
+
+      const ctx = document.createElement('canvas').getContext('2d')!
+      vi.mocked(ctx.getImageData).mockImplementationOnce(() => {
+        throw new Error('tainted')
+      })
+
+      expect(renderer.draw(readyVideo(), renderFrame())).toBe(false)
+      expect(cb.onError).toHaveBeenCalled()
+    })
+
+    it('repaints with new opacity and color options', () => {
+      const renderer = createCssGradientRenderer(cssOptions, callbacks())
+      const background = trackBackground(renderer.element)
+      renderer.resize(16, 9)
+      renderer.draw(readyVideo(), renderFrame())
+      expect(background()).toContain('rgb(0, 0, 0)')
+
+      renderer.updateStyles({ ...cssOptions, opacity: 0.3, saturate: 0 })
+      expect(renderer.element.style.opacity).toBe('0.3')
+      expect(renderer.element.style.filter).toBe('none')
+    })
+
+    it('removes the element on dispose', () => {
+      const renderer = createCssGradientRenderer(cssOptions, callbacks())
+      document.body.appendChild(renderer.element)
+      renderer.dispose()
+      expect(document.body.children).toHaveLength(0)
+    })
+  })
+})
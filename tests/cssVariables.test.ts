@@ -0,0 +1,75 @@
+/**
+ * Unit tests for the CSS custom property helpers.
+ *
+ * @module lib/cssVariables
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  createCssVariableWriter,
+  getGlowCssVariables
+} from '../src/lib/cssVariables'
+import { toGlowColor } from '../src/lib/palette'
+
+describe('cssVariables utilities', () => {
+  describe('getGlowCssVariables', () => {
+    it('publishes color, accent and luminance under the prefix', () => {
+      const palette = [
+        toGlowColor(255, 255, 255, 0.5),
+        toGlowColor(0, 0, 255, 0.5)
+      ]
+
+      expect(getGlowCssVariables(palette, '--glow')).toEqual({
+        '--glow-color': '#ffffff',
+        '--glow-accent': '#0000ff',
+        '--glow-luminance': '0.536'
+      })
+    })
+
+    it('uses the dominant color as the accent when alone', () => {
+      const variables = getGlowCssVariables(
+        [toGlowColor(16, 32, 48, 1)],
+        '--glow'
+      )
+      expect(variables['--glow-accent']).toBe('#102030')
+    })
+  })
+
+  describe('createCssVariableWriter', () => {
+    it('sets properties and skips unchanged values', () => {
+      const target = document.createElement('div')
+      const setProperty = vi.spyOn(target.style, 'setProperty')
+      const writer = createCssVariableWriter()
+
+      writer.write(target, { '--a': '1', '--b': '2' })
+      writer.write(target, { '--a': '1', '--b': '3' })
+
+      expect(target.style.getPropertyValue('--b')).toBe('3')
+      expect(setProperty).toHaveBeenCalledTimes(3)
+    })
+
+    it('moves properties to a new target', () => {
+      const first = document.createElement('div')
+      const second = document.createElement('div')
+      const writer = createCssVariableWriter()
+
+      writer.write(first, { '--a': '1' })
+      writer.write(second, { '--a': '1' })
+
+      expect(first.style.getPropertyValue('--a')).toBe('')
+      expect(second.style.getPropertyValue('--a')).toBe('1')
+    })
+
+    it('removes everything it wrote on clear', () => {
+      const target = document.createElement('div')
+      target.style.setProperty('--other', 'kept')
+      const writer = createCssVariableWriter()
+
+      writer.write(target, { '--a': '1' })
+      writer.clear()
+
+      expect(target.style.getPropertyValue('--a')).toBe('')
+      expect(target.style.getPropertyValue('--other')).toBe('kept')
+    })
+  })
+})
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for the debug overlay.
+ *
+ * @module lib/debugOverlay
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { AmbientGlow } from '../src/index'
+import { createDebugOverlay } from '../src/debug'
+
+describe('debugOverlay utilities', () => {
+  let video: HTMLVideoElement
+  let glow: AmbientGlow
+
+  const getReadout = (element: HTMLElement) =>
+    element.querySelector('pre')?.textContent ?? ''
+
+  beforeEach(() => {
+    const parent = document.createElement('div')
+    video = document.createElement('video')
+    parent.appendChild(video)
+    document.body.appendChild(parent)
+    Object.defineProperty(video, 'videoWidth', { value: 1280 })
+    Object.defineProperty(video, 'videoHeight', { value: 720 })
+    Object.defineProperty(video, 'readyState', { value: 2 })
+    vi.spyOn(video, 'getBoundingClientRect').mockReturnValue(
+      new DOMRect(0, 0, 640, 360)
+    )
+    glow = new AmbientGlow(video)
+  })
+
+  afterEach(() => {
+    glow.destroy()
+    document.body.innerHTML = ''
+    vi.restoreAllMocks()
+  })
+
+  describe('createDebugOverlay', () => {
+    it('attaches next to the video', () => {
+      const overlay = createDebugOverlay(glow)
+
+      expect(video.nextElementSibling).toBe(overlay.element)
+      expect(overlay.isVisible).toBe(true)
+      expect(overlay.element.querySelectorAll('canvas')).toHaveLength(3)
+      expect(getReadout(overlay.element)).toContain('canvas2d')
+    })
+
+    it('shows the frame rate and draw cost as frames come in', () => {
+      const overlay = createDebugOverlay(glow)
+      video.dispatchEvent(new Event('seeked'))
+      video.dispatchEvent(new Event('seeked'))
+
+      const readout = getReadout(overlay.element)
+      expect(readout).toContain('2.0 fps')
+      expect(readout).toMatch(/draw \d+\.\d\dms \(avg \d+\.\d\dms\)/)
+      expect(readout).toContain('idle · visible')
+    })
+
+    it('shows the loop state', () => {
+      const overlay = createDebugOverlay(glow)
+      video.dispatchEvent(new Event('play'))
+      expect(getReadout(overlay.element)).toContain('looping')
+
+      video.dispatchEvent(new Event('pause'))
+      expect(getReadout(overlay.element)).toContain('idle')
+    })
+
+    it('draws the blended buffer once there is one', () => {
+      const overlay = createDebugOverlay(glow)
+      const ctx = document.createElement('canvas').getContext('2d')!
+      const putImageData = vi.mocked(ctx.putImageData)
+      putImageData.mockClear()
+
+      video.dispatchEvent(new Event('seeked'))
+
+      const [, , blended] = overlay.element.querySelectorAll('canvas')
+      const pixels = glow.getDebugInfo().blendedPixels!
+      expect(blended.width).toBe(pixels.width)
+      expect(blended.height).toBe(pixels.height)
+      expect(putImageData).toHaveBeenCalled()
+    })
+
+    it('shows the sample as the glow takes it, without the blur padding', () => {
+      glow.destroy()
+      glow = new AmbientGlow(video, {
+        blurMode: 'canvas',
+        sampleRegion: { x: 0.5, y: 0, width: 0.5, height: 1 },
+        excludeRegions: [{ x: 0.9, y: 0, width: 0.1, height: 0.1 }]
+      })
+      const ctx = document.createElement('canvas').getContext('2d')!
+      const drawImage = vi.mocked(ctx.drawImage)
+      drawImage.mockClear()
+
+      const overlay = createDebugOverlay(glow)
+
+      const info = glow.getDebugInfo()
+      const [, sample] = overlay.element.querySelectorAll('canvas')
+      expect(info.sampleWidth).toBeLessThan(glow.getStats().bufferWidth)
+      expect(sample.width).toBe(info.sampleWidth)
+      expect(sample.height).toBe(info.sampleHeight)
+      expect(drawImage).toHaveBeenCalledWith(
+        video,
+        640,
+        0,
+        640,
+        720,
+        0,
+        0,
+        info.sampleWidth,
+        info.sampleHeight
+      )
+    })
+
+    it('flips buffers read bottom-up', () => {
+      const info = glow.getDebugInfo()
+      // Bottom row red, top row blue, as WebGL reads them
+      const data = new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 255])
+      vi.spyOn(glow, 'getDebugInfo').mockReturnValue({
+        ...info,
+        blendedPixels: { data, width: 1, height: 2, bottomUp: true }
+      })
+      const ctx = document.createElement('canvas').getContext('2d')!
+      const putImageData = vi.mocked(ctx.putImageData)
+      putImageData.mockClear()
+
+      createDebugOverlay(glow)
+
+      const [image] = putImageData.mock.lastCall!
+      expect(Array.from(image.data)).toEqual([0, 0, 255, 255, 255, 0, 0, 255])
+    })
+
+    it('stops following the glow while hidden', () => {
+      const overlay = createDebugOverlay(glow, { visible: false })
+      expect(overlay.element.style.display).toBe('none')
+
+      video.dispatchEvent(new Event('seeked'))
+      expect(getReadout(overlay.element)).toBe('')
+
+      overlay.toggle()
+      expect(overlay.isVisible).toBe(true)
+      expect(overlay.element.style.display).toBe('')
+      expect(getReadout(overlay.element)).toContain('0.0 fps')
+
+      overlay.toggle(false)
+      video.dispatchEvent(new Event('play'))
+      expect(getReadout(overlay.element)).not.toContain('looping')
+    })
+
+    it('sits in the chosen corner of the video', () => {
+      const overlay = createDebugOverlay(glow, { corner: 'bottom-right' })
+      expect(overlay.element.style.transform).toBe('translate(-100%, -100%)')
+    })
+
+    it('goes away with the glow', () => {
+      const overlay = createDebugOverlay(glow)
+      glow.destroy()
+
+      expect(overlay.element.isConnected).toBe(false)
+      expect(overlay.isVisible).toBe(false)
+    })
+
+    it('can be removed on its own', () => {
+      const overlay = createDebugOverlay(glow)
+      overlay.destroy()
+      overlay.show()
+
+      expect(overlay.element.isConnected).toBe(false)
+      expect(overlay.isVisible).toBe(false)
+    })
+
+    it('throws for a destroyed glow', () => {
+      glow.destroy()
+      expect(() => createDebugOverlay(glow)).toThrow(/destroyed instance/)
+    })
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for the typed event emitter.
+ *
+ * @module lib/emitter
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { createEmitter } from '../src/lib/emitter'
+
+interface TestEvents {
+  ping: { value: number }
+  pong: string
+}
+
+describe('emitter utilities', () => {
+  describe('createEmitter', () => {
+    it('calls listeners with the payload', () => {
+      const emitter = createEmitter<TestEvents>()
+      const listener = vi.fn()
+
+      emitter.on('ping', listener)
+      emitter.emit('ping', { value: 1 })
+
+      expect(listener).toHaveBeenCalledWith({ value: 1 })
+    })
+
+    it('only calls listeners for the emitted type', () => {
+      const emitter = createEmitter<TestEvents>()
+      const ping = vi.fn()
+      const pong = vi.fn()
+
+      emitter.on('ping', ping)
+      emitter.on('pong', pong)
+      emitter.emit('pong', 'hello')
+
+      expect(ping).not.toHaveBeenCalled()
+      expect(pong).toHaveBeenCalledWith('hello')
+    })
+
+    it('removes listeners with off', () => {
+      const emitter = createEmitter<TestEvents>()
+      const listener = vi.fn()
+
+      emitter.on('ping', listener)
+      emitter.off('ping', listener)
+      emitter.emit('ping', { value: 1 })
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('removes all listeners with clear', () => {
+      const emitter = createEmitter<TestEvents>()
+      const listener = vi.fn()
+
+      emitter.on('ping', listener)
+      emitter.clear()
+      emitter.emit('ping', { value: 1 })
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('calls once listeners a single time', () => {
+      const emitter = createEmitter<TestEvents>()
+      const listener = vi.fn()
+
+      emitter.once('ping', listener)
+      emitter.emit('ping', { value: 1 })
+      emitter.emit('ping', { value: 2 })
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ value: 1 })
+      expect(emitter.hasListeners('ping')).toBe(false)
+    })
+
+    it('removes once listeners with off', () => {
+      const emitter = createEmitter<TestEvents>()
+      const listener = vi.fn()
+
+      emitter.once('ping', listener)
+      emitter.off('ping', listener)
+      emitter.emit('ping', { value: 1 })
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('reports whether a type has listeners', () => {
+      const emitter = createEmitter<TestEvents>()
+      const listener = vi.fn()
+      expect(emitter.hasListeners('ping')).toBe(false)
+
+      emitter.on('ping', listener)
+      expect(emitter.hasListeners('ping')).toBe(true)
+      expect(emitter.hasListeners('pong')).toBe(false)
+
+      emitter.off('ping', listener)
+      expect(emitter.hasListeners('ping')).toBe(false)
+    })
+
+    it('keeps calling other listeners when one throws', () => {
+      const emitter = createEmitter<TestEvents>()
+      const consoleWarnSpy = vi
+        .spyOn(console, 'warn')
+        .mockImplementation(() => {})
+      const listener = vi.fn()
+
+      emitter.on('ping', () => {
+        throw new Error('boom')
+      })
+      emitter.on('ping', listener)
+      emitter.emit('ping', { value: 1 })
+
+      expect(listener).toHaveBeenCalled()
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        'AmbientGlow: Listener for "ping" threw:',
+        expect.any(Error)
+      )
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('reports listener errors to the given handler', () => {
+      const onListenerError = vi.fn()
+      const emitter = createEmitter<TestEvents>(onListenerError)
+      const error = new Error('boom')
+
+      emitter.on('ping', () => {
+        throw error
+      })
+      emitter.emit('ping', { value: 1 })
+
+      expect(onListenerError).toHaveBeenCalledWith('ping', error)
+    })
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for the tainted video fallback.
+ *
+ * @module lib/fallback
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  createFallbackPainter,
+  fillZones,
+  getCueAt,
+  isTaintedError,
+  loadPosterZones
+} from '../src/lib/fallback'
+import { CSS_GRADIENT_GRID } from '../src/constants'
+
+const zoneCount = CSS_GRADIENT_GRID.COLUMNS * CSS_GRADIENT_GRID.ROWS
+
+// happy-dom drops gradients it can't parse, so record what gets assigned
+const trackBackground = (element: HTMLElement) => {
+  let background = ''
+  Object.defineProperty(element.style, 'backgroundImage', {
+    configurable: true,
+    get: () => background,
+    set: (value: string) => {
+      background = value
+    }
+  })
+  return () => background
+}
+
+describe('fallback utilities', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('isTaintedError', () => {
+    it('matches SecurityErrors only', () => {
+      expect(
+        isTaintedError(
+          new DOMException('The operation is insecure.', 'SecurityError')
+        )
+      ).toBe(true)
+      expect(isTaintedError(new Error('WebGL context lost.'))).toBe(false)
+      expect(isTaintedError('SecurityError')).toBe(false)
+      expect(isTaintedError(null)).toBe(false)
+    })
+  })
+
+  describe('fillZones', () => {
+    it('repeats the color for every zone', () => {
+      const zones = fillZones([10, 20, 30])
+      expect(zones).toHaveLength(zoneCount * 3)
+      expect(Array.from(zones.slice(-3))).toEqual([10, 20, 30])
+    })
+  })
+
+  describe('getCueAt', () => {
+    const cues = [
+      { time: 5, color: [255, 0, 0] as [number, number, number] },
+      { time: 10, color: [0, 0, 255] as [number, number, number] }
+    ]
+
+    it('picks the last cue that started', () => {
+      expect(getCueAt(cues, 7)).toBe(cues[0])
+      expect(getCueAt(cues, 10)).toBe(cues[1])
+      expect(getCueAt(cues, 60)).toBe(cues[1])
+    })
+
+    it('uses the first cue before it starts, null without cues', () => {
+      expect(getCueAt(cues, 0)).toBe(cues[0])
+      expect(getCueAt([], 3)).toBeNull()
+    })
+  })
+
+  describe('loadPosterZones', () => {
+    it('averages the poster into zone colors', async () => {
+      vi.spyOn(HTMLImageElement.prototype, 'decode').mockResolvedValue()
+      const ctx = document.createElement('canvas').getContext('2d')!
+      vi.mocked(ctx.getImageData).mockImplementationOnce(
+        (_x: number, _y: number, w: number, h: number) =>
+          ({
+            data: new Uint8ClampedArray(w * h * 4).fill(120),
+            width: w,
+            height: h
+          }) as ImageData
+      )
+
+      const zones = await loadPosterZones('/poster.jpg')
+
+      expect(zones).toHaveLength(zoneCount * 3)
+      expect(zones?.[0]).toBe(120)
+    })
+
+    it('returns null for posters that fail or are cross-origin', async () => {
+      vi.spyOn(HTMLImageElement.prototype, 'decode').mockResolvedValue()
+      const ctx = document.createElement('canvas').getContext('2d')!
+      vi.mocked(ctx.getImageData).mockImplementationOnce(() => {
+        throw new DOMException('The operation is insecure.', 'SecurityError')
+      })
+      expect(await loadPosterZones('https://cdn.example/poster.jpg')).toBeNull()
+
+      vi.mocked(HTMLImageElement.prototype.decode).mockRejectedValue(
+        new Error('broken')
+      )
+      expect(await loadPosterZones('/missing.jpg')).toBeNull()
+    })
+  })
+
+  describe('createFallbackPainter', () => {
+    it('paints gradients, hides and resets the element', () => {
+      const element = document.createElement('div')
+      const background = trackBackground(element)
+      const painter = createFallbackPainter(element)
+
+      painter.hide()
+      expect(element.style.visibility).toBe('hidden')
+
+      painter.paint(fillZones([200, 100, 50]), { brightness: 1, saturate: 1 })
+      expect(element.style.visibility).toBe('')
+      expect(background().split('radial-gradient(').length - 1).toBe(zoneCount)
+      expect(background()).toContain('rgb(200, 100, 50)')
+
+      painter.reset()
+      expect(background()).toBe('')
+      expect(element.style.visibility).toBe('')
+    })
+  })
+})
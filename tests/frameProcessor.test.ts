@@ -5,7 +5,30 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { drawAndBlendFrame, blendFrames } from '../src/lib/frameProcessor'
+import {
+  drawAndBlendFrame,
+  blendFrames,
+  blendToSmoothingMs,
+  getBlendWeights,
+  getFrameDifference,
+  averageGridColors,
+  blendColors,
+  getColorDifference,
+  sampleFrame,
+  createFrameBuffer,
+  accumulateFrame,
+  writeAccumulator,
+  measureFrameBorders,
+  createBorderDetector,
+  getSampleRect,
+  resolveExcludeRegions,
+  getExcludedRects,
+  fillExcludedRect,
+  getEdgeSampling,
+  getEdgeScratchLength,
+  sampleEdges
+} from '../src/lib/frameProcessor'
+import { getBakedFilters } from '../src/lib/blur'
 import { DEFAULT_OPTIONS } from '../src/constants'
 import type { NormalizedGlowOptions } from '../src/types'
 
@@ -141,49 +164,524 @@ describe('frameProcessor utilities', () => {
     })
   })
 
+  describe('getFrameDifference', () => {
+    it('returns 0 for identical frames', () => {
+      const frame = {
+        data: new Uint8ClampedArray(8).fill(120),
+        width: 2,
+        height: 1
+      } as ImageData
+      expect(getFrameDifference(frame, frame)).toBe(0)
+    })
+
+    it('returns 1 for black vs white', () => {
+      const black = {
+        data: new Uint8ClampedArray([0, 0, 0, 255, 0, 0, 0, 255]),
+        width: 2,
+        height: 1
+      } as ImageData
+      const white = {
+        data: new Uint8ClampedArray(8).fill(255),
+        width: 2,
+        height: 1
+      } as ImageData
+      expect(getFrameDifference(black, white)).toBe(1)
+    })
+
+    it('ignores the alpha channel', () => {
+      const opaque = {
+        data: new Uint8ClampedArray([10, 20, 30, 255]),
+        width: 1,
+        height: 1
+      } as ImageData
+      const transparent = {
+        data: new Uint8ClampedArray([10, 20, 30, 0]),
+        width: 1,
+        height: 1
+      } as ImageData
+      expect(getFrameDifference(opaque, transparent)).toBe(0)
+    })
+  })
+
+  describe('averageGridColors', () => {
+    it('averages each cell of the grid', () => {
+      // 2x2 frame: red, green on top; blue, white on the bottom
+      const frame = {
+        data: new Uint8ClampedArray([
+          255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255
+        ]),
+        width: 2,
+        height: 2
+      } as ImageData
+
+      expect(Array.from(averageGridColors(frame, 2, 2))).toEqual([
+        255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255
+      ])
+      expect(Array.from(averageGridColors(frame, 1, 1))).toEqual([
+        127.5, 127.5, 127.5
+      ])
+    })
+
+    it('samples at least one pixel when cells are smaller than a pixel', () => {
+      const frame = {
+        data: new Uint8ClampedArray([40, 80, 120, 255]),
+        width: 1,
+        height: 1
+      } as ImageData
+      expect(Array.from(averageGridColors(frame, 2, 1))).toEqual([
+        40, 80, 120, 40, 80, 120
+      ])
+    })
+  })
+
+  describe('blendColors', () => {
+    it('blends in place with the given weights', () => {
+      const oldColors = new Float32Array([0, 100, 200])
+      const result = blendColors(
+        oldColors,
+        new Float32Array([100, 100, 0]),
+        0.75,
+        0.25
+      )
+      expect(result).toBe(oldColors)
+      expect(Array.from(result)).toEqual([25, 100, 150])
+    })
+  })
+
+  describe('getColorDifference', () => {
+    it('uses the same 0-1 scale as getFrameDifference', () => {
+      const black = new Float32Array(6)
+      const white = new Float32Array(6).fill(255)
+      expect(getColorDifference(black, black)).toBe(0)
+      expect(getColorDifference(black, white)).toBe(1)
+    })
+  })
+
+  describe('blendToSmoothingMs', () => {
+    it('maps the default blend to the default time constant', () => {
+      expect(
+        blendToSmoothingMs(
+          DEFAULT_OPTIONS.blendNew,
+          DEFAULT_OPTIONS.updateInterval
+        )
+      ).toBeCloseTo(DEFAULT_OPTIONS.smoothingMs, 0)
+    })
+
+    it('returns 0 for a fully responsive blend', () => {
+      expect(blendToSmoothingMs(1, 98)).toBe(0)
+    })
+
+    it('returns Infinity when new frames are ignored', () => {
+      expect(blendToSmoothingMs(0, 98)).toBe(Infinity)
+    })
+  })
+
+  describe('getBlendWeights', () => {
+    it('reproduces the per-update blend at the tuned interval', () => {
+      const smoothingMs = blendToSmoothingMs(0.3, 200)
+      const { blendOld, blendNew } = getBlendWeights(smoothingMs, 200)
+      expect(blendNew).toBeCloseTo(0.3, 5)
+      expect(blendOld).toBeCloseTo(0.7, 5)
+    })
+
+    it('settles at the same speed regardless of update cadence', () => {
+      const fast = getBlendWeights(600, 30)
+      const slow = getBlendWeights(600, 300)
+      // Ten 30ms steps keep as much of the old frame as one 300ms step
+      expect(Math.pow(fast.blendOld, 10)).toBeCloseTo(slow.blendOld, 5)
+    })
+
+    it('uses only the new frame when smoothing is disabled', () => {
+      expect(getBlendWeights(0, 100)).toEqual({ blendOld: 0, blendNew: 1 })
+    })
+
+    it('keeps the old frame when no time has passed', () => {
+      expect(getBlendWeights(600, 0).blendNew).toBe(0)
+    })
+  })
+
+  describe('sampleFrame', () => {
+    const baked = getBakedFilters({ ...DEFAULT_OPTIONS, blurMode: 'canvas' }, 2)
+
+    const grayFrame = (_x: number, _y: number, w: number, h: number) =>
+      ({
+        data: new Uint8ClampedArray(w * h * 4).fill(100),
+        width: w,
+        height: h
+      }) as ImageData
+
+    it('reads the frame back untouched without baked filters', () => {
+      const frame = sampleFrame(video, tempCtx, 100, 60)
+      expect(tempCtx.drawImage).toHaveBeenCalledWith(video, 0, 0, 100, 60)
+      expect(frame.width).toBe(100)
+    })
+
+    it('draws through ctx.filter where supported', () => {
+      const filters: string[] = []
+      let filter = 'none'
+      Object.defineProperty(tempCtx, 'filter', {
+        configurable: true,
+        get: () => filter,
+        set: (value: string) => {
+          filters.push(value)
+          filter = value
+        }
+      })
+      vi.mocked(tempCtx.getImageData).mockImplementationOnce(grayFrame)
+
+      const frame = sampleFrame(video, tempCtx, 4, 4, baked)
+      expect(filters).toEqual([baked!.filter, 'none'])
+      // Pixels come back as drawn, the filter already ran
+      expect(frame.data[0]).toBe(100)
+    })
+
+    it('falls back to the JS blur and color filters', () => {
+      vi.mocked(tempCtx.getImageData).mockImplementationOnce(grayFrame)
+
+      const frame = sampleFrame(video, tempCtx, 4, 4, baked)
+      // Flat gray stays flat under blur; brightness 1.1 lifts it
+      expect(frame.data[0]).toBe(110)
+      expect(frame.data[3]).toBe(100)
+    })
+
+    it('blurs into the transparent padding around the frame', () => {
+      const opaque = (w: number, h: number, inset = 0) => {
+        const data = new Uint8ClampedArray(w * h * 4)
+        for (let y = inset; y < h - inset; y++) {
+          for (let x = inset; x < w - inset; x++) {
+            data.set([100, 100, 100, 255], (y * w + x) * 4)
+          }
+        }
+        return { data, width: w, height: h } as ImageData
+      }
+      // The frame, then the padded buffer it was put back into
+      vi.mocked(tempCtx.getImageData)
+        .mockImplementationOnce(() => opaque(4, 4))
+        .mockImplementationOnce(() => opaque(10, 10, 3))
+
+      const frame = sampleFrame(
+        video,
+        tempCtx,
+        4,
+        4,
+        baked,
+        undefined,
+        null,
+        [],
+        null,
+        undefined,
+        3
+      )
+      expect(tempCtx.putImageData).toHaveBeenLastCalledWith(
+        expect.anything(),
+        3,
+        3
+      )
+      expect(frame.width).toBe(10)
+      // The corner is as far from the frame as it gets and still lit, in
+      // the frame's color rather than faded to black
+      expect(frame.data[3]).toBeGreaterThan(0)
+      expect(frame.data[0]).toBeGreaterThan(90)
+      expect(frame.data[(4 * 10 + 4) * 4 + 3]).toBeGreaterThan(frame.data[3])
+    })
+
+    it('draws into the middle of the padding through ctx.filter', () => {
+      Object.defineProperty(tempCtx, 'filter', {
+        configurable: true,
+        writable: true,
+        value: 'none'
+      })
+      const frame = sampleFrame(
+        video,
+        tempCtx,
+        4,
+        4,
+        baked,
+        undefined,
+        null,
+        [],
+        null,
+        undefined,
+        3
+      )
+      expect(tempCtx.clearRect).toHaveBeenLastCalledWith(0, 0, 10, 10)
+      expect(tempCtx.drawImage).toHaveBeenLastCalledWith(video, 3, 3, 4, 4)
+      expect(frame.width).toBe(10)
+    })
+
+    it('samples only the visible source rect', () => {
+      const source = { x: 240, y: 0, width: 1440, height: 1080 }
+      sampleFrame(video, tempCtx, 48, 36, null, undefined, source)
+      expect(tempCtx.drawImage).toHaveBeenLastCalledWith(
+        video,
+        240,
+        0,
+        1440,
+        1080,
+        0,
+        0,
+        48,
+        36
+      )
+    })
+  })
+
+  describe('getSampleRect', () => {
+    beforeEach(() => {
+      Object.defineProperty(video, 'videoWidth', { value: 1920 })
+      Object.defineProperty(video, 'videoHeight', { value: 1080 })
+    })
+
+    it('passes the source through without a region', () => {
+      const source = { x: 240, y: 0, width: 1440, height: 1080 }
+      expect(getSampleRect(video, source, null)).toBe(source)
+      expect(getSampleRect(video, null, null)).toBeNull()
+    })
+
+    it('maps the region to video pixels', () => {
+      const region = { x: 0, y: 0, width: 1, height: 0.75 }
+      expect(getSampleRect(video, null, region)).toEqual({
+        x: 0,
+        y: 0,
+        width: 1920,
+        height: 810
+      })
+    })
+
+    it('clips the region to the visible picture', () => {
+      const source = { x: 240, y: 0, width: 1440, height: 1080 }
+      const region = { x: 0, y: 0.5, width: 0.5, height: 0.5 }
+      expect(getSampleRect(video, source, region)).toEqual({
+        x: 240,
+        y: 540,
+        width: 720,
+        height: 540
+      })
+    })
+
+    it('ignores regions outside the visible picture', () => {
+      const source = { x: 240, y: 0, width: 1440, height: 1080 }
+      const region = { x: 0, y: 0, width: 0.1, height: 1 }
+      expect(getSampleRect(video, source, region)).toBe(source)
+    })
+  })
+
+  describe('resolveExcludeRegions', () => {
+    it('returns a static list as is', () => {
+      const regions = [{ x: 0, y: 0, width: 0.1, height: 0.1 }]
+      expect(resolveExcludeRegions(regions, video)).toBe(regions)
+    })
+
+    it('calls a function with the video', () => {
+      const regions = [{ x: 0.9, y: 0, width: 0.1, height: 0.1 }]
+      const getRegions = vi.fn(() => regions)
+      expect(resolveExcludeRegions(getRegions, video)).toBe(regions)
+      expect(getRegions).toHaveBeenCalledWith(video)
+    })
+  })
+
+  describe('getExcludedRects', () => {
+    beforeEach(() => {
+      Object.defineProperty(video, 'videoWidth', { value: 1920 })
+      Object.defineProperty(video, 'videoHeight', { value: 1080 })
+    })
+
+    it('maps regions to sample pixels, rounding outwards', () => {
+      const rects = getExcludedRects(video, null, 100, 60, [
+        { x: 0.805, y: 0.05, width: 0.1, height: 0.1 }
+      ])
+      expect(rects).toEqual([{ x: 80, y: 3, width: 11, height: 6 }])
+    })
+
+    it('maps relative to the sampled rect', () => {
+      const sampleRect = { x: 960, y: 0, width: 960, height: 1080 }
+      const rects = getExcludedRects(video, sampleRect, 100, 60, [
+        { x: 0.75, y: 0, width: 0.25, height: 0.5 }
+      ])
+      expect(rects).toEqual([{ x: 50, y: 0, width: 50, height: 30 }])
+    })
+
+    it('drops regions outside the sample', () => {
+      const sampleRect = { x: 960, y: 0, width: 960, height: 1080 }
+      const rects = getExcludedRects(video, sampleRect, 100, 60, [
+        { x: 0, y: 0, width: 0.25, height: 1 }
+      ])
+      expect(rects).toEqual([])
+    })
+  })
+
+  describe('fillExcludedRect', () => {
+    /** One-row frame with the given red values. */
+    const row = (values: number[]) => {
+      const data = new Uint8ClampedArray(values.length * 4)
+      values.forEach((value, i) => {
+        data[i * 4] = value
+        data[i * 4 + 3] = 255
+      })
+      return { data, width: values.length, height: 1 } as ImageData
+    }
+    const reds = (frame: ImageData) =>
+      Array.from(frame.data.filter((_, i) => i % 4 === 0))
+
+    it('blends between the pixels either side', () => {
+      const frame = row([0, 255, 255, 255, 200])
+      fillExcludedRect(frame, { x: 1, y: 0, width: 3, height: 1 })
+      expect(reds(frame)).toEqual([0, 50, 100, 150, 200])
+    })
+
+    it('copies the one neighbor at the frame edge', () => {
+      const frame = row([255, 255, 40])
+      fillExcludedRect(frame, { x: 0, y: 0, width: 2, height: 1 })
+      expect(reds(frame)).toEqual([40, 40, 40])
+    })
+
+    it('averages horizontal and vertical fills', () => {
+      // 3x3 frame - left/right neighbors 0, top/bottom neighbors 200
+      const data = new Uint8ClampedArray(9 * 4)
+      data[1 * 4] = 200
+      data[7 * 4] = 200
+      data[4 * 4] = 255
+      const frame = { data, width: 3, height: 3 } as ImageData
+      fillExcludedRect(frame, { x: 1, y: 1, width: 1, height: 1 })
+      expect(frame.data[4 * 4]).toBe(100)
+    })
+
+    it('leaves alpha and frames it covers completely alone', () => {
+      const frame = row([255, 255])
+      fillExcludedRect(frame, { x: 0, y: 0, width: 2, height: 1 })
+      expect(reds(frame)).toEqual([255, 255])
+      expect(frame.data[3]).toBe(255)
+    })
+  })
+
+  describe('getEdgeSampling', () => {
+    it('returns null when sampling the whole frame', () => {
+      expect(getEdgeSampling(DEFAULT_OPTIONS)).toBeNull()
+    })
+
+    it('clamps depth and falloff', () => {
+      expect(
+        getEdgeSampling({
+          ...DEFAULT_OPTIONS,
+          sampling: 'edges',
+          edgeDepth: 0.9,
+          edgeFalloff: -1
+        })
+      ).toEqual({ depth: 0.5, falloff: 0 })
+    })
+  })
+
+  describe('sampleEdges', () => {
+    /**
+     * 10x10 frame - red left quarter, blue right quarter, green top and
+     * bottom rows, a white center.
+     */
+    const edgeFrame = () => {
+      const width = 10
+      const height = 10
+      const data = new Uint8ClampedArray(width * height * 4)
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const index = (y * width + x) * 4
+          const color =
+            x < 2
+              ? [255, 0, 0]
+              : x >= 8
+                ? [0, 0, 255]
+                : y < 2 || y >= 8
+                  ? [0, 255, 0]
+                  : [255, 255, 255]
+          data.set([...color, 255], index)
+        }
+      }
+      return { data, width, height } as ImageData
+    }
+    const pixel = (frame: ImageData, x: number, y: number) =>
+      Array.from(frame.data.slice((y * 10 + x) * 4, (y * 10 + x) * 4 + 4))
+
+    it('lights each side from its own edge band', () => {
+      const frame = sampleEdges(edgeFrame(), 0.2, 1)
+      expect(pixel(frame, 0, 5)).toEqual([255, 0, 0, 255])
+      expect(pixel(frame, 9, 5)).toEqual([0, 0, 255, 255])
+      expect(pixel(frame, 5, 0)).toEqual([0, 255, 0, 255])
+      expect(pixel(frame, 5, 9)).toEqual([0, 255, 0, 255])
+    })
+
+    it('keeps the center subject out of the glow', () => {
+      const frame = sampleEdges(edgeFrame(), 0.2, 1)
+      const colors = new Set(
+        Array.from({ length: 100 }, (_, i) =>
+          pixel(frame, i % 10, Math.floor(i / 10)).join()
+        )
+      )
+      expect(colors.has('255,255,255,255')).toBe(false)
+    })
+
+    it('reaches further in with a deeper band', () => {
+      // The top band spans the green rows and the white center
+      const frame = sampleEdges(edgeFrame(), 0.4, 0)
+      expect(pixel(frame, 5, 0)).toEqual([128, 255, 128, 255])
+    })
+
+    it('leans on the outermost pixels with a steeper falloff', () => {
+      const flat = sampleEdges(edgeFrame(), 0.4, 0)
+      const steep = sampleEdges(edgeFrame(), 0.4, 4)
+      // Less of the white center bleeds into the green top band
+      expect(pixel(steep, 5, 0)[0]).toBeLessThan(pixel(flat, 5, 0)[0])
+    })
+
+    it('uses the scratch space when it is big enough', () => {
+      const scratch = new Float32Array(getEdgeScratchLength(10, 10))
+      sampleEdges(edgeFrame(), 0.2, 1, scratch)
+      expect(scratch.some(value => value > 0)).toBe(true)
+    })
+  })
+
   describe('drawAndBlendFrame', () => {
-    it('returns null if video is not ready', () => {
+    // Buffer that already holds a frame filled with `value`
+    const filledBuffer = (value: number) => {
+      const buffer = createFrameBuffer(mainCtx, 100, 60, 'uint8')
+      buffer.output.data.fill(value)
+      buffer.hasFrame = true
+      return buffer
+    }
+
+    it('returns false if video is not ready', () => {
       Object.defineProperty(video, 'readyState', {
         value: 0,
         writable: true,
         configurable: true
       })
+      const buffer = createFrameBuffer(mainCtx, 100, 60, 'uint8')
       const result = drawAndBlendFrame(
         video,
         tempCtx,
         mainCtx,
-        100,
-        60,
-        DEFAULT_OPTIONS,
-        null
+        buffer,
+        DEFAULT_OPTIONS
       )
-      expect(result).toBeNull()
+      expect(result).toBe(false)
+      expect(buffer.hasFrame).toBe(false)
     })
 
-    it('returns lastImage if canvas width is 0', () => {
+    it('returns false if the buffer width is 0', () => {
       Object.defineProperty(video, 'readyState', {
         value: 2,
         writable: true,
         configurable: true
       })
-      const lastImage = {
-        data: new Uint8ClampedArray(4),
-        width: 1,
-        height: 1
-      } as ImageData
+      const buffer = createFrameBuffer(mainCtx, 0, 60, 'uint8')
       const result = drawAndBlendFrame(
         video,
         tempCtx,
         mainCtx,
-        0,
-        60,
-        DEFAULT_OPTIONS,
-        lastImage
+        buffer,
+        DEFAULT_OPTIONS
       )
-      expect(result).toBe(lastImage)
+      expect(result).toBe(false)
     })
 
-    it('draws new frame when lastImage is null', () => {
+    it('draws new frame when the buffer is empty', () => {
       Object.defineProperty(video, 'readyState', {
         value: 2,
         writable: true,
@@ -193,39 +691,31 @@ describe('frameProcessor utilities', () => {
       const drawImageSpy = vi.spyOn(tempCtx, 'drawImage')
       const getImageDataSpy = vi.spyOn(tempCtx, 'getImageData')
       const putImageDataSpy = vi.spyOn(mainCtx, 'putImageData')
+      const buffer = createFrameBuffer(mainCtx, 100, 60, 'uint8')
 
       const result = drawAndBlendFrame(
         video,
         tempCtx,
         mainCtx,
-        100,
-        60,
-        DEFAULT_OPTIONS,
-        null
+        buffer,
+        DEFAULT_OPTIONS
       )
 
       expect(drawImageSpy).toHaveBeenCalledWith(video, 0, 0, 100, 60)
       expect(getImageDataSpy).toHaveBeenCalledWith(0, 0, 100, 60)
-      expect(putImageDataSpy).toHaveBeenCalled()
-      expect(result).toBeTruthy()
-      expect(result?.width).toBe(100)
-      expect(result?.height).toBe(60)
+      expect(putImageDataSpy).toHaveBeenCalledWith(buffer.output, 0, 0)
+      expect(result).toBe(true)
+      expect(buffer.hasFrame).toBe(true)
     })
 
-    it('blends frames when lastImage exists', () => {
+    it('blends frames when the buffer holds a frame', () => {
       Object.defineProperty(video, 'readyState', {
         value: 2,
         writable: true,
         configurable: true
       })
 
-      // Create a mock previous frame
-      const lastImage = {
-        data: new Uint8ClampedArray(100 * 60 * 4).fill(100),
-        width: 100,
-        height: 60
-      } as ImageData
-
+      const buffer = filledBuffer(100)
       const drawImageSpy = vi.spyOn(tempCtx, 'drawImage')
       const putImageDataSpy = vi.spyOn(mainCtx, 'putImageData')
 
@@ -233,16 +723,16 @@ describe('frameProcessor utilities', () => {
         video,
         tempCtx,
         mainCtx,
-        100,
-        60,
-        DEFAULT_OPTIONS,
-        lastImage
+        buffer,
+        DEFAULT_OPTIONS
       )
 
       expect(drawImageSpy).toHaveBeenCalled()
       expect(putImageDataSpy).toHaveBeenCalled()
-      expect(result).toBeTruthy()
-      expect(result).toBe(lastImage) // Should be modified in place
+      expect(result).toBe(true)
+      // Blended toward the black mock frame in place
+      expect(buffer.output.data[0]).toBeLessThan(100)
+      expect(buffer.output.data[0]).toBeGreaterThan(0)
     })
 
     it('handles drawing errors gracefully', () => {
@@ -262,32 +752,130 @@ describe('frameProcessor utilities', () => {
           throw new Error('CORS error')
         })
 
-      const lastImage = {
-        data: new Uint8ClampedArray(4),
-        width: 1,
-        height: 1
-      } as ImageData
+      const buffer = filledBuffer(100)
       const result = drawAndBlendFrame(
         video,
         tempCtx,
         mainCtx,
-        100,
-        60,
-        DEFAULT_OPTIONS,
-        lastImage
+        buffer,
+        DEFAULT_OPTIONS
       )
 
       expect(consoleWarnSpy).toHaveBeenCalledWith(
         'AmbientGlow: Failed to draw frame:',
         expect.any(Error)
       )
-      expect(result).toBe(lastImage)
+      expect(result).toBe(false)
+      expect(buffer.output.data[0]).toBe(100) // Last frame kept
 
       // Clean up spies
       consoleWarnSpy.mockRestore()
       drawImageSpy.mockRestore()
     })
 
+    it('hands drawing errors to onError instead of warning', () => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        writable: true,
+        configurable: true
+      })
+      const consoleWarnSpy = vi.spyOn(console, 'warn')
+      vi.spyOn(tempCtx, 'drawImage').mockImplementationOnce(() => {
+        throw new Error('CORS error')
+      })
+      const onError = vi.fn()
+
+      const result = drawAndBlendFrame(
+        video,
+        tempCtx,
+        mainCtx,
+        filledBuffer(100),
+        DEFAULT_OPTIONS,
+        100,
+        undefined,
+        null,
+        null,
+        onError
+      )
+
+      expect(result).toBe(false)
+      expect(onError).toHaveBeenCalledWith(expect.any(Error))
+      expect(consoleWarnSpy).not.toHaveBeenCalled()
+      vi.restoreAllMocks()
+    })
+
+    it('blends with weights from the elapsed time', () => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        writable: true,
+        configurable: true
+      })
+      const buffer = filledBuffer(200)
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        smoothingMs: 100
+      }
+
+      // Mock getImageData returns black, so the result is 200 * blendOld
+      drawAndBlendFrame(video, tempCtx, mainCtx, buffer, options, 100)
+      expect(buffer.output.data[0]).toBe(Math.round(200 * Math.exp(-1)))
+    })
+
+    it('snaps to the new frame on a hard cut', () => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        writable: true,
+        configurable: true
+      })
+      const buffer = filledBuffer(200)
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        sceneCutThreshold: 0.25
+      }
+      const onSceneChange = vi.fn()
+
+      // Mock getImageData returns black - a big jump from 200
+      drawAndBlendFrame(
+        video,
+        tempCtx,
+        mainCtx,
+        buffer,
+        options,
+        100,
+        onSceneChange
+      )
+
+      expect(buffer.output.data[0]).toBe(0)
+      expect(onSceneChange).toHaveBeenCalledWith(200 / 255)
+    })
+
+    it('blends normally below the scene cut threshold', () => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        writable: true,
+        configurable: true
+      })
+      const buffer = filledBuffer(20)
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        sceneCutThreshold: 0.25
+      }
+      const onSceneChange = vi.fn()
+
+      drawAndBlendFrame(
+        video,
+        tempCtx,
+        mainCtx,
+        buffer,
+        options,
+        100,
+        onSceneChange
+      )
+
+      expect(buffer.output.data[0]).toBeGreaterThan(0)
+      expect(onSceneChange).not.toHaveBeenCalled()
+    })
+
     it('uses custom blend options', () => {
       Object.defineProperty(video, 'readyState', {
         value: 2,
@@ -296,28 +884,431 @@ describe('frameProcessor utilities', () => {
       })
       const customOptions: NormalizedGlowOptions = {
         ...DEFAULT_OPTIONS,
-        blendOld: 0.5,
-        blendNew: 0.5
+        smoothingMs: blendToSmoothingMs(0.5, DEFAULT_OPTIONS.updateInterval)
       }
-
-      const lastImage = {
-        data: new Uint8ClampedArray(100 * 60 * 4).fill(200),
-        width: 100,
-        height: 60
-      } as ImageData
+      const buffer = filledBuffer(200)
 
       const result = drawAndBlendFrame(
         video,
         tempCtx,
         mainCtx,
-        100,
-        60,
-        customOptions,
-        lastImage
+        buffer,
+        customOptions
+      )
+
+      expect(result).toBe(true)
+      expect(buffer.output.data[0]).toBe(100)
+    })
+
+    it('blends through a higher-precision accumulator', () => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        writable: true,
+        configurable: true
+      })
+      const buffer = createFrameBuffer(mainCtx, 100, 60, 'float32')
+      buffer.accumulator.fill(200)
+      buffer.hasFrame = true
+
+      drawAndBlendFrame(video, tempCtx, mainCtx, buffer, DEFAULT_OPTIONS, 98)
+
+      expect(buffer.accumulator[0]).toBeCloseTo(200 * 0.85, 3)
+      expect(buffer.output.data[0]).toBe(170)
+    })
+
+    it('allocates nothing beyond the per-frame read in steady state', () => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        writable: true,
+        configurable: true
+      })
+      const createImageData = vi.mocked(mainCtx.createImageData)
+      const putImageDataSpy = vi.spyOn(mainCtx, 'putImageData')
+      const ImageDataSpy = vi.fn()
+      vi.stubGlobal('ImageData', ImageDataSpy)
+      createImageData.mockClear()
+      putImageDataSpy.mockClear()
+
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        blurMode: 'canvas'
+      }
+      const baked = getBakedFilters(options, 2)
+      const buffer = createFrameBuffer(mainCtx, 100, 60, 'uint16')
+      for (let i = 0; i < 5; i++) {
+        drawAndBlendFrame(
+          video,
+          tempCtx,
+          mainCtx,
+          buffer,
+          options,
+          98,
+          undefined,
+          baked
+        )
+      }
+      const scratch = buffer.blurScratch
+      const getImageData = vi.mocked(tempCtx.getImageData)
+      getImageData.mockClear()
+      drawAndBlendFrame(
+        video,
+        tempCtx,
+        mainCtx,
+        buffer,
+        options,
+        98,
+        undefined,
+        baked
+      )
+
+      expect(createImageData).toHaveBeenCalledTimes(1)
+      expect(ImageDataSpy).not.toHaveBeenCalled()
+      // Reading the frame back is the one allocation left
+      expect(getImageData).toHaveBeenCalledTimes(1)
+      expect(buffer.blurScratch).toBe(scratch)
+      // The same output goes to the canvas every time
+      const outputs = new Set(
+        putImageDataSpy.mock.calls.map(([image]) => image)
+      )
+      expect(outputs).toEqual(new Set([buffer.output]))
+      vi.unstubAllGlobals()
+    })
+
+    it('reads a padded frame twice on the JS blur path', () => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        writable: true,
+        configurable: true
+      })
+      Object.defineProperty(tempCtx, 'filter', {
+        configurable: true,
+        writable: true,
+        value: undefined
+      })
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        blurMode: 'canvas'
+      }
+      const baked = getBakedFilters(options, 2)
+      const buffer = createFrameBuffer(mainCtx, 106, 66, 'uint16', 3)
+      const getImageData = vi.mocked(tempCtx.getImageData)
+      getImageData.mockClear()
+
+      for (let i = 0; i < 3; i++) {
+        drawAndBlendFrame(
+          video,
+          tempCtx,
+          mainCtx,
+          buffer,
+          options,
+          98,
+          undefined,
+          baked
+        )
+      }
+
+      // The frame, then the padded buffer it was put back into
+      expect(getImageData).toHaveBeenCalledTimes(6)
+      expect(getImageData).toHaveBeenLastCalledWith(0, 0, 106, 66)
+    })
+
+    describe('sample region and exclusions', () => {
+      beforeEach(() => {
+        Object.defineProperty(video, 'readyState', {
+          value: 2,
+          configurable: true
+        })
+        Object.defineProperty(video, 'videoWidth', { value: 1920 })
+        Object.defineProperty(video, 'videoHeight', { value: 1080 })
+      })
+
+      it('samples only the region', () => {
+        const buffer = createFrameBuffer(mainCtx, 100, 60, 'uint8')
+        drawAndBlendFrame(video, tempCtx, mainCtx, buffer, {
+          ...DEFAULT_OPTIONS,
+          sampleRegion: { x: 0, y: 0, width: 1, height: 0.8 }
+        })
+        expect(tempCtx.drawImage).toHaveBeenLastCalledWith(
+          video,
+          0,
+          0,
+          1920,
+          864,
+          0,
+          0,
+          100,
+          60
+        )
+      })
+
+      it('fills excluded regions before blending', () => {
+        // Bright logo in the top-right corner of a dark frame
+        vi.mocked(tempCtx.getImageData).mockImplementationOnce(
+          (_x, _y, w, h) => {
+            const data = new Uint8ClampedArray(w * h * 4).fill(20)
+            for (let y = 0; y < 6; y++) {
+              data.fill(255, (y * w + 90) * 4, (y * w + w) * 4)
+            }
+            return { data, width: w, height: h } as ImageData
+          }
+        )
+        const buffer = createFrameBuffer(mainCtx, 100, 60, 'uint8')
+        drawAndBlendFrame(video, tempCtx, mainCtx, buffer, {
+          ...DEFAULT_OPTIONS,
+          excludeRegions: [{ x: 0.9, y: 0, width: 0.1, height: 0.1 }]
+        })
+        expect(buffer.output.data[(2 * 100 + 95) * 4]).toBe(20)
+      })
+
+      it('calls an exclusion function on every draw', () => {
+        const getRegions = vi.fn(() => [])
+        const buffer = createFrameBuffer(mainCtx, 100, 60, 'uint8')
+        const options = { ...DEFAULT_OPTIONS, excludeRegions: getRegions }
+        drawAndBlendFrame(video, tempCtx, mainCtx, buffer, options)
+        drawAndBlendFrame(video, tempCtx, mainCtx, buffer, options)
+        expect(getRegions).toHaveBeenCalledTimes(2)
+        expect(getRegions).toHaveBeenCalledWith(video)
+      })
+
+      it('repaints frames from the edges with sampling: edges', () => {
+        const buffer = createFrameBuffer(mainCtx, 100, 60, 'uint8')
+        drawAndBlendFrame(video, tempCtx, mainCtx, buffer, {
+          ...DEFAULT_OPTIONS,
+          sampling: 'edges'
+        })
+        expect(buffer.edgeScratch).toHaveLength(getEdgeScratchLength(100, 60))
+
+        const scratch = buffer.edgeScratch
+        drawAndBlendFrame(video, tempCtx, mainCtx, buffer, {
+          ...DEFAULT_OPTIONS,
+          sampling: 'edges'
+        })
+        expect(buffer.edgeScratch).toBe(scratch)
+      })
+
+      it('skips ctx.filter so exclusions are filled before the blur', () => {
+        const setFilter = vi.fn()
+        Object.defineProperty(tempCtx, 'filter', {
+          configurable: true,
+          get: () => 'none',
+          set: setFilter
+        })
+        const options: NormalizedGlowOptions = {
+          ...DEFAULT_OPTIONS,
+          blurMode: 'canvas',
+          excludeRegions: [{ x: 0, y: 0.9, width: 1, height: 0.1 }]
+        }
+        const buffer = createFrameBuffer(mainCtx, 100, 60, 'uint8')
+        drawAndBlendFrame(
+          video,
+          tempCtx,
+          mainCtx,
+          buffer,
+          options,
+          98,
+          undefined,
+          getBakedFilters(options, 2)
+        )
+        expect(setFilter).not.toHaveBeenCalled()
+      })
+    })
+  })
+
+  describe('createFrameBuffer', () => {
+    it('blends uint8 straight into the output pixels', () => {
+      const buffer = createFrameBuffer(mainCtx, 4, 2, 'uint8')
+      expect(buffer.accumulator).toBe(buffer.output.data)
+      expect(buffer.hasFrame).toBe(false)
+    })
+
+    it('allocates separate accumulators for higher precision', () => {
+      const uint16 = createFrameBuffer(mainCtx, 4, 2, 'uint16')
+      const float32 = createFrameBuffer(mainCtx, 4, 2, 'float32')
+      expect(uint16.accumulator).toBeInstanceOf(Uint16Array)
+      expect(float32.accumulator).toBeInstanceOf(Float32Array)
+      expect(float32.accumulator).toHaveLength(4 * 2 * 4)
+    })
+  })
+
+  describe('accumulateFrame', () => {
+    it('loads a frame with blendOld 0 and blendNew 1', () => {
+      const accumulator = new Uint16Array(4)
+      accumulateFrame(
+        accumulator,
+        new Uint8ClampedArray([10, 20, 30, 255]),
+        0,
+        1
       )
+      expect(Array.from(accumulator)).toEqual([2560, 5120, 7680, 65280])
+    })
+
+    it('settles on the target color with higher precision', () => {
+      // Heavy smoothing from black toward 3: 8-bit rounding stalls short
+      const target = new Uint8ClampedArray([3, 3, 3, 255])
+      const uint8 = new Uint8ClampedArray(4)
+      const uint16 = new Uint16Array(4)
+      for (let i = 0; i < 200; i++) {
+        accumulateFrame(uint8, target, 0.9, 0.1)
+        accumulateFrame(uint16, target, 0.9, 0.1)
+      }
+      const output = new Uint8ClampedArray(4)
+      writeAccumulator(uint16, output)
+
+      expect(uint8[0]).toBeLessThan(3)
+      expect(output[0]).toBe(3)
+    })
+
+    it('does not drift darker on a steady frame', () => {
+      const frame = new Uint8ClampedArray([77, 140, 201, 255])
+      const uint16 = new Uint16Array(4)
+      accumulateFrame(uint16, frame, 0, 1)
+      for (let i = 0; i < 500; i++) accumulateFrame(uint16, frame, 0.85, 0.15)
+
+      const output = new Uint8ClampedArray(4)
+      writeAccumulator(uint16, output)
+      expect(Array.from(output)).toEqual([77, 140, 201, 255])
+    })
+  })
+
+  describe('writeAccumulator', () => {
+    it('scales fixed point and floats back to 8 bits', () => {
+      const output = new Uint8ClampedArray(2)
+      writeAccumulator(new Uint16Array([2560, 65280]), output)
+      expect(Array.from(output)).toEqual([10, 255])
+      writeAccumulator(new Float32Array([12.6, 300]), output)
+      expect(Array.from(output)).toEqual([13, 255])
+    })
+  })
+
+  describe('measureFrameBorders', () => {
+    /** Gray frame with black bars of the given size in px. */
+    const barFrame = (
+      width: number,
+      height: number,
+      bars: { top?: number; bottom?: number; left?: number; right?: number }
+    ) => {
+      const { top = 0, bottom = 0, left = 0, right = 0 } = bars
+      const data = new Uint8ClampedArray(width * height * 4)
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const isBar =
+            y < top || y >= height - bottom || x < left || x >= width - right
+          data.fill(
+            isBar ? 4 : 120,
+            (y * width + x) * 4,
+            (y * width + x) * 4 + 3
+          )
+        }
+      }
+      return { data, width, height, colorSpace: 'srgb' } as ImageData
+    }
+
+    it('measures letterbox bars', () => {
+      const borders = measureFrameBorders(
+        barFrame(64, 40, { top: 5, bottom: 5 }),
+        0.1
+      )
+      expect(borders).toEqual({ top: 0.125, bottom: 0.125, left: 0, right: 0 })
+    })
+
+    it('measures pillarbox bars', () => {
+      const borders = measureFrameBorders(
+        barFrame(64, 36, { left: 8, right: 8 }),
+        0.1
+      )
+      expect(borders).toEqual({ top: 0, bottom: 0, left: 0.125, right: 0.125 })
+    })
+
+    it('returns null for an all-black frame', () => {
+      expect(measureFrameBorders(barFrame(8, 8, { top: 8 }), 0.1)).toBeNull()
+    })
+
+    it('returns null for a dark frame whose every column is flat', () => {
+      // Luma rises from 2 to 20 left to right - rows vary, columns don't
+      const width = 64
+      const height = 36
+      const data = new Uint8ClampedArray(width * height * 4)
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const value = Math.round(2 + (18 * x) / (width - 1))
+          data.fill(value, (y * width + x) * 4, (y * width + x) * 4 + 3)
+        }
+      }
+      const frame = { data, width, height, colorSpace: 'srgb' } as ImageData
+      expect(measureFrameBorders(frame, 0.1)).toBeNull()
+    })
+
+    it('returns null when bars are too big to be bars', () => {
+      expect(
+        measureFrameBorders(barFrame(10, 10, { top: 4, bottom: 1 }), 0.1)
+      ).toBeNull()
+    })
+
+    it('stops at rows that are not uniform', () => {
+      const frame = barFrame(8, 10, { top: 2 })
+      // Bright pixel in an otherwise black row - a dark scene, not a bar
+      frame.data.fill(0, 0, 8 * 4)
+      frame.data.fill(30, 4, 7)
+      expect(measureFrameBorders(frame, 0.1)?.top).toBe(0)
+    })
+
+    it('follows the threshold', () => {
+      const frame = barFrame(8, 10, { top: 2 })
+      expect(measureFrameBorders(frame, 0.01)?.top).toBe(0)
+    })
+  })
+
+  describe('createBorderDetector', () => {
+    const bars = (top: number) => ({ top, bottom: top, left: 0, right: 0 })
+
+    it('confirms bars once the whole window agrees', () => {
+      const detector = createBorderDetector(3)
+      expect(detector.update(bars(0.12))).toBe(false)
+      expect(detector.update(bars(0.12))).toBe(false)
+      expect(detector.update(bars(0.12))).toBe(true)
+      expect(detector.crop).toEqual(bars(0.12))
+    })
+
+    it('uses the smallest bar in the window', () => {
+      const detector = createBorderDetector(3)
+      detector.update(bars(0.12))
+      detector.update(bars(0.2))
+      detector.update(bars(0.3))
+      expect(detector.crop.top).toBe(0.12)
+    })
+
+    it('shrinks right away when picture shows in the bars', () => {
+      const detector = createBorderDetector(2)
+      detector.update(bars(0.12))
+      detector.update(bars(0.12))
+
+      expect(detector.update(bars(0.05))).toBe(true)
+      expect(detector.crop.top).toBe(0.05)
+    })
+
+    it('does not grow on a dark scene until it lasts the window', () => {
+      const detector = createBorderDetector(3)
+      for (let i = 0; i < 3; i++) detector.update(bars(0.12))
+
+      expect(detector.update(bars(0.3))).toBe(false)
+      expect(detector.update(bars(0.3))).toBe(false)
+      expect(detector.crop.top).toBe(0.12)
+    })
+
+    it('ignores tiny changes and null measurements', () => {
+      const detector = createBorderDetector(1)
+      detector.update(bars(0.12))
+
+      expect(detector.update(bars(0.125))).toBe(false)
+      expect(detector.update(null)).toBe(false)
+      expect(detector.crop.top).toBe(0.12)
+    })
 
-      expect(result).toBeTruthy()
-      // The values should be blended (can't test exact values without mock video data)
+    it('resets to no crop', () => {
+      const detector = createBorderDetector(1)
+      detector.update(bars(0.12))
+      detector.reset()
+      expect(detector.crop).toEqual(bars(0))
     })
   })
 })
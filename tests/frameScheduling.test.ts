@@ -0,0 +1,73 @@
+/**
+ * Unit tests for frame scheduling utilities.
+ *
+ * @module lib/frameScheduling
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  supportsVideoFrameCallback,
+  isNewVideoFrame
+} from '../src/lib/frameScheduling'
+
+const createMetadata = (
+  presentedFrames: number,
+  mediaTime: number
+): VideoFrameCallbackMetadata => ({
+  presentedFrames,
+  mediaTime,
+  expectedDisplayTime: 0,
+  presentationTime: 0,
+  width: 640,
+  height: 360
+})
+
+describe('frameScheduling utilities', () => {
+  describe('supportsVideoFrameCallback', () => {
+    it('returns false when the API is missing', () => {
+      const video = document.createElement('video')
+      Object.defineProperty(video, 'requestVideoFrameCallback', {
+        value: undefined,
+        configurable: true
+      })
+      expect(supportsVideoFrameCallback(video)).toBe(false)
+    })
+
+    it('returns true when request and cancel are available', () => {
+      const video = document.createElement('video')
+      Object.defineProperty(video, 'requestVideoFrameCallback', {
+        value: vi.fn(),
+        configurable: true
+      })
+      Object.defineProperty(video, 'cancelVideoFrameCallback', {
+        value: vi.fn(),
+        configurable: true
+      })
+      expect(supportsVideoFrameCallback(video)).toBe(true)
+    })
+  })
+
+  describe('isNewVideoFrame', () => {
+    it('treats the first frame as new', () => {
+      expect(isNewVideoFrame(createMetadata(1, 0.04), null)).toBe(true)
+    })
+
+    it('detects a new decoded frame', () => {
+      expect(
+        isNewVideoFrame(createMetadata(2, 0.08), createMetadata(1, 0.04))
+      ).toBe(true)
+    })
+
+    it('skips a frame that was already presented', () => {
+      expect(
+        isNewVideoFrame(createMetadata(1, 0.04), createMetadata(1, 0.04))
+      ).toBe(false)
+    })
+
+    it('detects a new frame at a media time already sampled', () => {
+      expect(
+        isNewVideoFrame(createMetadata(2, 0.04), createMetadata(1, 0.04))
+      ).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the adaptive quality governor.
+ *
+ * @module lib/governor
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createQualityGovernor, getEffectiveQuality } from '../src/lib/governor'
+import { ADAPTIVE_QUALITY, DEFAULT_OPTIONS } from '../src/constants'
+
+const BUDGET = 2
+
+/** Records `count` draws at the given cost, returning how many changed the level. */
+const draws = (
+  governor: ReturnType<typeof createQualityGovernor>,
+  count: number,
+  costMs: number
+) => {
+  let changes = 0
+  for (let i = 0; i < count; i++) {
+    if (governor.recordDraw(costMs, BUDGET)) changes++
+  }
+  return changes
+}
+
+describe('governor utilities', () => {
+  describe('getEffectiveQuality', () => {
+    it('returns the configured values at level 0', () => {
+      expect(getEffectiveQuality(DEFAULT_OPTIONS, 0)).toEqual({
+        downscale: DEFAULT_OPTIONS.downscale,
+        updateInterval: DEFAULT_OPTIONS.updateInterval
+      })
+    })
+
+    it('lowers downscale and raises the interval per level', () => {
+      const quality = getEffectiveQuality(DEFAULT_OPTIONS, 2)
+      expect(quality.downscale).toBeCloseTo(
+        DEFAULT_OPTIONS.downscale * ADAPTIVE_QUALITY.DOWNSCALE_STEP ** 2
+      )
+      expect(quality.updateInterval).toBeCloseTo(
+        DEFAULT_OPTIONS.updateInterval * ADAPTIVE_QUALITY.INTERVAL_STEP ** 2
+      )
+    })
+
+    it('stays within the floor and ceiling', () => {
+      const quality = getEffectiveQuality(
+        { downscale: 0.03, updateInterval: 400 },
+        4
+      )
+      expect(quality.downscale).toBe(ADAPTIVE_QUALITY.MIN_DOWNSCALE)
+      expect(quality.updateInterval).toBe(ADAPTIVE_QUALITY.MAX_UPDATE_INTERVAL)
+    })
+
+    it('never raises quality above what was configured', () => {
+      const quality = getEffectiveQuality(
+        { downscale: 0.01, updateInterval: 800 },
+        3
+      )
+      expect(quality.downscale).toBe(0.01)
+      expect(quality.updateInterval).toBe(800)
+    })
+  })
+
+  describe('createQualityGovernor', () => {
+    it('starts at the configured quality', () => {
+      const governor = createQualityGovernor()
+      expect(governor.level).toBe(0)
+      expect(governor.drawCostMs).toBe(0)
+    })
+
+    it('steps down after a run of over-budget draws', () => {
+      const governor = createQualityGovernor()
+      expect(draws(governor, ADAPTIVE_QUALITY.DOWNGRADE_AFTER - 1, 5)).toBe(0)
+      expect(governor.recordDraw(5, BUDGET)).toBe(true)
+      expect(governor.level).toBe(1)
+    })
+
+    it('ignores a single slow draw', () => {
+      const governor = createQualityGovernor()
+      draws(governor, 10, 0.5)
+      draws(governor, 1, 4)
+      draws(governor, 10, 0.5)
+      expect(governor.level).toBe(0)
+    })
+
+    it('steps back up only after a long run with headroom', () => {
+      const governor = createQualityGovernor()
+      draws(governor, ADAPTIVE_QUALITY.DOWNGRADE_AFTER, 5)
+      expect(governor.level).toBe(1)
+
+      // Counters start over after a step, so one short run is not enough
+      draws(governor, ADAPTIVE_QUALITY.DOWNGRADE_AFTER, 0.1)
+      expect(governor.level).toBe(1)
+      draws(governor, ADAPTIVE_QUALITY.UPGRADE_AFTER, 0.1)
+      expect(governor.level).toBe(0)
+    })
+
+    it('holds steady between headroom and budget (hysteresis)', () => {
+      const governor = createQualityGovernor()
+      draws(governor, ADAPTIVE_QUALITY.DOWNGRADE_AFTER, 5)
+      draws(governor, 200, BUDGET * 0.75)
+      expect(governor.level).toBe(1)
+    })
+
+    it('does not go past the last level', () => {
+      const governor = createQualityGovernor()
+      draws(governor, ADAPTIVE_QUALITY.DOWNGRADE_AFTER * 10, 10)
+      expect(governor.level).toBe(ADAPTIVE_QUALITY.MAX_LEVEL)
+    })
+
+    it('steps down when frames keep getting dropped', () => {
+      const governor = createQualityGovernor()
+      for (let i = 0; i < ADAPTIVE_QUALITY.DOWNGRADE_AFTER; i++) {
+        governor.recordFrameGap(16.7)
+        governor.recordFrameGap(50) // Two frames dropped
+        governor.recordDraw(0.1, BUDGET)
+      }
+      expect(governor.level).toBe(1)
+    })
+
+    it('steps down when the video keeps presenting frames we miss', () => {
+      const governor = createQualityGovernor()
+      for (let i = 0; i < ADAPTIVE_QUALITY.DOWNGRADE_AFTER; i++) {
+        governor.recordDroppedFrames(0)
+        governor.recordDroppedFrames(3)
+        governor.recordDraw(0.1, BUDGET)
+      }
+      expect(governor.level).toBe(1)
+    })
+
+    it('counts steady frame gaps as fine', () => {
+      const governor = createQualityGovernor()
+      for (let i = 0; i < 20; i++) {
+        governor.recordFrameGap(16.7)
+        governor.recordFrameGap(16.9)
+        governor.recordDraw(1.5, BUDGET)
+      }
+      expect(governor.level).toBe(0)
+    })
+
+    it('resets to the configured quality', () => {
+      const governor = createQualityGovernor()
+      draws(governor, ADAPTIVE_QUALITY.DOWNGRADE_AFTER, 5)
+      governor.reset()
+      expect(governor.level).toBe(0)
+      expect(governor.drawCostMs).toBe(0)
+    })
+  })
+})
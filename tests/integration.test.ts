@@ -224,7 +224,8 @@ describe('AmbientGlow Integration', () => {
       glow.destroy()
       glow.updateOptions({ blur: 100 })
       expect(consoleWarnSpy).toHaveBeenCalledWith(
-        'AmbientGlow: Cannot update options on destroyed instance'
+        'AmbientGlow: Cannot update options on destroyed instance',
+        expect.objectContaining({ state: 'destroyed' })
       )
 
       consoleWarnSpy.mockRestore()
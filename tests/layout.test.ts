@@ -0,0 +1,102 @@
+/**
+ * Unit tests for glow layout helpers.
+ *
+ * @module lib/layout
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  getFullscreenContainer,
+  getFillLayout,
+  applyGlowLayout
+} from '../src/lib/layout'
+import { CANVAS_STYLE, CANVAS_TRANSFORM } from '../src/constants'
+
+const setFullscreenElement = (value: Element | null) => {
+  Object.defineProperty(document, 'fullscreenElement', {
+    value,
+    configurable: true
+  })
+}
+
+describe('layout utilities', () => {
+  afterEach(() => {
+    setFullscreenElement(null)
+    document.body.innerHTML = ''
+  })
+
+  describe('getFullscreenContainer', () => {
+    it('returns null outside fullscreen', () => {
+      const glow = document.createElement('div')
+      document.body.appendChild(glow)
+      expect(getFullscreenContainer(glow)).toBeNull()
+    })
+
+    it('returns the fullscreen element when it holds the glow', () => {
+      const wrapper = document.createElement('div')
+      const glow = document.createElement('div')
+      wrapper.appendChild(glow)
+      document.body.appendChild(wrapper)
+
+      setFullscreenElement(wrapper)
+      expect(getFullscreenContainer(glow)).toBe(wrapper)
+    })
+
+    it('returns null when the video itself is fullscreen', () => {
+      const glow = document.createElement('div')
+      const video = document.createElement('video')
+      document.body.append(glow, video)
+
+      setFullscreenElement(video)
+      expect(getFullscreenContainer(glow)).toBeNull()
+    })
+  })
+
+  describe('getFillLayout', () => {
+    it('returns the container box relative to the parent', () => {
+      const container = document.createElement('div')
+      const parent = document.createElement('div')
+      vi.spyOn(container, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(0, 0, 1920, 1080)
+      )
+      vi.spyOn(parent, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(240, 100, 1440, 880)
+      )
+
+      expect(getFillLayout(container, parent)).toEqual({
+        left: -240,
+        top: -100,
+        width: 1920,
+        height: 1080
+      })
+    })
+  })
+
+  describe('applyGlowLayout', () => {
+    it('pins the glow to the layout box', () => {
+      const element = document.createElement('div')
+      applyGlowLayout(element, {
+        left: -240,
+        top: 0,
+        width: 1920,
+        height: 1080
+      })
+
+      expect(element.style.left).toBe('-240px')
+      expect(element.style.top).toBe('0px')
+      expect(element.style.transform).toBe('none')
+      expect(element.style.borderRadius).toBe('0px')
+    })
+
+    it('restores the centered layout', () => {
+      const element = document.createElement('div')
+      applyGlowLayout(element, { left: 10, top: 10, width: 100, height: 100 })
+      applyGlowLayout(element, null)
+
+      expect(element.style.left).toBe('50%')
+      expect(element.style.top).toBe('50%')
+      expect(element.style.transform).toBe(CANVAS_TRANSFORM)
+      expect(element.style.borderRadius).toBe(CANVAS_STYLE.BORDER_RADIUS)
+    })
+  })
+})
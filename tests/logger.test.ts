@@ -0,0 +1,123 @@
+/**
+ * Unit tests for glow diagnostics.
+ *
+ * @module lib/logger
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  createGlowLog,
+  configureDefaultLogging,
+  isLogLevelEnabled,
+  type GlowLogSource
+} from '../src/lib/logger'
+import type { GlowLogger, GlowLogLevel } from '../src/types'
+
+const createMockLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn()
+})
+
+const createSource = (
+  logger: GlowLogger | null,
+  level: GlowLogLevel | null = null
+): GlowLogSource => ({
+  getLogger: () => logger,
+  getLevel: () => level,
+  getContext: () => ({ instanceId: 3, src: 'movie.mp4', state: 'running' })
+})
+
+describe('logger utilities', () => {
+  afterEach(() => {
+    configureDefaultLogging({ logger: null, level: 'warn' })
+    vi.restoreAllMocks()
+  })
+
+  describe('isLogLevelEnabled', () => {
+    it('lets through the level and everything more severe', () => {
+      expect(isLogLevelEnabled('warn', 'warn')).toBe(true)
+      expect(isLogLevelEnabled('error', 'warn')).toBe(true)
+      expect(isLogLevelEnabled('info', 'warn')).toBe(false)
+      expect(isLogLevelEnabled('debug', 'debug')).toBe(true)
+    })
+
+    it('lets nothing through when silent', () => {
+      expect(isLogLevelEnabled('error', 'silent')).toBe(false)
+    })
+  })
+
+  describe('createGlowLog', () => {
+    it('passes the instance context and detail', () => {
+      const logger = createMockLogger()
+      const log = createGlowLog(createSource(logger))
+      const error = new Error('boom')
+
+      log.warn('AmbientGlow: Failed', error)
+
+      expect(logger.warn).toHaveBeenCalledWith('AmbientGlow: Failed', {
+        instanceId: 3,
+        src: 'movie.mp4',
+        state: 'running',
+        detail: error
+      })
+    })
+
+    it('filters by the instance level, else the default level', () => {
+      const logger = createMockLogger()
+      createGlowLog(createSource(logger)).info('AmbientGlow: Hidden')
+      expect(logger.info).not.toHaveBeenCalled()
+
+      createGlowLog(createSource(logger, 'debug')).info('AmbientGlow: Shown')
+      expect(logger.info).toHaveBeenCalledTimes(1)
+
+      configureDefaultLogging({ level: 'silent' })
+      createGlowLog(createSource(logger)).error('AmbientGlow: Hidden')
+      expect(logger.error).not.toHaveBeenCalled()
+    })
+
+    it('logs repeated warnings and errors once until reset', () => {
+      const logger = createMockLogger()
+      const log = createGlowLog(createSource(logger, 'debug'))
+
+      log.warn('AmbientGlow: Same')
+      log.warn('AmbientGlow: Same')
+      log.warn('AmbientGlow: Other')
+      log.error('AmbientGlow: Same')
+      log.error('AmbientGlow: Same')
+      log.debug('AmbientGlow: Tick')
+      log.debug('AmbientGlow: Tick')
+      expect(logger.warn).toHaveBeenCalledTimes(2)
+      expect(logger.error).toHaveBeenCalledTimes(1)
+      expect(logger.debug).toHaveBeenCalledTimes(2)
+
+      log.reset()
+      log.warn('AmbientGlow: Same')
+      expect(logger.warn).toHaveBeenCalledTimes(3)
+    })
+
+    it('uses the default logger, console unless configured', () => {
+      const consoleWarnSpy = vi
+        .spyOn(console, 'warn')
+        .mockImplementation(() => {})
+      createGlowLog(createSource(null)).warn('AmbientGlow: To console')
+      expect(consoleWarnSpy).toHaveBeenCalledTimes(1)
+
+      const logger = createMockLogger()
+      configureDefaultLogging({ logger })
+      createGlowLog(createSource(null)).warn('AmbientGlow: To default')
+      expect(logger.warn).toHaveBeenCalledTimes(1)
+      expect(consoleWarnSpy).toHaveBeenCalledTimes(1)
+    })
+
+    it('ignores a logger that throws', () => {
+      const logger = createMockLogger()
+      logger.warn.mockImplementation(() => {
+        throw new Error('down')
+      })
+      const log = createGlowLog(createSource(logger))
+      expect(() => log.warn('AmbientGlow: Lost')).not.toThrow()
+    })
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for object-fit geometry.
+ *
+ * @module lib/objectFit
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getContentGeometry,
+  parseObjectPosition,
+  isFullFrame
+} from '../src/lib/objectFit'
+
+// 16:9 frame in a 4:3 box
+const VIDEO = [1920, 1080] as const
+const BOX = [800, 600] as const
+
+const geometry = (fit: string, position = '50% 50%') =>
+  getContentGeometry(...VIDEO, ...BOX, fit, position)
+
+describe('objectFit utilities', () => {
+  describe('getContentGeometry', () => {
+    it('letterboxes with contain and keeps the whole frame', () => {
+      const { source, display } = geometry('contain')
+      expect(display).toEqual({ x: 0, y: 75, width: 800, height: 450 })
+      expect(source).toEqual({ x: 0, y: 0, width: 1920, height: 1080 })
+    })
+
+    it('crops the sides with cover', () => {
+      const { source, display } = geometry('cover')
+      expect(display).toEqual({ x: 0, y: 0, width: 800, height: 600 })
+      expect(source.x).toBeCloseTo(240)
+      expect(source.y).toBe(0)
+      expect(source.width).toBeCloseTo(1440)
+      expect(source.height).toBe(1080)
+    })
+
+    it('stretches the whole frame over the box with fill', () => {
+      const { source, display } = geometry('fill')
+      expect(display).toEqual({ x: 0, y: 0, width: 800, height: 600 })
+      expect(source).toEqual({ x: 0, y: 0, width: 1920, height: 1080 })
+    })
+
+    it('shows the center at natural size with none', () => {
+      const { source, display } = geometry('none')
+      expect(display).toEqual({ x: 0, y: 0, width: 800, height: 600 })
+      expect(source).toEqual({ x: 560, y: 240, width: 800, height: 600 })
+    })
+
+    it('acts like contain for large frames with scale-down', () => {
+      expect(geometry('scale-down')).toEqual(geometry('contain'))
+      const small = getContentGeometry(320, 180, 800, 600, 'scale-down', '')
+      expect(small.display).toEqual({ x: 240, y: 210, width: 320, height: 180 })
+    })
+
+    it('treats unknown values as contain', () => {
+      expect(geometry('')).toEqual(geometry('contain'))
+    })
+
+    it('moves the picture with object-position', () => {
+      expect(geometry('contain', '0% 0%').display.y).toBe(0)
+      expect(geometry('contain', '50% 100%').display.y).toBe(150)
+      expect(geometry('contain', 'left bottom').display.y).toBe(150)
+      expect(geometry('contain', '0px 20px').display.y).toBe(20)
+    })
+
+    it('picks the visible part of a covered frame from object-position', () => {
+      expect(geometry('cover', '0% 50%').source.x).toBe(0)
+      expect(geometry('cover', '100% 50%').source.x).toBeCloseTo(480)
+    })
+
+    it('clips pictures pushed past the box', () => {
+      const { source, display } = geometry('contain', '0px 300px')
+      expect(display).toEqual({ x: 0, y: 300, width: 800, height: 300 })
+      expect(source.height).toBeCloseTo(720)
+    })
+  })
+
+  describe('parseObjectPosition', () => {
+    it('splits two components', () => {
+      expect(parseObjectPosition('10% 20px')).toEqual(['10%', '20px'])
+    })
+
+    it('centers the missing component', () => {
+      expect(parseObjectPosition('left')).toEqual(['left', 'center'])
+      expect(parseObjectPosition('')).toEqual(['center', 'center'])
+    })
+
+    it('swaps vertical-first keyword pairs', () => {
+      expect(parseObjectPosition('top right')).toEqual(['right', 'top'])
+      expect(parseObjectPosition('center left')).toEqual(['left', 'center'])
+    })
+  })
+
+  describe('isFullFrame', () => {
+    it('is true for the whole frame', () => {
+      expect(
+        isFullFrame({ x: 0, y: 0.2, width: 1920, height: 1080 }, 1920, 1080)
+      ).toBe(true)
+    })
+
+    it('is false for a crop', () => {
+      expect(
+        isFullFrame({ x: 240, y: 0, width: 1440, height: 1080 }, 1920, 1080)
+      ).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for palette extraction.
+ *
+ * @module lib/palette
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  extractPalette,
+  getAccentColor,
+  getAverageColor,
+  getAverageLuminance,
+  getPaletteDistance,
+  toGlowColor
+} from '../src/lib/palette'
+
+/** Frame with each color repeated `count` times, in order. */
+const pixels = (...runs: [[number, number, number], number][]) => {
+  const total = runs.reduce((sum, [, count]) => sum + count, 0)
+  const data = new Uint8ClampedArray(total * 4)
+  let offset = 0
+  runs.forEach(([[r, g, b], count]) => {
+    for (let i = 0; i < count; i++, offset += 4) {
+      data.set([r, g, b, 255], offset)
+    }
+  })
+  return { data, width: total, height: 1 }
+}
+
+describe('palette utilities', () => {
+  describe('toGlowColor', () => {
+    it('rounds channels and adds hex and luminance', () => {
+      expect(toGlowColor(254.6, 0.4, 16, 0.5)).toEqual({
+        r: 255,
+        g: 0,
+        b: 16,
+        hex: '#ff0010',
+        luminance: expect.closeTo(0.2132, 3),
+        population: 0.5
+      })
+    })
+  })
+
+  describe('extractPalette', () => {
+    it('splits distinct colors, most common first', () => {
+      const palette = extractPalette(
+        pixels([[200, 20, 20], 25], [[10, 40, 220], 75]),
+        2
+      )
+
+      expect(palette.map(color => color.hex)).toEqual(['#0a28dc', '#c81414'])
+      expect(palette.map(color => color.population)).toEqual([0.75, 0.25])
+    })
+
+    it('returns at most count colors', () => {
+      const frame = pixels(
+        [[255, 0, 0], 10],
+        [[0, 255, 0], 10],
+        [[0, 0, 255], 10],
+        [[255, 255, 255], 10]
+      )
+      expect(extractPalette(frame, 3)).toHaveLength(3)
+      expect(extractPalette(frame, 8)).toHaveLength(4)
+    })
+
+    it('returns one color for a flat frame', () => {
+      const palette = extractPalette(pixels([[30, 60, 90], 16]), 5)
+      expect(palette).toHaveLength(1)
+      expect(palette[0]).toMatchObject({ r: 30, g: 60, b: 90, population: 1 })
+    })
+
+    it('returns nothing for an empty frame', () => {
+      expect(extractPalette(pixels(), 5)).toEqual([])
+    })
+  })
+
+  describe('getPaletteDistance', () => {
+    const red = toGlowColor(255, 0, 0, 1)
+    const blue = toGlowColor(0, 0, 255, 1)
+
+    it('is 0 for the same palette', () => {
+      expect(getPaletteDistance([red, blue], [blue, red])).toBe(0)
+      expect(getPaletteDistance([], [])).toBe(0)
+    })
+
+    it('grows when a color moves', () => {
+      const nearRed = toGlowColor(250, 5, 0, 1)
+      const near = getPaletteDistance([red, blue], [nearRed, blue])
+      expect(near).toBeGreaterThan(0)
+      expect(near).toBeLessThan(5)
+      expect(getPaletteDistance([red], [blue])).toBeGreaterThan(100)
+    })
+
+    it('counts colors that appear or disappear', () => {
+      expect(getPaletteDistance([red], [red, blue])).toBeGreaterThan(100)
+      expect(getPaletteDistance([red], [])).toBe(Infinity)
+    })
+  })
+  describe('getAccentColor', () => {
+    const gray = toGlowColor(120, 120, 120, 0.6)
+    const dull = toGlowColor(90, 80, 70, 0.3)
+    const orange = toGlowColor(240, 120, 0, 0.1)
+
+    it('picks the most colorful color after the dominant one', () => {
+      expect(getAccentColor([gray, dull, orange])).toBe(orange)
+      expect(getAccentColor([orange, gray, dull])).toBe(dull)
+    })
+
+    it('falls back to the dominant color, or null', () => {
+      expect(getAccentColor([gray])).toBe(gray)
+      expect(getAccentColor([])).toBeNull()
+    })
+  })
+
+  describe('getAverageColor', () => {
+    it('weights colors by population', () => {
+      const palette = [
+        toGlowColor(200, 0, 100, 0.75),
+        toGlowColor(0, 200, 100, 0.25)
+      ]
+      expect(getAverageColor(palette)).toEqual([150, 50, 100])
+      expect(getAverageColor([])).toEqual([0, 0, 0])
+    })
+  })
+
+  describe('getAverageLuminance', () => {
+    it('weights luminance by population', () => {
+      const white = toGlowColor(255, 255, 255, 0.25)
+      const black = toGlowColor(0, 0, 0, 0.75)
+      expect(getAverageLuminance([white, black])).toBeCloseTo(0.25)
+      expect(getAverageLuminance([])).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the render state helpers.
+ *
+ * @module lib/renderState
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  createRenderState,
+  isInPictureInPicture,
+  isHiddenByFullscreen
+} from '../src/lib/renderState'
+
+/** Overrides a read-only document property for one test. */
+const setDocumentProperty = (name: string, value: unknown) => {
+  Object.defineProperty(document, name, { value, configurable: true })
+}
+
+describe('renderState utilities', () => {
+  describe('createRenderState', () => {
+    it('starts out rendering', () => {
+      const state = createRenderState()
+      expect(state.shouldRender).toBe(true)
+      expect(state.reasons).toEqual([])
+    })
+
+    it('reports when a reason flips shouldRender', () => {
+      const state = createRenderState()
+
+      expect(state.set('hidden', true)).toBe(true)
+      expect(state.shouldRender).toBe(false)
+
+      // Already paused - nothing flips
+      expect(state.set('offscreen', true)).toBe(false)
+      expect(state.set('hidden', true)).toBe(false)
+      expect(state.reasons).toEqual(['hidden', 'offscreen'])
+
+      expect(state.set('hidden', false)).toBe(false)
+      expect(state.shouldRender).toBe(false)
+      expect(state.set('offscreen', false)).toBe(true)
+      expect(state.shouldRender).toBe(true)
+    })
+
+    it('ignores ending a reason that never started', () => {
+      const state = createRenderState()
+      expect(state.set('fullscreen', false)).toBe(false)
+      expect(state.shouldRender).toBe(true)
+    })
+  })
+
+  describe('isInPictureInPicture', () => {
+    afterEach(() => {
+      setDocumentProperty('pictureInPictureElement', null)
+    })
+
+    it('is true only for the video in the PiP window', () => {
+      const video = document.createElement('video')
+      const other = document.createElement('video')
+      expect(isInPictureInPicture(video)).toBe(false)
+
+      setDocumentProperty('pictureInPictureElement', video)
+      expect(isInPictureInPicture(video)).toBe(true)
+      expect(isInPictureInPicture(other)).toBe(false)
+    })
+  })
+
+  describe('isHiddenByFullscreen', () => {
+    afterEach(() => {
+      setDocumentProperty('fullscreenElement', null)
+      document.body.innerHTML = ''
+    })
+
+    it('is false outside fullscreen', () => {
+      const glow = document.createElement('div')
+      document.body.appendChild(glow)
+      expect(isHiddenByFullscreen(glow)).toBe(false)
+    })
+
+    it('is true when the video itself is fullscreen', () => {
+      const parent = document.createElement('div')
+      const glow = document.createElement('div')
+      const video = document.createElement('video')
+      parent.append(glow, video)
+      document.body.appendChild(parent)
+
+      setDocumentProperty('fullscreenElement', video)
+      expect(isHiddenByFullscreen(glow)).toBe(true)
+    })
+
+    it('is false when a container holding the glow is fullscreen', () => {
+      const parent = document.createElement('div')
+      const glow = document.createElement('div')
+      parent.appendChild(glow)
+      document.body.appendChild(parent)
+
+      setDocumentProperty('fullscreenElement', parent)
+      expect(isHiddenByFullscreen(glow)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,228 @@
+/**
+ * Unit tests for the renderer factory and 2D renderer.
+ *
+ * @module lib/renderer
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { createCanvas2DRenderer, createRenderer } from '../src/lib/renderer'
+import {
+  hasDrawableSize,
+  hasCurrentFrame,
+  type RenderFrame
+} from '../src/lib/glowRenderer'
+import { DEFAULT_OPTIONS } from '../src/constants'
+import type { NormalizedGlowOptions } from '../src/types'
+
+const callbacks = () => ({ onSceneChange: vi.fn(), onError: vi.fn() })
+
+const renderFrame = (overrides: Partial<RenderFrame> = {}): RenderFrame => ({
+  options: DEFAULT_OPTIONS,
+  elapsedMs: 98,
+  reset: false,
+  blurRadius: 0,
+  source: null,
+  ...overrides
+})
+
+const readyVideo = () => {
+  const video = document.createElement('video')
+  Object.defineProperty(video, 'readyState', {
+    value: 2,
+    configurable: true
+  })
+  return video
+}
+
+describe('renderer utilities', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    document.body.innerHTML = ''
+  })
+
+  describe('hasDrawableSize', () => {
+    it('requires both dimensions to be at least 1', () => {
+      expect(hasDrawableSize(1, 1)).toBe(true)
+      expect(hasDrawableSize(0, 10)).toBe(false)
+      expect(hasDrawableSize(10, 0)).toBe(false)
+    })
+  })
+
+  describe('hasCurrentFrame', () => {
+    it('checks for HAVE_CURRENT_DATA', () => {
+      expect(hasCurrentFrame(document.createElement('video'))).toBe(false)
+      expect(hasCurrentFrame(readyVideo())).toBe(true)
+    })
+  })
+
+  describe('createCanvas2DRenderer', () => {
+    it('creates a styled glow canvas', () => {
+      const renderer = createCanvas2DRenderer(DEFAULT_OPTIONS, callbacks())
+      expect(renderer.type).toBe('canvas2d')
+      expect(renderer.element.getAttribute('aria-hidden')).toBe('true')
+      expect(renderer.element.style.filter).toContain('blur(96px)')
+    })
+
+    it('resizes the glow buffer', () => {
+      const renderer = createCanvas2DRenderer(DEFAULT_OPTIONS, callbacks())
+      renderer.resize(40, 24)
+      expect(renderer.width).toBe(40)
+      expect(renderer.height).toBe(24)
+      expect((renderer.element as HTMLCanvasElement).width).toBe(40)
+    })
+
+    it('draws sampled frames into the canvas', () => {
+      const renderer = createCanvas2DRenderer(DEFAULT_OPTIONS, callbacks())
+      const video = readyVideo()
+      renderer.resize(40, 24)
+
+      expect(renderer.draw(video, renderFrame())).toBe(true)
+    })
+
+    it('allocates buffers on resize, not per frame', () => {
+      const renderer = createCanvas2DRenderer(DEFAULT_OPTIONS, callbacks())
+      const ctx = document.createElement('canvas').getContext('2d')!
+      const createImageData = vi.mocked(ctx.createImageData)
+      createImageData.mockClear()
+      const video = readyVideo()
+
+      renderer.resize(40, 24)
+      expect(createImageData).toHaveBeenCalledTimes(1)
+      for (let i = 0; i < 5; i++) renderer.draw(video, renderFrame())
+      expect(createImageData).toHaveBeenCalledTimes(1)
+
+      // Switching precision swaps the buffers once
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        blendPrecision: 'float32'
+      }
+      renderer.draw(video, renderFrame({ options }))
+      renderer.draw(video, renderFrame({ options }))
+      expect(createImageData).toHaveBeenCalledTimes(2)
+    })
+
+    it('reads the blended buffer once a frame is drawn', () => {
+      const renderer = createCanvas2DRenderer(DEFAULT_OPTIONS, callbacks())
+      renderer.resize(40, 24)
+      expect(renderer.readPixels()).toBeNull()
+
+      renderer.draw(readyVideo(), renderFrame())
+      const pixels = renderer.readPixels()
+      expect(pixels?.width).toBe(40)
+      expect(pixels?.height).toBe(24)
+      expect(pixels?.data).toHaveLength(40 * 24 * 4)
+    })
+
+    it('wipes the canvas and the blended frame on clear', () => {
+      const renderer = createCanvas2DRenderer(DEFAULT_OPTIONS, callbacks())
+      const ctx = document.createElement('canvas').getContext('2d')!
+      renderer.resize(40, 24)
+      renderer.draw(readyVideo(), renderFrame())
+
+      renderer.clear()
+
+      expect(ctx.clearRect).toHaveBeenCalledWith(0, 0, 40, 24)
+      expect(renderer.readPixels()).toBeNull()
+    })
+
+    it('samples through a new canvas of the same size once replaced', () => {
+      const renderer = createCanvas2DRenderer(DEFAULT_OPTIONS, callbacks())
+      const drawImage = vi.mocked(
+        document.createElement('canvas').getContext('2d')!.drawImage
+      )
+      const video = readyVideo()
+      renderer.resize(40, 24)
+      renderer.draw(video, renderFrame())
+      const before = drawImage.mock.contexts.at(-1) as CanvasRenderingContext2D
+
+      renderer.replaceSampleCanvas()
+      renderer.draw(video, renderFrame())
+      const after = drawImage.mock.contexts.at(-1) as CanvasRenderingContext2D
+
+      expect(after.canvas).not.toBe(before.canvas)
+      expect(after.canvas.width).toBe(40)
+      expect(after.canvas.height).toBe(24)
+    })
+
+    it('reports frames that could not be sampled', () => {
+      const renderer = createCanvas2DRenderer(DEFAULT_OPTIONS, callbacks())
+      renderer.resize(40, 24)
+
+      expect(
+        renderer.draw(document.createElement('video'), renderFrame())
+      ).toBe(false)
+    })
+
+    it('updates CSS filters from options', () => {
+      const renderer = createCanvas2DRenderer(DEFAULT_OPTIONS, callbacks())
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        blur: 40,
+        brightness: 1.4
+      }
+      renderer.updateStyles(options)
+      expect(renderer.element.style.filter).toContain('blur(40px)')
+      expect(renderer.element.style.filter).toContain('brightness(1.4)')
+    })
+
+    it('bakes the blur into the buffer with blurMode canvas', () => {
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        blurMode: 'canvas'
+      }
+      const renderer = createCanvas2DRenderer(options, callbacks())
+      const ctx = document.createElement('canvas').getContext('2d')!
+      const putImageData = vi.mocked(ctx.putImageData)
+      putImageData.mockClear()
+      vi.mocked(ctx.getImageData).mockImplementationOnce(
+        (_x, _y, w, h) =>
+          ({
+            data: new Uint8ClampedArray(w * h * 4).fill(100),
+            width: w,
+            height: h
+          }) as ImageData
+      )
+      renderer.resize(8, 6)
+
+      expect(renderer.element.style.filter).toBe('none')
+      renderer.draw(readyVideo(), renderFrame({ options, blurRadius: 2 }))
+      // Brightness is in the pixels now instead of in CSS
+      expect(putImageData.mock.calls[0][0].data[0]).toBe(110)
+    })
+
+    it('removes the canvas on dispose', () => {
+      const renderer = createCanvas2DRenderer(DEFAULT_OPTIONS, callbacks())
+      document.body.appendChild(renderer.element)
+      renderer.dispose()
+      expect(document.querySelector('canvas')).toBeNull()
+    })
+  })
+
+  describe('createRenderer', () => {
+    it('uses the 2D renderer by default', () => {
+      expect(createRenderer(DEFAULT_OPTIONS, callbacks()).type).toBe('canvas2d')
+    })
+
+    it('falls back to 2D when WebGL is unavailable', () => {
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        renderer: 'webgl'
+      }
+      const renderer = createRenderer(options, callbacks())
+      expect(renderer.type).toBe('canvas2d')
+      expect(typeof (renderer.element as HTMLCanvasElement).getContext).toBe(
+        'function'
+      )
+    })
+
+    it('falls back to 2D on the main thread when workers are unavailable', () => {
+      vi.stubGlobal('Worker', undefined)
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        worker: true
+      }
+      expect(createRenderer(options, callbacks()).type).toBe('canvas2d')
+      vi.unstubAllGlobals()
+    })
+  })
+})
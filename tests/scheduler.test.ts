@@ -0,0 +1,367 @@
+/**
+ * Unit tests for the shared glow scheduler.
+ *
+ * @module lib/scheduler
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createScheduler, type ScheduledGlow } from '../src/lib/scheduler'
+import { SHARED_FRAME_BUDGET_MS } from '../src/constants'
+
+let clock = 0
+let frames: FrameRequestCallback[] = []
+
+/** Runs the pending animation frame at the given time. */
+const runFrame = (time: number) => {
+  const pending = frames
+  frames = []
+  pending.forEach(callback => callback(time))
+}
+
+/** Glow that draws on every frame, advancing the clock by `costMs`. */
+const createGlow = (
+  name: string,
+  order: string[],
+  costMs = 0,
+  target: Element = document.createElement('video')
+) => {
+  const glow = {
+    target,
+    active: true,
+    wantsFrames: () => glow.active,
+    update: vi.fn(() => {
+      clock += costMs
+      order.push(name)
+      return true
+    }),
+    resize: vi.fn(),
+    setVisible: vi.fn()
+  }
+  return glow satisfies ScheduledGlow
+}
+
+describe('scheduler utilities', () => {
+  beforeEach(() => {
+    clock = 0
+    frames = []
+    vi.spyOn(performance, 'now').mockImplementation(() => clock)
+    vi.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => {
+      frames.push(callback)
+      return frames.length
+    })
+    vi.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {
+      frames = []
+    })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('loop', () => {
+    it('runs one animation frame loop for every glow', () => {
+      const scheduler = createScheduler()
+      const order: string[] = []
+      const glows = ['a', 'b', 'c'].map(name => createGlow(name, order))
+
+      glows.forEach(glow => {
+        scheduler.add(glow)
+        scheduler.wake()
+      })
+      expect(window.requestAnimationFrame).toHaveBeenCalledTimes(1)
+
+      runFrame(16)
+      expect(order).toEqual(['a', 'b', 'c'])
+      expect(frames).toHaveLength(1)
+    })
+
+    it('stops when no glow wants frames', () => {
+      const scheduler = createScheduler()
+      const glow = createGlow('a', [])
+      scheduler.add(glow)
+      scheduler.wake()
+
+      glow.active = false
+      runFrame(16)
+      expect(frames).toHaveLength(0)
+
+      glow.active = true
+      scheduler.wake()
+      expect(frames).toHaveLength(1)
+    })
+
+    it('does not start without glows that want frames', () => {
+      const scheduler = createScheduler()
+      const glow = createGlow('a', [])
+      glow.active = false
+      scheduler.add(glow)
+      scheduler.wake()
+
+      expect(window.requestAnimationFrame).not.toHaveBeenCalled()
+    })
+
+    it('stops the loop when the last glow is removed', () => {
+      const scheduler = createScheduler()
+      const glow = createGlow('a', [])
+      scheduler.add(glow)
+      scheduler.wake()
+
+      scheduler.remove(glow)
+      expect(window.cancelAnimationFrame).toHaveBeenCalled()
+      expect(frames).toHaveLength(0)
+    })
+
+    it('copes with a glow removed mid-frame', () => {
+      const scheduler = createScheduler()
+      const order: string[] = []
+      const a = createGlow('a', order)
+      const b = createGlow('b', order)
+      a.update.mockImplementation(() => {
+        scheduler.remove(a)
+        order.push('a')
+        return true
+      })
+      scheduler.add(a)
+      scheduler.add(b)
+      scheduler.wake()
+
+      expect(() => runFrame(16)).not.toThrow()
+      runFrame(32)
+      expect(order).toEqual(['a', 'b'])
+    })
+  })
+
+  describe('frame budget', () => {
+    it('defaults to the shared budget', () => {
+      expect(createScheduler().frameBudgetMs).toBe(SHARED_FRAME_BUDGET_MS)
+    })
+
+    it('takes turns round-robin once the budget runs out', () => {
+      const scheduler = createScheduler()
+      const order: string[] = []
+      ;['a', 'b', 'c'].forEach(name =>
+        scheduler.add(createGlow(name, order, 5))
+      )
+      scheduler.wake()
+
+      // 5ms each against 8ms - two glows per frame
+      runFrame(16)
+      expect(order).toEqual(['a', 'b'])
+      runFrame(32)
+      expect(order).toEqual(['a', 'b', 'c', 'a'])
+      runFrame(48)
+      expect(order).toEqual(['a', 'b', 'c', 'a', 'b', 'c'])
+    })
+
+    it('always lets one glow draw per frame', () => {
+      const scheduler = createScheduler()
+      const order: string[] = []
+      scheduler.add(createGlow('a', order, 20))
+      scheduler.add(createGlow('b', order, 20))
+      scheduler.wake()
+
+      runFrame(16)
+      runFrame(32)
+      expect(order).toEqual(['a', 'b'])
+    })
+
+    it('uses the configured budget', () => {
+      const scheduler = createScheduler()
+      const order: string[] = []
+      ;['a', 'b', 'c'].forEach(name =>
+        scheduler.add(createGlow(name, order, 5))
+      )
+      scheduler.setFrameBudget(20)
+      scheduler.wake()
+
+      runFrame(16)
+      expect(order).toEqual(['a', 'b', 'c'])
+    })
+
+    it('shares the budget with work run in the same frame', () => {
+      const scheduler = createScheduler()
+      const order: string[] = []
+      scheduler.add(createGlow('a', order, 1))
+      scheduler.wake()
+
+      const work = vi.fn(() => {
+        clock += 10
+        return true
+      })
+      expect(scheduler.run(16, work)).toBe(true)
+      expect(scheduler.run(16, work)).toBe(false)
+      expect(work).toHaveBeenCalledTimes(1)
+
+      // A new frame gets a fresh budget
+      expect(scheduler.run(32, work)).toBe(true)
+    })
+  })
+
+  describe('observers', () => {
+    it('shares one ResizeObserver and routes entries to the right glow', () => {
+      let callback: ResizeObserverCallback = () => {}
+      const observe = vi.fn()
+      const disconnect = vi.fn()
+      const ResizeObserverMock = vi.fn(function (cb: ResizeObserverCallback) {
+        callback = cb
+        return { observe, disconnect, unobserve: vi.fn() }
+      })
+      vi.stubGlobal('ResizeObserver', ResizeObserverMock)
+
+      const scheduler = createScheduler()
+      const a = createGlow('a', [])
+      const b = createGlow('b', [])
+      scheduler.add(a)
+      scheduler.add(b)
+
+      expect(ResizeObserverMock).toHaveBeenCalledTimes(1)
+      expect(observe).toHaveBeenCalledWith(a.target)
+      expect(observe).toHaveBeenCalledWith(b.target)
+
+      callback(
+        [{ target: b.target } as ResizeObserverEntry],
+        {} as ResizeObserver
+      )
+      expect(a.resize).not.toHaveBeenCalled()
+      expect(b.resize).toHaveBeenCalledTimes(1)
+
+      scheduler.remove(a)
+      expect(disconnect).not.toHaveBeenCalled()
+      scheduler.remove(b)
+      expect(disconnect).toHaveBeenCalled()
+      vi.unstubAllGlobals()
+    })
+
+    it('shares one IntersectionObserver and routes visibility', () => {
+      let callback: IntersectionObserverCallback = () => {}
+      const unobserve = vi.fn()
+      const IntersectionObserverMock = vi.fn(function (
+        cb: IntersectionObserverCallback
+      ) {
+        callback = cb
+        return { observe: vi.fn(), disconnect: vi.fn(), unobserve }
+      })
+      vi.stubGlobal('IntersectionObserver', IntersectionObserverMock)
+
+      const scheduler = createScheduler()
+      const a = createGlow('a', [])
+      const b = createGlow('b', [])
+      scheduler.add(a)
+      scheduler.add(b)
+
+      callback(
+        [
+          {
+            target: a.target,
+            isIntersecting: false
+          } as IntersectionObserverEntry
+        ],
+        {} as IntersectionObserver
+      )
+      expect(IntersectionObserverMock).toHaveBeenCalledTimes(1)
+      expect(a.setVisible).toHaveBeenCalledWith(false)
+      expect(b.setVisible).not.toHaveBeenCalled()
+
+      scheduler.remove(a)
+      expect(unobserve).toHaveBeenCalledWith(a.target)
+      scheduler.remove(b)
+      vi.unstubAllGlobals()
+    })
+
+    it('seeds a glow on an observed target with its last visibility', () => {
+      let callback: IntersectionObserverCallback = () => {}
+      vi.stubGlobal(
+        'IntersectionObserver',
+        vi.fn(function (cb: IntersectionObserverCallback) {
+          callback = cb
+          return { observe: vi.fn(), disconnect: vi.fn(), unobserve: vi.fn() }
+        })
+      )
+
+      const scheduler = createScheduler()
+      const target = document.createElement('video')
+      const a = createGlow('a', [], 0, target)
+      const b = createGlow('b', [], 0, target)
+      scheduler.add(a)
+      callback(
+        [{ target, isIntersecting: false } as IntersectionObserverEntry],
+        {} as IntersectionObserver
+      )
+      // Already observed - no new callback comes for this target
+      scheduler.add(b)
+
+      expect(b.setVisible).toHaveBeenCalledWith(false)
+      scheduler.remove(a)
+      scheduler.remove(b)
+      vi.unstubAllGlobals()
+    })
+
+    it('keeps observing a target while another glow uses it', () => {
+      const unobserve = vi.fn()
+      vi.stubGlobal(
+        'ResizeObserver',
+        vi.fn(function () {
+          return { observe: vi.fn(), disconnect: vi.fn(), unobserve }
+        })
+      )
+
+      const scheduler = createScheduler()
+      const target = document.createElement('video')
+      const a = createGlow('a', [], 0, target)
+      const b = createGlow('b', [], 0, target)
+      scheduler.add(a)
+      scheduler.add(b)
+
+      scheduler.remove(a)
+      expect(unobserve).not.toHaveBeenCalled()
+      scheduler.remove(b)
+      vi.unstubAllGlobals()
+    })
+
+    it('resizes glows whose target style or class changes', async () => {
+      const scheduler = createScheduler()
+      const a = createGlow('a', [])
+      const b = createGlow('b', [])
+      document.body.append(a.target, b.target)
+      scheduler.add(a)
+      scheduler.add(b)
+      ;(a.target as HTMLElement).style.objectFit = 'cover'
+      await new Promise(resolve => setTimeout(resolve, 0))
+      expect(a.resize).toHaveBeenCalledTimes(1)
+      expect(b.resize).not.toHaveBeenCalled()
+
+      // Remaining targets stay observed after a removal
+      scheduler.remove(a)
+      b.target.className = 'theater'
+      await new Promise(resolve => setTimeout(resolve, 0))
+      expect(b.resize).toHaveBeenCalledTimes(1)
+      scheduler.remove(b)
+    })
+
+    it('falls back to one window resize listener', () => {
+      vi.stubGlobal('ResizeObserver', undefined)
+      const addSpy = vi.spyOn(window, 'addEventListener')
+      const removeSpy = vi.spyOn(window, 'removeEventListener')
+
+      const scheduler = createScheduler()
+      const a = createGlow('a', [])
+      const b = createGlow('b', [])
+      scheduler.add(a)
+      scheduler.add(b)
+
+      const resizeCalls = addSpy.mock.calls.filter(
+        ([type]) => type === 'resize'
+      )
+      expect(resizeCalls).toHaveLength(1)
+
+      window.dispatchEvent(new Event('resize'))
+      expect(a.resize).toHaveBeenCalledTimes(1)
+      expect(b.resize).toHaveBeenCalledTimes(1)
+
+      scheduler.remove(a)
+      scheduler.remove(b)
+      expect(removeSpy).toHaveBeenCalledWith('resize', resizeCalls[0][1])
+      vi.unstubAllGlobals()
+    })
+  })
+})
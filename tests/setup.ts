@@ -11,6 +11,10 @@ const mockContext = {
     const data = new Uint8ClampedArray(w * h * 4)
     return { data, width: w, height: h, colorSpace: 'srgb' } as ImageData
   }),
+  createImageData: vi.fn((w: number, h: number) => {
+    const data = new Uint8ClampedArray(w * h * 4)
+    return { data, width: w, height: h, colorSpace: 'srgb' } as ImageData
+  }),
   putImageData: vi.fn(),
   fillRect: vi.fn(),
   clearRect: vi.fn(),
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for zone sinks, against a local WebSocket server.
+ *
+ * @module lib/sinks
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { WebSocket, WebSocketServer } from 'ws'
+import type { AddressInfo } from 'node:net'
+import { createWebSocketSink } from '../src/lib/sinks'
+import type { ZoneColorsEvent } from '../src/types'
+
+const event: ZoneColorsEvent = {
+  colors: [
+    [255, 0, 0],
+    [0, 0, 255]
+  ],
+  layout: { top: 1, right: 0, bottom: 1, left: 0 },
+  currentTime: 1.5
+}
+
+describe('sinks utilities', () => {
+  describe('createWebSocketSink', () => {
+    let server: WebSocketServer
+    let url: string
+    let received: string[]
+
+    beforeEach(async () => {
+      received = []
+      server = new WebSocketServer({ host: '127.0.0.1', port: 0 })
+      server.on('connection', socket => {
+        socket.on('message', data => received.push(String(data)))
+      })
+      await new Promise(resolve => server.once('listening', resolve))
+      url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })
+
+    afterEach(async () => {
+      server.clients.forEach(client => client.terminate())
+      await new Promise(resolve => server.close(resolve))
+    })
+
+    it('sends zone updates as JSON', async () => {
+      const sink = createWebSocketSink(url, { WebSocket })
+      await vi.waitFor(() => expect(sink.isOpen).toBe(true))
+
+      sink.send(event)
+      await vi.waitFor(() => expect(received).toHaveLength(1))
+      expect(JSON.parse(received[0])).toEqual(event)
+      sink.close()
+    })
+
+    it('drops updates until the socket opens', async () => {
+      const sink = createWebSocketSink(url, { WebSocket })
+      sink.send(event)
+      await vi.waitFor(() => expect(sink.isOpen).toBe(true))
+
+      sink.send({ ...event, currentTime: 2 })
+      await vi.waitFor(() => expect(received).toHaveLength(1))
+      expect(JSON.parse(received[0]).currentTime).toBe(2)
+      sink.close()
+    })
+
+    it('uses a custom serializer', async () => {
+      const sink = createWebSocketSink(url, {
+        WebSocket,
+        serialize: ({ colors }) => colors.map(color => color.join()).join(';')
+      })
+      await vi.waitFor(() => expect(sink.isOpen).toBe(true))
+
+      sink.send(event)
+      await vi.waitFor(() => expect(received).toEqual(['255,0,0;0,0,255']))
+      sink.close()
+    })
+
+    it('skips updates while the socket is backed up', () => {
+      const send = vi.fn()
+      const sink = createWebSocketSink(url, {
+        WebSocket: class {
+          readyState = 1
+          bufferedAmount = 1e6
+          send = send
+          close() {}
+        }
+      })
+      sink.send(event)
+      expect(send).not.toHaveBeenCalled()
+    })
+
+    it('closes the socket', async () => {
+      const sink = createWebSocketSink(url, { WebSocket })
+      await vi.waitFor(() => expect(sink.isOpen).toBe(true))
+      sink.close()
+      await vi.waitFor(() => expect(server.clients.size).toBe(0))
+      expect(sink.isOpen).toBe(false)
+    })
+
+    it('throws without a WebSocket implementation', () => {
+      vi.stubGlobal('WebSocket', undefined)
+      expect(() => createWebSocketSink(url)).toThrow(
+        'AmbientGlow: WebSocket is not available'
+      )
+      vi.unstubAllGlobals()
+    })
+  })
+})
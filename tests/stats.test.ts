@@ -0,0 +1,81 @@
+/**
+ * Unit tests for runtime stats.
+ *
+ * @module lib/stats
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createStatsCollector, getPercentile } from '../src/lib/stats'
+
+describe('stats utilities', () => {
+  describe('getPercentile', () => {
+    it('picks by nearest rank', () => {
+      const samples = Array.from({ length: 20 }, (_, i) => 20 - i)
+      expect(getPercentile(samples, 95)).toBe(19)
+      expect(getPercentile(samples, 50)).toBe(10)
+      expect(getPercentile(samples, 100)).toBe(20)
+      expect(getPercentile([4], 95)).toBe(4)
+    })
+
+    it('is 0 without samples', () => {
+      expect(getPercentile([], 95)).toBe(0)
+    })
+  })
+
+  describe('createStatsCollector', () => {
+    it('starts empty', () => {
+      expect(createStatsCollector().read(0)).toEqual({
+        averageDrawMs: 0,
+        p95DrawMs: 0,
+        updatesPerSecond: 0,
+        skippedUpdates: 0,
+        framesBlended: 0
+      })
+    })
+
+    it('averages draw times and counts draws and skips', () => {
+      const stats = createStatsCollector()
+      stats.recordDraw(1, 0)
+      stats.recordDraw(3, 100)
+      stats.recordSkip()
+
+      expect(stats.read(100)).toMatchObject({
+        averageDrawMs: 2,
+        p95DrawMs: 3,
+        skippedUpdates: 1,
+        framesBlended: 2
+      })
+    })
+
+    it('counts updates in the last second', () => {
+      const stats = createStatsCollector()
+      for (let time = 0; time <= 2000; time += 100) stats.recordDraw(1, time)
+
+      expect(stats.read(2000).updatesPerSecond).toBe(11)
+      expect(stats.read(5000).updatesPerSecond).toBe(0)
+    })
+
+    it('keeps only the latest draws for timings', () => {
+      const stats = createStatsCollector(4)
+      ;[50, 50, 1, 1, 1, 1].forEach((cost, i) => stats.recordDraw(cost, i))
+
+      const { averageDrawMs, p95DrawMs, framesBlended } = stats.read(5)
+      expect(averageDrawMs).toBe(1)
+      expect(p95DrawMs).toBe(1)
+      expect(framesBlended).toBe(6)
+    })
+
+    it('drops everything on reset', () => {
+      const stats = createStatsCollector()
+      stats.recordDraw(2, 0)
+      stats.recordSkip()
+      stats.reset()
+
+      expect(stats.read(0)).toMatchObject({
+        averageDrawMs: 0,
+        skippedUpdates: 0,
+        framesBlended: 0
+      })
+    })
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for the theme color controller.
+ *
+ * @module lib/themeColor
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  createThemeColorController,
+  getSharedThemeColor,
+  getVisibleArea
+} from '../src/lib/themeColor'
+
+const source = (prominence: number) => ({
+  getProminence: vi.fn(() => prominence)
+})
+
+const addMeta = (content: string, media?: string) => {
+  const meta = document.createElement('meta')
+  meta.name = 'theme-color'
+  meta.content = content
+  if (media) meta.media = media
+  document.head.appendChild(meta)
+  return meta
+}
+
+const themeTags = () =>
+  document.querySelectorAll<HTMLMetaElement>('meta[name="theme-color"]')
+
+describe('themeColor utilities', () => {
+  afterEach(() => {
+    document.head.innerHTML = ''
+    document.body.innerHTML = ''
+    vi.restoreAllMocks()
+  })
+
+  describe('getVisibleArea', () => {
+    it('clips the element to the viewport', () => {
+      const element = document.createElement('div')
+      vi.spyOn(element, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(-100, window.innerHeight - 50, 400, 300)
+      )
+      expect(getVisibleArea(element)).toBe(300 * 50)
+    })
+
+    it('is 0 offscreen', () => {
+      const element = document.createElement('div')
+      vi.spyOn(element, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(0, -400, 400, 300)
+      )
+      expect(getVisibleArea(element)).toBe(0)
+    })
+  })
+
+  describe('createThemeColorController', () => {
+    it('writes the page tags and restores them', () => {
+      const light = addMeta('#ffffff', '(prefers-color-scheme: light)')
+      const dark = addMeta('#000000', '(prefers-color-scheme: dark)')
+      const controller = createThemeColorController(document)
+      const glow = source(100)
+
+      controller.update(glow, '#336699')
+      expect(light.content).toBe('#336699')
+      expect(dark.content).toBe('#336699')
+
+      controller.remove(glow)
+      expect(light.content).toBe('#ffffff')
+      expect(dark.content).toBe('#000000')
+    })
+
+    it('adds a tag when the page has none, and removes it again', () => {
+      const controller = createThemeColorController(document)
+      const glow = source(100)
+
+      controller.update(glow, '#336699')
+      expect(themeTags()).toHaveLength(1)
+      expect(themeTags()[0].content).toBe('#336699')
+
+      controller.remove(glow)
+      expect(themeTags()).toHaveLength(0)
+    })
+
+    it('follows the most prominent glow', () => {
+      const meta = addMeta('#ffffff')
+      const controller = createThemeColorController(document)
+      const small = source(100)
+      const large = source(900)
+
+      controller.update(large, '#aa0000')
+      controller.update(small, '#00aa00')
+      expect(meta.content).toBe('#aa0000')
+
+      controller.remove(large)
+      expect(meta.content).toBe('#00aa00')
+    })
+
+    it('keeps the last color while no glow is on screen', () => {
+      const meta = addMeta('#ffffff')
+      const controller = createThemeColorController(document)
+      const glow = { getProminence: vi.fn(() => 100) }
+
+      controller.update(glow, '#aa0000')
+      glow.getProminence.mockReturnValue(0)
+      controller.update(glow, '#00aa00')
+      expect(meta.content).toBe('#aa0000')
+    })
+
+    it('ignores glows that never wrote', () => {
+      const meta = addMeta('#ffffff')
+      const controller = createThemeColorController(document)
+      const glow = source(100)
+
+      controller.update(glow, '#aa0000')
+      controller.remove(source(100))
+      expect(meta.content).toBe('#aa0000')
+    })
+  })
+
+  describe('getSharedThemeColor', () => {
+    it('returns one controller per document', () => {
+      expect(getSharedThemeColor(document)).toBe(getSharedThemeColor(document))
+    })
+  })
+})
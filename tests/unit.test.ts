@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { Mock } from 'vitest'
 import { AmbientGlow } from '../src/index'
 import type { GlowOptions } from '../src/types'
+import { ADAPTIVE_QUALITY } from '../src/constants'
 
 describe('AmbientGlow', () => {
   let video: HTMLVideoElement
@@ -51,6 +53,18 @@ describe('AmbientGlow', () => {
       )
     })
 
+    it('creates no canvas or context before the parent check', () => {
+      const orphan = document.createElement('video')
+      const createElement = vi.spyOn(document, 'createElement')
+      const getContext = vi.spyOn(HTMLCanvasElement.prototype, 'getContext')
+
+      expect(() => new AmbientGlow(orphan, { renderer: 'webgl' })).toThrow()
+      expect(createElement).not.toHaveBeenCalled()
+      expect(getContext).not.toHaveBeenCalled()
+      createElement.mockRestore()
+      getContext.mockRestore()
+    })
+
     it('applies default options', () => {
       const glow = new AmbientGlow(video)
       const canvas = parent.querySelector('canvas') as HTMLCanvasElement
@@ -107,6 +121,27 @@ describe('AmbientGlow', () => {
       glow.destroy()
     })
 
+    it('derives smoothingMs from responsiveness and updateInterval', () => {
+      const glow = new AmbientGlow(video, {
+        responsiveness: 0.3,
+        updateInterval: 200
+      })
+      const { smoothingMs } = glow.getOptions()
+      // One update at the configured interval still moves 30% of the way
+      expect(1 - Math.exp(-200 / smoothingMs)).toBeCloseTo(0.3, 5)
+      glow.destroy()
+    })
+
+    it('explicit smoothingMs wins over responsiveness', () => {
+      const glow = new AmbientGlow(video, {
+        responsiveness: 0.3,
+        smoothingMs: 250
+      })
+      const { smoothingMs } = glow.getOptions()
+      expect(smoothingMs).toBe(250)
+      glow.destroy()
+    })
+
     it('sets parent position to relative if static', () => {
       const glow = new AmbientGlow(video)
       expect(parent.style.position).toBe('relative')
@@ -180,6 +215,14 @@ describe('AmbientGlow', () => {
       glow.destroy()
     })
 
+    it('re-derives smoothingMs when responsiveness is updated', () => {
+      const glow = new AmbientGlow(video, { updateInterval: 100 })
+      glow.updateOptions({ responsiveness: 0.5 })
+      const { smoothingMs } = glow.getOptions()
+      expect(smoothingMs).toBeCloseTo(100 / Math.LN2, 5)
+      glow.destroy()
+    })
+
     it('responsiveness in updateOptions overrides existing blendOld/blendNew', () => {
       const glow = new AmbientGlow(video, {
         blendOld: 0.9,
@@ -373,8 +416,8 @@ describe('AmbientGlow', () => {
 
       glow.destroy()
 
-      // Should remove 7 video event listeners (loadstart, loadedmetadata, canplay, play, pause, ended, seeked)
-      expect(removeEventListenerSpy).toHaveBeenCalledTimes(7)
+      // Should remove 9 video event listeners (loadstart, loadedmetadata, canplay, play, pause, ended, seeked, enterpictureinpicture, leavepictureinpicture)
+      expect(removeEventListenerSpy).toHaveBeenCalledTimes(9)
       removeEventListenerSpy.mockRestore()
     })
 
@@ -536,6 +579,1963 @@ describe('AmbientGlow', () => {
     })
   })
 
+  describe('frame sync', () => {
+    const mockVideoFrameCallback = () => {
+      const callbacks: VideoFrameRequestCallback[] = []
+      const request = vi.fn((callback: VideoFrameRequestCallback) => {
+        callbacks.push(callback)
+        return callbacks.length
+      })
+      const cancel = vi.fn()
+      Object.defineProperty(video, 'requestVideoFrameCallback', {
+        value: request,
+        configurable: true
+      })
+      Object.defineProperty(video, 'cancelVideoFrameCallback', {
+        value: cancel,
+        configurable: true
+      })
+      return { callbacks, request, cancel }
+    }
+
+    const metadata = (
+      presentedFrames: number,
+      mediaTime: number
+    ): VideoFrameCallbackMetadata => ({
+      presentedFrames,
+      mediaTime,
+      expectedDisplayTime: 0,
+      presentationTime: 0,
+      width: 640,
+      height: 360
+    })
+
+    beforeEach(() => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        writable: true,
+        configurable: true
+      })
+      Object.defineProperty(video, 'paused', {
+        value: false,
+        configurable: true
+      })
+    })
+
+    it('uses requestVideoFrameCallback when available', () => {
+      const { request } = mockVideoFrameCallback()
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame')
+      const glow = new AmbientGlow(video)
+
+      video.dispatchEvent(new Event('play'))
+
+      expect(request).toHaveBeenCalledTimes(1)
+      expect(rafSpy).not.toHaveBeenCalled()
+
+      glow.destroy()
+      rafSpy.mockRestore()
+    })
+
+    it('samples only new decoded frames after the interval', () => {
+      const { callbacks } = mockVideoFrameCallback()
+      const glow = new AmbientGlow(video, { updateInterval: 50 })
+      const frames = vi.fn()
+      glow.on('frame', frames)
+
+      video.dispatchEvent(new Event('play'))
+      frames.mockClear()
+
+      callbacks[0](1000, metadata(1, 0.04)) // Starts the interval
+      callbacks[1](1060, metadata(2, 0.08))
+      expect(frames).toHaveBeenCalledTimes(1)
+
+      // Same presented frame - nothing new to sample
+      callbacks[2](1120, metadata(2, 0.08))
+      expect(frames).toHaveBeenCalledTimes(1)
+
+      callbacks[3](1180, metadata(4, 0.12))
+      expect(frames).toHaveBeenCalledTimes(2)
+
+      glow.destroy()
+    })
+
+    it('keeps video frame gaps away from the adaptive governor', () => {
+      const { callbacks } = mockVideoFrameCallback()
+      const glow = new AmbientGlow(video, {
+        adaptive: true,
+        frameBudgetMs: 1000
+      })
+      const frames = vi.fn()
+      glow.on('frame', frames)
+
+      video.dispatchEvent(new Event('play'))
+      // Slow and stalling, but no presented frame was missed
+      let time = 1000
+      for (let i = 0; i <= ADAPTIVE_QUALITY.DOWNGRADE_AFTER + 1; i++) {
+        time += i === 1 ? 100 : 300
+        callbacks[i](time, metadata(i + 1, i * 0.04))
+      }
+
+      expect(frames.mock.calls.length).toBeGreaterThan(
+        ADAPTIVE_QUALITY.DOWNGRADE_AFTER
+      )
+      expect(glow.getQuality().level).toBe(0)
+      glow.destroy()
+    })
+
+    it('steps quality down when presented frames go missing', () => {
+      const { callbacks } = mockVideoFrameCallback()
+      const glow = new AmbientGlow(video, {
+        adaptive: true,
+        frameBudgetMs: 1000
+      })
+
+      video.dispatchEvent(new Event('play'))
+      // Every callback after the first misses two presented frames
+      for (let i = 0; i <= ADAPTIVE_QUALITY.DOWNGRADE_AFTER; i++) {
+        callbacks[i](1000 + i * 100, metadata(1 + i * 3, i * 0.1))
+      }
+
+      expect(glow.getQuality().level).toBe(1)
+      glow.destroy()
+    })
+
+    it('stops requesting frames after pause', () => {
+      const { callbacks, request } = mockVideoFrameCallback()
+      const glow = new AmbientGlow(video)
+
+      video.dispatchEvent(new Event('play'))
+      video.dispatchEvent(new Event('pause'))
+      callbacks[0](1000, metadata(1, 0.04))
+
+      expect(request).toHaveBeenCalledTimes(1)
+      glow.destroy()
+    })
+
+    it('cancels the pending video frame callback on destroy', () => {
+      const { cancel } = mockVideoFrameCallback()
+      const glow = new AmbientGlow(video)
+
+      video.dispatchEvent(new Event('play'))
+      glow.destroy()
+
+      expect(cancel).toHaveBeenCalledWith(1)
+    })
+
+    it('falls back to requestAnimationFrame when the API is missing', () => {
+      Object.defineProperty(video, 'requestVideoFrameCallback', {
+        value: undefined,
+        configurable: true
+      })
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame')
+      const glow = new AmbientGlow(video)
+
+      video.dispatchEvent(new Event('play'))
+
+      expect(rafSpy).toHaveBeenCalled()
+      glow.destroy()
+      rafSpy.mockRestore()
+    })
+
+    it('uses requestAnimationFrame when syncToVideoFrames is disabled', () => {
+      const { request } = mockVideoFrameCallback()
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame')
+      const glow = new AmbientGlow(video, { syncToVideoFrames: false })
+
+      video.dispatchEvent(new Event('play'))
+
+      expect(request).not.toHaveBeenCalled()
+      expect(rafSpy).toHaveBeenCalled()
+      glow.destroy()
+      rafSpy.mockRestore()
+    })
+
+    it('switches frame source when syncToVideoFrames is updated', () => {
+      const { request, cancel } = mockVideoFrameCallback()
+      const glow = new AmbientGlow(video)
+
+      video.dispatchEvent(new Event('play'))
+      expect(request).toHaveBeenCalledTimes(1)
+
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame')
+      glow.updateOptions({ syncToVideoFrames: false })
+
+      expect(cancel).toHaveBeenCalledWith(1)
+      expect(rafSpy).toHaveBeenCalled()
+      glow.destroy()
+      rafSpy.mockRestore()
+    })
+  })
+
+  describe('renderer selection', () => {
+    it('falls back to the 2D renderer when WebGL is unavailable', () => {
+      const glow = new AmbientGlow(video, { renderer: 'webgl' })
+      const canvas = parent.querySelector('canvas') as HTMLCanvasElement
+
+      // 2D renderer keeps color adjustments in CSS
+      expect(canvas.style.filter).toContain('brightness(1.1)')
+      glow.destroy()
+      expect(parent.querySelector('canvas')).toBeNull()
+    })
+  })
+
+  describe('blur mode', () => {
+    it('leaves the glow canvas unfiltered with blurMode canvas', () => {
+      const glow = new AmbientGlow(video, { blurMode: 'canvas' })
+      const canvas = parent.querySelector('canvas') as HTMLCanvasElement
+
+      expect(canvas.style.filter).toBe('none')
+      glow.destroy()
+    })
+
+    it('pads the buffer and the element for the blur to spread into', () => {
+      Object.defineProperty(video, 'videoWidth', { value: 1280 })
+      Object.defineProperty(video, 'videoHeight', { value: 720 })
+      vi.spyOn(video, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(0, 0, 640, 360)
+      )
+      const glow = new AmbientGlow(video, {
+        blurMode: 'canvas',
+        downscale: 0.1,
+        scale: 1,
+        blur: 40
+      })
+      const canvas = parent.querySelector('canvas') as HTMLCanvasElement
+
+      // 40px at 640px across is 8 buffer px, padded by 2.5 blurs a side
+      expect(canvas.width).toBe(128 + 40)
+      expect(canvas.height).toBe(72 + 40)
+      expect(canvas.style.width).toBe('840px')
+      expect(canvas.style.height).toBe('560px')
+
+      glow.updateOptions({ blurMode: 'css' })
+      expect(canvas.width).toBe(128)
+      expect(canvas.style.width).toBe('640px')
+      glow.destroy()
+    })
+
+    it('redraws without blending when baked filters change', () => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        configurable: true
+      })
+      const glow = new AmbientGlow(video)
+      const frames = vi.fn()
+      glow.on('frame', frames)
+      const resets = () =>
+        frames.mock.calls.filter(([event]) => event.reset).length
+
+      glow.updateOptions({ blurMode: 'canvas' })
+      expect(resets()).toBe(1)
+
+      glow.updateOptions({ brightness: 1.4 })
+      expect(resets()).toBe(2)
+
+      glow.updateOptions({ opacity: 0.4 })
+      expect(resets()).toBe(2)
+      expect(frames).toHaveBeenCalledTimes(3)
+
+      glow.updateOptions({ blurMode: 'css' })
+      const canvas = parent.querySelector('canvas') as HTMLCanvasElement
+      expect(canvas.style.filter).toContain('blur(96px)')
+      glow.destroy()
+    })
+  })
+
+  describe('adaptive quality', () => {
+    let drawImage: Mock<CanvasRenderingContext2D['drawImage']>
+    let original: CanvasRenderingContext2D['drawImage'] | undefined
+    let time: number
+
+    const slowDraws = (count: number) => {
+      for (let i = 0; i < count; i++) video.dispatchEvent(new Event('seeked'))
+    }
+
+    beforeEach(() => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        configurable: true
+      })
+      time = 1000
+      vi.spyOn(performance, 'now').mockImplementation(() => time)
+
+      // Each drawImage call moves the clock 10ms
+      const ctx = document.createElement('canvas').getContext('2d')!
+      drawImage = vi.mocked(ctx.drawImage)
+      original = drawImage.getMockImplementation()
+      drawImage.mockImplementation(() => {
+        time += 10
+      })
+    })
+
+    afterEach(() => {
+      drawImage.mockImplementation(original ?? (() => {}))
+      vi.restoreAllMocks()
+    })
+
+    it('reports the configured quality by default', () => {
+      const glow = new AmbientGlow(video, {
+        downscale: 0.1,
+        updateInterval: 40
+      })
+      expect(glow.getQuality()).toEqual({
+        adaptive: false,
+        level: 0,
+        downscale: 0.1,
+        updateInterval: 40,
+        drawCostMs: 0
+      })
+      glow.destroy()
+    })
+
+    it('lowers downscale and resizes after slow draws', () => {
+      Object.defineProperty(video, 'videoWidth', { value: 1280 })
+      Object.defineProperty(video, 'videoHeight', { value: 720 })
+      vi.spyOn(video, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(0, 0, 640, 360)
+      )
+      const glow = new AmbientGlow(video, {
+        adaptive: true,
+        downscale: 0.1,
+        frameBudgetMs: 2
+      })
+      const canvas = parent.querySelector('canvas') as HTMLCanvasElement
+      const initialWidth = canvas.width
+
+      slowDraws(ADAPTIVE_QUALITY.DOWNGRADE_AFTER)
+
+      const quality = glow.getQuality()
+      expect(quality.level).toBe(1)
+      expect(quality.downscale).toBeCloseTo(0.075)
+      expect(quality.updateInterval).toBeGreaterThan(33)
+      expect(initialWidth).toBe(128)
+      expect(canvas.width).toBe(96)
+      glow.destroy()
+    })
+
+    it('goes back to the configured quality when adaptive is turned off', () => {
+      const glow = new AmbientGlow(video, { adaptive: true, downscale: 0.1 })
+      slowDraws(ADAPTIVE_QUALITY.DOWNGRADE_AFTER)
+      expect(glow.getQuality().level).toBe(1)
+
+      glow.updateOptions({ adaptive: false })
+      expect(glow.getQuality()).toMatchObject({ level: 0, downscale: 0.1 })
+      glow.destroy()
+    })
+  })
+
+  describe('shared scheduler', () => {
+    it('shares one ResizeObserver between glows', () => {
+      const observe = vi.fn()
+      const disconnect = vi.fn()
+      const ResizeObserverMock = vi.fn(function () {
+        return { observe, disconnect, unobserve: vi.fn() }
+      })
+      vi.stubGlobal('ResizeObserver', ResizeObserverMock)
+
+      const otherParent = document.createElement('div')
+      const otherVideo = document.createElement('video')
+      otherParent.appendChild(otherVideo)
+      document.body.appendChild(otherParent)
+
+      const first = new AmbientGlow(video)
+      const second = new AmbientGlow(otherVideo)
+      expect(ResizeObserverMock).toHaveBeenCalledTimes(1)
+      expect(observe).toHaveBeenCalledWith(video)
+      expect(observe).toHaveBeenCalledWith(otherVideo)
+
+      first.destroy()
+      expect(disconnect).not.toHaveBeenCalled()
+      second.destroy()
+      expect(disconnect).toHaveBeenCalled()
+      vi.unstubAllGlobals()
+    })
+
+    it('runs playing glows on one animation frame loop', () => {
+      Object.defineProperty(video, 'requestVideoFrameCallback', {
+        value: undefined,
+        configurable: true
+      })
+      const otherParent = document.createElement('div')
+      const otherVideo = document.createElement('video')
+      otherParent.appendChild(otherVideo)
+      document.body.appendChild(otherParent)
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame')
+
+      const first = new AmbientGlow(video, { syncToVideoFrames: false })
+      const second = new AmbientGlow(otherVideo, { syncToVideoFrames: false })
+      video.dispatchEvent(new Event('play'))
+      otherVideo.dispatchEvent(new Event('play'))
+
+      expect(rafSpy).toHaveBeenCalledTimes(1)
+      first.destroy()
+      second.destroy()
+      rafSpy.mockRestore()
+    })
+
+    it('skips video frame draws once the frame budget is spent', () => {
+      const mockFrames = (target: HTMLVideoElement) => {
+        const callbacks: VideoFrameRequestCallback[] = []
+        Object.defineProperty(target, 'requestVideoFrameCallback', {
+          value: (callback: VideoFrameRequestCallback) =>
+            callbacks.push(callback),
+          configurable: true
+        })
+        Object.defineProperty(target, 'cancelVideoFrameCallback', {
+          value: vi.fn(),
+          configurable: true
+        })
+        Object.defineProperty(target, 'readyState', {
+          value: 2,
+          configurable: true
+        })
+        return callbacks
+      }
+      const frame = (presentedFrames: number, mediaTime: number) =>
+        ({ presentedFrames, mediaTime }) as VideoFrameCallbackMetadata
+
+      const otherParent = document.createElement('div')
+      const otherVideo = document.createElement('video')
+      otherParent.appendChild(otherVideo)
+      document.body.appendChild(otherParent)
+      const first = mockFrames(video)
+      const second = mockFrames(otherVideo)
+      const glows = [video, otherVideo].map(
+        target => new AmbientGlow(target, { updateInterval: 50 })
+      )
+      const [firstDraw, secondDraw] = glows.map(glow => {
+        const frames = vi.fn()
+        glow.on('frame', frames)
+        return frames
+      })
+
+      AmbientGlow.configureScheduler({ frameBudgetMs: 0 })
+      video.dispatchEvent(new Event('play'))
+      otherVideo.dispatchEvent(new Event('play'))
+      firstDraw.mockClear()
+      secondDraw.mockClear()
+      first[0](1000, frame(1, 0.04)) // Starts the interval
+      second[0](1000, frame(1, 0.04))
+
+      // Same frame - only the first draw fits
+      first[1](1060, frame(2, 0.08))
+      second[1](1060, frame(2, 0.08))
+      expect(firstDraw).toHaveBeenCalledTimes(1)
+      expect(secondDraw).toHaveBeenCalledTimes(0)
+
+      // Next decoded frame tries again
+      second[2](1080, frame(3, 0.12))
+      expect(secondDraw).toHaveBeenCalledTimes(1)
+
+      AmbientGlow.configureScheduler({ frameBudgetMs: 8 })
+      glows.forEach(glow => glow.destroy())
+    })
+  })
+
+  describe('render state', () => {
+    const setDocumentProperty = (name: string, value: unknown) => {
+      Object.defineProperty(document, name, { value, configurable: true })
+    }
+
+    beforeEach(() => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        writable: true,
+        configurable: true
+      })
+      Object.defineProperty(video, 'paused', {
+        value: false,
+        configurable: true
+      })
+    })
+
+    afterEach(() => {
+      setDocumentProperty('hidden', false)
+      setDocumentProperty('pictureInPictureElement', null)
+      setDocumentProperty('fullscreenElement', null)
+    })
+
+    // Counts redraws that replace the glow and loop starts
+    const watchLoop = (glow: AmbientGlow) => {
+      const draw = vi.fn()
+      const start = vi.fn()
+      glow.on('frame', event => {
+        if (event.reset) draw(event)
+      })
+      glow.on('start', start)
+      return { draw, start }
+    }
+
+    it('renders by default', () => {
+      const glow = new AmbientGlow(video)
+      expect(glow.getRenderState()).toEqual({
+        shouldRender: true,
+        pausedBy: []
+      })
+      glow.destroy()
+    })
+
+    it('pauses while the tab is hidden and redraws when shown', () => {
+      const glow = new AmbientGlow(video)
+      video.dispatchEvent(new Event('play'))
+      const { draw, start } = watchLoop(glow)
+
+      setDocumentProperty('hidden', true)
+      document.dispatchEvent(new Event('visibilitychange'))
+      expect(glow.getRenderState().pausedBy).toEqual(['hidden'])
+      expect(glow.getStats().isLooping).toBe(false)
+
+      setDocumentProperty('hidden', false)
+      document.dispatchEvent(new Event('visibilitychange'))
+      expect(glow.getRenderState().shouldRender).toBe(true)
+      expect(draw).toHaveBeenCalledTimes(1)
+      expect(start).toHaveBeenCalledTimes(1)
+      glow.destroy()
+    })
+
+    it('pauses while the video is in Picture-in-Picture', () => {
+      const glow = new AmbientGlow(video)
+      video.dispatchEvent(new Event('play'))
+      const { draw } = watchLoop(glow)
+
+      setDocumentProperty('pictureInPictureElement', video)
+      video.dispatchEvent(new Event('enterpictureinpicture'))
+      expect(glow.getRenderState().pausedBy).toEqual(['pictureInPicture'])
+      expect(glow.getStats().isLooping).toBe(false)
+
+      setDocumentProperty('pictureInPictureElement', null)
+      video.dispatchEvent(new Event('leavepictureinpicture'))
+      expect(glow.getRenderState().shouldRender).toBe(true)
+      expect(glow.getStats().isLooping).toBe(true)
+      expect(draw).toHaveBeenCalledTimes(1)
+      glow.destroy()
+    })
+
+    it('pauses while the video is natively fullscreen', () => {
+      const glow = new AmbientGlow(video)
+      const { draw } = watchLoop(glow)
+
+      setDocumentProperty('fullscreenElement', video)
+      document.dispatchEvent(new Event('fullscreenchange'))
+      expect(glow.getRenderState().pausedBy).toEqual(['fullscreen'])
+
+      setDocumentProperty('fullscreenElement', null)
+      document.dispatchEvent(new Event('fullscreenchange'))
+      expect(glow.getRenderState().shouldRender).toBe(true)
+      expect(draw).toHaveBeenCalledTimes(1)
+      glow.destroy()
+    })
+
+    it('keeps rendering when a container holding the glow is fullscreen', () => {
+      const glow = new AmbientGlow(video)
+
+      setDocumentProperty('fullscreenElement', parent)
+      document.dispatchEvent(new Event('fullscreenchange'))
+      expect(glow.getRenderState().shouldRender).toBe(true)
+      glow.destroy()
+    })
+
+    it('pauses while scrolled out of view', () => {
+      let callback: IntersectionObserverCallback = () => {}
+      vi.stubGlobal(
+        'IntersectionObserver',
+        vi.fn(function (cb: IntersectionObserverCallback) {
+          callback = cb
+          return { observe: vi.fn(), disconnect: vi.fn(), unobserve: vi.fn() }
+        })
+      )
+      const glow = new AmbientGlow(video)
+      const { draw } = watchLoop(glow)
+      const intersect = (isIntersecting: boolean) =>
+        callback(
+          [{ target: video, isIntersecting } as IntersectionObserverEntry],
+          {} as IntersectionObserver
+        )
+
+      intersect(false)
+      expect(glow.getRenderState().pausedBy).toEqual(['offscreen'])
+      intersect(true)
+      expect(glow.getRenderState().shouldRender).toBe(true)
+      expect(draw).toHaveBeenCalledTimes(1)
+      glow.destroy()
+      vi.unstubAllGlobals()
+    })
+
+    it('resumes only once every reason has cleared', () => {
+      const glow = new AmbientGlow(video)
+      video.dispatchEvent(new Event('play'))
+      const { draw, start } = watchLoop(glow)
+
+      setDocumentProperty('hidden', true)
+      document.dispatchEvent(new Event('visibilitychange'))
+      setDocumentProperty('fullscreenElement', video)
+      document.dispatchEvent(new Event('fullscreenchange'))
+      expect(glow.getRenderState().pausedBy).toEqual(['hidden', 'fullscreen'])
+
+      setDocumentProperty('hidden', false)
+      document.dispatchEvent(new Event('visibilitychange'))
+      expect(glow.getRenderState().shouldRender).toBe(false)
+      expect(draw).not.toHaveBeenCalled()
+
+      setDocumentProperty('fullscreenElement', null)
+      document.dispatchEvent(new Event('fullscreenchange'))
+      expect(draw).toHaveBeenCalledTimes(1)
+      expect(start).toHaveBeenCalledTimes(1)
+      glow.destroy()
+    })
+
+    it('does not resume the loop for a paused video', () => {
+      Object.defineProperty(video, 'paused', {
+        value: true,
+        configurable: true
+      })
+      const glow = new AmbientGlow(video)
+      const { draw, start } = watchLoop(glow)
+
+      setDocumentProperty('hidden', true)
+      document.dispatchEvent(new Event('visibilitychange'))
+      setDocumentProperty('hidden', false)
+      document.dispatchEvent(new Event('visibilitychange'))
+
+      expect(draw).toHaveBeenCalledTimes(1)
+      expect(start).not.toHaveBeenCalled()
+      glow.destroy()
+    })
+
+    it('picks up reasons active at creation and skips drawing', () => {
+      setDocumentProperty('hidden', true)
+      const glow = new AmbientGlow(video)
+      const frames = vi.fn()
+      glow.on('frame', frames)
+
+      video.dispatchEvent(new Event('play'))
+      video.dispatchEvent(new Event('seeked'))
+      expect(glow.getRenderState().pausedBy).toEqual(['hidden'])
+      expect(frames).not.toHaveBeenCalled()
+      expect(glow.getStats().isLooping).toBe(false)
+      glow.destroy()
+    })
+
+    it('stops listening to the document on destroy', () => {
+      const removeSpy = vi.spyOn(document, 'removeEventListener')
+      const glow = new AmbientGlow(video)
+      glow.destroy()
+
+      const events = removeSpy.mock.calls.map(([type]) => type)
+      expect(events).toContain('visibilitychange')
+      expect(events).toContain('fullscreenchange')
+      removeSpy.mockRestore()
+    })
+  })
+
+  describe('object-fit', () => {
+    beforeEach(() => {
+      Object.defineProperty(video, 'videoWidth', { value: 1920 })
+      Object.defineProperty(video, 'videoHeight', { value: 1080 })
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        configurable: true
+      })
+      vi.spyOn(video, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(0, 0, 800, 600)
+      )
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('sizes the glow to the letterboxed picture with contain', () => {
+      video.style.objectFit = 'contain'
+      video.style.objectPosition = '50% 100%'
+      const glow = new AmbientGlow(video, { scale: 1, downscale: 0.1 })
+      const canvas = parent.querySelector('canvas') as HTMLCanvasElement
+
+      expect(canvas.width).toBe(192)
+      expect(canvas.height).toBe(108)
+      expect(canvas.style.width).toBe('800px')
+      expect(canvas.style.height).toBe('450px')
+      // Picture sits at the bottom of the box, 75px below center
+      expect(canvas.style.transform).toBe(
+        'translate(calc(-50% + 0px), calc(-50% + 75px))'
+      )
+
+      // The whole frame is on screen
+      expect(glow.getDebugInfo().sampleRegion).toEqual({
+        x: 0,
+        y: 0,
+        width: 1,
+        height: 1
+      })
+      glow.destroy()
+    })
+
+    it('samples only the visible part with cover', () => {
+      video.style.objectFit = 'cover'
+      const glow = new AmbientGlow(video, { scale: 1, downscale: 0.1 })
+      const canvas = parent.querySelector('canvas') as HTMLCanvasElement
+
+      expect(canvas.width).toBe(144)
+      expect(canvas.height).toBe(108)
+      expect(canvas.style.width).toBe('800px')
+      expect(canvas.style.height).toBe('600px')
+
+      // 240px cropped off each side of the 1920px frame
+      const { sampleRegion } = glow.getDebugInfo()
+      expect(sampleRegion.x).toBeCloseTo(240 / 1920)
+      expect(sampleRegion.width).toBeCloseTo(1440 / 1920)
+      glow.destroy()
+    })
+
+    it('recomputes when the video style changes', async () => {
+      video.style.objectFit = 'contain'
+      const glow = new AmbientGlow(video, { scale: 1 })
+      const canvas = parent.querySelector('canvas') as HTMLCanvasElement
+      expect(canvas.style.height).toBe('450px')
+
+      video.style.objectFit = 'cover'
+      await new Promise(resolve => setTimeout(resolve, 0))
+      expect(canvas.style.height).toBe('600px')
+      glow.destroy()
+    })
+  })
+
+  describe('letterbox detection', () => {
+    let getImageData: Mock<CanvasRenderingContext2D['getImageData']>
+    let original: CanvasRenderingContext2D['getImageData'] | undefined
+    let time: number
+
+    /** 16:9 frames with a 2.39:1 picture - black rows top and bottom. */
+    const letterboxed = (_x: number, _y: number, w: number, h: number) => {
+      const data = new Uint8ClampedArray(w * h * 4).fill(160)
+      const bar = Math.round(h * 0.125)
+      data.fill(0, 0, bar * w * 4)
+      data.fill(0, (h - bar) * w * 4)
+      return { data, width: w, height: h, colorSpace: 'srgb' } as ImageData
+    }
+
+    const drawFrames = (count: number) => {
+      for (let i = 0; i < count; i++) {
+        time += 1000
+        video.dispatchEvent(new Event('seeked'))
+      }
+    }
+
+    beforeEach(() => {
+      Object.defineProperty(video, 'videoWidth', { value: 1920 })
+      Object.defineProperty(video, 'videoHeight', { value: 1080 })
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        configurable: true
+      })
+      vi.spyOn(video, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(0, 0, 640, 360)
+      )
+      time = 0
+      vi.spyOn(performance, 'now').mockImplementation(() => time)
+
+      const ctx = document.createElement('canvas').getContext('2d')!
+      getImageData = vi.mocked(ctx.getImageData)
+      original = getImageData.getMockImplementation()
+      getImageData.mockImplementation(letterboxed)
+    })
+
+    afterEach(() => {
+      getImageData.mockImplementation(original!)
+      vi.restoreAllMocks()
+    })
+
+    it('leaves the bars in by default', () => {
+      const glow = new AmbientGlow(video)
+      drawFrames(8)
+      expect(glow.getLetterbox().top).toBe(0)
+      glow.destroy()
+    })
+
+    it('crops sampling to the picture once bars settle', () => {
+      const glow = new AmbientGlow(video, { letterbox: true })
+
+      drawFrames(2)
+      expect(glow.getLetterbox().top).toBe(0)
+
+      drawFrames(6)
+      const { top, bottom, left } = glow.getLetterbox()
+      expect(top).toBeGreaterThan(0.1)
+      expect(bottom).toBe(top)
+      expect(left).toBe(0)
+
+      const { sampleRegion } = glow.getDebugInfo()
+      expect(sampleRegion.y).toBeCloseTo(top)
+      expect(sampleRegion.height).toBeCloseTo(1 - 2 * top)
+      glow.destroy()
+    })
+
+    it('samples the whole frame with letterbox off', () => {
+      const glow = new AmbientGlow(video, { letterbox: true })
+      drawFrames(8)
+      expect(glow.getLetterbox().top).toBeGreaterThan(0)
+
+      glow.updateOptions({ letterbox: false })
+      drawFrames(8)
+      expect(glow.getLetterbox()).toEqual({
+        top: 0,
+        bottom: 0,
+        left: 0,
+        right: 0
+      })
+      glow.destroy()
+    })
+
+    it('forgets the bars when a new source loads', () => {
+      const glow = new AmbientGlow(video, { letterbox: true })
+      drawFrames(8)
+      expect(glow.getLetterbox().top).toBeGreaterThan(0)
+
+      video.dispatchEvent(new Event('loadstart'))
+      expect(glow.getLetterbox().top).toBe(0)
+      glow.destroy()
+    })
+  })
+
+  describe('sample regions', () => {
+    beforeEach(() => {
+      Object.defineProperty(video, 'videoWidth', { value: 1920 })
+      Object.defineProperty(video, 'videoHeight', { value: 1080 })
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        configurable: true
+      })
+    })
+
+    it('picks up exclusions from updateOptions', () => {
+      const glow = new AmbientGlow(video, { letterbox: false })
+      const getRegions = vi.fn(() => [
+        { x: 0.85, y: 0.05, width: 0.1, height: 0.1 }
+      ])
+
+      glow.updateOptions({ excludeRegions: getRegions })
+      getRegions.mockClear()
+      video.dispatchEvent(new Event('seeked'))
+      expect(getRegions).toHaveBeenCalledWith(video)
+
+      glow.updateOptions({ excludeRegions: [] })
+      getRegions.mockClear()
+      video.dispatchEvent(new Event('seeked'))
+      expect(getRegions).not.toHaveBeenCalled()
+      glow.destroy()
+    })
+
+    it('samples the region set with updateOptions', () => {
+      const glow = new AmbientGlow(video, { letterbox: false })
+      const drawImage = vi.mocked(
+        document.createElement('canvas').getContext('2d')!.drawImage
+      )
+
+      glow.updateOptions({
+        sampleRegion: { x: 0, y: 0, width: 1, height: 0.5 }
+      })
+      expect(drawImage.mock.lastCall?.slice(1, 5)).toEqual([0, 0, 1920, 540])
+      glow.destroy()
+    })
+  })
+
+  describe('ambient zones', () => {
+    beforeEach(() => {
+      Object.defineProperty(video, 'videoWidth', { value: 1280 })
+      Object.defineProperty(video, 'videoHeight', { value: 720 })
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        configurable: true
+      })
+    })
+
+    it('emits zone colors on each update', () => {
+      const glow = new AmbientGlow(video, {
+        zones: { top: 3, right: 2, bottom: 3, left: 2 }
+      })
+      const onZones = vi.fn()
+      glow.on('zones', onZones)
+
+      video.dispatchEvent(new Event('seeked'))
+      expect(onZones).toHaveBeenCalledTimes(1)
+      const [{ colors, layout }] = onZones.mock.calls[0]
+      expect(colors).toHaveLength(10)
+      expect(colors[0]).toEqual([0, 0, 0])
+      expect(layout).toEqual({ top: 3, right: 2, bottom: 3, left: 2 })
+      glow.destroy()
+    })
+
+    it('starts and stops emitting with updateOptions', () => {
+      const glow = new AmbientGlow(video)
+      const onZones = vi.fn()
+      glow.on('zones', onZones)
+
+      video.dispatchEvent(new Event('seeked'))
+      glow.updateOptions({ zones: {} })
+      expect(onZones).toHaveBeenCalledTimes(1)
+      expect(onZones.mock.calls[0][0].colors).toHaveLength(40)
+
+      glow.updateOptions({ zones: null })
+      video.dispatchEvent(new Event('seeked'))
+      expect(onZones).toHaveBeenCalledTimes(1)
+      glow.destroy()
+    })
+
+    it('feeds sinks until removed, and closes them on destroy', () => {
+      const glow = new AmbientGlow(video, { zones: {} })
+      const kept = { send: vi.fn(), close: vi.fn() }
+      const removed = { send: vi.fn(), close: vi.fn() }
+      glow.addZoneSink(kept)
+      glow.addZoneSink(kept)
+      glow.addZoneSink(removed)
+
+      video.dispatchEvent(new Event('seeked'))
+      glow.removeZoneSink(removed)
+      video.dispatchEvent(new Event('seeked'))
+
+      expect(kept.send).toHaveBeenCalledTimes(2)
+      expect(removed.send).toHaveBeenCalledTimes(1)
+
+      glow.destroy()
+      expect(kept.close).toHaveBeenCalled()
+      expect(removed.close).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('palette', () => {
+    let getImageData: Mock<CanvasRenderingContext2D['getImageData']>
+    let original: CanvasRenderingContext2D['getImageData'] | undefined
+    let time: number
+    let value: number
+
+    /** Flat opaque frames in the current gray value. */
+    const flat = (_x: number, _y: number, w: number, h: number) => {
+      const data = new Uint8ClampedArray(w * h * 4).fill(value)
+      for (let i = 3; i < data.length; i += 4) data[i] = 255
+      return { data, width: w, height: h } as ImageData
+    }
+
+    // Seeks snap the blend, so each draw shows the new gray right away
+    const drawFrame = (gray: number, elapsed = 1000) => {
+      value = gray
+      time += elapsed
+      video.dispatchEvent(new Event('seeked'))
+    }
+
+    beforeEach(() => {
+      Object.defineProperty(video, 'videoWidth', { value: 1280 })
+      Object.defineProperty(video, 'videoHeight', { value: 720 })
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        configurable: true
+      })
+      time = 0
+      value = 0
+      vi.spyOn(performance, 'now').mockImplementation(() => time)
+
+      const ctx = document.createElement('canvas').getContext('2d')!
+      getImageData = vi.mocked(ctx.getImageData)
+      original = getImageData.getMockImplementation()
+      getImageData.mockImplementation(flat)
+    })
+
+    afterEach(() => {
+      getImageData.mockImplementation(original!)
+      vi.restoreAllMocks()
+    })
+
+    it('has no colors before the first frame', () => {
+      const glow = new AmbientGlow(video)
+      expect(glow.getDominantColor()).toBeNull()
+      expect(glow.getPalette()).toEqual([])
+      glow.destroy()
+    })
+
+    it('reads the dominant color from the glow', () => {
+      const glow = new AmbientGlow(video)
+      drawFrame(128)
+
+      expect(glow.getDominantColor()).toMatchObject({
+        r: 128,
+        g: 128,
+        b: 128,
+        hex: '#808080',
+        population: 1
+      })
+      expect(glow.getPalette(3)).toHaveLength(1)
+      glow.destroy()
+    })
+
+    it('emits colorchange for the first palette and big moves', () => {
+      const glow = new AmbientGlow(video)
+      const onChange = vi.fn()
+      glow.on('colorchange', onChange)
+
+      drawFrame(128)
+      expect(onChange).toHaveBeenCalledTimes(1)
+      expect(onChange.mock.calls[0][0]).toMatchObject({
+        dominant: { hex: '#808080' },
+        distance: null
+      })
+
+      // Barely different
+      drawFrame(130)
+      expect(onChange).toHaveBeenCalledTimes(1)
+
+      drawFrame(240)
+      expect(onChange).toHaveBeenCalledTimes(2)
+      expect(onChange.mock.calls[1][0].distance).toBeGreaterThan(10)
+      glow.destroy()
+    })
+
+    it('checks for color changes at most twice a second', () => {
+      const glow = new AmbientGlow(video)
+      const onChange = vi.fn()
+      glow.on('colorchange', onChange)
+
+      drawFrame(128)
+      drawFrame(20, 100)
+      expect(onChange).toHaveBeenCalledTimes(1)
+
+      drawFrame(20, 500)
+      expect(onChange).toHaveBeenCalledTimes(2)
+      glow.destroy()
+    })
+
+    it('publishes CSS variables on the parent', () => {
+      const glow = new AmbientGlow(video, { cssVariables: true })
+      drawFrame(255)
+
+      expect(parent.style.getPropertyValue('--ambient-glow-color')).toBe(
+        '#ffffff'
+      )
+      expect(parent.style.getPropertyValue('--ambient-glow-accent')).toBe(
+        '#ffffff'
+      )
+      expect(parent.style.getPropertyValue('--ambient-glow-luminance')).toBe(
+        '1.000'
+      )
+
+      // Rate limited like colorchange
+      drawFrame(0, 100)
+      expect(parent.style.getPropertyValue('--ambient-glow-color')).toBe(
+        '#ffffff'
+      )
+      drawFrame(0, 500)
+      expect(parent.style.getPropertyValue('--ambient-glow-color')).toBe(
+        '#000000'
+      )
+
+      glow.destroy()
+      expect(parent.style.getPropertyValue('--ambient-glow-color')).toBe('')
+    })
+
+    describe('theme color', () => {
+      let meta: HTMLMetaElement
+
+      beforeEach(() => {
+        meta = document.createElement('meta')
+        meta.name = 'theme-color'
+        meta.content = '#123456'
+        document.head.appendChild(meta)
+        vi.spyOn(video, 'getBoundingClientRect').mockReturnValue(
+          new DOMRect(0, 0, 640, 360)
+        )
+      })
+
+      afterEach(() => {
+        document.head.innerHTML = ''
+      })
+
+      it('eases the tag toward the glow and restores it on destroy', () => {
+        const glow = new AmbientGlow(video, { themeColor: true })
+        drawFrame(0)
+        expect(meta.content).toBe('#000000')
+
+        drawFrame(255, 500)
+        const red = parseInt(meta.content.slice(1, 3), 16)
+        expect(red).toBeGreaterThan(0)
+        expect(red).toBeLessThan(255)
+
+        glow.destroy()
+        expect(meta.content).toBe('#123456')
+      })
+
+      it('lets the more prominent glow control the tag', () => {
+        const otherVideo = document.createElement('video')
+        Object.defineProperty(otherVideo, 'readyState', { value: 2 })
+        parent.appendChild(otherVideo)
+        vi.spyOn(otherVideo, 'getBoundingClientRect').mockReturnValue(
+          new DOMRect(0, 400, 160, 90)
+        )
+        const large = new AmbientGlow(video, { themeColor: true })
+        const small = new AmbientGlow(otherVideo, { themeColor: true })
+
+        drawFrame(64)
+        value = 200
+        otherVideo.dispatchEvent(new Event('seeked'))
+        expect(meta.content).toBe('#404040')
+
+        large.updateOptions({ themeColor: false })
+        otherVideo.dispatchEvent(new Event('seeked'))
+        expect(meta.content).toBe('#c8c8c8')
+
+        small.destroy()
+        large.destroy()
+        expect(meta.content).toBe('#123456')
+      })
+    })
+
+    it('moves CSS variables to a new target and prefix', () => {
+      const target = document.createElement('div')
+      const glow = new AmbientGlow(video, { cssVariables: true })
+      drawFrame(128)
+
+      glow.updateOptions({ cssVariables: { target, prefix: '--player' } })
+      expect(parent.style.getPropertyValue('--ambient-glow-color')).toBe('')
+      expect(target.style.getPropertyValue('--player-color')).toBe('#808080')
+
+      glow.updateOptions({ cssVariables: false })
+      expect(target.style.getPropertyValue('--player-color')).toBe('')
+      glow.destroy()
+    })
+  })
+
+  describe('tainted video', () => {
+    let getImageData: Mock<CanvasRenderingContext2D['getImageData']>
+    let original: CanvasRenderingContext2D['getImageData'] | undefined
+    let consoleWarnSpy: ReturnType<typeof vi.spyOn>
+
+    const insecure = () => {
+      throw new DOMException('The operation is insecure.', 'SecurityError')
+    }
+
+    const readable = (_x: number, _y: number, w: number, h: number) =>
+      ({
+        data: new Uint8ClampedArray(w * h * 4).fill(255),
+        width: w,
+        height: h
+      }) as ImageData
+
+    // happy-dom drops gradients it can't parse, so record what gets assigned
+    const trackBackground = (element: HTMLElement) => {
+      let background = ''
+      Object.defineProperty(element.style, 'backgroundImage', {
+        configurable: true,
+        get: () => background,
+        set: (value: string) => {
+          background = value
+        }
+      })
+      return () => background
+    }
+
+    const getGlowElement = (glow: AmbientGlow) => glow.getDebugInfo().element
+
+    beforeEach(() => {
+      Object.defineProperty(video, 'videoWidth', { value: 1280 })
+      Object.defineProperty(video, 'videoHeight', { value: 720 })
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        configurable: true
+      })
+      consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      const ctx = document.createElement('canvas').getContext('2d')!
+      getImageData = vi.mocked(ctx.getImageData)
+      original = getImageData.getMockImplementation()
+      getImageData.mockClear()
+      getImageData.mockImplementation(insecure)
+    })
+
+    afterEach(() => {
+      getImageData.mockImplementation(original!)
+      vi.restoreAllMocks()
+    })
+
+    it('reports a tainted source once and hides the glow', () => {
+      const glow = new AmbientGlow(video)
+      const onError = vi.fn()
+      glow.on('error', onError)
+
+      video.dispatchEvent(new Event('seeked'))
+      video.dispatchEvent(new Event('seeked'))
+
+      expect(onError).toHaveBeenCalledTimes(1)
+      const [{ code, error }] = onError.mock.calls[0]
+      expect(code).toBe('tainted')
+      expect(error.message).toMatch(/^AmbientGlow: .*CORS/)
+      expect(error.cause).toBeInstanceOf(DOMException)
+      expect(getImageData).toHaveBeenCalledTimes(1)
+      expect(getGlowElement(glow).style.visibility).toBe('hidden')
+      glow.destroy()
+    })
+
+    it('warns once without an error listener', () => {
+      const glow = new AmbientGlow(video)
+      video.dispatchEvent(new Event('seeked'))
+      video.dispatchEvent(new Event('seeked'))
+
+      expect(consoleWarnSpy).toHaveBeenCalledTimes(1)
+      glow.destroy()
+    })
+
+    it('glows a static color', () => {
+      const glow = new AmbientGlow(video, {
+        taintedFallback: { type: 'color', color: [0, 128, 255] }
+      })
+      const background = trackBackground(getGlowElement(glow))
+      video.dispatchEvent(new Event('seeked'))
+
+      expect(background()).toContain('rgb(0, 128, 255)')
+      expect(getGlowElement(glow).style.visibility).toBe('')
+      glow.destroy()
+    })
+
+    it('follows a color track through the video', () => {
+      const glow = new AmbientGlow(video, {
+        taintedFallback: {
+          type: 'track',
+          cues: [
+            { time: 0, color: [255, 0, 0] },
+            { time: 30, color: [0, 0, 255] }
+          ]
+        }
+      })
+      const background = trackBackground(getGlowElement(glow))
+      video.dispatchEvent(new Event('seeked'))
+      expect(background()).toContain('rgb(255, 0, 0)')
+
+      video.currentTime = 45
+      video.dispatchEvent(new Event('seeked'))
+      expect(background()).toContain('rgb(0, 0, 255)')
+      glow.destroy()
+    })
+
+    it('samples through new canvases after loadstart', () => {
+      // Like a browser: a canvas a cross-origin frame was drawn into stays
+      // tainted, whatever the source turns into later
+      let isCrossOrigin = true
+      const shared = document.createElement('canvas').getContext('2d')!
+      const canvases: { tainted: boolean; draws: number }[] = []
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+        function (this: HTMLCanvasElement) {
+          const state = { tainted: false, draws: 0 }
+          canvases.push(state)
+          return {
+            ...shared,
+            canvas: this,
+            drawImage: vi.fn(() => {
+              state.draws++
+              if (isCrossOrigin) state.tainted = true
+            }),
+            getImageData: vi.fn((x: number, y: number, w: number, h: number) =>
+              state.tainted ? insecure() : readable(x, y, w, h)
+            )
+          } as CanvasRenderingContext2D
+        }
+      )
+      const glow = new AmbientGlow(video, { zones: {}, letterbox: true })
+      const onError = vi.fn()
+      glow.on('error', onError)
+      video.dispatchEvent(new Event('seeked'))
+
+      const tainted = canvases.filter(canvas => canvas.tainted)
+      expect(tainted.length).toBeGreaterThan(0)
+      expect(onError).toHaveBeenCalledTimes(1)
+      const taintedDraws = tainted.map(canvas => canvas.draws)
+
+      isCrossOrigin = false
+      video.crossOrigin = 'anonymous'
+      video.dispatchEvent(new Event('loadstart'))
+      video.dispatchEvent(new Event('seeked'))
+
+      expect(tainted.map(canvas => canvas.draws)).toEqual(taintedDraws)
+      expect(glow.getDominantColor()).not.toBeNull()
+      expect(glow.getDebugInfo().element.style.visibility).toBe('')
+      expect(onError).toHaveBeenCalledTimes(1)
+      glow.destroy()
+    })
+  })
+
+  describe('fullscreen layout', () => {
+    const setFullscreenElement = (value: Element | null) => {
+      Object.defineProperty(document, 'fullscreenElement', {
+        value,
+        configurable: true
+      })
+      document.dispatchEvent(new Event('fullscreenchange'))
+    }
+
+    beforeEach(() => {
+      Object.defineProperty(video, 'videoWidth', { value: 1280 })
+      Object.defineProperty(video, 'videoHeight', { value: 720 })
+      vi.spyOn(video, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(0, 0, 640, 360)
+      )
+    })
+
+    afterEach(() => {
+      Object.defineProperty(document, 'fullscreenElement', {
+        value: null,
+        configurable: true
+      })
+      vi.restoreAllMocks()
+    })
+
+    it('fills the fullscreen container and restores on exit', () => {
+      const wrapper = document.createElement('div')
+      document.body.appendChild(wrapper)
+      wrapper.appendChild(parent)
+      vi.spyOn(wrapper, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(0, 0, 1920, 1080)
+      )
+      vi.spyOn(parent, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(0, 60, 1920, 960)
+      )
+      const glow = new AmbientGlow(video, { scale: 1.5 })
+      const canvas = parent.querySelector('canvas') as HTMLCanvasElement
+      expect(canvas.style.width).toBe('960px')
+
+      setFullscreenElement(wrapper)
+      expect(canvas.style.width).toBe('1920px')
+      expect(canvas.style.height).toBe('1080px')
+      expect(canvas.style.top).toBe('-60px')
+      expect(canvas.style.transform).toBe('none')
+      expect(glow.getRenderState().shouldRender).toBe(true)
+
+      setFullscreenElement(null)
+      expect(canvas.style.width).toBe('960px')
+      expect(canvas.style.height).toBe('540px')
+      expect(canvas.style.top).toBe('50%')
+      expect(canvas.style.transform).toBe('translate(-50%, -50%)')
+      glow.destroy()
+    })
+
+    it('keeps the scaled layout with fillFullscreen off', () => {
+      const glow = new AmbientGlow(video, { fillFullscreen: false })
+      const canvas = parent.querySelector('canvas') as HTMLCanvasElement
+
+      setFullscreenElement(parent)
+      expect(canvas.style.width).toBe(`${640 * 1.08}px`)
+
+      glow.updateOptions({ fillFullscreen: true })
+      expect(canvas.style.transform).toBe('none')
+      glow.destroy()
+    })
+  })
+
+  describe('worker mode', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      vi.restoreAllMocks()
+    })
+
+    it('falls back to the main thread when workers are unavailable', () => {
+      vi.stubGlobal('Worker', undefined)
+      const getContextSpy = vi.spyOn(HTMLCanvasElement.prototype, 'getContext')
+
+      const glow = new AmbientGlow(video, { worker: true })
+
+      expect(getContextSpy).toHaveBeenCalledTimes(2) // Glow + temp canvas
+      expect(parent.querySelector('canvas')).toBeTruthy()
+      glow.destroy()
+    })
+
+    const stubWorker = () => {
+      const postMessage = vi.fn()
+      const terminate = vi.fn()
+      vi.stubGlobal(
+        'Worker',
+        vi.fn(function (this: Worker) {
+          this.postMessage = postMessage
+          this.terminate = terminate
+        })
+      )
+      vi.stubGlobal('OffscreenCanvas', vi.fn())
+      vi.stubGlobal('createImageBitmap', vi.fn())
+      vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:glow-worker')
+      vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {})
+      const offscreen = {}
+      const transferSpy = vi
+        .spyOn(HTMLCanvasElement.prototype, 'transferControlToOffscreen')
+        .mockReturnValue(offscreen as OffscreenCanvas)
+      return { postMessage, terminate, offscreen, transferSpy }
+    }
+
+    it('transfers the glow canvas to a worker when supported', () => {
+      const { postMessage, terminate, offscreen, transferSpy } = stubWorker()
+      const getContextSpy = vi.spyOn(HTMLCanvasElement.prototype, 'getContext')
+
+      const glow = new AmbientGlow(video, { worker: true })
+
+      expect(transferSpy).toHaveBeenCalledTimes(1)
+      expect(getContextSpy).not.toHaveBeenCalled() // Canvas lives in the worker
+      expect(postMessage).toHaveBeenCalledWith(
+        { type: 'init', canvas: offscreen },
+        [offscreen]
+      )
+
+      glow.destroy()
+      expect(terminate).toHaveBeenCalled()
+    })
+
+    it('warns that palette features have no pixels to read', () => {
+      stubWorker()
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn()
+      }
+      const message =
+        'AmbientGlow: getPalette, colorchange, cssVariables and themeColor need the glow pixels, which stay in the worker'
+
+      const glow = new AmbientGlow(video, { worker: true, logger })
+      expect(glow.getPalette()).toEqual([])
+      expect(logger.warn).toHaveBeenCalledWith(message, expect.anything())
+      glow.destroy()
+
+      const themed = new AmbientGlow(video, {
+        worker: true,
+        themeColor: true,
+        logger
+      })
+      expect(logger.warn).toHaveBeenCalledTimes(2)
+      themed.destroy()
+    })
+
+    it('does not warn about palette features on the main thread', () => {
+      vi.stubGlobal('Worker', undefined)
+      const warn = vi.fn()
+      const glow = new AmbientGlow(video, {
+        worker: true,
+        cssVariables: true,
+        logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() }
+      })
+
+      glow.getPalette()
+      expect(warn).not.toHaveBeenCalled()
+      glow.destroy()
+    })
+  })
+
+  describe('events', () => {
+    // seeked replaces the glow, canplay blends the next frame into it
+    const drawTwoFrames = () => {
+      video.dispatchEvent(new Event('seeked'))
+      video.dispatchEvent(new Event('canplay'))
+    }
+
+    // Mock getImageData is shared by every mocked 2D context
+    const nextFrameIsWhite = () => {
+      const ctx = document.createElement('canvas').getContext('2d')!
+      vi.mocked(ctx.getImageData).mockImplementationOnce(
+        (_x: number, _y: number, w: number, h: number) =>
+          ({
+            data: new Uint8ClampedArray(w * h * 4).fill(255),
+            width: w,
+            height: h
+          }) as ImageData
+      )
+    }
+
+    beforeEach(() => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        writable: true,
+        configurable: true
+      })
+    })
+
+    it('emits scenechange on a hard cut', () => {
+      const glow = new AmbientGlow(video, { sceneCutThreshold: 0.25 })
+      const listener = vi.fn()
+      glow.on('scenechange', listener)
+
+      nextFrameIsWhite()
+      drawTwoFrames() // Mock frames are black by default
+
+      expect(listener).toHaveBeenCalledWith({
+        difference: 1,
+        currentTime: video.currentTime
+      })
+      glow.destroy()
+    })
+
+    it('does not emit scenechange when detection is disabled', () => {
+      const glow = new AmbientGlow(video)
+      const listener = vi.fn()
+      glow.on('scenechange', listener)
+
+      nextFrameIsWhite()
+      drawTwoFrames()
+
+      expect(listener).not.toHaveBeenCalled()
+      glow.destroy()
+    })
+
+    it('emits frame after each draw', () => {
+      const glow = new AmbientGlow(video)
+      const onFrame = vi.fn()
+      glow.on('frame', onFrame)
+
+      drawTwoFrames()
+
+      expect(onFrame).toHaveBeenCalledTimes(2)
+      expect(onFrame.mock.calls[0][0]).toMatchObject({
+        currentTime: video.currentTime,
+        reset: true
+      })
+      expect(onFrame.mock.calls[1][0].reset).toBe(false)
+      expect(onFrame.mock.calls[1][0].drawCostMs).toBeGreaterThanOrEqual(0)
+      glow.destroy()
+    })
+
+    it('emits start and stop as playback starts and stops', () => {
+      const glow = new AmbientGlow(video)
+      const onStart = vi.fn()
+      const onStop = vi.fn()
+      glow.on('start', onStart)
+      glow.on('stop', onStop)
+
+      video.dispatchEvent(new Event('play'))
+      video.dispatchEvent(new Event('play'))
+      expect(onStart).toHaveBeenCalledTimes(1)
+
+      video.dispatchEvent(new Event('pause'))
+      video.dispatchEvent(new Event('ended'))
+      expect(onStop).toHaveBeenCalledTimes(1)
+      expect(onStop).toHaveBeenCalledWith({
+        reason: 'pause',
+        currentTime: video.currentTime
+      })
+
+      video.dispatchEvent(new Event('play'))
+      glow.destroy()
+      expect(onStop).toHaveBeenLastCalledWith({
+        reason: 'destroy',
+        currentTime: video.currentTime
+      })
+    })
+
+    it('emits stop with the reason the glow was hidden', () => {
+      const glow = new AmbientGlow(video)
+      const onStop = vi.fn()
+      glow.on('stop', onStop)
+
+      video.dispatchEvent(new Event('play'))
+      Object.defineProperty(document, 'hidden', {
+        value: true,
+        configurable: true
+      })
+      document.dispatchEvent(new Event('visibilitychange'))
+      Object.defineProperty(document, 'hidden', {
+        value: false,
+        configurable: true
+      })
+
+      expect(onStop.mock.calls[0][0].reason).toBe('hidden')
+      glow.destroy()
+    })
+
+    it('emits resize when the glow size changes', () => {
+      Object.defineProperty(video, 'videoWidth', { value: 1280 })
+      Object.defineProperty(video, 'videoHeight', { value: 720 })
+      vi.spyOn(video, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(0, 0, 640, 360)
+      )
+      const glow = new AmbientGlow(video, { scale: 1 })
+      const onResize = vi.fn()
+      glow.on('resize', onResize)
+
+      video.dispatchEvent(new Event('loadedmetadata'))
+      expect(onResize).not.toHaveBeenCalled()
+
+      glow.updateOptions({ scale: 1.5 })
+      expect(onResize).toHaveBeenCalledTimes(1)
+      expect(onResize.mock.calls[0][0]).toMatchObject({
+        displayWidth: 960,
+        displayHeight: 540
+      })
+      glow.destroy()
+      vi.restoreAllMocks()
+    })
+
+    it('emits draw errors instead of warning', () => {
+      const consoleWarnSpy = vi
+        .spyOn(console, 'warn')
+        .mockImplementation(() => {})
+      const ctx = document.createElement('canvas').getContext('2d')!
+      vi.mocked(ctx.drawImage).mockImplementationOnce(() => {
+        throw new Error('CORS error')
+      })
+      const glow = new AmbientGlow(video)
+      const onError = vi.fn()
+      glow.on('error', onError)
+
+      video.dispatchEvent(new Event('seeked'))
+
+      expect(onError).toHaveBeenCalledWith({
+        code: 'draw',
+        error: expect.objectContaining({ message: 'CORS error' }),
+        currentTime: video.currentTime
+      })
+      expect(consoleWarnSpy).not.toHaveBeenCalled()
+      glow.destroy()
+      consoleWarnSpy.mockRestore()
+    })
+
+    it('emits destroy once, then drops every listener', () => {
+      const glow = new AmbientGlow(video)
+      const onDestroy = vi.fn()
+      const onFrame = vi.fn()
+      glow.on('destroy', onDestroy)
+      glow.on('frame', onFrame)
+
+      glow.destroy()
+      glow.destroy()
+      video.dispatchEvent(new Event('seeked'))
+
+      expect(onDestroy).toHaveBeenCalledTimes(1)
+      expect(onFrame).not.toHaveBeenCalled()
+    })
+
+    it('calls once listeners for the next event only', () => {
+      const glow = new AmbientGlow(video)
+      const onFrame = vi.fn()
+      glow.once('frame', onFrame)
+
+      drawTwoFrames()
+
+      expect(onFrame).toHaveBeenCalledTimes(1)
+      glow.destroy()
+    })
+
+    it('stops calling listeners removed with off', () => {
+      const glow = new AmbientGlow(video, { sceneCutThreshold: 0.25 })
+      const listener = vi.fn()
+      glow.on('scenechange', listener)
+      glow.off('scenechange', listener)
+
+      nextFrameIsWhite()
+      drawTwoFrames()
+
+      expect(listener).not.toHaveBeenCalled()
+      glow.destroy()
+    })
+  })
+
+  describe('stats', () => {
+    let drawImage: Mock<CanvasRenderingContext2D['drawImage']>
+    let original: CanvasRenderingContext2D['drawImage'] | undefined
+    let time: number
+
+    const setReadyState = (value: number) => {
+      Object.defineProperty(video, 'readyState', { value, configurable: true })
+    }
+
+    beforeEach(() => {
+      setReadyState(2)
+      time = 1000
+      vi.spyOn(performance, 'now').mockImplementation(() => time)
+
+      // Each drawImage call moves the clock 1ms
+      const ctx = document.createElement('canvas').getContext('2d')!
+      drawImage = vi.mocked(ctx.drawImage)
+      original = drawImage.getMockImplementation()
+      drawImage.mockImplementation(() => {
+        time += 1
+      })
+    })
+
+    afterEach(() => {
+      drawImage.mockImplementation(original ?? (() => {}))
+      vi.restoreAllMocks()
+    })
+
+    it('collects nothing unless enabled', () => {
+      const glow = new AmbientGlow(video)
+      video.dispatchEvent(new Event('seeked'))
+
+      expect(glow.getStats()).toMatchObject({
+        collecting: false,
+        averageDrawMs: 0,
+        framesBlended: 0
+      })
+      glow.destroy()
+    })
+
+    it('measures draws, rate and skipped updates', () => {
+      const glow = new AmbientGlow(video, { stats: true })
+      video.dispatchEvent(new Event('seeked'))
+      time += 100
+      video.dispatchEvent(new Event('seeked'))
+      setReadyState(0)
+      video.dispatchEvent(new Event('seeked'))
+
+      const stats = glow.getStats()
+      expect(stats.collecting).toBe(true)
+      expect(stats.framesBlended).toBe(2)
+      expect(stats.skippedUpdates).toBe(1)
+      expect(stats.updatesPerSecond).toBe(2)
+      expect(stats.averageDrawMs).toBeGreaterThan(0)
+      expect(stats.p95DrawMs).toBeGreaterThanOrEqual(stats.averageDrawMs)
+      glow.destroy()
+    })
+
+    it('starts over when turned on', () => {
+      const glow = new AmbientGlow(video, { stats: true })
+      video.dispatchEvent(new Event('seeked'))
+      video.dispatchEvent(new Event('seeked'))
+      glow.updateOptions({ stats: false })
+      glow.updateOptions({ stats: true })
+
+      // Just the redraw for the update
+      expect(glow.getStats().framesBlended).toBe(1)
+      glow.destroy()
+    })
+
+    it('reports sizes, loop and visibility', () => {
+      Object.defineProperty(video, 'videoWidth', { value: 1280 })
+      Object.defineProperty(video, 'videoHeight', { value: 720 })
+      vi.spyOn(video, 'getBoundingClientRect').mockReturnValue(
+        new DOMRect(0, 0, 640, 360)
+      )
+      const glow = new AmbientGlow(video, { scale: 1.5 })
+      const canvas = parent.querySelector('canvas')!
+      video.dispatchEvent(new Event('play'))
+
+      const stats = glow.getStats()
+      expect(stats.bufferWidth).toBe(canvas.width)
+      expect(stats.bufferHeight).toBe(canvas.height)
+      expect(stats.cssWidth).toBe(960)
+      expect(stats.cssHeight).toBe(540)
+      expect(stats.isLooping).toBe(true)
+      expect(stats.isVisible).toBe(true)
+
+      video.dispatchEvent(new Event('pause'))
+      expect(glow.getStats().isLooping).toBe(false)
+      glow.destroy()
+    })
+
+    it('keeps the last error', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const glow = new AmbientGlow(video)
+      expect(glow.getDebugInfo().element.style.visibility).toBe('')
+
+      drawImage.mockImplementationOnce(() => {
+        throw new Error('Draw failed')
+      })
+      video.dispatchEvent(new Event('seeked'))
+
+      expect(glow.getStats().lastError?.message).toBe('Draw failed')
+      glow.destroy()
+    })
+  })
+
+  describe('getOptions', () => {
+    it('returns the options in effect', () => {
+      const glow = new AmbientGlow(video, { responsiveness: 0.4, blur: 50 })
+      glow.updateOptions({ opacity: 0.3 })
+
+      const options = glow.getOptions()
+      expect(options).toMatchObject({
+        blur: 50,
+        opacity: 0.3,
+        blendNew: 0.4,
+        blendOld: 0.6,
+        renderer: 'canvas2d'
+      })
+      expect(options.blendOld + options.blendNew).toBeCloseTo(1)
+      glow.destroy()
+    })
+
+    it('returns a copy', () => {
+      const glow = new AmbientGlow(video)
+      glow.getOptions().blur = 1
+      expect(glow.getOptions().blur).toBe(96)
+      glow.destroy()
+    })
+  })
+
+  describe('getDebugInfo', () => {
+    beforeEach(() => {
+      Object.defineProperty(video, 'videoWidth', { value: 1280 })
+      Object.defineProperty(video, 'videoHeight', { value: 720 })
+    })
+
+    it('reports the whole frame as sampled by default', () => {
+      const glow = new AmbientGlow(video)
+      const info = glow.getDebugInfo()
+
+      expect(info.video).toBe(video)
+      expect(info.element).toBe(parent.querySelector('canvas'))
+      expect(info.rendererType).toBe('canvas2d')
+      expect(info.sampleRegion).toEqual({ x: 0, y: 0, width: 1, height: 1 })
+      expect(info.excludeRegions).toEqual([])
+      expect(info.blendedPixels).toBeNull()
+      glow.destroy()
+    })
+
+    it('reports the sample region and exclusions in effect', () => {
+      const logo = { x: 0.85, y: 0.05, width: 0.1, height: 0.1 }
+      const glow = new AmbientGlow(video, {
+        sampleRegion: { x: 0.25, y: 0, width: 0.5, height: 1 },
+        excludeRegions: () => [logo]
+      })
+      const info = glow.getDebugInfo()
+
+      expect(info.sampleRegion).toEqual({
+        x: 0.25,
+        y: 0,
+        width: 0.5,
+        height: 1
+      })
+      expect(info.excludeRegions).toEqual([logo])
+      glow.destroy()
+    })
+  })
+
+  describe('logging', () => {
+    const createMockLogger = () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn()
+    })
+
+    const failNextDraw = () => {
+      const ctx = document.createElement('canvas').getContext('2d')!
+      vi.mocked(ctx.drawImage).mockImplementationOnce(() => {
+        throw new Error('Draw failed')
+      })
+    }
+
+    beforeEach(() => {
+      Object.defineProperty(video, 'readyState', {
+        value: 2,
+        configurable: true
+      })
+      Object.defineProperty(video, 'currentSrc', {
+        value: 'https://example.com/movie.mp4',
+        configurable: true
+      })
+    })
+
+    afterEach(() => {
+      AmbientGlow.configureLogging({ logger: null, level: 'warn' })
+      vi.restoreAllMocks()
+    })
+
+    it('sends warnings to the logger with the instance context', () => {
+      const logger = createMockLogger()
+      const glow = new AmbientGlow(video, { logger })
+      const other = new AmbientGlow(video, { logger })
+      glow.destroy()
+      glow.updateOptions({ blur: 10 })
+      other.destroy()
+      other.updateOptions({ blur: 10 })
+
+      const [[message, context], [, otherContext]] = logger.warn.mock.calls
+      expect(message).toBe(
+        'AmbientGlow: Cannot update options on destroyed instance'
+      )
+      expect(context).toEqual({
+        instanceId: expect.any(Number),
+        src: 'https://example.com/movie.mp4',
+        state: 'destroyed'
+      })
+      expect(otherContext.instanceId).not.toBe(context.instanceId)
+    })
+
+    it('logs repeated draw failures once per source', () => {
+      const logger = createMockLogger()
+      const glow = new AmbientGlow(video, { logger })
+
+      failNextDraw()
+      video.dispatchEvent(new Event('seeked'))
+      failNextDraw()
+      video.dispatchEvent(new Event('seeked'))
+      expect(logger.warn).toHaveBeenCalledTimes(1)
+      expect(logger.warn).toHaveBeenCalledWith(
+        'AmbientGlow: Failed to draw frame',
+        expect.objectContaining({
+          state: 'idle',
+          detail: expect.objectContaining({ message: 'Draw failed' })
+        })
+      )
+
+      video.dispatchEvent(new Event('loadstart'))
+      failNextDraw()
+      video.dispatchEvent(new Event('seeked'))
+      expect(logger.warn).toHaveBeenCalledTimes(2)
+      glow.destroy()
+    })
+
+    it('logs lifecycle diagnostics at the debug level', () => {
+      const logger = createMockLogger()
+      const glow = new AmbientGlow(video, { logger })
+      video.dispatchEvent(new Event('play'))
+      expect(logger.debug).not.toHaveBeenCalled()
+
+      glow.updateOptions({ logLevel: 'debug' })
+      video.dispatchEvent(new Event('pause'))
+      video.dispatchEvent(new Event('play'))
+      glow.destroy()
+
+      expect(logger.debug.mock.calls.map(([message]) => message)).toEqual([
+        'AmbientGlow: Stopped',
+        'AmbientGlow: Started',
+        'AmbientGlow: Stopped',
+        'AmbientGlow: Destroyed'
+      ])
+      expect(logger.debug.mock.calls[0][1].detail).toEqual({ reason: 'pause' })
+      expect(logger.debug.mock.calls[1][1].state).toBe('running')
+    })
+
+    it('logs nothing when silent', () => {
+      const logger = createMockLogger()
+      const glow = new AmbientGlow(video, { logger, logLevel: 'silent' })
+      glow.destroy()
+      glow.updateOptions({ blur: 10 })
+      expect(logger.warn).not.toHaveBeenCalled()
+    })
+
+    it('uses the page-wide logger and level unless overridden', () => {
+      const pageLogger = createMockLogger()
+      const ownLogger = createMockLogger()
+      AmbientGlow.configureLogging({ logger: pageLogger, level: 'debug' })
+
+      const glow = new AmbientGlow(video)
+      const own = new AmbientGlow(video, { logger: ownLogger })
+      expect(pageLogger.debug).toHaveBeenCalledWith(
+        'AmbientGlow: Created with the canvas2d renderer',
+        expect.objectContaining({ state: 'idle' })
+      )
+      expect(ownLogger.debug).toHaveBeenCalledTimes(1)
+      expect(pageLogger.debug).toHaveBeenCalledTimes(1)
+      glow.destroy()
+      own.destroy()
+    })
+
+    it('routes listener errors to the logger', () => {
+      const logger = createMockLogger()
+      const glow = new AmbientGlow(video, { logger })
+      const error = new Error('boom')
+      glow.on('destroy', () => {
+        throw error
+      })
+
+      glow.destroy()
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'AmbientGlow: Listener for "destroy" threw',
+        expect.objectContaining({ detail: error })
+      )
+    })
+  })
+
   describe('accessibility', () => {
     it('sets canvas aria-hidden attribute', () => {
       const glow = new AmbientGlow(video)
@@ -0,0 +1,531 @@
+/**
+ * Unit tests for the WebGL renderer (mocked GL context).
+ *
+ * @module lib/webglRenderer
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  createWebGLRenderer,
+  createProgram,
+  getBufferInset,
+  getTextureCrop
+} from '../src/lib/webglRenderer'
+import { createRenderer } from '../src/lib/renderer'
+import type { RenderFrame } from '../src/lib/glowRenderer'
+import { AmbientGlow } from '../src/index'
+import { DEFAULT_OPTIONS } from '../src/constants'
+import type { NormalizedGlowOptions } from '../src/types'
+
+/**
+ * Builds a WebGL context stub: every method is a spy and resource
+ * constructors hand back unique objects.
+ */
+const createMockGL = () => {
+  let id = 0
+  const resource = () => ({ id: ++id })
+  return {
+    VERTEX_SHADER: 0x8b31,
+    FRAGMENT_SHADER: 0x8b30,
+    COMPILE_STATUS: 0x8b81,
+    LINK_STATUS: 0x8b82,
+    TEXTURE_2D: 0x0de1,
+    TEXTURE0: 0x84c0,
+    TEXTURE1: 0x84c1,
+    FRAMEBUFFER: 0x8d40,
+    COLOR_BUFFER_BIT: 0x4000,
+    COLOR_ATTACHMENT0: 0x8ce0,
+    ARRAY_BUFFER: 0x8892,
+    STATIC_DRAW: 0x88e4,
+    FLOAT: 0x1406,
+    TRIANGLE_STRIP: 0x0005,
+    RGBA: 0x1908,
+    UNSIGNED_BYTE: 0x1401,
+    LINEAR: 0x2601,
+    CLAMP_TO_EDGE: 0x812f,
+    TEXTURE_MIN_FILTER: 0x2801,
+    TEXTURE_MAG_FILTER: 0x2800,
+    TEXTURE_WRAP_S: 0x2802,
+    TEXTURE_WRAP_T: 0x2803,
+    UNPACK_FLIP_Y_WEBGL: 0x9240,
+    createShader: vi.fn(resource),
+    shaderSource: vi.fn(),
+    compileShader: vi.fn(),
+    getShaderParameter: vi.fn(() => true),
+    getShaderInfoLog: vi.fn(() => 'shader log'),
+    deleteShader: vi.fn(),
+    createProgram: vi.fn(resource),
+    attachShader: vi.fn(),
+    bindAttribLocation: vi.fn(),
+    linkProgram: vi.fn(),
+    getProgramParameter: vi.fn(() => true),
+    getProgramInfoLog: vi.fn(() => 'program log'),
+    deleteProgram: vi.fn(),
+    useProgram: vi.fn(),
+    getUniformLocation: vi.fn((_program: unknown, name: string) => ({ name })),
+    uniform1i: vi.fn(),
+    uniform1f: vi.fn(),
+    uniform2f: vi.fn(),
+    uniform4f: vi.fn(),
+    createTexture: vi.fn(resource),
+    bindTexture: vi.fn(),
+    texParameteri: vi.fn(),
+    texImage2D: vi.fn(),
+    activeTexture: vi.fn(),
+    deleteTexture: vi.fn(),
+    createFramebuffer: vi.fn(resource),
+    bindFramebuffer: vi.fn(),
+    framebufferTexture2D: vi.fn(),
+    deleteFramebuffer: vi.fn(),
+    readPixels: vi.fn(),
+    clearColor: vi.fn(),
+    clear: vi.fn(),
+    createBuffer: vi.fn(resource),
+    bindBuffer: vi.fn(),
+    bufferData: vi.fn(),
+    deleteBuffer: vi.fn(),
+    enableVertexAttribArray: vi.fn(),
+    vertexAttribPointer: vi.fn(),
+    pixelStorei: vi.fn(),
+    viewport: vi.fn(),
+    drawArrays: vi.fn()
+  }
+}
+
+type MockGL = ReturnType<typeof createMockGL>
+
+const callbacks = () => ({ onSceneChange: vi.fn(), onError: vi.fn() })
+
+const renderFrame = (overrides: Partial<RenderFrame> = {}): RenderFrame => ({
+  options: { ...DEFAULT_OPTIONS, smoothingMs: 100 },
+  elapsedMs: 100,
+  reset: false,
+  blurRadius: 0,
+  source: null,
+  ...overrides
+})
+
+const readyVideo = () => {
+  const video = document.createElement('video')
+  Object.defineProperty(video, 'readyState', {
+    value: 2,
+    configurable: true
+  })
+  return video
+}
+
+/** Values passed to uniform1f for a named uniform, in call order. */
+const uniformValues = (gl: MockGL, name: string) =>
+  gl.uniform1f.mock.calls
+    .filter(([location]) => (location as { name: string }).name === name)
+    .map(([, value]) => value)
+
+describe('webglRenderer utilities', () => {
+  let gl: MockGL
+
+  beforeEach(() => {
+    gl = createMockGL()
+    const getContext = HTMLCanvasElement.prototype.getContext
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      function (this: HTMLCanvasElement, type: string, options?: unknown) {
+        if (type === 'webgl') return gl as unknown as WebGLRenderingContext
+        return getContext.call(this, type, options)
+      } as typeof getContext
+    )
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    document.body.innerHTML = ''
+  })
+
+  describe('getTextureCrop', () => {
+    it('uses the whole texture without a source rect', () => {
+      expect(getTextureCrop(null, 1920, 1080)).toEqual([0, 0, 1, 1])
+    })
+
+    it('counts y up from the bottom of the flipped texture', () => {
+      expect(
+        getTextureCrop({ x: 0, y: 0, width: 1920, height: 540 }, 1920, 1080)
+      ).toEqual([0, 0.5, 1, 0.5])
+    })
+  })
+
+  describe('getBufferInset', () => {
+    it('fills the whole buffer without padding', () => {
+      expect(getBufferInset(32, 18, 0)).toEqual([0, 0, 1, 1])
+    })
+
+    it('leaves the padding around the video', () => {
+      expect(getBufferInset(40, 20, 5)).toEqual([0.125, 0.25, 0.75, 0.5])
+    })
+  })
+
+  describe('createProgram', () => {
+    it('compiles and links both shaders', () => {
+      const program = createProgram(
+        gl as unknown as WebGLRenderingContext,
+        'void main() {}'
+      )
+      expect(program).toBeTruthy()
+      expect(gl.compileShader).toHaveBeenCalledTimes(2)
+      expect(gl.linkProgram).toHaveBeenCalledWith(program)
+    })
+
+    it('throws with the compile log when a shader fails', () => {
+      gl.getShaderParameter.mockReturnValue(false)
+      expect(() =>
+        createProgram(gl as unknown as WebGLRenderingContext, 'broken')
+      ).toThrow('AmbientGlow: Failed to compile WebGL shader: shader log')
+    })
+
+    it('throws with the link log when linking fails', () => {
+      gl.getProgramParameter.mockReturnValue(false)
+      expect(() =>
+        createProgram(gl as unknown as WebGLRenderingContext, 'void main() {}')
+      ).toThrow('AmbientGlow: Failed to link WebGL program: program log')
+    })
+  })
+
+  describe('createWebGLRenderer', () => {
+    it('returns null when WebGL is unavailable', () => {
+      vi.mocked(HTMLCanvasElement.prototype.getContext).mockReturnValue(null)
+      expect(createWebGLRenderer(DEFAULT_OPTIONS, callbacks())).toBeNull()
+    })
+
+    it('returns null and reports when shaders fail to build', () => {
+      gl.getShaderParameter.mockReturnValue(false)
+      const rendererCallbacks = callbacks()
+      expect(createWebGLRenderer(DEFAULT_OPTIONS, rendererCallbacks)).toBeNull()
+      expect(rendererCallbacks.onError).toHaveBeenCalledWith(expect.any(Error))
+    })
+
+    it('allocates accumulation and blur textures on resize', () => {
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.resize(32, 18)
+
+      expect(renderer.type).toBe('webgl')
+      expect((renderer.element as HTMLCanvasElement).width).toBe(32)
+      expect(gl.texImage2D).toHaveBeenCalledWith(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA,
+        32,
+        18,
+        0,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        null
+      )
+      expect(gl.framebufferTexture2D).toHaveBeenCalledTimes(4)
+    })
+
+    it('uploads the video and runs blend + output passes', () => {
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, callbacks())!
+      const video = readyVideo()
+      renderer.resize(32, 18)
+
+      expect(renderer.draw(video, renderFrame())).toBe(true)
+      expect(gl.texImage2D).toHaveBeenLastCalledWith(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        video
+      )
+      expect(gl.drawArrays).toHaveBeenCalledTimes(2)
+      // Output pass draws to the canvas itself
+      expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, null)
+    })
+
+    it('crops the frame texture to the visible source rect', () => {
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, callbacks())!
+      const video = readyVideo()
+      Object.defineProperty(video, 'videoWidth', { value: 1920 })
+      Object.defineProperty(video, 'videoHeight', { value: 1080 })
+      renderer.resize(32, 18)
+
+      renderer.draw(video, renderFrame())
+      expect(gl.uniform4f).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'u_crop' }),
+        0,
+        0,
+        1,
+        1
+      )
+
+      renderer.draw(
+        video,
+        renderFrame({ source: { x: 240, y: 0, width: 1440, height: 1080 } })
+      )
+      expect(gl.uniform4f).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'u_crop' }),
+        0.125,
+        0,
+        0.75,
+        1
+      )
+
+      // sampleRegion narrows it further - the top half, flipped
+      renderer.draw(
+        video,
+        renderFrame({
+          options: {
+            ...DEFAULT_OPTIONS,
+            sampleRegion: { x: 0, y: 0, width: 1, height: 0.5 }
+          }
+        })
+      )
+      expect(gl.uniform4f).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'u_crop' }),
+        0,
+        0.5,
+        1,
+        0.5
+      )
+    })
+
+    it('blends with time-based weights after the first frame', () => {
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, callbacks())!
+      const video = readyVideo()
+      renderer.resize(32, 18)
+
+      renderer.draw(video, renderFrame())
+      renderer.draw(video, renderFrame())
+      renderer.draw(video, renderFrame({ reset: true }))
+
+      const blendNew = uniformValues(gl, 'u_blendNew')
+      expect(blendNew[0]).toBe(1) // First frame isn't blended
+      expect(blendNew[1]).toBeCloseTo(1 - Math.exp(-1), 5)
+      expect(blendNew[2]).toBe(1) // Reset
+    })
+
+    it('applies brightness and saturation in the shader', () => {
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, callbacks())!
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        brightness: 1.3,
+        saturate: 1.6
+      }
+      renderer.resize(32, 18)
+      renderer.draw(readyVideo(), renderFrame({ options }))
+
+      expect(uniformValues(gl, 'u_brightness')).toEqual([1.3])
+      expect(uniformValues(gl, 'u_saturate')).toEqual([1.6])
+    })
+
+    it('keeps only blur and opacity in CSS', () => {
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.updateStyles({ ...DEFAULT_OPTIONS, blur: 50, opacity: 0.4 })
+
+      expect(renderer.element.style.filter).toBe('blur(50px)')
+      expect(renderer.element.style.opacity).toBe('0.4')
+    })
+
+    it('blurs in the shader with blurMode canvas', () => {
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, callbacks())!
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        blurMode: 'canvas'
+      }
+      renderer.resize(32, 18)
+      renderer.draw(readyVideo(), renderFrame({ options, blurRadius: 4 }))
+
+      // Blend, horizontal blur, vertical blur, output
+      expect(gl.drawArrays).toHaveBeenCalledTimes(4)
+      const step = 4 / Math.sqrt(3)
+      expect(gl.uniform2f.mock.calls).toEqual([
+        [{ name: 'u_step' }, step / 32, 0],
+        [{ name: 'u_step' }, 0, step / 18]
+      ])
+    })
+
+    it('skips the blur passes with blurMode css', () => {
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.resize(32, 18)
+      renderer.draw(readyVideo(), renderFrame({ blurRadius: 4 }))
+
+      expect(gl.drawArrays).toHaveBeenCalledTimes(2)
+      expect(gl.uniform2f).not.toHaveBeenCalled()
+    })
+
+    it('drops the CSS blur with blurMode canvas', () => {
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.updateStyles({ ...DEFAULT_OPTIONS, blurMode: 'canvas' })
+
+      expect(renderer.element.style.filter).toBe('none')
+    })
+
+    it('reports upload errors (e.g. tainted video)', () => {
+      const rendererCallbacks = callbacks()
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, rendererCallbacks)!
+      renderer.resize(32, 18)
+      gl.texImage2D.mockImplementation(() => {
+        throw new Error('SecurityError')
+      })
+
+      expect(renderer.draw(readyVideo(), renderFrame())).toBe(false)
+      expect(rendererCallbacks.onError).toHaveBeenCalledWith(
+        new Error('SecurityError')
+      )
+      expect(gl.drawArrays).not.toHaveBeenCalled()
+    })
+
+    it('reads the accumulated frame back', () => {
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.resize(32, 18)
+      expect(renderer.readPixels()).toBeNull()
+
+      renderer.draw(readyVideo(), renderFrame())
+      const pixels = renderer.readPixels()!
+
+      expect(pixels.data).toHaveLength(32 * 18 * 4)
+      expect(pixels.bottomUp).toBe(true)
+      expect(gl.readPixels).toHaveBeenCalledWith(
+        0,
+        0,
+        32,
+        18,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        expect.any(Uint8Array)
+      )
+      expect(gl.bindFramebuffer).toHaveBeenLastCalledWith(gl.FRAMEBUFFER, null)
+    })
+
+    it('clears the canvas and restarts blending on clear', () => {
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.resize(32, 18)
+      renderer.draw(readyVideo(), renderFrame())
+
+      renderer.clear()
+
+      expect(gl.clearColor).toHaveBeenCalledWith(0, 0, 0, 0)
+      expect(gl.clear).toHaveBeenCalledWith(gl.COLOR_BUFFER_BIT)
+      expect(renderer.readPixels()).toBeNull()
+    })
+
+    it('stops drawing after the context is lost', () => {
+      const rendererCallbacks = callbacks()
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, rendererCallbacks)!
+      renderer.resize(32, 18)
+
+      renderer.element.dispatchEvent(new Event('webglcontextlost'))
+
+      expect(rendererCallbacks.onError).toHaveBeenCalled()
+      expect(renderer.draw(readyVideo(), renderFrame())).toBe(false)
+    })
+
+    it('rebuilds everything when the context is restored', () => {
+      const onRestore = vi.fn()
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, {
+        ...callbacks(),
+        onRestore
+      })!
+      renderer.resize(32, 18)
+      renderer.element.dispatchEvent(new Event('webglcontextlost'))
+      gl.createProgram.mockClear()
+      gl.texImage2D.mockClear()
+
+      renderer.element.dispatchEvent(new Event('webglcontextrestored'))
+
+      expect(gl.createProgram).toHaveBeenCalledTimes(3)
+      // All four accumulation textures sized again
+      expect(gl.texImage2D).toHaveBeenCalledTimes(4)
+      expect(onRestore).toHaveBeenCalledTimes(1)
+      expect(renderer.draw(readyVideo(), renderFrame())).toBe(true)
+      // Starts fresh instead of blending into the lost frame
+      expect(uniformValues(gl, 'u_blendNew')).toEqual([1])
+    })
+
+    it('stays lost when the restored context fails to rebuild', () => {
+      const rendererCallbacks = callbacks()
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, rendererCallbacks)!
+      renderer.resize(32, 18)
+      renderer.element.dispatchEvent(new Event('webglcontextlost'))
+      gl.getProgramParameter.mockReturnValueOnce(false)
+
+      renderer.element.dispatchEvent(new Event('webglcontextrestored'))
+
+      expect(rendererCallbacks.onError).toHaveBeenCalledTimes(2)
+      expect(renderer.draw(readyVideo(), renderFrame())).toBe(false)
+    })
+
+    it('releases GPU resources on dispose', () => {
+      const renderer = createWebGLRenderer(DEFAULT_OPTIONS, callbacks())!
+      document.body.appendChild(renderer.element)
+      renderer.dispose()
+
+      expect(gl.deleteProgram).toHaveBeenCalledTimes(3)
+      expect(gl.deleteTexture).toHaveBeenCalledTimes(5)
+      expect(gl.deleteFramebuffer).toHaveBeenCalledTimes(4)
+      expect(gl.deleteBuffer).toHaveBeenCalledTimes(1)
+      expect(document.querySelector('canvas')).toBeNull()
+    })
+  })
+
+  describe('createRenderer', () => {
+    it('uses WebGL when requested and available', () => {
+      const options: NormalizedGlowOptions = {
+        ...DEFAULT_OPTIONS,
+        renderer: 'webgl'
+      }
+      expect(createRenderer(options, callbacks()).type).toBe('webgl')
+    })
+  })
+
+  describe('AmbientGlow with webgl', () => {
+    it('warns once that excludeRegions is ignored', () => {
+      const parent = document.createElement('div')
+      const video = document.createElement('video')
+      parent.appendChild(video)
+      document.body.appendChild(parent)
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn()
+      }
+      const logo = { x: 0.85, y: 0.05, width: 0.1, height: 0.1 }
+
+      const glow = new AmbientGlow(video, {
+        renderer: 'webgl',
+        excludeRegions: [logo],
+        logger
+      })
+      glow.updateOptions({ excludeRegions: () => [logo] })
+
+      expect(logger.warn).toHaveBeenCalledTimes(1)
+      expect(logger.warn).toHaveBeenCalledWith(
+        'AmbientGlow: The webgl renderer ignores excludeRegions',
+        expect.anything()
+      )
+      expect(glow.getDebugInfo().excludeRegions).toEqual([])
+      glow.destroy()
+    })
+
+    it('warns that sceneCutThreshold is ignored', () => {
+      const parent = document.createElement('div')
+      const video = document.createElement('video')
+      parent.appendChild(video)
+      document.body.appendChild(parent)
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn()
+      }
+
+      const glow = new AmbientGlow(video, { renderer: 'webgl', logger })
+      expect(logger.warn).not.toHaveBeenCalled()
+      glow.updateOptions({ sceneCutThreshold: 0.25 })
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'AmbientGlow: The webgl renderer ignores sceneCutThreshold',
+        expect.anything()
+      )
+      glow.destroy()
+    })
+  })
+})
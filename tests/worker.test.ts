@@ -0,0 +1,671 @@
+/**
+ * Unit tests for worker rendering.
+ *
+ * @module lib/worker
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  supportsWorkerRendering,
+  glowWorkerMain,
+  createWorkerRenderer,
+  type GlowWorkerRequest,
+  type GlowWorkerResponse,
+  type GlowWorkerScope
+} from '../src/lib/worker'
+import {
+  accumulateFrame,
+  createFrameBuffer,
+  fillExcludedRect,
+  getFrameDifference,
+  sampleEdges,
+  writeAccumulator
+} from '../src/lib/frameProcessor'
+import { blurImageData } from '../src/lib/blur'
+import { filterImageData } from '../src/lib/color'
+import { DEFAULT_OPTIONS } from '../src/constants'
+import type { RenderFrame } from '../src/lib/glowRenderer'
+
+/**
+ * Minimal Worker stand-in that records posted messages.
+ */
+class MockWorker {
+  static instances: MockWorker[] = []
+  onmessage: ((event: MessageEvent<GlowWorkerResponse>) => void) | null = null
+  messages: { message: GlowWorkerRequest; transfer: Transferable[] }[] = []
+  terminate = vi.fn()
+
+  constructor(public url: string) {
+    MockWorker.instances.push(this)
+  }
+
+  postMessage(message: GlowWorkerRequest, transfer: Transferable[] = []) {
+    this.messages.push({ message, transfer })
+  }
+
+  respond(message: GlowWorkerResponse) {
+    this.onmessage?.({ data: message } as MessageEvent<GlowWorkerResponse>)
+  }
+}
+
+/**
+ * OffscreenCanvas stand-in backed by the mocked 2D context from setup.ts.
+ */
+class MockOffscreenCanvas {
+  private readonly canvas: HTMLCanvasElement
+
+  constructor(width: number, height: number) {
+    this.canvas = document.createElement('canvas')
+    this.canvas.width = width
+    this.canvas.height = height
+  }
+
+  getContext() {
+    return this.canvas.getContext('2d')
+  }
+}
+
+const stubWorkerGlobals = () => {
+  MockWorker.instances = []
+  const bitmap = { close: vi.fn() }
+  const createImageBitmapMock = vi.fn(() => Promise.resolve(bitmap))
+  vi.stubGlobal('Worker', MockWorker)
+  vi.stubGlobal('OffscreenCanvas', MockOffscreenCanvas)
+  vi.stubGlobal('createImageBitmap', createImageBitmapMock)
+  vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:glow-worker')
+  const revokeSpy = vi
+    .spyOn(URL, 'revokeObjectURL')
+    .mockImplementation(() => {})
+  return { bitmap, createImageBitmapMock, revokeSpy }
+}
+
+const mockTransferControl = () => {
+  const offscreen = { transferred: true }
+  const transferSpy = vi
+    .spyOn(HTMLCanvasElement.prototype, 'transferControlToOffscreen')
+    .mockReturnValue(offscreen as unknown as OffscreenCanvas)
+  return { offscreen, transferSpy }
+}
+
+const renderFrame = (overrides: Partial<RenderFrame> = {}): RenderFrame => ({
+  options: { ...DEFAULT_OPTIONS, smoothingMs: 100 },
+  elapsedMs: 100,
+  reset: false,
+  blurRadius: 0,
+  source: null,
+  ...overrides
+})
+
+const readyVideo = () => {
+  const video = document.createElement('video')
+  Object.defineProperty(video, 'readyState', {
+    value: 2,
+    configurable: true
+  })
+  return video
+}
+
+describe('worker utilities', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+    document.body.innerHTML = ''
+  })
+
+  describe('supportsWorkerRendering', () => {
+    it('returns false when Worker or OffscreenCanvas is missing', () => {
+      vi.stubGlobal('Worker', undefined)
+      vi.stubGlobal('OffscreenCanvas', undefined)
+      expect(supportsWorkerRendering(document.createElement('canvas'))).toBe(
+        false
+      )
+    })
+
+    it('returns true when all APIs are available', () => {
+      stubWorkerGlobals()
+      mockTransferControl()
+      expect(supportsWorkerRendering(document.createElement('canvas'))).toBe(
+        true
+      )
+    })
+  })
+
+  describe('glowWorkerMain', () => {
+    let scope: GlowWorkerScope & { posted: GlowWorkerResponse[] }
+    let glowCanvas: MockOffscreenCanvas
+    let blur: ReturnType<typeof vi.fn<typeof blurImageData>>
+    let filter: ReturnType<typeof vi.fn<typeof filterImageData>>
+    let edges: ReturnType<typeof vi.fn<typeof sampleEdges>>
+    let exclude: ReturnType<typeof vi.fn<typeof fillExcludedRect>>
+
+    const send = (message: GlowWorkerRequest) =>
+      scope.onmessage?.({ data: message } as MessageEvent<GlowWorkerRequest>)
+
+    const frame = (overrides: Partial<GlowWorkerRequest> = {}) =>
+      ({
+        type: 'frame',
+        bitmap: { close: vi.fn() } as unknown as ImageBitmap,
+        blendOld: 0.5,
+        blendNew: 0.5,
+        sceneCutThreshold: 0,
+        reset: false,
+        baked: null,
+        edges: null,
+        exclusions: [],
+        ...overrides
+      }) as GlowWorkerRequest
+
+    const startWorker = () => {
+      const fresh: GlowWorkerScope & { posted: GlowWorkerResponse[] } = {
+        onmessage: null,
+        posted: [],
+        postMessage(message) {
+          this.posted.push(message)
+        }
+      }
+      glowWorkerMain(fresh, {
+        createBuffer: createFrameBuffer,
+        accumulate: accumulateFrame,
+        write: writeAccumulator,
+        difference: getFrameDifference,
+        blur: blurImageData,
+        filter: filterImageData,
+        edges: sampleEdges,
+        exclude: fillExcludedRect
+      })
+      return {
+        posted: fresh.posted,
+        send: (message: GlowWorkerRequest) =>
+          fresh.onmessage?.({
+            data: message
+          } as MessageEvent<GlowWorkerRequest>)
+      }
+    }
+
+    beforeEach(() => {
+      vi.stubGlobal('OffscreenCanvas', MockOffscreenCanvas)
+      scope = {
+        onmessage: null,
+        posted: [],
+        postMessage(message) {
+          this.posted.push(message)
+        }
+      }
+      glowCanvas = new MockOffscreenCanvas(1, 1)
+      blur = vi.fn(blurImageData)
+      filter = vi.fn(filterImageData)
+      edges = vi.fn(sampleEdges)
+      exclude = vi.fn(fillExcludedRect)
+      glowWorkerMain(scope, {
+        createBuffer: createFrameBuffer,
+        accumulate: accumulateFrame,
+        write: writeAccumulator,
+        difference: getFrameDifference,
+        blur,
+        filter,
+        edges,
+        exclude
+      })
+      send({
+        type: 'init',
+        canvas: glowCanvas as unknown as OffscreenCanvas
+      })
+      send({
+        type: 'resize',
+        width: 10,
+        height: 6,
+        padding: 0,
+        precision: 'uint8'
+      })
+    })
+
+    it('draws and acknowledges each frame', () => {
+      const message = frame()
+      send(message)
+
+      expect(scope.posted).toEqual([{ type: 'drawn' }])
+      expect(
+        (message as { bitmap: ImageBitmap }).bitmap.close
+      ).toHaveBeenCalled()
+    })
+
+    it('bakes filters in JS when ctx.filter is unsupported', () => {
+      const baked = {
+        filter: 'blur(2px)',
+        radii: [1, 1, 1],
+        brightness: 1.2,
+        matrix: [1, 0, 0, 0, 1, 0, 0, 0, 1]
+      }
+      send(frame({ baked } as Partial<GlowWorkerRequest>))
+
+      expect(blur).toHaveBeenCalledWith(
+        expect.anything(),
+        baked.radii,
+        expect.any(Float32Array),
+        false
+      )
+      expect(filter).toHaveBeenCalledWith(
+        expect.anything(),
+        baked.brightness,
+        baked.matrix
+      )
+      expect(scope.posted).toEqual([{ type: 'drawn' }])
+    })
+
+    it('reuses its buffers between frames', () => {
+      const ctx = glowCanvas.getContext()!
+      const putImageData = vi.mocked(ctx.putImageData)
+      putImageData.mockClear()
+
+      send(frame())
+      send(frame())
+      send(frame())
+
+      const outputs = new Set(putImageData.mock.calls.map(([image]) => image))
+      expect(outputs.size).toBe(1)
+    })
+
+    it('skips baking by default', () => {
+      send(frame())
+      expect(blur).not.toHaveBeenCalled()
+      expect(filter).not.toHaveBeenCalled()
+      expect(edges).not.toHaveBeenCalled()
+    })
+
+    it('samples edge bands before the blur', () => {
+      const baked = {
+        filter: 'blur(2px)',
+        radii: [1, 1, 1],
+        brightness: 1,
+        matrix: [1, 0, 0, 0, 1, 0, 0, 0, 1]
+      }
+      send(
+        frame({
+          baked,
+          edges: { depth: 0.2, falloff: 1 }
+        } as Partial<GlowWorkerRequest>)
+      )
+
+      expect(edges).toHaveBeenCalledWith(
+        expect.anything(),
+        0.2,
+        1,
+        expect.any(Float32Array)
+      )
+      expect(edges.mock.invocationCallOrder[0]).toBeLessThan(
+        blur.mock.invocationCallOrder[0]
+      )
+    })
+
+    it('fills excluded rects before the blur', () => {
+      const baked = {
+        filter: 'blur(2px)',
+        radii: [1, 1, 1],
+        brightness: 1,
+        matrix: [1, 0, 0, 0, 1, 0, 0, 0, 1]
+      }
+      const rect = { x: 2, y: 1, width: 3, height: 2 }
+      send(frame({ baked, exclusions: [rect] } as Partial<GlowWorkerRequest>))
+
+      expect(exclude).toHaveBeenCalledWith(expect.anything(), rect)
+      expect(exclude.mock.invocationCallOrder[0]).toBeLessThan(
+        blur.mock.invocationCallOrder[0]
+      )
+    })
+
+    it('reports errors instead of throwing', () => {
+      const ctx = glowCanvas.getContext()!
+      vi.spyOn(ctx, 'putImageData').mockImplementation(() => {
+        throw Object.assign(new Error('The operation is insecure.'), {
+          name: 'SecurityError'
+        })
+      })
+
+      send(frame())
+
+      expect(scope.posted).toEqual([
+        {
+          type: 'error',
+          message: 'SecurityError: The operation is insecure.',
+          name: 'SecurityError'
+        }
+      ])
+    })
+
+    it('samples through a new canvas once renewed', () => {
+      const created: MockOffscreenCanvas[] = []
+      vi.stubGlobal(
+        'OffscreenCanvas',
+        vi.fn(function (width: number, height: number) {
+          const canvas = new MockOffscreenCanvas(width, height)
+          vi.spyOn(canvas, 'getContext')
+          created.push(canvas)
+          return canvas
+        })
+      )
+      const drawImage = vi.mocked(glowCanvas.getContext()!.drawImage)
+
+      send({ type: 'renew' })
+      send(frame())
+
+      expect(OffscreenCanvas).toHaveBeenCalledWith(10, 6)
+      const ctx = drawImage.mock.contexts.at(-1) as CanvasRenderingContext2D
+      expect(created).toHaveLength(1)
+      expect(ctx).toBe(vi.mocked(created[0].getContext).mock.results[0].value)
+    })
+
+    it('clears the glow on request', () => {
+      const ctx = glowCanvas.getContext()!
+      const clearRect = vi.mocked(ctx.clearRect)
+      clearRect.mockClear()
+
+      send(frame())
+      send({ type: 'clear' })
+
+      expect(clearRect).toHaveBeenCalledWith(0, 0, 10, 6)
+    })
+
+    it('reports frames it cannot draw', () => {
+      const { posted, send } = startWorker()
+      const bitmap = { close: vi.fn() } as unknown as ImageBitmap
+
+      // Before init, and with no 2D context
+      send(frame({ bitmap }))
+      const canvas = new MockOffscreenCanvas(1, 1)
+      vi.spyOn(canvas, 'getContext').mockReturnValue(null)
+      send({ type: 'init', canvas: canvas as unknown as OffscreenCanvas })
+      send(frame())
+
+      expect(posted).toEqual([
+        {
+          type: 'error',
+          message: 'Error: AmbientGlow: 2D context unavailable in the worker',
+          name: 'Error'
+        },
+        {
+          type: 'error',
+          message: 'Error: AmbientGlow: 2D context unavailable in the worker',
+          name: 'Error'
+        }
+      ])
+      expect(bitmap.close).toHaveBeenCalled()
+    })
+
+    it('reports frames sent before a resize', () => {
+      const { posted, send } = startWorker()
+      send({
+        type: 'init',
+        canvas: new MockOffscreenCanvas(1, 1) as unknown as OffscreenCanvas
+      })
+      send(frame())
+
+      expect(posted).toEqual([
+        {
+          type: 'error',
+          message: 'Error: AmbientGlow: Worker frame before resize',
+          name: 'Error'
+        }
+      ])
+    })
+  })
+
+  describe('createWorkerRenderer', () => {
+    const callbacks = () => ({ onSceneChange: vi.fn(), onError: vi.fn() })
+
+    it('returns null when worker rendering is unsupported', () => {
+      vi.stubGlobal('Worker', undefined)
+      expect(createWorkerRenderer(DEFAULT_OPTIONS, callbacks())).toBeNull()
+    })
+
+    it('transfers the canvas to the worker', () => {
+      stubWorkerGlobals()
+      const { offscreen, transferSpy } = mockTransferControl()
+
+      const renderer = createWorkerRenderer(DEFAULT_OPTIONS, callbacks())!
+
+      const worker = MockWorker.instances[0]
+      expect(renderer.type).toBe('canvas2d')
+      expect(transferSpy).toHaveBeenCalledTimes(1)
+      expect(worker.url).toBe('blob:glow-worker')
+      expect(worker.messages[0]).toEqual({
+        message: { type: 'init', canvas: offscreen },
+        transfer: [offscreen]
+      })
+    })
+
+    it('crops bitmaps to the visible source rect', () => {
+      const { createImageBitmapMock } = stubWorkerGlobals()
+      mockTransferControl()
+      const video = readyVideo()
+
+      const renderer = createWorkerRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.resize(20, 12)
+      renderer.draw(
+        video,
+        renderFrame({ source: { x: 10, y: 0, width: 300, height: 180 } })
+      )
+
+      expect(createImageBitmapMock).toHaveBeenCalledWith(
+        video,
+        10,
+        0,
+        300,
+        180,
+        {
+          resizeWidth: 20,
+          resizeHeight: 12,
+          resizeQuality: 'low'
+        }
+      )
+    })
+
+    it('sends downscaled bitmaps with blend weights', async () => {
+      const { bitmap, createImageBitmapMock } = stubWorkerGlobals()
+      mockTransferControl()
+      const video = readyVideo()
+
+      const renderer = createWorkerRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.resize(20, 12)
+      expect(renderer.draw(video, renderFrame())).toBe(true)
+      // Busy until the worker acknowledges the frame
+      expect(renderer.draw(video, renderFrame())).toBe(false)
+      await Promise.resolve()
+
+      expect(createImageBitmapMock).toHaveBeenCalledWith(video, {
+        resizeWidth: 20,
+        resizeHeight: 12,
+        resizeQuality: 'low'
+      })
+      const worker = MockWorker.instances[0]
+      expect(worker.messages[1].message).toEqual({
+        type: 'resize',
+        width: 20,
+        height: 12,
+        padding: 0,
+        precision: 'uint8'
+      })
+      expect(worker.messages[2]).toEqual({
+        message: {
+          type: 'frame',
+          bitmap,
+          blendOld: Math.exp(-1),
+          blendNew: 1 - Math.exp(-1),
+          sceneCutThreshold: 0,
+          reset: false,
+          baked: null,
+          edges: null,
+          exclusions: []
+        },
+        transfer: [bitmap]
+      })
+
+      worker.respond({ type: 'drawn' })
+      expect(renderer.draw(video, renderFrame())).toBe(true)
+    })
+
+    it('crops to sampleRegion and sends the excluded rects', async () => {
+      const { createImageBitmapMock } = stubWorkerGlobals()
+      mockTransferControl()
+      const video = readyVideo()
+      Object.defineProperty(video, 'videoWidth', { value: 400 })
+      Object.defineProperty(video, 'videoHeight', { value: 240 })
+
+      const renderer = createWorkerRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.resize(20, 12)
+      renderer.draw(
+        video,
+        renderFrame({
+          options: {
+            ...DEFAULT_OPTIONS,
+            sampleRegion: { x: 0, y: 0, width: 0.5, height: 1 },
+            excludeRegions: [{ x: 0, y: 0.5, width: 0.25, height: 0.5 }]
+          }
+        })
+      )
+      await Promise.resolve()
+
+      expect(createImageBitmapMock).toHaveBeenCalledWith(
+        video,
+        0,
+        0,
+        200,
+        240,
+        expect.objectContaining({ resizeWidth: 20, resizeHeight: 12 })
+      )
+      const { message } = MockWorker.instances[0].messages[2]
+      expect(message).toMatchObject({
+        exclusions: [{ x: 0, y: 6, width: 10, height: 6 }]
+      })
+    })
+
+    it('sends edge settings with sampling: edges', async () => {
+      stubWorkerGlobals()
+      mockTransferControl()
+      const renderer = createWorkerRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.resize(20, 12)
+      renderer.draw(
+        readyVideo(),
+        renderFrame({
+          options: {
+            ...DEFAULT_OPTIONS,
+            smoothingMs: 100,
+            sampling: 'edges',
+            edgeDepth: 0.8,
+            edgeFalloff: 2
+          }
+        })
+      )
+      await Promise.resolve()
+
+      const { message } = MockWorker.instances[0].messages[2]
+      expect(message).toMatchObject({ edges: { depth: 0.5, falloff: 2 } })
+    })
+
+    it('reallocates worker buffers when the precision changes', () => {
+      stubWorkerGlobals()
+      mockTransferControl()
+
+      const renderer = createWorkerRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.resize(20, 12)
+      renderer.draw(
+        readyVideo(),
+        renderFrame({
+          options: { ...DEFAULT_OPTIONS, blendPrecision: 'float32' }
+        })
+      )
+
+      const worker = MockWorker.instances[0]
+      expect(worker.messages[2].message).toEqual({
+        type: 'resize',
+        width: 20,
+        height: 12,
+        padding: 0,
+        precision: 'float32'
+      })
+    })
+
+    it('does not draw before the video has a frame', () => {
+      stubWorkerGlobals()
+      mockTransferControl()
+
+      const renderer = createWorkerRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.resize(20, 12)
+
+      expect(
+        renderer.draw(document.createElement('video'), renderFrame())
+      ).toBe(false)
+    })
+
+    it('has no pixels to read on the main thread', () => {
+      stubWorkerGlobals()
+      mockTransferControl()
+
+      const renderer = createWorkerRenderer(DEFAULT_OPTIONS, callbacks())!
+      expect(renderer.readPixels()).toBeNull()
+    })
+
+    it('asks the worker to clear the glow', () => {
+      stubWorkerGlobals()
+      mockTransferControl()
+
+      const renderer = createWorkerRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.clear()
+
+      expect(MockWorker.instances[0].messages.at(-1)?.message).toEqual({
+        type: 'clear'
+      })
+    })
+
+    it('keeps a reset requested while a frame is in flight', async () => {
+      stubWorkerGlobals()
+      mockTransferControl()
+      const video = readyVideo()
+
+      const renderer = createWorkerRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.resize(20, 12)
+      renderer.draw(video, renderFrame())
+      renderer.draw(video, renderFrame({ reset: true })) // Dropped, but remembered
+      await Promise.resolve()
+
+      const worker = MockWorker.instances[0]
+      worker.respond({ type: 'drawn' })
+      renderer.draw(video, renderFrame())
+      await Promise.resolve()
+
+      const frames = worker.messages.filter(m => m.message.type === 'frame')
+      expect(frames).toHaveLength(2)
+      expect(frames[1].message).toMatchObject({ reset: true })
+    })
+
+    it('forwards scene changes and errors', () => {
+      stubWorkerGlobals()
+      mockTransferControl()
+      const rendererCallbacks = callbacks()
+
+      createWorkerRenderer(DEFAULT_OPTIONS, rendererCallbacks)
+      const worker = MockWorker.instances[0]
+      worker.respond({ type: 'scenechange', difference: 0.6 })
+      worker.respond({
+        type: 'error',
+        message: 'tainted',
+        name: 'SecurityError'
+      })
+
+      expect(rendererCallbacks.onSceneChange).toHaveBeenCalledWith(0.6)
+      expect(rendererCallbacks.onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'tainted', name: 'SecurityError' })
+      )
+    })
+
+    it('terminates the worker and revokes the script URL on dispose', () => {
+      const { revokeSpy } = stubWorkerGlobals()
+      mockTransferControl()
+
+      const renderer = createWorkerRenderer(DEFAULT_OPTIONS, callbacks())!
+      renderer.dispose()
+
+      expect(MockWorker.instances[0].terminate).toHaveBeenCalled()
+      expect(revokeSpy).toHaveBeenCalledWith('blob:glow-worker')
+    })
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for ambient zones.
+ *
+ * @module lib/zones
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  normalizeZoneOptions,
+  getZoneRects,
+  toZoneColors,
+  createZoneSampler
+} from '../src/lib/zones'
+import { DEFAULT_OPTIONS } from '../src/constants'
+import type { NormalizedGlowOptions } from '../src/types'
+
+describe('zones utilities', () => {
+  describe('normalizeZoneOptions', () => {
+    it('fills in the defaults', () => {
+      expect(normalizeZoneOptions({})).toEqual({
+        top: 12,
+        right: 8,
+        bottom: 12,
+        left: 8,
+        depth: 0.15
+      })
+    })
+
+    it('clamps counts and depth', () => {
+      expect(
+        normalizeZoneOptions({ top: 3.7, bottom: -2, depth: 0.9 })
+      ).toMatchObject({ top: 3, bottom: 0, depth: 0.5 })
+    })
+  })
+
+  describe('getZoneRects', () => {
+    const zones = { top: 2, right: 1, bottom: 2, left: 1, depth: 0.25 }
+
+    it('lays zones out clockwise from the top-left corner', () => {
+      expect(getZoneRects(100, 40, zones)).toEqual([
+        { x: 0, y: 0, width: 50, height: 10 },
+        { x: 50, y: 0, width: 50, height: 10 },
+        { x: 75, y: 0, width: 25, height: 40 },
+        { x: 50, y: 30, width: 50, height: 10 },
+        { x: 0, y: 30, width: 50, height: 10 },
+        { x: 0, y: 0, width: 25, height: 40 }
+      ])
+    })
+
+    it('skips sides with no zones', () => {
+      const rects = getZoneRects(100, 40, { ...zones, right: 0, left: 0 })
+      expect(rects).toHaveLength(4)
+    })
+  })
+
+  describe('toZoneColors', () => {
+    it('rounds packed RGB into colors', () => {
+      expect(toZoneColors(new Float32Array([1.4, 2.6, 255, 0, 0, 0]))).toEqual([
+        [1, 3, 255],
+        [0, 0, 0]
+      ])
+    })
+  })
+
+  describe('createZoneSampler', () => {
+    let video: HTMLVideoElement
+    let getImageData: ReturnType<typeof vi.fn>
+    let original: ((...args: number[]) => ImageData) | undefined
+    let gray: number
+
+    const options = (
+      overrides: Partial<NormalizedGlowOptions> = {}
+    ): NormalizedGlowOptions => ({
+      ...DEFAULT_OPTIONS,
+      smoothingMs: 100,
+      zones: normalizeZoneOptions({ top: 2, right: 1, bottom: 2, left: 1 }),
+      ...overrides
+    })
+
+    beforeEach(() => {
+      video = document.createElement('video')
+      Object.defineProperty(video, 'videoWidth', { value: 1280 })
+      Object.defineProperty(video, 'videoHeight', { value: 720 })
+      gray = 200
+      const ctx = document.createElement('canvas').getContext('2d')
+      getImageData = ctx?.getImageData as unknown as ReturnType<typeof vi.fn>
+      original = getImageData.getMockImplementation()
+      getImageData.mockImplementation(
+        (_x: number, _y: number, w: number, h: number) =>
+          ({
+            data: new Uint8ClampedArray(w * h * 4).fill(gray),
+            width: w,
+            height: h
+          }) as ImageData
+      )
+    })
+
+    afterEach(() => {
+      getImageData.mockImplementation(
+        original as (...args: number[]) => ImageData
+      )
+    })
+
+    it('returns null with zones off', () => {
+      const sampler = createZoneSampler()
+      expect(
+        sampler.sample(video, null, options({ zones: null }), 100, false)
+      ).toBeNull()
+    })
+
+    it('averages every zone', () => {
+      const sampler = createZoneSampler()
+      const colors = sampler.sample(video, null, options(), 100, false)
+      expect(colors).toHaveLength(6 * 3)
+      expect(Array.from(colors!)).toEqual(new Array(18).fill(200))
+    })
+
+    it('smooths with the glow smoothing', () => {
+      const sampler = createZoneSampler()
+      sampler.sample(video, null, options(), 100, false)
+
+      gray = 0
+      const colors = sampler.sample(video, null, options(), 100, false)
+      // One time constant - exp(-1) of the old color is left
+      expect(colors![0]).toBeCloseTo(200 * Math.exp(-1), 3)
+    })
+
+    it('snaps on reset and after a layout change', () => {
+      const sampler = createZoneSampler()
+      sampler.sample(video, null, options(), 100, false)
+
+      gray = 0
+      expect(sampler.sample(video, null, options(), 100, true)![0]).toBe(0)
+
+      gray = 100
+      const relaid = options({
+        zones: normalizeZoneOptions({ top: 4, right: 0, bottom: 0, left: 0 })
+      })
+      const colors = sampler.sample(video, null, relaid, 100, false)
+      expect(colors).toHaveLength(4 * 3)
+      expect(colors![0]).toBe(100)
+    })
+
+    it('samples the rect the glow samples', () => {
+      const sampler = createZoneSampler()
+      const drawImage = vi.mocked(
+        document.createElement('canvas').getContext('2d')!.drawImage
+      )
+      const source = { x: 0, y: 90, width: 1280, height: 540 }
+      sampler.sample(video, source, options(), 100, false)
+      expect(drawImage).toHaveBeenLastCalledWith(
+        video,
+        0,
+        90,
+        1280,
+        540,
+        0,
+        0,
+        64,
+        27
+      )
+    })
+  })
+})